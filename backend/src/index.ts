@@ -11,7 +11,20 @@ import googleDriveRoutes from "./routes/googleDriveRoutes";
 import debugRoutes from "./routes/debugRoutes";
 import testFirestoreRoutes from "./routes/testFirestoreRoutes";
 import authRoutes from "./routes/authRoutes";
+import scheduleRoutes from "./routes/scheduleRoutes";
+import jobRoutes from "./routes/jobRoutes";
+import channelRoutes from "./routes/channelRoutes";
+import videoInboxRoutes from "./routes/videoInboxRoutes";
+import providerRoutes from "./routes/providerRoutes";
+import storageRoutes from "./routes/storageRoutes";
 import { processAutoSendTick } from "./services/autoSendScheduler";
+import { startJobWorker, stopJobWorker } from "./services/jobWorker";
+import {
+  startTelegramLoginSweeper,
+  stopTelegramLoginSweeper
+} from "./services/telegramLoginSweeper";
+import { startSyntxListeners, stopSyntxListeners } from "./telegram/syntxListener";
+import { shutdownTelegramClientPool, startTelegramClientPool } from "./telegram/clientPool";
 import { Logger } from "./utils/logger";
 import { getFirestoreInfo, isFirestoreAvailable } from "./services/firebaseAdmin";
 
@@ -34,12 +47,18 @@ app.use("/api/google-drive", googleDriveRoutes);
 app.use("/api/debug", debugRoutes);
 app.use("/api/test", testFirestoreRoutes);
 app.use("/api/auth", authRoutes);
+app.use("/api/schedule", scheduleRoutes);
+app.use("/api/jobs", jobRoutes);
+app.use("/api/channels", channelRoutes);
+app.use("/api/videos", videoInboxRoutes);
+app.use("/api/providers", providerRoutes);
+app.use("/api/storage", storageRoutes);
 
 app.get("/health", (_req, res) => {
   res.json({ ok: true });
 });
 
-app.listen(port, () => {
+const server = app.listen(port, () => {
   // eslint-disable-next-line no-console
   console.log(`Backend listening on port ${port}`);
   
@@ -55,6 +74,23 @@ app.listen(port, () => {
       FIREBASE_SERVICE_ACCOUNT: process.env.FIREBASE_SERVICE_ACCOUNT ? "set" : "not set"
     }
   });
+
+  // Воркер очереди задач (автоскачивание видео в Google Drive).
+  // Задачи хранятся в Firestore, поэтому после перезапуска просроченные задачи подхватываются сразу.
+  if (process.env.ENABLE_JOB_WORKER !== "false") {
+    startJobWorker();
+  } else {
+    Logger.info("Job worker disabled: pending jobs will be processed by other instances");
+  }
+
+  // Общий пул Telegram-клиентов: соединения переиспользуются между операциями
+  startTelegramClientPool();
+
+  // Слушатель чата SyntX: видео скачивается сразу после прихода, а не по таймауту
+  void startSyntxListeners();
+
+  // Очистка брошенных входов в Telegram (истёкшие коды и их временные клиенты)
+  startTelegramLoginSweeper();
 });
 
 // Запускаем планировщик автоотправки каждую минуту
@@ -64,7 +100,7 @@ if (process.env.ENABLE_CRON_SCHEDULER !== "false") {
   cron.schedule("* * * * *", async () => {
     Logger.info("Cron scheduler: running auto-send tick");
     try {
-      await processAutoSendTick();
+      await processAutoSendTick("cron");
     } catch (error) {
       Logger.error("Cron scheduler: error in auto-send tick", error);
     }
@@ -74,4 +110,24 @@ if (process.env.ENABLE_CRON_SCHEDULER !== "false") {
   Logger.info("Cron scheduler disabled: use /api/cron/manual-tick with Cloud Scheduler");
 }
 
+// Корректная остановка: прекращаем приём задач и закрываем Telegram-соединения
+let shuttingDown = false;
+async function shutdown(signal: string) {
+  if (shuttingDown) {
+    return;
+  }
+  shuttingDown = true;
+  Logger.info("Backend shutdown: stopping background workers", { signal });
+
+  stopJobWorker();
+  stopTelegramLoginSweeper();
+  stopSyntxListeners();
+  await shutdownTelegramClientPool();
+
+  server.close(() => {
+    process.exit(0);
+  });
+}
 
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+process.on("SIGINT", () => void shutdown("SIGINT"));
@@ -0,0 +1,90 @@
+import { Logger } from "../utils/logger";
+import { syntxProvider, SYNTX_PROVIDER_ID } from "./syntxProvider";
+import { createTelegramBotProvider, type TelegramBotProviderConfig } from "./telegramBotProvider";
+import type { GenerationProvider, GenerationProviderInfo } from "./types";
+
+export const DEFAULT_PROVIDER_ID = SYNTX_PROVIDER_ID;
+
+/**
+ * Дополнительные боты из GENERATION_PROVIDERS (JSON-массив TelegramBotProviderConfig)
+ */
+function loadConfiguredProviders(): GenerationProvider[] {
+  const raw = process.env.GENERATION_PROVIDERS?.trim();
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    const configs = JSON.parse(raw) as TelegramBotProviderConfig[];
+    if (!Array.isArray(configs)) {
+      throw new Error("GENERATION_PROVIDERS must be a JSON array");
+    }
+    return configs
+      .filter((config) => config?.id && config.chatId && config.id !== SYNTX_PROVIDER_ID)
+      .map(createTelegramBotProvider);
+  } catch (error) {
+    Logger.error("providers: failed to parse GENERATION_PROVIDERS", {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return [];
+  }
+}
+
+const providers = new Map<string, GenerationProvider>(
+  [syntxProvider, ...loadConfiguredProviders()].map((provider) => [provider.id, provider])
+);
+
+/**
+ * Возвращает провайдера по ID. Пустой ID — провайдер по умолчанию (SyntX),
+ * чтобы каналы, созданные до появления выбора, продолжали работать.
+ * Неизвестный ID — ошибка: промпт не должен молча уйти другому боту.
+ */
+export function getGenerationProvider(providerId?: string | null): GenerationProvider {
+  if (!providerId) {
+    return providers.get(DEFAULT_PROVIDER_ID)!;
+  }
+  const provider = providers.get(providerId);
+  if (!provider) {
+    Logger.warn("providers: unknown provider", { providerId });
+    throw new Error(
+      `GENERATION_PROVIDER_NOT_CONFIGURED: Бот «${providerId}» не зарегистрирован на сервере`
+    );
+  }
+  return provider;
+}
+
+/**
+ * Все зарегистрированные провайдеры
+ */
+export function getGenerationProviders(): GenerationProvider[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Провайдеры, у которых на сервере задан чат
+ */
+export function getConfiguredGenerationProviders(): GenerationProvider[] {
+  return getGenerationProviders().filter((provider) => !!provider.chatId);
+}
+
+/**
+ * Список провайдеров для выбора в настройках канала
+ */
+export function listGenerationProviders(): GenerationProviderInfo[] {
+  return getGenerationProviders().map((provider) => ({
+    id: provider.id,
+    name: provider.name,
+    description: provider.description,
+    configured: !!provider.chatId,
+    isDefault: provider.id === DEFAULT_PROVIDER_ID
+  }));
+}
+
+/**
+ * Провайдер, выбранный в настройках канала
+ */
+export function getChannelGenerationProvider(channelData: {
+  generationProviderId?: string | null;
+} | undefined): GenerationProvider {
+  return getGenerationProvider(channelData?.generationProviderId);
+}
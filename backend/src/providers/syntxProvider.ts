@@ -0,0 +1,19 @@
+import { isTelegramVideoMessage } from "../utils/telegramDownload";
+import { parseSyntxReply } from "../utils/syntxReplyParser";
+import type { GenerationProvider } from "./types";
+
+export const SYNTX_PROVIDER_ID = "syntx";
+
+/**
+ * SyntX — провайдер по умолчанию: промпт отправляется как есть,
+ * видео приходит видеосообщением или документом
+ */
+export const syntxProvider: GenerationProvider = {
+  id: SYNTX_PROVIDER_ID,
+  name: "SyntX",
+  description: "Telegram-бот SyntX (чат из SYNX_CHAT_ID)",
+  chatId: process.env.SYNX_CHAT_ID,
+  formatPrompt: (prompt) => prompt,
+  isVideoMessage: isTelegramVideoMessage,
+  parseReply: parseSyntxReply
+};
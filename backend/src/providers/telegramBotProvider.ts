@@ -0,0 +1,42 @@
+import { isTelegramVideoMessage } from "../utils/telegramDownload";
+import { parseSyntxReply } from "../utils/syntxReplyParser";
+import type { GenerationProvider } from "./types";
+
+/**
+ * Настройки дополнительного бота из GENERATION_PROVIDERS
+ */
+export interface TelegramBotProviderConfig {
+  id: string;
+  name?: string;
+  description?: string;
+  chatId: string;
+  // Текст до и после промпта (например, команда бота "/video ")
+  promptPrefix?: string;
+  promptSuffix?: string;
+  // false — считать видео только нативные видеосообщения, без документов
+  acceptVideoDocuments?: boolean;
+}
+
+/**
+ * Провайдер для произвольного Telegram-бота, описанного в конфигурации.
+ * Ответы разбираются теми же правилами, что и у SyntX.
+ */
+export function createTelegramBotProvider(config: TelegramBotProviderConfig): GenerationProvider {
+  const prefix = config.promptPrefix ?? "";
+  const suffix = config.promptSuffix ?? "";
+
+  return {
+    id: config.id,
+    name: config.name || config.id,
+    description: config.description,
+    chatId: config.chatId,
+    formatPrompt: (prompt) => `${prefix}${prompt}${suffix}`,
+    isVideoMessage: (message) => {
+      if (config.acceptVideoDocuments === false) {
+        return !!(message as any).video;
+      }
+      return isTelegramVideoMessage(message);
+    },
+    parseReply: parseSyntxReply
+  };
+}
@@ -0,0 +1,37 @@
+import type { Api } from "telegram";
+import type { SyntxReply } from "../utils/syntxReplyParser";
+
+/**
+ * Бот (или чат) в Telegram, который по промпту генерирует видео.
+ * Каждый провайдер задаёт свой чат, форматирование промпта и правила распознавания ответов.
+ */
+export interface GenerationProvider {
+  id: string;
+  name: string;
+  description?: string;
+  // Username или ID чата с ботом; undefined — провайдер не настроен на сервере
+  chatId: string | undefined;
+  /**
+   * Текст сообщения, которое уходит боту
+   */
+  formatPrompt(prompt: string): string;
+  /**
+   * Является ли сообщение бота готовым видео
+   */
+  isVideoMessage(message: Api.Message): boolean;
+  /**
+   * Разбирает текстовый ответ бота (очередь, ошибка, нехватка баланса)
+   */
+  parseReply(text: string | null | undefined): SyntxReply | null;
+}
+
+/**
+ * Описание провайдера для интерфейса
+ */
+export interface GenerationProviderInfo {
+  id: string;
+  name: string;
+  description?: string;
+  configured: boolean;
+  isDefault: boolean;
+}
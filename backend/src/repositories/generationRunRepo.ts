@@ -0,0 +1,214 @@
+import { db } from "../services/firebaseAdmin";
+import { Logger } from "../utils/logger";
+import type { SyntxReplyStatus } from "../utils/syntxReplyParser";
+
+export type GenerationRunSource = "scheduled" | "manual";
+
+/**
+ * generating — промпт генерируется
+ * sent       — промпт отправлен в Syntx, ждём видео
+ * completed  — видео загружено в хранилище канала
+ * failed     — запуск завершился ошибкой
+ */
+export type GenerationRunStatus = "generating" | "sent" | "completed" | "failed";
+
+export type GenerationRunStage = "generate" | "send" | "video" | "download";
+
+// Одно из видео запуска: бот может прислать несколько вариантов или альбом
+export interface GenerationRunVideo {
+  messageId: number;
+  driveFileId: string;
+  driveWebViewLink: string | null;
+  fileName: string | null;
+}
+
+export interface GenerationRun {
+  id: string;
+  channelId: string;
+  userId: string;
+  scheduleId: string | null;
+  source: GenerationRunSource;
+  status: GenerationRunStatus;
+  title?: string | null;
+  description?: string | null; // сгенерированное описание ролика (подпись при публикации)
+  hashtags?: string[] | null;
+  prompt?: string | null;
+  telegramMessageId?: number | null;
+  telegramChatId?: string | null;
+  downloadJobId?: string | null;
+  storageBackend?: string | null; // куда загружено видео; null — Google Drive
+  driveFileId?: string | null;
+  driveWebViewLink?: string | null;
+  fileName?: string | null;
+  videos?: GenerationRunVideo[] | null; // все видео запуска; первое — в driveFileId/fileName
+  videoSizeBytes?: number | null;
+  uploadedBytes?: number | null; // прогресс потоковой загрузки в хранилище
+  error?: string | null;
+  errorStage?: GenerationRunStage | null;
+  botStatus?: SyntxReplyStatus | null; // последний распознанный ответ SyntX-бота
+  botStatusMessage?: string | null;
+  botStatusAt?: Date | null;
+  startedAt: Date;
+  promptGeneratedAt?: Date | null;
+  promptSentAt?: Date | null;
+  videoUploadedAt?: Date | null;
+  telegramDeliveredAt?: Date | null; // видео отправлено в Telegram-чат доставки канала
+  telegramDeliveryError?: string | null;
+  finishedAt?: Date | null;
+  updatedAt: Date;
+}
+
+export type GenerationRunUpdate = Partial<
+  Omit<GenerationRun, "id" | "channelId" | "userId" | "startedAt" | "updatedAt">
+>;
+
+function getRunsCollection(userId: string, channelId: string) {
+  if (!db) {
+    throw new Error("Firestore is not available");
+  }
+  return db
+    .collection("users")
+    .doc(userId)
+    .collection("channels")
+    .doc(channelId)
+    .collection("generationRuns");
+}
+
+function toDate(value: any): Date | null {
+  if (!value) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value;
+  }
+  if (typeof value.toDate === "function") {
+    return value.toDate();
+  }
+  return new Date(value);
+}
+
+const RUN_DATE_FIELDS = [
+  "botStatusAt",
+  "promptGeneratedAt",
+  "promptSentAt",
+  "videoUploadedAt",
+  "telegramDeliveredAt",
+  "finishedAt"
+] as const;
+
+function mapRun(id: string, data: any): GenerationRun {
+  const run: GenerationRun = {
+    ...data,
+    id,
+    startedAt: toDate(data.startedAt) ?? new Date(),
+    updatedAt: toDate(data.updatedAt) ?? new Date()
+  };
+  for (const field of RUN_DATE_FIELDS) {
+    if (data[field] !== undefined) {
+      run[field] = toDate(data[field]);
+    }
+  }
+  return run;
+}
+
+/**
+ * Firestore не принимает undefined, поэтому убираем такие поля
+ */
+function withoutUndefined<T extends Record<string, unknown>>(data: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+/**
+ * Создаёт запись о запуске генерации
+ * @returns ID созданной записи
+ */
+export async function createGenerationRun(input: {
+  channelId: string;
+  userId: string;
+  scheduleId?: string | null;
+  source: GenerationRunSource;
+  status?: GenerationRunStatus;
+  title?: string;
+  prompt?: string;
+}): Promise<string> {
+  const now = new Date();
+  const docRef = getRunsCollection(input.userId, input.channelId).doc();
+
+  await docRef.set(
+    withoutUndefined({
+      channelId: input.channelId,
+      userId: input.userId,
+      scheduleId: input.scheduleId ?? null,
+      source: input.source,
+      status: input.status ?? "generating",
+      title: input.title,
+      prompt: input.prompt,
+      error: null,
+      errorStage: null,
+      startedAt: now,
+      updatedAt: now
+    })
+  );
+
+  return docRef.id;
+}
+
+/**
+ * Возвращает запись о запуске генерации
+ */
+export async function getGenerationRun(
+  userId: string,
+  channelId: string,
+  runId: string
+): Promise<GenerationRun | null> {
+  const snap = await getRunsCollection(userId, channelId).doc(runId).get();
+  if (!snap.exists) {
+    return null;
+  }
+  return mapRun(snap.id, snap.data());
+}
+
+/**
+ * Обновляет запись о запуске генерации
+ */
+export async function updateGenerationRun(
+  userId: string,
+  channelId: string,
+  runId: string,
+  update: GenerationRunUpdate
+): Promise<void> {
+  await getRunsCollection(userId, channelId)
+    .doc(runId)
+    .update({
+      ...withoutUndefined(update),
+      updatedAt: new Date()
+    });
+}
+
+/**
+ * Безопасная версия updateGenerationRun: история запусков не должна
+ * ломать основной процесс отправки/скачивания, поэтому ошибки только логируются
+ */
+export async function tryUpdateGenerationRun(
+  userId: string,
+  channelId: string,
+  runId: string | undefined | null,
+  update: GenerationRunUpdate
+): Promise<void> {
+  if (!runId) {
+    return;
+  }
+
+  try {
+    await updateGenerationRun(userId, channelId, runId, update);
+  } catch (error) {
+    Logger.warn("Failed to update generation run", {
+      userId,
+      channelId,
+      runId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
@@ -0,0 +1,437 @@
+import { db } from "../services/firebaseAdmin";
+import { Logger } from "../utils/logger";
+
+const JOBS_COLLECTION = "jobs";
+
+export type JobStatus = "pending" | "running" | "succeeded" | "failed" | "cancelled";
+
+/**
+ * autoDownload — скачать видео из Telegram и загрузить в Google Drive
+ * autoSend     — повторная отправка промпта по расписанию после ошибки
+ */
+export type JobType = "autoDownload" | "autoSend";
+
+export interface AutoDownloadJobPayload {
+  telegramMessageId?: number;
+  chatId?: string;
+  videoTitle?: string; // сгенерированное название ролика
+  prompt?: string; // текст промпта для fallback
+  runId?: string; // ID записи в истории запусков генерации
+  videoMessageId?: number; // ID сообщения с видео, пойманного слушателем чата SyntX
+}
+
+export interface AutoSendJobPayload {
+  slotKey?: string; // слот расписания, в котором произошла ошибка
+  promptNumber?: number; // номер промпта в слоте (при promptsPerRun > 1)
+}
+
+export type JobPayload = AutoDownloadJobPayload & AutoSendJobPayload;
+
+export interface Job {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  userId: string;
+  channelId: string;
+  scheduleId?: string | null;
+  payload: JobPayload;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lockedBy?: string | null;
+  lockedUntil?: Date | null;
+  lastError?: string | null;
+  result?: Record<string, unknown> | null;
+  createdAt: Date;
+  updatedAt: Date;
+  finishedAt?: Date | null;
+}
+
+export interface CreateJobInput {
+  type: JobType;
+  userId: string;
+  channelId: string;
+  scheduleId?: string;
+  payload: JobPayload;
+  runAt: Date;
+  maxAttempts: number;
+}
+
+function toDate(value: any): Date | null {
+  if (!value) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value;
+  }
+  if (typeof value.toDate === "function") {
+    return value.toDate();
+  }
+  return new Date(value);
+}
+
+function mapJob(id: string, data: any): Job {
+  return {
+    id,
+    type: data.type,
+    status: data.status,
+    userId: data.userId,
+    channelId: data.channelId,
+    scheduleId: data.scheduleId ?? null,
+    payload: data.payload ?? {},
+    attempts: data.attempts ?? 0,
+    maxAttempts: data.maxAttempts ?? 1,
+    runAt: toDate(data.runAt) ?? new Date(),
+    lockedBy: data.lockedBy ?? null,
+    lockedUntil: toDate(data.lockedUntil),
+    lastError: data.lastError ?? null,
+    result: data.result ?? null,
+    createdAt: toDate(data.createdAt) ?? new Date(),
+    updatedAt: toDate(data.updatedAt) ?? new Date(),
+    finishedAt: toDate(data.finishedAt)
+  };
+}
+
+function getJobsCollection() {
+  if (!db) {
+    throw new Error("Firestore is not available");
+  }
+  return db.collection(JOBS_COLLECTION);
+}
+
+/**
+ * Firestore не принимает undefined, поэтому убираем такие поля из payload
+ */
+function cleanPayload(payload: JobPayload): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(payload).filter(([, value]) => value !== undefined)
+  );
+}
+
+/**
+ * Создаёт новую задачу в статусе pending
+ */
+export async function createJob(input: CreateJobInput): Promise<Job> {
+  const now = new Date();
+  const docRef = getJobsCollection().doc();
+  const data = {
+    type: input.type,
+    status: "pending" as JobStatus,
+    userId: input.userId,
+    channelId: input.channelId,
+    scheduleId: input.scheduleId ?? null,
+    payload: cleanPayload(input.payload),
+    attempts: 0,
+    maxAttempts: input.maxAttempts,
+    runAt: input.runAt,
+    lockedBy: null,
+    lockedUntil: null,
+    lastError: null,
+    result: null,
+    createdAt: now,
+    updatedAt: now,
+    finishedAt: null
+  };
+
+  await docRef.set(data);
+  return mapJob(docRef.id, data);
+}
+
+/**
+ * Возвращает задачу по ID
+ */
+export async function getJobById(jobId: string): Promise<Job | null> {
+  const snap = await getJobsCollection().doc(jobId).get();
+  if (!snap.exists) {
+    return null;
+  }
+  return mapJob(snap.id, snap.data());
+}
+
+/**
+ * Находит задачи, готовые к выполнению:
+ * - pending с наступившим runAt
+ * - running, у которых истекла блокировка (инстанс упал или был остановлен посреди выполнения)
+ *
+ * Требует составных индексов (status, runAt) и (status, lockedUntil) в Firestore.
+ */
+export async function findDueJobs(now: Date, limit: number): Promise<Job[]> {
+  const collection = getJobsCollection();
+
+  const [pendingSnap, staleSnap] = await Promise.all([
+    collection
+      .where("status", "==", "pending")
+      .where("runAt", "<=", now)
+      .orderBy("runAt", "asc")
+      .limit(limit)
+      .get(),
+    collection
+      .where("status", "==", "running")
+      .where("lockedUntil", "<=", now)
+      .limit(limit)
+      .get()
+  ]);
+
+  return [...pendingSnap.docs, ...staleSnap.docs].map((doc) => mapJob(doc.id, doc.data()));
+}
+
+/**
+ * Атомарно захватывает задачу для выполнения текущим инстансом.
+ * Возвращает null, если задачу уже захватил кто-то другой.
+ */
+export async function claimJob(
+  jobId: string,
+  workerId: string,
+  lockMs: number
+): Promise<Job | null> {
+  if (!db) {
+    throw new Error("Firestore is not available");
+  }
+
+  const docRef = getJobsCollection().doc(jobId);
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(docRef);
+    if (!snap.exists) {
+      return null;
+    }
+
+    const job = mapJob(snap.id, snap.data());
+    const now = new Date();
+
+    const isDuePending = job.status === "pending" && job.runAt.getTime() <= now.getTime();
+    const isStaleRunning =
+      job.status === "running" &&
+      !!job.lockedUntil &&
+      job.lockedUntil.getTime() <= now.getTime();
+
+    if (!isDuePending && !isStaleRunning) {
+      return null;
+    }
+
+    const lockedUntil = new Date(now.getTime() + lockMs);
+    const update = {
+      status: "running" as JobStatus,
+      attempts: job.attempts + 1,
+      lockedBy: workerId,
+      lockedUntil,
+      updatedAt: now
+    };
+
+    tx.update(docRef, update);
+    return { ...job, ...update };
+  });
+}
+
+/**
+ * Отмечает задачу как успешно выполненную
+ */
+export async function markJobSucceeded(
+  jobId: string,
+  result: Record<string, unknown>
+): Promise<void> {
+  const now = new Date();
+  await getJobsCollection().doc(jobId).update({
+    status: "succeeded",
+    result: cleanPayload(result),
+    lastError: null,
+    lockedBy: null,
+    lockedUntil: null,
+    updatedAt: now,
+    finishedAt: now
+  });
+}
+
+/**
+ * Возвращает задачу в очередь для повторной попытки
+ */
+export async function rescheduleJob(jobId: string, error: string, runAt: Date): Promise<void> {
+  await getJobsCollection().doc(jobId).update({
+    status: "pending",
+    runAt,
+    lastError: error,
+    lockedBy: null,
+    lockedUntil: null,
+    updatedAt: new Date()
+  });
+}
+
+/**
+ * Окончательно помечает задачу как проваленную
+ */
+export async function markJobFailed(jobId: string, error: string): Promise<void> {
+  const now = new Date();
+  await getJobsCollection().doc(jobId).update({
+    status: "failed",
+    lastError: error,
+    lockedBy: null,
+    lockedUntil: null,
+    updatedAt: now,
+    finishedAt: now
+  });
+}
+
+/**
+ * Отменяет одну задачу, если она ещё не начала выполняться
+ */
+export async function cancelJob(jobId: string, reason: string): Promise<boolean> {
+  if (!db) {
+    throw new Error("Firestore is not available");
+  }
+
+  const docRef = getJobsCollection().doc(jobId);
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(docRef);
+    if (!snap.exists || snap.data()?.status !== "pending") {
+      return false;
+    }
+
+    const now = new Date();
+    tx.update(docRef, {
+      status: "cancelled",
+      lastError: reason,
+      updatedAt: now,
+      finishedAt: now
+    });
+    return true;
+  });
+}
+
+/**
+ * Находит ожидающие задачи для канала (и, опционально, конкретного расписания)
+ */
+export async function findPendingJobs(filter: {
+  type?: JobType;
+  channelId?: string;
+  scheduleId?: string;
+  userId?: string;
+}): Promise<Job[]> {
+  let query: FirebaseFirestore.Query = getJobsCollection().where("status", "==", "pending");
+
+  if (filter.type) {
+    query = query.where("type", "==", filter.type);
+  }
+  if (filter.userId) {
+    query = query.where("userId", "==", filter.userId);
+  }
+  if (filter.channelId) {
+    query = query.where("channelId", "==", filter.channelId);
+  }
+  if (filter.scheduleId) {
+    query = query.where("scheduleId", "==", filter.scheduleId);
+  }
+
+  try {
+    const snap = await query.get();
+    return snap.docs.map((doc) => mapJob(doc.id, doc.data()));
+  } catch (error) {
+    Logger.error("findPendingJobs: failed to query jobs", {
+      filter,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+/**
+ * Находит окончательно проваленные задачи пользователя (dead-letter),
+ * последние — первыми.
+ *
+ * Требует составного индекса (userId, status, finishedAt) в Firestore
+ * (и (userId, channelId, status, finishedAt) при фильтре по каналу).
+ */
+export async function findFailedJobs(filter: {
+  userId: string;
+  channelId?: string;
+  limit: number;
+}): Promise<Job[]> {
+  let query: FirebaseFirestore.Query = getJobsCollection()
+    .where("userId", "==", filter.userId)
+    .where("status", "==", "failed");
+
+  if (filter.channelId) {
+    query = query.where("channelId", "==", filter.channelId);
+  }
+
+  const snap = await query.orderBy("finishedAt", "desc").limit(filter.limit).get();
+  return snap.docs.map((doc) => mapJob(doc.id, doc.data()));
+}
+
+/**
+ * Возвращает проваленную задачу в очередь с новым набором попыток.
+ * Возвращает null, если задача не найдена или уже не в статусе failed.
+ */
+export async function requeueFailedJob(jobId: string): Promise<Job | null> {
+  if (!db) {
+    throw new Error("Firestore is not available");
+  }
+
+  const docRef = getJobsCollection().doc(jobId);
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(docRef);
+    if (!snap.exists) {
+      return null;
+    }
+
+    const job = mapJob(snap.id, snap.data());
+    if (job.status !== "failed") {
+      return null;
+    }
+
+    const now = new Date();
+    const update = {
+      status: "pending" as JobStatus,
+      attempts: 0,
+      runAt: now,
+      lockedBy: null,
+      lockedUntil: null,
+      updatedAt: now,
+      finishedAt: null
+    };
+
+    tx.update(docRef, update);
+    return { ...job, ...update };
+  });
+}
+
+/**
+ * Переносит ожидающую задачу на runAt (по умолчанию «сейчас») и дополняет её payload
+ * (например, когда видео уже пришло в чат раньше запланированного времени).
+ * Возвращает null, если задача не найдена или уже не в статусе pending.
+ */
+export async function expediteJob(
+  jobId: string,
+  payloadPatch: JobPayload,
+  runAt: Date = new Date()
+): Promise<Job | null> {
+  if (!db) {
+    throw new Error("Firestore is not available");
+  }
+
+  const docRef = getJobsCollection().doc(jobId);
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(docRef);
+    if (!snap.exists) {
+      return null;
+    }
+
+    const job = mapJob(snap.id, snap.data());
+    if (job.status !== "pending") {
+      return null;
+    }
+
+    const now = new Date();
+    const update = {
+      payload: cleanPayload({ ...job.payload, ...payloadPatch }) as JobPayload,
+      // Задачу можно только ускорить: более поздний запуск не откладывает уже назначенный
+      runAt: runAt < job.runAt ? runAt : job.runAt,
+      updatedAt: now
+    };
+
+    tx.update(docRef, update);
+    return { ...job, ...update };
+  });
+}
@@ -0,0 +1,445 @@
+import { db } from "../services/firebaseAdmin";
+import { Logger } from "../utils/logger";
+import type { SyntxReply, SyntxReplyStatus } from "../utils/syntxReplyParser";
+import { DEFAULT_PROVIDER_ID } from "../providers/registry";
+
+const PROMPT_CORRELATIONS_COLLECTION = "promptCorrelations";
+
+// Сколько ждём видео на отправленный промпт; после этого слот не участвует в сопоставлении
+export const PROMPT_CORRELATION_TTL_MS =
+  (Number(process.env.PROMPT_CORRELATION_TTL_MINUTES) || 180) * 60 * 1000;
+
+/**
+ * pending  — промпт отправлен, видео ещё не сопоставлено
+ * assigned — видео закреплено за этим промптом
+ * expired  — видео так и не пришло за отведённое время
+ * failed   — бот ответил ошибкой или нехваткой баланса, видео не придёт
+ */
+export type PromptCorrelationStatus = "pending" | "assigned" | "expired" | "failed";
+
+/**
+ * replyTo — бот ответил видео на сообщение с промптом
+ * caption — подпись к видео совпала с текстом промпта
+ * order   — самый ранний ожидающий промпт (FIFO)
+ * manual  — пользователь назначил видео вручную из «Неразобранных видео»
+ */
+export type PromptCorrelationMatch = "replyTo" | "caption" | "order" | "manual";
+
+export interface PromptCorrelation {
+  id: string;
+  userId: string;
+  channelId: string;
+  scheduleId: string | null;
+  runId: string | null;
+  providerId: string;
+  chatId: string;
+  promptMessageId: number;
+  prompt: string;
+  title: string | null;
+  status: PromptCorrelationStatus;
+  videoMessageId: number | null;
+  // Дополнительные варианты и остальные видео альбома на тот же промпт
+  extraVideoMessageIds: number[];
+  // grouped_id альбома, если бот прислал видео альбомом
+  groupedId: string | null;
+  matchedBy: PromptCorrelationMatch | null;
+  botStatus: SyntxReplyStatus | null;
+  botStatusMessage: string | null;
+  botReplyMessageId: number | null;
+  createdAt: Date;
+  expiresAt: Date;
+  assignedAt: Date | null;
+}
+
+function toDate(value: any): Date | null {
+  if (!value) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value;
+  }
+  if (typeof value.toDate === "function") {
+    return value.toDate();
+  }
+  return new Date(value);
+}
+
+function mapCorrelation(id: string, data: any): PromptCorrelation {
+  return {
+    id,
+    userId: data.userId,
+    channelId: data.channelId,
+    scheduleId: data.scheduleId ?? null,
+    runId: data.runId ?? null,
+    providerId: data.providerId ?? DEFAULT_PROVIDER_ID,
+    chatId: data.chatId,
+    promptMessageId: data.promptMessageId,
+    prompt: data.prompt ?? "",
+    title: data.title ?? null,
+    status: data.status,
+    videoMessageId: data.videoMessageId ?? null,
+    extraVideoMessageIds: data.extraVideoMessageIds ?? [],
+    groupedId: data.groupedId ?? null,
+    matchedBy: data.matchedBy ?? null,
+    botStatus: data.botStatus ?? null,
+    botStatusMessage: data.botStatusMessage ?? null,
+    botReplyMessageId: data.botReplyMessageId ?? null,
+    createdAt: toDate(data.createdAt) ?? new Date(),
+    expiresAt: toDate(data.expiresAt) ?? new Date(),
+    assignedAt: toDate(data.assignedAt)
+  };
+}
+
+function getCorrelationsCollection() {
+  if (!db) {
+    throw new Error("Firestore is not available");
+  }
+  return db.collection(PROMPT_CORRELATIONS_COLLECTION);
+}
+
+/**
+ * ID сообщений в личных чатах уникальны в пределах Telegram-аккаунта, поэтому ключ —
+ * пользователь + ID промпта. Для дополнительных провайдеров (чат может быть группой
+ * со своей нумерацией сообщений) в ключ добавляется ID провайдера.
+ */
+function getCorrelationId(
+  userId: string,
+  providerId: string,
+  promptMessageId: number
+): string {
+  return providerId === DEFAULT_PROVIDER_ID
+    ? `${userId}_${promptMessageId}`
+    : `${userId}_${providerId}_${promptMessageId}`;
+}
+
+/**
+ * Регистрирует отправленный промпт как ожидающий видео
+ */
+export async function createPromptCorrelation(input: {
+  userId: string;
+  channelId: string;
+  scheduleId?: string | null;
+  runId?: string | null;
+  providerId: string;
+  chatId: string;
+  promptMessageId: number;
+  prompt: string;
+  title?: string | null;
+}): Promise<PromptCorrelation> {
+  const now = new Date();
+  const id = getCorrelationId(input.userId, input.providerId, input.promptMessageId);
+  const data = {
+    userId: input.userId,
+    channelId: input.channelId,
+    scheduleId: input.scheduleId ?? null,
+    runId: input.runId ?? null,
+    providerId: input.providerId,
+    chatId: input.chatId,
+    promptMessageId: input.promptMessageId,
+    prompt: input.prompt,
+    title: input.title ?? null,
+    status: "pending" as PromptCorrelationStatus,
+    videoMessageId: null,
+    extraVideoMessageIds: [],
+    groupedId: null,
+    matchedBy: null,
+    botStatus: null,
+    botStatusMessage: null,
+    botReplyMessageId: null,
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + PROMPT_CORRELATION_TTL_MS),
+    assignedAt: null
+  };
+
+  await getCorrelationsCollection().doc(id).set(data);
+  return mapCorrelation(id, data);
+}
+
+/**
+ * Возвращает слот по ID сообщения с промптом
+ */
+export async function getPromptCorrelation(
+  userId: string,
+  providerId: string,
+  promptMessageId: number
+): Promise<PromptCorrelation | null> {
+  const snap = await getCorrelationsCollection()
+    .doc(getCorrelationId(userId, providerId, promptMessageId))
+    .get();
+  if (!snap.exists) {
+    return null;
+  }
+  return mapCorrelation(snap.id, snap.data());
+}
+
+/**
+ * Слоты пользователя, за которыми закреплено видео (основным или дополнительным)
+ */
+async function findDocsByVideoMessageId(
+  read: (query: FirebaseFirestore.Query) => Promise<FirebaseFirestore.QuerySnapshot>,
+  userId: string,
+  providerId: string,
+  videoMessageId: number
+): Promise<FirebaseFirestore.QueryDocumentSnapshot[]> {
+  const byUser = getCorrelationsCollection().where("userId", "==", userId);
+  const [primary, extra] = await Promise.all([
+    read(byUser.where("videoMessageId", "==", videoMessageId)),
+    read(byUser.where("extraVideoMessageIds", "array-contains", videoMessageId))
+  ]);
+  return [...primary.docs, ...extra.docs].filter(
+    (d) => (d.data().providerId ?? DEFAULT_PROVIDER_ID) === providerId
+  );
+}
+
+/**
+ * Находит слот, за которым уже закреплено видео
+ */
+export async function findCorrelationByVideoMessageId(
+  userId: string,
+  providerId: string,
+  videoMessageId: number
+): Promise<PromptCorrelation | null> {
+  const [doc] = await findDocsByVideoMessageId(
+    (query) => query.get(),
+    userId,
+    providerId,
+    videoMessageId
+  );
+  return doc ? mapCorrelation(doc.id, doc.data()) : null;
+}
+
+/**
+ * Находит слот, за которым закреплено видео из альбома grouped_id
+ */
+export async function findCorrelationByGroupedId(
+  userId: string,
+  providerId: string,
+  groupedId: string
+): Promise<PromptCorrelation | null> {
+  const snap = await getCorrelationsCollection()
+    .where("userId", "==", userId)
+    .where("groupedId", "==", groupedId)
+    .get();
+  const doc = snap.docs.find(
+    (d) => (d.data().providerId ?? DEFAULT_PROVIDER_ID) === providerId
+  );
+  return doc ? mapCorrelation(doc.id, doc.data()) : null;
+}
+
+/**
+ * Ожидающие видео слоты (пользователя или всех пользователей), от ранних к поздним.
+ * Истёкшие слоты попутно переводятся в статус expired.
+ */
+export async function findPendingCorrelations(
+  filter: { userId?: string; channelId?: string; providerId?: string } = {}
+): Promise<PromptCorrelation[]> {
+  let query: FirebaseFirestore.Query = getCorrelationsCollection().where("status", "==", "pending");
+  if (filter.userId) {
+    query = query.where("userId", "==", filter.userId);
+  }
+  if (filter.channelId) {
+    query = query.where("channelId", "==", filter.channelId);
+  }
+
+  const snap = await query.get();
+  const now = Date.now();
+  const pending: PromptCorrelation[] = [];
+  const expiredIds: string[] = [];
+
+  for (const doc of snap.docs) {
+    const correlation = mapCorrelation(doc.id, doc.data());
+    if (correlation.expiresAt.getTime() <= now) {
+      expiredIds.push(doc.id);
+    } else if (!filter.providerId || correlation.providerId === filter.providerId) {
+      pending.push(correlation);
+    }
+  }
+
+  if (expiredIds.length > 0) {
+    try {
+      const batch = db!.batch();
+      for (const id of expiredIds) {
+        batch.update(getCorrelationsCollection().doc(id), { status: "expired" });
+      }
+      await batch.commit();
+    } catch (error) {
+      Logger.warn("findPendingCorrelations: failed to mark expired correlations", {
+        count: expiredIds.length,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  return pending.sort((a, b) => a.promptMessageId - b.promptMessageId);
+}
+
+/**
+ * Слоты пользователя, уже получившие видео и ещё не вышедшие из окна ожидания,
+ * от ранних к поздним (к ним ещё могут прийти другие варианты видео)
+ */
+export async function findAssignedCorrelationsInWindow(filter: {
+  userId: string;
+  providerId: string;
+}): Promise<PromptCorrelation[]> {
+  const snap = await getCorrelationsCollection()
+    .where("status", "==", "assigned")
+    .where("userId", "==", filter.userId)
+    .get();
+  const now = Date.now();
+
+  return snap.docs
+    .map((doc) => mapCorrelation(doc.id, doc.data()))
+    .filter((c) => c.providerId === filter.providerId && c.expiresAt.getTime() > now)
+    .sort((a, b) => a.promptMessageId - b.promptMessageId);
+}
+
+/**
+ * Атомарно закрепляет видео за слотом.
+ * Возвращает null, если слот уже не ожидает видео или это видео закреплено за другим слотом.
+ */
+export async function assignVideoToCorrelation(
+  correlationId: string,
+  videoMessageId: number,
+  matchedBy: PromptCorrelationMatch,
+  groupedId: string | null = null
+): Promise<PromptCorrelation | null> {
+  if (!db) {
+    throw new Error("Firestore is not available");
+  }
+
+  const docRef = getCorrelationsCollection().doc(correlationId);
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(docRef);
+    if (!snap.exists) {
+      return null;
+    }
+
+    const correlation = mapCorrelation(snap.id, snap.data());
+    if (correlation.status !== "pending") {
+      return null;
+    }
+
+    const taken = await findDocsByVideoMessageId(
+      (query) => tx.get(query),
+      correlation.userId,
+      correlation.providerId,
+      videoMessageId
+    );
+    if (taken.length > 0) {
+      return null;
+    }
+
+    const update = {
+      status: "assigned" as PromptCorrelationStatus,
+      videoMessageId,
+      groupedId,
+      matchedBy,
+      assignedAt: new Date()
+    };
+
+    tx.update(docRef, update);
+    return { ...correlation, ...update };
+  });
+}
+
+/**
+ * Атомарно добавляет к слоту ещё одно видео (вариант или часть альбома).
+ * Повторный вызов для того же видео возвращает слот без изменений.
+ * Возвращает null, если слот ещё не получил первое видео или это видео закреплено за другим слотом.
+ */
+export async function addVideoVariantToCorrelation(
+  correlationId: string,
+  videoMessageId: number
+): Promise<PromptCorrelation | null> {
+  if (!db) {
+    throw new Error("Firestore is not available");
+  }
+
+  const docRef = getCorrelationsCollection().doc(correlationId);
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(docRef);
+    if (!snap.exists) {
+      return null;
+    }
+
+    const correlation = mapCorrelation(snap.id, snap.data());
+    if (correlation.status !== "assigned") {
+      return null;
+    }
+    if (
+      correlation.videoMessageId === videoMessageId ||
+      correlation.extraVideoMessageIds.includes(videoMessageId)
+    ) {
+      return correlation;
+    }
+
+    const taken = await findDocsByVideoMessageId(
+      (query) => tx.get(query),
+      correlation.userId,
+      correlation.providerId,
+      videoMessageId
+    );
+    if (taken.length > 0) {
+      return null;
+    }
+
+    const extraVideoMessageIds = [...correlation.extraVideoMessageIds, videoMessageId].sort(
+      (a, b) => a - b
+    );
+    tx.update(docRef, { extraVideoMessageIds });
+    return { ...correlation, extraVideoMessageIds };
+  });
+}
+
+/**
+ * Все видео, закреплённые за слотом, по порядку прихода
+ */
+export function getCorrelationVideoMessageIds(correlation: PromptCorrelation): number[] {
+  if (correlation.videoMessageId === null) {
+    return [];
+  }
+  return [correlation.videoMessageId, ...correlation.extraVideoMessageIds];
+}
+
+/**
+ * Сохраняет ответ бота на промпт. Терминальный ответ (ошибка, нехватка баланса)
+ * переводит ожидающий слот в статус failed.
+ * Возвращает null, если этот или более поздний ответ уже учтён.
+ */
+export async function recordCorrelationBotReply(
+  correlationId: string,
+  reply: SyntxReply,
+  replyMessageId: number
+): Promise<PromptCorrelation | null> {
+  if (!db) {
+    throw new Error("Firestore is not available");
+  }
+
+  const docRef = getCorrelationsCollection().doc(correlationId);
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(docRef);
+    if (!snap.exists) {
+      return null;
+    }
+
+    const correlation = mapCorrelation(snap.id, snap.data());
+    if (correlation.botReplyMessageId !== null && correlation.botReplyMessageId >= replyMessageId) {
+      return null;
+    }
+
+    const update: Partial<PromptCorrelation> = {
+      botStatus: reply.status,
+      botStatusMessage: reply.message,
+      botReplyMessageId: replyMessageId
+    };
+    if (reply.terminal && correlation.status === "pending") {
+      update.status = "failed";
+    }
+
+    tx.update(docRef, update);
+    return { ...correlation, ...update };
+  });
+}
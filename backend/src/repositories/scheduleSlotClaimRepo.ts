@@ -0,0 +1,91 @@
+import { db } from "../services/firebaseAdmin";
+
+const SLOT_CLAIMS_COLLECTION = "scheduleSlotClaims";
+
+/**
+ * Кто запустил проверку расписаний:
+ * cron — встроенный node-cron, http — /api/cron/manual-tick (Cloud Scheduler)
+ */
+export type ScheduleTickTrigger = "cron" | "http";
+
+export type ScheduleSlotStatus = "running" | "completed" | "failed";
+
+export interface ScheduleSlotClaimInput {
+  channelId: string;
+  scheduleId: string;
+  userId: string;
+  timezone: string;
+  slotDate: string; // "YYYY-MM-DD" в таймзоне канала
+  slotTime: string; // "HH:MM" из расписания
+  claimedBy: string; // ID инстанса backend
+  trigger: ScheduleTickTrigger;
+}
+
+function getClaimsCollection() {
+  if (!db) {
+    throw new Error("Firestore is not available");
+  }
+  return db.collection(SLOT_CLAIMS_COLLECTION);
+}
+
+/**
+ * Ключ слота: один и тот же запуск расписания на всех инстансах даёт один и тот же ключ
+ */
+export function buildScheduleSlotKey(
+  channelId: string,
+  scheduleId: string,
+  slotDate: string,
+  slotTime: string
+): string {
+  return `${channelId}_${scheduleId}_${slotDate}_${slotTime.replace(":", "")}`;
+}
+
+/**
+ * Атомарно захватывает слот расписания.
+ * Возвращает false, если слот уже захвачен другим инстансом или другим вызовом тика.
+ */
+export async function claimScheduleSlot(input: ScheduleSlotClaimInput): Promise<boolean> {
+  if (!db) {
+    throw new Error("Firestore is not available");
+  }
+
+  const slotKey = buildScheduleSlotKey(
+    input.channelId,
+    input.scheduleId,
+    input.slotDate,
+    input.slotTime
+  );
+  const docRef = getClaimsCollection().doc(slotKey);
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(docRef);
+    if (snap.exists) {
+      return false;
+    }
+
+    const now = new Date();
+    tx.create(docRef, {
+      ...input,
+      status: "running" as ScheduleSlotStatus,
+      claimedAt: now,
+      finishedAt: null,
+      error: null
+    });
+    return true;
+  });
+}
+
+/**
+ * Сохраняет итог выполнения захваченного слота
+ */
+export async function finishScheduleSlot(
+  slotKey: string,
+  status: Exclude<ScheduleSlotStatus, "running">,
+  error?: string
+): Promise<void> {
+  await getClaimsCollection().doc(slotKey).update({
+    status,
+    error: error ?? null,
+    finishedAt: new Date()
+  });
+}
@@ -1,3 +1,9 @@
+import { db } from "../services/firebaseAdmin";
+
+// Документ на пользователя: telegramAccounts/{userId}.
+// Коллекция доступна только backend (Admin SDK) — в ней хранится зашифрованная сессия.
+const TELEGRAM_ACCOUNTS_COLLECTION = "telegramAccounts";
+
 export interface TelegramAccount {
   id: string;
   userId: string;
@@ -18,57 +24,81 @@ export interface TelegramAccountRepository {
   deactivateForUser(userId: string): Promise<void>;
 }
 
-const memoryStore = new Map<string, TelegramAccount>();
+function getAccountsCollection() {
+  if (!db) {
+    throw new Error("Firestore is not available");
+  }
+  return db.collection(TELEGRAM_ACCOUNTS_COLLECTION);
+}
+
+function toDate(value: any): Date {
+  if (!value) {
+    return new Date(0);
+  }
+  if (value instanceof Date) {
+    return value;
+  }
+  if (typeof value.toDate === "function") {
+    return value.toDate();
+  }
+  return new Date(value);
+}
+
+function mapAccount(id: string, data: any): TelegramAccount {
+  return {
+    id,
+    userId: data.userId,
+    phone: data.phone ?? "",
+    sessionEncrypted: data.sessionEncrypted ?? "",
+    isActive: data.isActive === true,
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt)
+  };
+}
 
 export const telegramAccountRepository: TelegramAccountRepository = {
   async findActiveByUserId(userId) {
-    const acc = Array.from(memoryStore.values()).find(
-      (a) => a.userId === userId && a.isActive
-    );
-    return acc ?? null;
+    const snap = await getAccountsCollection().doc(userId).get();
+    if (!snap.exists) {
+      return null;
+    }
+
+    const account = mapAccount(snap.id, snap.data());
+    return account.isActive && account.sessionEncrypted ? account : null;
   },
 
   async upsertForUser(userId, phone, sessionEncrypted) {
+    const docRef = getAccountsCollection().doc(userId);
     const now = new Date();
-    let acc =
-      Array.from(memoryStore.values()).find((a) => a.userId === userId) ??
-      null;
+    const existing = await docRef.get();
+    const createdAt = existing.exists ? toDate(existing.data()?.createdAt) : now;
 
-    if (!acc) {
-      acc = {
-        id: `${Date.now()}_${Math.random()}`,
-        userId,
-        phone,
-        sessionEncrypted,
-        isActive: true,
-        createdAt: now,
-        updatedAt: now
-      };
-    } else {
-      acc.phone = phone;
-      acc.sessionEncrypted = sessionEncrypted;
-      acc.isActive = true;
-      acc.updatedAt = now;
-    }
+    const account: TelegramAccount = {
+      id: userId,
+      userId,
+      phone,
+      sessionEncrypted,
+      isActive: true,
+      createdAt,
+      updatedAt: now
+    };
 
-    memoryStore.set(acc.id, acc);
-    return acc;
+    const { id, ...data } = account;
+    await docRef.set(data);
+    return account;
   },
 
   async deactivateForUser(userId) {
-    const now = new Date();
-    for (const acc of memoryStore.values()) {
-      if (acc.userId === userId) {
-        acc.isActive = false;
-        acc.sessionEncrypted = "";
-        acc.updatedAt = now;
-      }
+    const docRef = getAccountsCollection().doc(userId);
+    const snap = await docRef.get();
+    if (!snap.exists) {
+      return;
     }
+
+    await docRef.update({
+      isActive: false,
+      sessionEncrypted: "",
+      updatedAt: new Date()
+    });
   }
 };
-
-
-
-
-
-
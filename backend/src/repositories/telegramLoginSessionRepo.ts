@@ -1,31 +1,93 @@
+import { db } from "../services/firebaseAdmin";
+
+// Незавершённые входы в Telegram: хранятся в Firestore, чтобы код,
+// запрошенный через один инстанс backend, можно было подтвердить на другом
+const TELEGRAM_LOGIN_SESSIONS_COLLECTION = "telegramLoginSessions";
+
+// Сколько живёт незавершённый вход (код из Telegram действует несколько минут)
+export const TELEGRAM_LOGIN_SESSION_TTL_MS =
+  (Number(process.env.TELEGRAM_LOGIN_SESSION_TTL_MINUTES) || 10) * 60 * 1000;
+
 export interface TelegramLoginSession {
   id: string;
   userId: string;
   phone: string;
   mtprotoStateId: string;
   phoneCodeHash: string;
+  sessionEncrypted: string; // временная MTProto-сессия, через которую запрошен код
   createdAt: Date;
+  expiresAt: Date;
+}
+
+function getSessionsCollection() {
+  if (!db) {
+    throw new Error("Firestore is not available");
+  }
+  return db.collection(TELEGRAM_LOGIN_SESSIONS_COLLECTION);
 }
 
-const tempSessions = new Map<string, TelegramLoginSession>();
+function toDate(value: any): Date {
+  if (value instanceof Date) {
+    return value;
+  }
+  if (value && typeof value.toDate === "function") {
+    return value.toDate();
+  }
+  return new Date(value ?? 0);
+}
+
+function mapSession(id: string, data: any): TelegramLoginSession {
+  return {
+    id,
+    userId: data.userId,
+    phone: data.phone,
+    mtprotoStateId: data.mtprotoStateId ?? id,
+    phoneCodeHash: data.phoneCodeHash,
+    sessionEncrypted: data.sessionEncrypted ?? "",
+    createdAt: toDate(data.createdAt),
+    expiresAt: toDate(data.expiresAt)
+  };
+}
 
 export const telegramLoginSessionRepository = {
   async create(session: TelegramLoginSession) {
-    tempSessions.set(session.id, session);
+    const { id, ...data } = session;
+    await getSessionsCollection().doc(id).set(data);
     return session;
   },
 
+  /**
+   * Последний незавершённый и не истёкший вход пользователя для номера
+   */
   async findByUserIdAndPhone(userId: string, phone: string) {
-    return (
-      Array.from(tempSessions.values()).find(
-        (s) => s.userId === userId && s.phone === phone
-      ) ?? null
-    );
+    const snap = await getSessionsCollection()
+      .where("userId", "==", userId)
+      .where("phone", "==", phone)
+      .get();
+
+    const now = Date.now();
+    const sessions = snap.docs
+      .map((doc) => mapSession(doc.id, doc.data()))
+      .filter((session) => session.expiresAt.getTime() > now)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    return sessions[0] ?? null;
+  },
+
+  async findByUserId(userId: string) {
+    const snap = await getSessionsCollection().where("userId", "==", userId).get();
+    return snap.docs.map((doc) => mapSession(doc.id, doc.data()));
+  },
+
+  async findExpired(now: Date, limit: number) {
+    const snap = await getSessionsCollection()
+      .where("expiresAt", "<=", now)
+      .limit(limit)
+      .get();
+    return snap.docs.map((doc) => mapSession(doc.id, doc.data()));
   },
 
   async deleteById(id: string) {
-    tempSessions.delete(id);
+    await getSessionsCollection().doc(id).delete();
   }
 };
-
-
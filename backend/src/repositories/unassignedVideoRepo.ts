@@ -0,0 +1,183 @@
+import { db } from "../services/firebaseAdmin";
+import { DEFAULT_PROVIDER_ID } from "../providers/registry";
+
+const UNASSIGNED_VIDEOS_COLLECTION = "unassignedVideos";
+
+/**
+ * unassigned — видео пришло, но не сопоставлено ни с одним промптом
+ * assigned   — пользователь назначил видео каналу
+ * dismissed  — пользователь скрыл видео
+ */
+export type UnassignedVideoStatus = "unassigned" | "assigned" | "dismissed";
+
+export interface UnassignedVideo {
+  id: string;
+  userId: string;
+  providerId: string;
+  chatId: string;
+  videoMessageId: number;
+  caption: string | null;
+  replyToMsgId: number | null;
+  fileName: string | null;
+  status: UnassignedVideoStatus;
+  assignedChannelId: string | null;
+  assignedJobId: string | null;
+  receivedAt: Date;
+  resolvedAt: Date | null;
+}
+
+function toDate(value: any): Date | null {
+  if (!value) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value;
+  }
+  if (typeof value.toDate === "function") {
+    return value.toDate();
+  }
+  return new Date(value);
+}
+
+function mapVideo(id: string, data: any): UnassignedVideo {
+  return {
+    id,
+    userId: data.userId,
+    providerId: data.providerId ?? DEFAULT_PROVIDER_ID,
+    chatId: data.chatId,
+    videoMessageId: data.videoMessageId,
+    caption: data.caption ?? null,
+    replyToMsgId: data.replyToMsgId ?? null,
+    fileName: data.fileName ?? null,
+    status: data.status,
+    assignedChannelId: data.assignedChannelId ?? null,
+    assignedJobId: data.assignedJobId ?? null,
+    receivedAt: toDate(data.receivedAt) ?? new Date(),
+    resolvedAt: toDate(data.resolvedAt)
+  };
+}
+
+function getVideosCollection() {
+  if (!db) {
+    throw new Error("Firestore is not available");
+  }
+  return db.collection(UNASSIGNED_VIDEOS_COLLECTION);
+}
+
+function getVideoId(userId: string, providerId: string, videoMessageId: number): string {
+  return providerId === DEFAULT_PROVIDER_ID
+    ? `${userId}_${videoMessageId}`
+    : `${userId}_${providerId}_${videoMessageId}`;
+}
+
+/**
+ * Кладёт видео во «Входящие». Повторный вызов для того же видео ничего не меняет.
+ */
+export async function addUnassignedVideo(input: {
+  userId: string;
+  providerId: string;
+  chatId: string;
+  videoMessageId: number;
+  caption?: string | null;
+  replyToMsgId?: number | null;
+  fileName?: string | null;
+}): Promise<UnassignedVideo> {
+  const id = getVideoId(input.userId, input.providerId, input.videoMessageId);
+  const docRef = getVideosCollection().doc(id);
+  const existing = await docRef.get();
+  if (existing.exists) {
+    return mapVideo(id, existing.data());
+  }
+
+  const data = {
+    userId: input.userId,
+    providerId: input.providerId,
+    chatId: input.chatId,
+    videoMessageId: input.videoMessageId,
+    caption: input.caption ?? null,
+    replyToMsgId: input.replyToMsgId ?? null,
+    fileName: input.fileName ?? null,
+    status: "unassigned" as UnassignedVideoStatus,
+    assignedChannelId: null,
+    assignedJobId: null,
+    receivedAt: new Date(),
+    resolvedAt: null
+  };
+
+  await docRef.set(data);
+  return mapVideo(id, data);
+}
+
+/**
+ * Возвращает видео из «Входящих» по ID
+ */
+export async function getUnassignedVideo(id: string): Promise<UnassignedVideo | null> {
+  const snap = await getVideosCollection().doc(id).get();
+  if (!snap.exists) {
+    return null;
+  }
+  return mapVideo(snap.id, snap.data());
+}
+
+/**
+ * Проверяет, попало ли видео во «Входящие»
+ */
+export async function hasUnassignedVideo(
+  userId: string,
+  providerId: string,
+  videoMessageId: number
+): Promise<boolean> {
+  const snap = await getVideosCollection()
+    .doc(getVideoId(userId, providerId, videoMessageId))
+    .get();
+  return snap.exists;
+}
+
+/**
+ * Несопоставленные видео пользователя, новые — первыми
+ */
+export async function findUnassignedVideos(userId: string, limit: number): Promise<UnassignedVideo[]> {
+  const snap = await getVideosCollection()
+    .where("userId", "==", userId)
+    .where("status", "==", "unassigned")
+    .get();
+
+  return snap.docs
+    .map((doc) => mapVideo(doc.id, doc.data()))
+    .sort((a, b) => b.videoMessageId - a.videoMessageId)
+    .slice(0, limit);
+}
+
+/**
+ * Закрывает видео во «Входящих» (назначено каналу или скрыто).
+ * Возвращает false, если видео уже обработано.
+ */
+export async function resolveUnassignedVideo(
+  id: string,
+  update: {
+    status: Exclude<UnassignedVideoStatus, "unassigned">;
+    assignedChannelId?: string | null;
+    assignedJobId?: string | null;
+  }
+): Promise<boolean> {
+  if (!db) {
+    throw new Error("Firestore is not available");
+  }
+
+  const docRef = getVideosCollection().doc(id);
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(docRef);
+    if (!snap.exists || snap.data()?.status !== "unassigned") {
+      return false;
+    }
+
+    tx.update(docRef, {
+      status: update.status,
+      assignedChannelId: update.assignedChannelId ?? null,
+      assignedJobId: update.assignedJobId ?? null,
+      resolvedAt: new Date()
+    });
+    return true;
+  });
+}
@@ -0,0 +1,124 @@
+import { db } from "../services/firebaseAdmin";
+
+/**
+ * Запись журнала загрузок: какое сообщение Telegram уже лежит в хранилище канала.
+ * Хранится в подколлекции канала, ключ — чат + ID сообщения.
+ */
+export interface UploadedVideo {
+  id: string;
+  chatId: string;
+  messageId: number;
+  // ID документа Telegram: совпадает у пересланных и повторно отправленных копий файла
+  telegramFileId: string | null;
+  // SHA-256 содержимого файла
+  fileHash: string | null;
+  sizeBytes: number | null;
+  // Хранилище файла (null — записи до выбора хранилища, Google Drive)
+  storageBackend: string | null;
+  // ID файла в хранилище: ID в Drive, ключ в S3 или путь в локальной папке
+  driveFileId: string;
+  driveWebViewLink: string | null;
+  driveWebContentLink: string | null;
+  fileName: string | null;
+  runId: string | null;
+  uploadedAt: Date;
+}
+
+function toDate(value: any): Date | null {
+  if (!value) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value;
+  }
+  if (typeof value.toDate === "function") {
+    return value.toDate();
+  }
+  return new Date(value);
+}
+
+function mapUploadedVideo(id: string, data: any): UploadedVideo {
+  return {
+    id,
+    chatId: data.chatId,
+    messageId: data.messageId,
+    telegramFileId: data.telegramFileId ?? null,
+    fileHash: data.fileHash ?? null,
+    sizeBytes: data.sizeBytes ?? null,
+    storageBackend: data.storageBackend ?? null,
+    driveFileId: data.driveFileId,
+    driveWebViewLink: data.driveWebViewLink ?? null,
+    driveWebContentLink: data.driveWebContentLink ?? null,
+    fileName: data.fileName ?? null,
+    runId: data.runId ?? null,
+    uploadedAt: toDate(data.uploadedAt) ?? new Date()
+  };
+}
+
+function getUploadedVideosCollection(userId: string, channelId: string) {
+  if (!db) {
+    throw new Error("Firestore is not available");
+  }
+  return db
+    .collection("users")
+    .doc(userId)
+    .collection("channels")
+    .doc(channelId)
+    .collection("uploadedVideos");
+}
+
+function getUploadedVideoId(chatId: string, messageId: number): string {
+  // "/" недопустим в ID документа Firestore
+  return `${chatId.replace(/\//g, "_")}_${messageId}`;
+}
+
+/**
+ * Ищет уже загруженное видео: по сообщению, затем по файлу Telegram, затем по хешу содержимого
+ */
+export async function findUploadedVideo(
+  userId: string,
+  channelId: string,
+  key: {
+    chatId: string;
+    messageId: number;
+    telegramFileId?: string | null;
+    fileHash?: string | null;
+  }
+): Promise<UploadedVideo | null> {
+  const collection = getUploadedVideosCollection(userId, channelId);
+
+  const snap = await collection.doc(getUploadedVideoId(key.chatId, key.messageId)).get();
+  if (snap.exists) {
+    return mapUploadedVideo(snap.id, snap.data());
+  }
+
+  if (key.telegramFileId) {
+    const byFile = await collection.where("telegramFileId", "==", key.telegramFileId).limit(1).get();
+    if (!byFile.empty) {
+      return mapUploadedVideo(byFile.docs[0].id, byFile.docs[0].data());
+    }
+  }
+
+  if (key.fileHash) {
+    const byHash = await collection.where("fileHash", "==", key.fileHash).limit(1).get();
+    if (!byHash.empty) {
+      return mapUploadedVideo(byHash.docs[0].id, byHash.docs[0].data());
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Записывает загруженное видео в журнал (повторная загрузка перезаписывает запись)
+ */
+export async function recordUploadedVideo(
+  userId: string,
+  channelId: string,
+  input: Omit<UploadedVideo, "id" | "uploadedAt">
+): Promise<UploadedVideo> {
+  const id = getUploadedVideoId(input.chatId, input.messageId);
+  const data = { ...input, uploadedAt: new Date() };
+  await getUploadedVideosCollection(userId, channelId).doc(id).set(data);
+  return mapUploadedVideo(id, data);
+}
@@ -1,6 +1,15 @@
+import * as admin from "firebase-admin";
 import { db } from "../services/firebaseAdmin";
+import { decrypt, encrypt } from "../crypto/aes";
 import { Logger } from "../utils/logger";
 
+// Поля, в которых токены раньше хранились открытым текстом прямо в документе пользователя
+const LEGACY_TOKEN_FIELDS = [
+  "googleDriveAccessToken",
+  "googleDriveRefreshToken",
+  "googleDriveTokenExpiry"
+] as const;
+
 export interface UserOAuthTokens {
   userId: string;
   googleDriveAccessToken?: string;
@@ -10,7 +19,91 @@ export interface UserOAuthTokens {
 }
 
 /**
- * Сохраняет OAuth токены Google Drive для пользователя
+ * Документ users/{userId}/private/googleOAuth. Токены зашифрованы AES-GCM (crypto/aes.ts).
+ * Подколлекция private читается только бэкендом через Admin SDK — клиентские правила её не открывают.
+ */
+interface StoredGoogleOAuthTokens {
+  accessTokenEncrypted?: string;
+  refreshTokenEncrypted?: string;
+  tokenExpiry?: number;
+  updatedAt: Date;
+}
+
+function getTokensRef(userId: string) {
+  return db!.collection("users").doc(userId).collection("private").doc("googleOAuth");
+}
+
+function toStoredTokens(tokens: {
+  access_token?: string;
+  refresh_token?: string;
+  expiry_date?: number;
+}): StoredGoogleOAuthTokens {
+  const stored: StoredGoogleOAuthTokens = { updatedAt: new Date() };
+
+  if (tokens.access_token) {
+    stored.accessTokenEncrypted = encrypt(tokens.access_token);
+  }
+  if (tokens.refresh_token) {
+    stored.refreshTokenEncrypted = encrypt(tokens.refresh_token);
+  }
+  if (tokens.expiry_date) {
+    stored.tokenExpiry = tokens.expiry_date;
+  }
+  return stored;
+}
+
+/**
+ * Удаляет открытые токены из документа пользователя
+ */
+function getLegacyFieldsDeletion(): Record<string, admin.firestore.FieldValue> {
+  return Object.fromEntries(
+    LEGACY_TOKEN_FIELDS.map((field) => [field, admin.firestore.FieldValue.delete()])
+  );
+}
+
+/**
+ * Переносит открытые токены из документа пользователя в зашифрованный документ.
+ * Если перенести не удалось (например, не задан TELEGRAM_SESSION_SECRET), токены остаются на месте.
+ */
+async function migrateLegacyTokens(
+  userId: string,
+  data: FirebaseFirestore.DocumentData
+): Promise<UserOAuthTokens> {
+  const tokens: UserOAuthTokens = {
+    userId,
+    googleDriveAccessToken: data.googleDriveAccessToken,
+    googleDriveRefreshToken: data.googleDriveRefreshToken,
+    googleDriveTokenExpiry: data.googleDriveTokenExpiry,
+    updatedAt: data.updatedAt?.toDate() || new Date()
+  };
+
+  try {
+    const batch = db!.batch();
+    batch.set(
+      getTokensRef(userId),
+      toStoredTokens({
+        access_token: tokens.googleDriveAccessToken,
+        refresh_token: tokens.googleDriveRefreshToken,
+        expiry_date: tokens.googleDriveTokenExpiry
+      }),
+      { merge: true }
+    );
+    batch.update(db!.collection("users").doc(userId), getLegacyFieldsDeletion());
+    await batch.commit();
+
+    Logger.info("User OAuth tokens migrated to encrypted storage", { userId });
+  } catch (error) {
+    Logger.error("Failed to migrate user OAuth tokens to encrypted storage", {
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Сохраняет OAuth токены Google Drive для пользователя (в зашифрованном виде)
  */
 export async function saveUserOAuthTokens(
   userId: string,
@@ -25,29 +118,11 @@ export async function saveUserOAuthTokens(
   }
 
   try {
-    const userRef = db.collection("users").doc(userId);
-    const tokensData: Partial<UserOAuthTokens> = {
-      userId,
-      updatedAt: new Date()
-    };
-
-    if (tokens.access_token) {
-      tokensData.googleDriveAccessToken = tokens.access_token;
-    }
-    if (tokens.refresh_token) {
-      tokensData.googleDriveRefreshToken = tokens.refresh_token;
-    }
-    if (tokens.expiry_date) {
-      tokensData.googleDriveTokenExpiry = tokens.expiry_date;
-    }
-
-    await userRef.set(
-      {
-        ...tokensData,
-        updatedAt: new Date()
-      },
-      { merge: true }
-    );
+    const batch = db.batch();
+    batch.set(getTokensRef(userId), toStoredTokens(tokens), { merge: true });
+    // Заодно убираем открытые токены, оставшиеся от прежнего формата
+    batch.set(db.collection("users").doc(userId), getLegacyFieldsDeletion(), { merge: true });
+    await batch.commit();
 
     Logger.info("User OAuth tokens saved", { userId, hasAccessToken: !!tokens.access_token });
   } catch (error) {
@@ -57,7 +132,9 @@ export async function saveUserOAuthTokens(
 }
 
 /**
- * Получает OAuth токены Google Drive для пользователя
+ * Получает OAuth токены Google Drive для пользователя.
+ * Токены в прежнем формате (открытым текстом в документе пользователя) переносятся при первом чтении.
+ * @returns null, если пользователь не подключал Google Drive или токены не удалось расшифровать
  */
 export async function getUserOAuthTokens(userId: string): Promise<UserOAuthTokens | null> {
   if (!db) {
@@ -65,20 +142,41 @@ export async function getUserOAuthTokens(userId: string): Promise<UserOAuthToken
   }
 
   try {
-    const userDoc = await db.collection("users").doc(userId).get();
+    const tokensDoc = await getTokensRef(userId).get();
 
-    if (!userDoc.exists) {
-      return null;
+    if (!tokensDoc.exists) {
+      const userDoc = await db.collection("users").doc(userId).get();
+      const userData = userDoc.data();
+      if (!userData || !LEGACY_TOKEN_FIELDS.some((field) => userData[field] !== undefined)) {
+        return null;
+      }
+      return migrateLegacyTokens(userId, userData);
     }
 
-    const data = userDoc.data();
-    return {
-      userId,
-      googleDriveAccessToken: data?.googleDriveAccessToken,
-      googleDriveRefreshToken: data?.googleDriveRefreshToken,
-      googleDriveTokenExpiry: data?.googleDriveTokenExpiry,
-      updatedAt: data?.updatedAt?.toDate() || new Date()
+    const data = tokensDoc.data() as Partial<StoredGoogleOAuthTokens> & {
+      updatedAt?: FirebaseFirestore.Timestamp;
     };
+
+    try {
+      return {
+        userId,
+        googleDriveAccessToken: data.accessTokenEncrypted
+          ? decrypt(data.accessTokenEncrypted)
+          : undefined,
+        googleDriveRefreshToken: data.refreshTokenEncrypted
+          ? decrypt(data.refreshTokenEncrypted)
+          : undefined,
+        googleDriveTokenExpiry: data.tokenExpiry,
+        updatedAt: data.updatedAt?.toDate() || new Date()
+      };
+    } catch (decryptError) {
+      // Ключ шифрования сменился — пользователю нужно заново подключить Google Drive
+      Logger.error("Failed to decrypt user OAuth tokens", {
+        userId,
+        error: decryptError instanceof Error ? decryptError.message : String(decryptError)
+      });
+      return null;
+    }
   } catch (error) {
     Logger.error("Failed to get user OAuth tokens", error);
     throw error;
@@ -98,12 +196,8 @@ export async function updateUserAccessToken(
   }
 
   try {
-    await db.collection("users").doc(userId).set(
-      {
-        googleDriveAccessToken: accessToken,
-        googleDriveTokenExpiry: expiryDate,
-        updatedAt: new Date()
-      },
+    await getTokensRef(userId).set(
+      toStoredTokens({ access_token: accessToken, expiry_date: expiryDate }),
       { merge: true }
     );
 
@@ -113,4 +207,3 @@ export async function updateUserAccessToken(
     throw error;
   }
 }
-
@@ -0,0 +1,53 @@
+import { Router } from "express";
+import { authRequired } from "../middleware/auth";
+import { isFirestoreAvailable } from "../services/firebaseAdmin";
+import { resumeChannelAutomation } from "../services/channelAutomationHealth";
+import { Logger } from "../utils/logger";
+
+const router = Router();
+
+/**
+ * POST /api/channels/:channelId/resume
+ * Снимает автоматику канала с паузы после проверки Telegram-сессии и папки Google Drive
+ */
+router.post("/:channelId/resume", authRequired, async (req, res) => {
+  const userId = req.user!.uid;
+  const { channelId } = req.params;
+
+  if (!isFirestoreAvailable()) {
+    return res.status(503).json({
+      error: "FIRESTORE_NOT_AVAILABLE",
+      message: "Firebase Admin не настроен"
+    });
+  }
+
+  try {
+    const result = await resumeChannelAutomation(userId, channelId);
+
+    if (result.status === "not_found") {
+      return res.status(404).json({ error: "CHANNEL_NOT_FOUND" });
+    }
+
+    if (result.status === "validation_failed") {
+      return res.status(422).json({
+        error: "AUTOMATION_PREREQUISITES_FAILED",
+        message: result.problems.map((problem) => problem.message).join(" "),
+        problems: result.problems
+      });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    Logger.error("POST /api/channels/:channelId/resume: failed", {
+      userId,
+      channelId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return res.status(500).json({
+      error: "FAILED_TO_RESUME_CHANNEL",
+      message: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+export default router;
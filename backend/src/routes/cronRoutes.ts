@@ -24,7 +24,7 @@ router.post("/manual-tick", async (req, res) => {
   Logger.info("Manual tick triggered via HTTP endpoint");
 
   try {
-    await processAutoSendTick();
+    await processAutoSendTick("http");
     return res.json({ success: true, message: "Auto-send tick completed" });
   } catch (error) {
     Logger.error("Error in manual tick", error);
@@ -52,7 +52,7 @@ router.post("/sendScheduledPrompts", async (req, res) => {
   }
 
   try {
-    await processAutoSendTick();
+    await processAutoSendTick("http");
     return res.json({ success: true, message: "Scheduled prompts sent" });
   } catch (error) {
     Logger.error("Error in sendScheduledPrompts", error);
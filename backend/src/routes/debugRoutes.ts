@@ -2,6 +2,8 @@ import { Router } from "express";
 import { db, isFirestoreAvailable } from "../services/firebaseAdmin";
 import { Logger } from "../utils/logger";
 import { authRequired } from "../middleware/auth";
+import { getTelegramOutboundQueueStats } from "../services/telegramOutboundQueue";
+import { getTelegramClientPoolStats } from "../telegram/clientPool";
 
 const router = Router();
 
@@ -140,5 +142,21 @@ router.get("/auto-send-channels", authRequired, async (req, res) => {
   }
 });
 
+/**
+ * Состояние общей очереди запросов к Telegram
+ * GET /api/debug/telegram-queue
+ */
+router.get("/telegram-queue", authRequired, (_req, res) => {
+  return res.json(getTelegramOutboundQueueStats());
+});
+
+/**
+ * Состояние пула подключённых Telegram-клиентов
+ * GET /api/debug/telegram-clients
+ */
+router.get("/telegram-clients", authRequired, (_req, res) => {
+  return res.json(getTelegramClientPoolStats());
+});
+
 export default router;
 
@@ -0,0 +1,80 @@
+import { Router } from "express";
+import { authRequired } from "../middleware/auth";
+import { findFailedJobs, getJobById, requeueFailedJob } from "../repositories/jobRepo";
+import { Logger } from "../utils/logger";
+
+const router = Router();
+
+const DEAD_LETTER_LIMIT = 50;
+
+/**
+ * GET /api/jobs/dead-letter?channelId=...
+ * Задачи, исчерпавшие все попытки (отправка по расписанию, автоскачивание)
+ */
+router.get("/dead-letter", authRequired, async (req, res) => {
+  const userId = req.user!.uid;
+  const channelId = typeof req.query.channelId === "string" ? req.query.channelId : undefined;
+
+  try {
+    const jobs = await findFailedJobs({ userId, channelId, limit: DEAD_LETTER_LIMIT });
+    return res.json({ jobs });
+  } catch (error) {
+    Logger.error("GET /api/jobs/dead-letter: failed", {
+      userId,
+      channelId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return res.status(500).json({
+      error: "FAILED_TO_LOAD_DEAD_LETTER_JOBS",
+      message: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+/**
+ * POST /api/jobs/:jobId/retry
+ * Возвращает проваленную задачу в очередь с новым набором попыток
+ */
+router.post("/:jobId/retry", authRequired, async (req, res) => {
+  const userId = req.user!.uid;
+  const { jobId } = req.params;
+
+  try {
+    const job = await getJobById(jobId);
+    if (!job || job.userId !== userId) {
+      return res.status(404).json({
+        error: "JOB_NOT_FOUND",
+        message: "Задача не найдена"
+      });
+    }
+
+    const requeued = await requeueFailedJob(jobId);
+    if (!requeued) {
+      return res.status(409).json({
+        error: "JOB_NOT_FAILED",
+        message: "Повторить можно только задачу, завершившуюся ошибкой"
+      });
+    }
+
+    Logger.info("POST /api/jobs/:jobId/retry: job requeued", {
+      userId,
+      jobId,
+      type: requeued.type,
+      channelId: requeued.channelId
+    });
+
+    return res.json({ success: true, job: requeued });
+  } catch (error) {
+    Logger.error("POST /api/jobs/:jobId/retry: failed", {
+      userId,
+      jobId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return res.status(500).json({
+      error: "FAILED_TO_RETRY_JOB",
+      message: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+export default router;
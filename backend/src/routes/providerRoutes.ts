@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { authRequired } from "../middleware/auth";
+import { listGenerationProviders } from "../providers/registry";
+
+const router = Router();
+
+/**
+ * GET /api/providers
+ * Боты-генераторы видео, доступные для выбора в настройках канала
+ */
+router.get("/", authRequired, (_req, res) => {
+  return res.json({ providers: listGenerationProviders() });
+});
+
+export default router;
@@ -0,0 +1,40 @@
+import { Router } from "express";
+import { authRequired } from "../middleware/auth";
+import { getUpcomingRunsForUser } from "../services/schedulePreview";
+import { Logger } from "../utils/logger";
+
+const router = Router();
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+/**
+ * GET /api/schedule/upcoming?limit=50&days=14&channelId=...
+ * Ближайшие запланированные запуски автоотправки по каналам пользователя
+ * (в UTC и во временной зоне канала) и ожидаемое время автоскачивания
+ */
+router.get("/upcoming", authRequired, async (req, res) => {
+  const userId = req.user!.uid;
+  const limit = Math.max(
+    1,
+    Math.min(MAX_LIMIT, parseInt(String(req.query.limit ?? ""), 10) || DEFAULT_LIMIT)
+  );
+  const days = parseInt(String(req.query.days ?? ""), 10) || undefined;
+  const channelId = typeof req.query.channelId === "string" ? req.query.channelId : undefined;
+
+  try {
+    const runs = await getUpcomingRunsForUser(userId, { limit, days, channelId });
+    return res.json({ runs, generatedAt: new Date().toISOString() });
+  } catch (error) {
+    Logger.error("GET /api/schedule/upcoming: failed", {
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return res.status(500).json({
+      error: "FAILED_TO_BUILD_SCHEDULE_PREVIEW",
+      message: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+export default router;
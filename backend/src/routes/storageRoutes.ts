@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { authRequired } from "../middleware/auth";
+import { listStorageBackends } from "../storage/registry";
+
+const router = Router();
+
+/**
+ * GET /api/storage
+ * Хранилища видео, доступные для выбора в настройках канала
+ */
+router.get("/", authRequired, (_req, res) => {
+  return res.json({ backends: listStorageBackends() });
+});
+
+export default router;
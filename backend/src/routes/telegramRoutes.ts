@@ -5,20 +5,20 @@ import { telegramAccountRepository } from "../repositories/telegramAccountRepo";
 import {
   createTempClientState,
   getTempClientState,
-  deleteTempClientState
+  deleteTempClientState,
+  restoreTempClientState
 } from "../telegram/client";
-import { encrypt } from "../crypto/aes";
+import { encrypt, decrypt } from "../crypto/aes";
+import { TELEGRAM_LOGIN_SESSION_TTL_MS } from "../repositories/telegramLoginSessionRepo";
 import {
   sendPromptFromUserToSyntx,
   TelegramSessionExpiredError
 } from "../services/sendPromptFromUserToSyntx";
-import { loadSessionString } from "../telegram/sessionStore";
-import { createTelegramClientFromStringSession } from "../telegram/client";
-import type { Api } from "telegram";
-import { uploadVideoToDrive, uploadFileToDrive } from "../services/googleDrive";
-import { uploadFileToDriveWithOAuth } from "../services/googleDriveOAuth";
-import { getUserOAuthTokens, updateUserAccessToken } from "../repositories/userOAuthTokensRepo";
-import { google } from "googleapis";
+import {
+  getDriveErrorCode,
+  toDriveError,
+  type DriveErrorCode
+} from "../services/googleDriveClient";
 import {
   downloadTelegramVideoToTemp,
   cleanupTempFile
@@ -27,9 +27,40 @@ import { generateVideoFileName } from "../utils/fileUtils";
 import { Logger } from "../utils/logger";
 import { db, isFirestoreAvailable, getFirebaseError } from "../services/firebaseAdmin";
 import { downloadAndUploadVideoToDrive } from "../services/videoDownloadService";
+import { evictTelegramClient } from "../telegram/clientPool";
+import { restartSyntxListener, stopSyntxListener } from "../telegram/syntxListener";
+import { sendManualPromptForChannel } from "../services/autoSendService";
 
 const router = Router();
 
+// HTTP-статус ответа для ошибок Google Drive
+const DRIVE_ERROR_HTTP_STATUS: Record<DriveErrorCode, number> = {
+  NOT_CONFIGURED: 503,
+  TOKEN_REVOKED: 401,
+  FOLDER_NOT_FOUND: 400,
+  FOLDER_NOT_SHARED: 403,
+  NOT_A_FOLDER: 400,
+  QUOTA_EXCEEDED: 429,
+  RATE_LIMITED: 429,
+  FILE_TOO_LARGE: 413,
+  UPLOAD_FAILED: 500
+};
+
+/**
+ * Отключает клиент прежней сессии пользователя в пуле. Ошибка только логируется:
+ * аккаунт уже обновлён, а неиспользуемый клиент отключится по простою.
+ */
+async function evictAccountTelegramClient(userId: string, sessionEncrypted: string): Promise<void> {
+  try {
+    await evictTelegramClient(decrypt(sessionEncrypted));
+  } catch (error) {
+    Logger.warn("Failed to evict Telegram client of previous session", {
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
 router.post("/start", authRequired, async (req, res) => {
   try {
     const { phone } = req.body as { phone?: string };
@@ -40,6 +71,13 @@ router.post("/start", authRequired, async (req, res) => {
     const userId = req.user!.uid;
     const stateId = `${userId}_${Date.now()}`;
 
+    // Новый запрос кода отменяет предыдущие незавершённые входы пользователя
+    const previousSessions = await telegramLoginSessionRepository.findByUserId(userId);
+    for (const previous of previousSessions) {
+      deleteTempClientState(previous.mtprotoStateId);
+      await telegramLoginSessionRepository.deleteById(previous.id);
+    }
+
     await createTempClientState(stateId, phone);
     const state = getTempClientState(stateId);
     if (!state) {
@@ -59,13 +97,17 @@ router.post("/start", authRequired, async (req, res) => {
       return res.status(500).json({ error: "FAILED_TO_SEND_CODE" });
     }
 
+    // Сохраняем временную сессию, чтобы вход можно было подтвердить на любом инстансе
+    const now = new Date();
     await telegramLoginSessionRepository.create({
       id: stateId,
       userId,
       phone,
       mtprotoStateId: stateId,
       phoneCodeHash,
-      createdAt: new Date()
+      sessionEncrypted: encrypt(state.client.session.save() as unknown as string),
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + TELEGRAM_LOGIN_SESSION_TTL_MS)
     });
 
     return res.json({ status: "code_sent" });
@@ -98,9 +140,26 @@ router.post("/confirm", authRequired, async (req, res) => {
       return res.status(400).json({ error: "NO_PENDING_LOGIN_SESSION" });
     }
 
-    const state = getTempClientState(loginSession.mtprotoStateId);
+    let state = getTempClientState(loginSession.mtprotoStateId);
     if (!state) {
-      return res.status(400).json({ error: "MTPROTO_STATE_NOT_FOUND" });
+      if (!loginSession.sessionEncrypted) {
+        return res.status(400).json({ error: "MTPROTO_STATE_NOT_FOUND" });
+      }
+      // Вход начат на другом инстансе (или после перезапуска) — восстанавливаем клиент
+      try {
+        state = await restoreTempClientState(
+          loginSession.mtprotoStateId,
+          phone,
+          decrypt(loginSession.sessionEncrypted)
+        );
+      } catch (restoreError) {
+        Logger.warn("telegram/confirm: failed to restore login client", {
+          userId,
+          stateId: loginSession.mtprotoStateId,
+          error: restoreError instanceof Error ? restoreError.message : String(restoreError)
+        });
+        return res.status(400).json({ error: "MTPROTO_STATE_NOT_FOUND" });
+      }
     }
 
     try {
@@ -128,12 +187,19 @@ router.post("/confirm", authRequired, async (req, res) => {
     const stringSession = state.client.session.save() as string;
     const encrypted = encrypt(stringSession);
 
+    const previousAccount = await telegramAccountRepository.findActiveByUserId(userId);
     const account = await telegramAccountRepository.upsertForUser(
       userId,
       phone,
       encrypted
     );
 
+    // Клиент прежней сессии отключается, слушатель чата бота переходит на новую сессию
+    if (previousAccount && previousAccount.sessionEncrypted !== encrypted) {
+      await evictAccountTelegramClient(userId, previousAccount.sessionEncrypted);
+    }
+    void restartSyntxListener(userId);
+
     await telegramLoginSessionRepository.deleteById(loginSession.id);
     deleteTempClientState(loginSession.mtprotoStateId);
 
@@ -154,21 +220,38 @@ router.post("/confirm", authRequired, async (req, res) => {
 
 router.post("/disconnect", authRequired, async (req, res) => {
   const userId = req.user!.uid;
-  await telegramAccountRepository.deactivateForUser(userId);
-  return res.json({ status: "disconnected" });
+  try {
+    const account = await telegramAccountRepository.findActiveByUserId(userId);
+    await telegramAccountRepository.deactivateForUser(userId);
+
+    // Клиент сессии больше не нужен: останавливаем слушателя и отключаем клиент
+    stopSyntxListener(userId);
+    if (account) {
+      await evictAccountTelegramClient(userId, account.sessionEncrypted);
+    }
+    return res.json({ status: "disconnected" });
+  } catch (err) {
+    console.error("Error in /api/telegram/disconnect", err);
+    return res.status(500).json({ error: "FAILED_TO_DISCONNECT" });
+  }
 });
 
 router.get("/status", authRequired, async (req, res) => {
   const userId = req.user!.uid;
-  const acc = await telegramAccountRepository.findActiveByUserId(userId);
-  if (!acc || !acc.isActive) {
-    return res.json({ connected: false });
+  try {
+    const acc = await telegramAccountRepository.findActiveByUserId(userId);
+    if (!acc || !acc.isActive) {
+      return res.json({ connected: false });
+    }
+    const masked =
+      acc.phone.length > 6
+        ? acc.phone.slice(0, 3) + "•••" + acc.phone.slice(-2)
+        : "•••";
+    return res.json({ connected: true, phoneMasked: masked });
+  } catch (err) {
+    console.error("Error in /api/telegram/status", err);
+    return res.status(500).json({ error: "FAILED_TO_GET_STATUS" });
   }
-  const masked =
-    acc.phone.length > 6
-      ? acc.phone.slice(0, 3) + "•••" + acc.phone.slice(-2)
-      : "•••";
-  return res.json({ connected: true, phoneMasked: masked });
 });
 
 router.post("/sendPrompt", authRequired, async (req, res) => {
@@ -183,8 +266,8 @@ router.post("/sendPrompt", authRequired, async (req, res) => {
   const userId = req.user!.uid;
 
   try {
-    await sendPromptFromUserToSyntx(userId, prompt);
-    return res.json({ status: "sent" });
+    const result = await sendManualPromptForChannel(channelId, userId, prompt);
+    return res.json({ status: "sent", runId: result.runId, messageId: result.messageId });
   } catch (err: any) {
     if (err instanceof TelegramSessionExpiredError) {
       return res
@@ -199,16 +282,26 @@ router.post("/sendPrompt", authRequired, async (req, res) => {
   }
 });
 
-// Новый эндпоинт для отправки промпта в SyntX через глобальную сессию (не требует userId)
+// Отправка промпта в SyntX через Telegram-сессию текущего пользователя
 router.post("/sendPromptToSyntx", authRequired, async (req, res) => {
-  const { prompt } = req.body as { prompt?: string };
+  const { prompt, channelId, title } = req.body as {
+    prompt?: string;
+    channelId?: string;
+    title?: string;
+  };
   if (!prompt) {
     return res.status(400).json({ error: "prompt is required" });
   }
 
   try {
-    // Используем глобальную сессию (userId не нужен, используем пустую строку)
-    await sendPromptFromUserToSyntx("", prompt);
+    // Если известен канал, фиксируем запуск в его истории
+    if (channelId) {
+      const result = await sendManualPromptForChannel(channelId, req.user!.uid, prompt, title);
+      return res.json({ status: "sent", runId: result.runId, messageId: result.messageId });
+    }
+
+    // Отправляем от имени Telegram-аккаунта текущего пользователя
+    await sendPromptFromUserToSyntx(req.user!.uid, prompt);
     return res.json({ status: "sent" });
   } catch (err: any) {
     if (err instanceof TelegramSessionExpiredError) {
@@ -220,7 +313,7 @@ router.post("/sendPromptToSyntx", authRequired, async (req, res) => {
       return res.status(400).json({
         error: "TELEGRAM_SESSION_NOT_INITIALIZED",
         message:
-          "Telegram сессия не инициализирована. Запустите 'npm run dev:login' в папке backend."
+          "Telegram не подключён. Подключите Telegram в настройках аккаунта."
       });
     }
     console.error("Error in /api/telegram/sendPromptToSyntx", err);
@@ -228,9 +321,12 @@ router.post("/sendPromptToSyntx", authRequired, async (req, res) => {
   }
 });
 
-// Забрать последнее видео из SyntX и сохранить в Google Drive
+// Забрать последнее видео из SyntX и сохранить в хранилище канала (Google Drive, локальная папка или S3)
 router.post("/fetchLatestVideoToDrive", authRequired, async (req, res) => {
-  const { channelId } = req.body as { channelId?: string };
+  const { channelId, forceReupload } = req.body as {
+    channelId?: string;
+    forceReupload?: boolean;
+  };
 
   if (!channelId) {
     return res.status(400).json({ error: "channelId is required" });
@@ -239,23 +335,6 @@ router.post("/fetchLatestVideoToDrive", authRequired, async (req, res) => {
   const userId = req.user!.uid;
   Logger.info("fetchLatestVideoToDrive: start", { userId, channelId });
 
-  // Проверяем Telegram-сессию
-  const stringSession = loadSessionString();
-  if (!stringSession) {
-    return res.status(503).json({
-      error: "TELEGRAM_SESSION_NOT_INITIALIZED",
-      message:
-        "Telegram-сеанс не настроен. Сначала подключите SyntX на backend (npm run dev:login)."
-    });
-  }
-
-  const SYNX_CHAT_ID = process.env.SYNX_CHAT_ID;
-  if (!SYNX_CHAT_ID) {
-    return res
-      .status(500)
-      .json({ error: "SYNX_CHAT_ID is not configured on the server" });
-  }
-
   // Проверяем доступность Firestore
   if (!isFirestoreAvailable() || !db) {
     Logger.error("Firestore is not available in /api/telegram/fetchLatestVideoToDrive");
@@ -273,249 +352,26 @@ router.post("/fetchLatestVideoToDrive", authRequired, async (req, res) => {
   }
 
   try {
-    // Проверяем, что пользователь имеет доступ к этому каналу и читаем данные канала
-    const channelRef = db
-      .collection("users")
-      .doc(userId)
-      .collection("channels")
-      .doc(channelId);
-    const channelSnap = await channelRef.get();
-
-    if (!channelSnap.exists) {
-      return res.status(404).json({ error: "CHANNEL_NOT_FOUND" });
-    }
-
-                const channelData = channelSnap.data() as {
-                  name?: string;
-                  googleDriveFolderId?: string;
-                };
-
-                // Определяем папку: сначала из канала (с trim), потом из .env (с trim)
-                const channelFolderId = channelData.googleDriveFolderId?.trim() || undefined;
-                const defaultParent = process.env.GOOGLE_DRIVE_DEFAULT_PARENT?.trim() || undefined;
-
-                // Проверка будет выполнена в uploadVideoToDrive, но для ясности логируем здесь
-                Logger.info("Determining Google Drive folder", {
-                  channelFolderId: channelFolderId || "not set",
-                  defaultParent: defaultParent || "not set",
-                  willUse: channelFolderId || defaultParent || "none"
-                });
-
-    // Создаем Telegram-клиент
-    const client = await createTelegramClientFromStringSession(stringSession);
-
-    try {
-      // TODO: Улучшенный поиск видео - получаем последние сообщения и ищем самое свежее видео
-      Logger.info("Fetching latest messages from SyntX chat for video search", {
-        chatId: SYNX_CHAT_ID,
-        limit: 50
-      });
-      
-      const messages = (await client.getMessages(SYNX_CHAT_ID, {
-        limit: 50
-      })) as Api.Message[];
-
-      Logger.info(`Received ${messages.length} messages from SyntX chat`);
-
-      // Фильтруем сообщения с видео и сортируем по дате (самое свежее первым)
-      const videoMessages = messages
-        .filter((msg) => {
-          try {
-            // Проверяем наличие video attachment
-            const hasVideo =
-              "video" in msg &&
-              (msg as any).video != null &&
-              !(msg as any).video.deleted;
-            
-            // Проверяем наличие document с видео-атрибутом
-            const doc = (msg as any).document;
-            const hasDocVideo =
-              doc != null &&
-              Array.isArray(doc.attributes) &&
-              doc.attributes.some(
-                (attr: any) =>
-                  attr?.className === "DocumentAttributeVideo" ||
-                  attr?.className === "MessageMediaDocument"
-              ) &&
-              // Дополнительная проверка MIME типа для документов
-              (doc.mimeType?.startsWith("video/") ||
-                doc.mimeType === "application/octet-stream" ||
-                doc.fileName?.match(/\.(mp4|avi|mov|mkv|webm)$/i));
-
-            return hasVideo || hasDocVideo;
-          } catch (filterError) {
-            Logger.warn("Error filtering video message", {
-              messageId: (msg as any).id,
-              error: String(filterError)
-            });
-            return false;
-          }
-        })
-        .sort((a, b) => {
-          // Сортируем по дате (самое свежее первым)
-          // В Telegram API дата может быть в разных форматах
-          let dateA = 0;
-          let dateB = 0;
-          
-          try {
-            const msgA = a as any;
-            const msgB = b as any;
-            
-            // Пробуем разные способы получить дату
-            if (msgA.date) {
-              dateA = msgA.date instanceof Date 
-                ? msgA.date.getTime() 
-                : typeof msgA.date === 'number' 
-                  ? msgA.date * 1000 // Unix timestamp в секундах
-                  : new Date(msgA.date).getTime();
-            } else if (msgA.id) {
-              // Если даты нет, используем ID как fallback (обычно ID больше = новее)
-              dateA = msgA.id;
-            }
-            
-            if (msgB.date) {
-              dateB = msgB.date instanceof Date 
-                ? msgB.date.getTime() 
-                : typeof msgB.date === 'number' 
-                  ? msgB.date * 1000
-                  : new Date(msgB.date).getTime();
-            } else if (msgB.id) {
-              dateB = msgB.id;
-            }
-          } catch (sortError) {
-            Logger.warn("Error sorting messages by date", {
-              error: String(sortError)
-            });
-          }
-          
-          return dateB - dateA; // Сортируем по убыванию (новые первыми)
-        });
-
-      if (videoMessages.length === 0) {
-        Logger.warn("No video messages found in SyntX chat", {
-          totalMessages: messages.length,
-          chatId: SYNX_CHAT_ID
-        });
-        return res.status(404).json({
-          error: "NO_VIDEO_FOUND",
-          message:
-            "Видео ещё не готово в чате SyntX. Подождите окончания генерации и попробуйте ещё раз."
-        });
-      }
-
-      // Берём самое последнее видео
-      const videoMessage = videoMessages[0];
-      
-      Logger.info("Video message found, preparing to download", {
-        messageId: videoMessage.id,
-        hasVideo: "video" in videoMessage,
-        hasDocument: "document" in videoMessage,
-        totalVideoMessages: videoMessages.length
-      });
-
-      // TODO: Улучшенное скачивание с проверкой размера и прогрессом
-      Logger.info("Starting video download from Telegram", {
-        messageId: videoMessage.id
-      });
-
-      const downloadStartTime = Date.now();
-      let fileBuffer: Buffer | undefined;
-
-      try {
-        fileBuffer = (await client.downloadMedia(videoMessage, {
-          // Опции для скачивания
-        })) as Buffer | undefined;
-      } catch (downloadError: any) {
-        Logger.error("Error during Telegram media download", {
-          error: String(downloadError?.message ?? downloadError),
-          messageId: videoMessage.id
-        });
-        throw new Error(`TELEGRAM_DOWNLOAD_ERROR: ${downloadError?.message ?? "Failed to download video"}`);
-      }
-
-      if (!fileBuffer || fileBuffer.length === 0) {
-        Logger.error("Downloaded file buffer is empty or null", {
-          messageId: videoMessage.id,
-          bufferLength: fileBuffer?.length ?? 0
-        });
-        return res.status(500).json({
-          error: "TELEGRAM_DOWNLOAD_FAILED",
-          message: "Не удалось скачать видео из SyntX. Файл пустой или повреждён."
-        });
-      }
-
-      // TODO: Проверка размера файла (максимум 100MB для безопасности)
-      const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100 MB
-      if (fileBuffer.length > MAX_FILE_SIZE) {
-        Logger.error("Downloaded file is too large", {
-          messageId: videoMessage.id,
-          fileSizeBytes: fileBuffer.length,
-          maxSizeBytes: MAX_FILE_SIZE
-        });
-        return res.status(413).json({
-          error: "FILE_TOO_LARGE",
-          message: `Файл слишком большой (${(fileBuffer.length / (1024 * 1024)).toFixed(2)} MB). Максимальный размер: 100 MB.`
-        });
-      }
-
-      const downloadDuration = Date.now() - downloadStartTime;
-      const fileSizeMB = (fileBuffer.length / (1024 * 1024)).toFixed(2);
-      
-      Logger.info("Video downloaded successfully from Telegram", {
-        messageId: videoMessage.id,
-        fileSizeBytes: fileBuffer.length,
-        fileSizeMB,
-        downloadDurationMs: downloadDuration,
-        downloadSpeedMBps: ((fileBuffer.length / (1024 * 1024)) / (downloadDuration / 1000)).toFixed(2)
-      });
-
-      const mimeType = "video/mp4";
-      const safeName =
-        channelData.name?.replace(/[^\w\d\-]+/g, "_").slice(0, 50) ||
-        `channel_${channelId}`;
-      const fileName = `${safeName}_${Date.now()}.mp4`;
-
-      // Папка будет определена в uploadVideoToDrive (channelFolderId || defaultParent)
-      Logger.info("Preparing to upload video to Google Drive", {
-        channelId,
-        channelFolderId: channelFolderId || "not set",
-        defaultParent: defaultParent || "not set",
-        fileName
-      });
-
-      const driveResult = await uploadVideoToDrive(
-        fileBuffer,
-        mimeType,
-        fileName,
-        channelFolderId
-      );
-
-      // Сохраняем информацию о видео в подколлекции канала
-      await channelRef.collection("generatedVideos").add({
-        driveFileId: driveResult.fileId,
-        driveWebViewLink: driveResult.webViewLink || null,
-        driveWebContentLink: driveResult.webContentLink || null,
-        createdAt: new Date(),
-        source: "syntx"
-      });
-
-      Logger.info("Video successfully saved to Google Drive", {
-        fileId: driveResult.fileId
-      });
+    // Последнее видео из чата бота канала — через общий сервис: потоковая загрузка
+    // в хранилище канала без ограничения размера, временный файл только как запасной вариант
+    const result = await downloadAndUploadVideoToDrive({
+      channelId,
+      userId,
+      forceReupload: forceReupload === true
+    });
 
-      return res.json({
-        status: "ok",
-        driveFileId: driveResult.fileId,
-        webViewLink: driveResult.webViewLink,
-        webContentLink: driveResult.webContentLink
-      });
-    } finally {
-      try {
-        await client.disconnect();
-      } catch {
-        // ignore
-      }
+    if (!result.success) {
+      throw new Error(result.error || "Unknown error");
     }
+
+    return res.json({
+      status: "ok",
+      alreadyUploaded: result.alreadyUploaded === true,
+      storageBackend: result.storageBackend,
+      driveFileId: result.driveFileId,
+      webViewLink: result.driveWebViewLink,
+      webContentLink: result.driveWebContentLink
+    });
   } catch (err: any) {
     const errorMessage = String(err?.message ?? err);
     const errorStack = err?.stack;
@@ -528,75 +384,57 @@ router.post("/fetchLatestVideoToDrive", authRequired, async (req, res) => {
     });
 
     // Специфичные ошибки
-    if (
-      errorMessage.includes("GOOGLE_DRIVE_FOLDER_NOT_CONFIGURED") ||
-      errorMessage.includes("Не указана папка для загрузки")
-    ) {
-      return res.status(400).json({
-        error: "NO_DRIVE_FOLDER_CONFIGURED",
-        message:
-          "Не указана папка для загрузки. Укажите Google Drive Folder ID в настройках канала или задайте GOOGLE_DRIVE_DEFAULT_PARENT в backend/.env"
-      });
-    }
-
-    if (errorMessage.includes("GOOGLE_DRIVE_CREDENTIALS_NOT_CONFIGURED")) {
-      return res.status(503).json({
-        error: "GOOGLE_DRIVE_NOT_CONFIGURED",
-        message:
-          "Google Drive не настроен. Добавьте GOOGLE_DRIVE_CLIENT_EMAIL и GOOGLE_DRIVE_PRIVATE_KEY в backend/.env"
-      });
+    if (errorMessage === "Канал не найден") {
+      return res.status(404).json({ error: "CHANNEL_NOT_FOUND" });
     }
 
-    if (errorMessage.includes("GOOGLE_DRIVE_AUTH_FAILED")) {
+    if (errorMessage.includes("TELEGRAM_SESSION_NOT_INITIALIZED")) {
       return res.status(503).json({
-        error: "GOOGLE_DRIVE_AUTH_FAILED",
+        error: "TELEGRAM_SESSION_NOT_INITIALIZED",
         message:
-          "Ошибка аутентификации Google Drive. Проверьте правильность GOOGLE_DRIVE_CLIENT_EMAIL и GOOGLE_DRIVE_PRIVATE_KEY в backend/.env"
+          "Telegram не подключён. Подключите Telegram в настройках аккаунта."
       });
     }
 
-    if (errorMessage.includes("GOOGLE_DRIVE_FOLDER_NOT_FOUND")) {
-      // Извлекаем детали из сообщения об ошибке
-      const detailsMatch = errorMessage.match(/GOOGLE_DRIVE_FOLDER_NOT_FOUND: (.+)/);
-      const details = detailsMatch ? detailsMatch[1] : "Папка не найдена";
-      
-      return res.status(400).json({
-        error: "GOOGLE_DRIVE_FOLDER_NOT_FOUND",
-        message: details
+    if (errorMessage.includes("GENERATION_PROVIDER_NOT_CONFIGURED")) {
+      return res.status(500).json({
+        error: "GENERATION_PROVIDER_NOT_CONFIGURED",
+        message: errorMessage.replace("GENERATION_PROVIDER_NOT_CONFIGURED: ", "")
       });
     }
 
-    if (errorMessage.includes("GOOGLE_DRIVE_PERMISSION_DENIED")) {
-      // Извлекаем детальное сообщение из ошибки (там уже есть email Service Account)
-      const detailsMatch = errorMessage.match(/GOOGLE_DRIVE_PERMISSION_DENIED: (.+)/);
-      const details = detailsMatch ? detailsMatch[1] : "Нет доступа к папке Google Drive";
-      
-      return res.status(403).json({
-        error: "GOOGLE_DRIVE_PERMISSION_DENIED",
-        message: details
+    if (errorMessage.includes("NO_VIDEO_FOUND")) {
+      return res.status(404).json({
+        error: "NO_VIDEO_FOUND",
+        message: errorMessage.replace("NO_VIDEO_FOUND: ", "")
       });
     }
 
-    if (errorMessage.includes("GOOGLE_DRIVE_NOT_A_FOLDER")) {
+    if (
+      errorMessage.includes("GOOGLE_DRIVE_FOLDER_NOT_CONFIGURED") ||
+      errorMessage.includes("Не указана папка для загрузки")
+    ) {
       return res.status(400).json({
-        error: "GOOGLE_DRIVE_NOT_A_FOLDER",
-        message: "Указанный ID не является папкой Google Drive. Проверьте правильность ID."
+        error: "NO_DRIVE_FOLDER_CONFIGURED",
+        message:
+          "Не указана папка для загрузки. Укажите Google Drive Folder ID в настройках канала или задайте GOOGLE_DRIVE_DEFAULT_PARENT в backend/.env"
       });
     }
 
-    if (errorMessage.includes("GOOGLE_DRIVE_QUOTA_EXCEEDED")) {
-      return res.status(429).json({
-        error: "GOOGLE_DRIVE_QUOTA_EXCEEDED",
-        message:
-          "Превышена квота Google Drive API. Попробуйте позже."
+    const storageNotConfigured = errorMessage.match(/((?:LOCAL|S3)_STORAGE_NOT_CONFIGURED):\s*(.*)/s);
+    if (storageNotConfigured) {
+      return res.status(503).json({
+        error: storageNotConfigured[1],
+        message: storageNotConfigured[2]
       });
     }
 
-    if (errorMessage.includes("GOOGLE_DRIVE_FILE_TOO_LARGE")) {
-      return res.status(413).json({
-        error: "GOOGLE_DRIVE_FILE_TOO_LARGE",
-        message:
-          "Файл слишком большой для загрузки в Google Drive."
+    // Ошибки Google Drive — по единой классификации для OAuth и Service Account
+    const driveErrorCode = getDriveErrorCode(err);
+    if (driveErrorCode) {
+      return res.status(DRIVE_ERROR_HTTP_STATUS[driveErrorCode]).json({
+        error: `GOOGLE_DRIVE_${driveErrorCode}`,
+        message: toDriveError(err).details
       });
     }
 
@@ -611,18 +449,7 @@ router.post("/fetchLatestVideoToDrive", authRequired, async (req, res) => {
     if (errorMessage.includes("FILE_TOO_LARGE")) {
       return res.status(413).json({
         error: "FILE_TOO_LARGE",
-        message:
-          "Файл слишком большой для загрузки. Максимальный размер: 100 MB."
-      });
-    }
-
-    if (errorMessage.includes("GOOGLE_DRIVE_UPLOAD_FAILED")) {
-      // Извлекаем детали ошибки из сообщения
-      const details = errorMessage.replace("GOOGLE_DRIVE_UPLOAD_FAILED: ", "");
-      return res.status(500).json({
-        error: "GOOGLE_DRIVE_UPLOAD_FAILED",
-        message:
-          `Ошибка при сохранении видео в Google Drive: ${details}. Проверьте настройки и попробуйте позже.`
+        message: errorMessage.replace("FILE_TOO_LARGE: ", "")
       });
     }
 
@@ -652,12 +479,16 @@ router.post("/fetchVideoAndUploadToDrive", authRequired, async (req, res) => {
     channelId,
     googleDriveFolderId,
     telegramMessageId,
-    videoTitle
+    videoTitle,
+    runId,
+    forceReupload
   } = req.body as {
     channelId?: string;
     googleDriveFolderId?: string;
     telegramMessageId?: number;
     videoTitle?: string;
+    runId?: string;
+    forceReupload?: boolean;
   };
 
   if (!channelId) {
@@ -684,7 +515,9 @@ router.post("/fetchVideoAndUploadToDrive", authRequired, async (req, res) => {
       telegramMessageId,
       videoTitle,
       // При ручной загрузке prompt обычно не доступен, но можно передать если есть
-      prompt: undefined
+      prompt: undefined,
+      runId,
+      forceReupload: forceReupload === true
     });
 
     if (result.success) {
@@ -695,7 +528,8 @@ router.post("/fetchVideoAndUploadToDrive", authRequired, async (req, res) => {
         fileId: result.driveFileId, // Для обратной совместимости
         webViewLink: result.driveWebViewLink, // Для обратной совместимости
         webContentLink: result.driveWebContentLink,
-        fileName: result.fileName
+        fileName: result.fileName,
+        alreadyUploaded: result.alreadyUploaded === true
       });
     } else {
       // Обработка ошибок из сервиса
@@ -750,41 +584,21 @@ router.post("/fetchVideoAndUploadToDrive", authRequired, async (req, res) => {
       });
     }
 
-    if (errorMessage.includes("GOOGLE_DRIVE_FOLDER_NOT_FOUND")) {
-      return res.status(400).json({
-        status: "error",
-        message: errorMessage.replace("GOOGLE_DRIVE_FOLDER_NOT_FOUND: ", "")
-      });
-    }
-
-    if (errorMessage.includes("GOOGLE_DRIVE_PERMISSION_DENIED")) {
-      return res.status(403).json({
-        status: "error",
-        message: errorMessage.replace("GOOGLE_DRIVE_PERMISSION_DENIED: ", "")
-      });
-    }
-
-    if (errorMessage.includes("GOOGLE_DRIVE_AUTH_FAILED")) {
+    const storageNotConfigured = errorMessage.match(/((?:LOCAL|S3)_STORAGE_NOT_CONFIGURED):\s*(.*)/s);
+    if (storageNotConfigured) {
       return res.status(503).json({
         status: "error",
-        message:
-          "Ошибка аутентификации Google Drive. Проверьте правильность GOOGLE_DRIVE_CLIENT_EMAIL и GOOGLE_DRIVE_PRIVATE_KEY в backend/.env"
+        code: storageNotConfigured[1],
+        message: storageNotConfigured[2]
       });
     }
 
-    if (errorMessage.includes("GOOGLE_DRIVE_QUOTA_EXCEEDED")) {
-      return res.status(429).json({
+    const driveErrorCode = getDriveErrorCode(errorMessage);
+    if (driveErrorCode) {
+      return res.status(DRIVE_ERROR_HTTP_STATUS[driveErrorCode]).json({
         status: "error",
-        message: "Превышена квота Google Drive API. Попробуйте позже."
-      });
-    }
-
-    if (errorMessage.includes("GOOGLE_DRIVE_UPLOAD_FAILED")) {
-      return res.status(500).json({
-        status: "error",
-        message:
-          errorMessage.replace("GOOGLE_DRIVE_UPLOAD_FAILED: ", "") ||
-          "Ошибка при загрузке файла в Google Drive. Проверьте настройки и попробуйте позже."
+        code: `GOOGLE_DRIVE_${driveErrorCode}`,
+        message: toDriveError(errorMessage).details
       });
     }
 
@@ -0,0 +1,126 @@
+import { Router } from "express";
+import { authRequired } from "../middleware/auth";
+import { findUnassignedVideos } from "../repositories/unassignedVideoRepo";
+import {
+  assignUnassignedVideoToChannel,
+  dismissUnassignedVideo
+} from "../services/promptCorrelation";
+import { Logger } from "../utils/logger";
+
+const router = Router();
+
+const UNASSIGNED_VIDEOS_LIMIT = 50;
+
+/**
+ * GET /api/videos/unassigned
+ * Видео от ботов-генераторов, которые не удалось сопоставить ни с одним отправленным промптом
+ */
+router.get("/unassigned", authRequired, async (req, res) => {
+  const userId = req.user!.uid;
+
+  try {
+    const videos = await findUnassignedVideos(userId, UNASSIGNED_VIDEOS_LIMIT);
+    return res.json({ videos });
+  } catch (error) {
+    Logger.error("GET /api/videos/unassigned: failed", {
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return res.status(500).json({
+      error: "FAILED_TO_LOAD_UNASSIGNED_VIDEOS",
+      message: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+/**
+ * POST /api/videos/unassigned/:videoId/assign
+ * Body: { channelId }
+ * Назначает видео каналу и ставит его скачивание в Google Drive
+ */
+router.post("/unassigned/:videoId/assign", authRequired, async (req, res) => {
+  const userId = req.user!.uid;
+  const { videoId } = req.params;
+  const { channelId } = req.body as { channelId?: string };
+
+  if (!channelId) {
+    return res.status(400).json({ error: "channelId is required" });
+  }
+
+  try {
+    const result = await assignUnassignedVideoToChannel(userId, videoId, channelId);
+
+    switch (result.status) {
+      case "not_found":
+        return res.status(404).json({
+          error: "VIDEO_NOT_FOUND",
+          message: "Видео не найдено"
+        });
+      case "channel_not_found":
+        return res.status(404).json({
+          error: "CHANNEL_NOT_FOUND",
+          message: "Канал не найден"
+        });
+      case "already_resolved":
+        return res.status(409).json({
+          error: "VIDEO_ALREADY_RESOLVED",
+          message: "Видео уже назначено или скрыто"
+        });
+      default:
+        return res.json({
+          success: true,
+          jobId: result.jobId,
+          correlationId: result.correlationId
+        });
+    }
+  } catch (error) {
+    Logger.error("POST /api/videos/unassigned/:videoId/assign: failed", {
+      userId,
+      videoId,
+      channelId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return res.status(500).json({
+      error: "FAILED_TO_ASSIGN_VIDEO",
+      message: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+/**
+ * POST /api/videos/unassigned/:videoId/dismiss
+ * Скрывает видео из «Входящих» без скачивания
+ */
+router.post("/unassigned/:videoId/dismiss", authRequired, async (req, res) => {
+  const userId = req.user!.uid;
+  const { videoId } = req.params;
+
+  try {
+    const result = await dismissUnassignedVideo(userId, videoId);
+    if (result === "not_found") {
+      return res.status(404).json({
+        error: "VIDEO_NOT_FOUND",
+        message: "Видео не найдено"
+      });
+    }
+    if (result === "already_resolved") {
+      return res.status(409).json({
+        error: "VIDEO_ALREADY_RESOLVED",
+        message: "Видео уже назначено или скрыто"
+      });
+    }
+    return res.json({ success: true });
+  } catch (error) {
+    Logger.error("POST /api/videos/unassigned/:videoId/dismiss: failed", {
+      userId,
+      videoId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return res.status(500).json({
+      error: "FAILED_TO_DISMISS_VIDEO",
+      message: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+export default router;
@@ -80,7 +80,10 @@ async function main() {
   saveSessionString(stringSession);
 
   // eslint-disable-next-line no-console
-  console.log("Успешный вход в Telegram. Сессия сохранена локально.");
+  console.log(
+    "Успешный вход в Telegram. Сессия сохранена локально " +
+      "(используется только при TELEGRAM_ALLOW_GLOBAL_SESSION_FALLBACK=true)."
+  );
 
   rl.close();
   await client.disconnect();
@@ -1,18 +1,27 @@
 import { db, isFirestoreAvailable, getFirestoreInfo } from "./firebaseAdmin";
 import { Logger } from "../utils/logger";
-import { generateAndSendPromptForChannel } from "./autoSendService";
-import { scheduleAutoDownload } from "./scheduledTasks";
+import { enqueueScheduledSendRetry, sendScheduledPrompt } from "./scheduledSend";
+import {
+  isChannelAutomationPaused,
+  isImmediatePauseError,
+  recordChannelAutomationFailure,
+  recordChannelAutomationSuccess
+} from "./channelAutomationHealth";
+import {
+  buildScheduleSlotKey,
+  claimScheduleSlot,
+  finishScheduleSlot,
+  type ScheduleTickTrigger
+} from "../repositories/scheduleSlotClaimRepo";
+import { INSTANCE_ID } from "../utils/instanceId";
+import { formatLocalDate, getLocalTimeInTimezone, parseTime } from "../utils/timezone";
+import {
+  findMissedOccurrences,
+  getScheduleTimesForDay,
+  type ChannelAutoSendSchedule
+} from "./scheduleOccurrences";
 
 // Типы для канала с расписанием
-interface ChannelAutoSendSchedule {
-  id: string;
-  enabled: boolean;
-  daysOfWeek: number[]; // 0–6 (вс, пн, вт, ...)
-  time: string; // "HH:MM"
-  promptsPerRun: number;
-  lastRunAt?: string | null; // ISO-дата
-}
-
 interface ChannelWithSchedule {
   id: string;
   ownerId: string;
@@ -22,19 +31,10 @@ interface ChannelWithSchedule {
   autoDownloadToDriveEnabled?: boolean;
   autoDownloadDelayMinutes?: number;
   googleDriveFolderId?: string;
+  storageBackend?: string | null;
+  automationPausedAt?: unknown; // автоматика поставлена на паузу после повторяющихся ошибок
 }
 
-/**
- * Внутрипроцессный кэш недавних запусков расписаний.
- * Нужен как дополнительная защита от повторных срабатываний
- * (даже если lastRunAt ещё не успел сохраниться в Firestore
- * или планировщик вызывается несколько раз подряд).
- *
- * Ключ: `${channelId}:${scheduleId}`
- * Значение: timestamp последнего запуска (ms)
- */
-const recentScheduleRuns = new Map<string, number>();
-
 /**
  * Получает все каналы с включённой автоотправкой
  */
@@ -176,7 +176,9 @@ async function getChannelsWithAutoSendEnabled(): Promise<ChannelWithSchedule[]>
           autoSendSchedules: autoSendSchedules,
           autoDownloadToDriveEnabled: channelData.autoDownloadToDriveEnabled === true,
           autoDownloadDelayMinutes: channelData.autoDownloadDelayMinutes ?? 10,
-          googleDriveFolderId: channelData.googleDriveFolderId
+          googleDriveFolderId: channelData.googleDriveFolderId,
+          storageBackend: channelData.storageBackend ?? null,
+          automationPausedAt: channelData.automationPausedAt ?? null
         });
       }
     }
@@ -235,93 +237,22 @@ async function getChannelsWithAutoSendEnabled(): Promise<ChannelWithSchedule[]>
   }
 }
 
-/**
- * Получает локальное время в указанной таймзоне
- * Использует Intl.DateTimeFormat для надёжной конвертации
- */
-function getLocalTimeInTimezone(date: Date, timezone: string): {
-  dayOfWeek: number; // 0 = воскресенье, 1 = понедельник, ...
-  hour: number;
-  minute: number;
-  date: number;
-  month: number;
-  year: number;
-  timeString: string; // "HH:MM"
-} {
-  // Используем Intl.DateTimeFormat для правильной конвертации
-  const formatter = new Intl.DateTimeFormat("en-US", {
-    timeZone: timezone,
-    weekday: "long",
-    hour: "2-digit",
-    minute: "2-digit",
-    day: "2-digit",
-    month: "2-digit",
-    year: "numeric",
-    hour12: false
-  });
-
-  const parts = formatter.formatToParts(date);
-  
-  const dayOfWeekMap: Record<string, number> = {
-    Sunday: 0,
-    Monday: 1,
-    Tuesday: 2,
-    Wednesday: 3,
-    Thursday: 4,
-    Friday: 5,
-    Saturday: 6
-  };
-
-  const dayOfWeek = dayOfWeekMap[parts.find((p) => p.type === "weekday")?.value || "Sunday"] ?? 0;
-  const hour = parseInt(parts.find((p) => p.type === "hour")?.value || "0", 10);
-  const minute = parseInt(parts.find((p) => p.type === "minute")?.value || "0", 10);
-  const dateNum = parseInt(parts.find((p) => p.type === "day")?.value || "0", 10);
-  const month = parseInt(parts.find((p) => p.type === "month")?.value || "0", 10);
-  const year = parseInt(parts.find((p) => p.type === "year")?.value || "0", 10);
-  const timeString = `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
-
-  return {
-    dayOfWeek,
-    hour,
-    minute,
-    date: dateNum,
-    month,
-    year,
-    timeString
-  };
-}
-
-/**
- * Парсит время из строки "HH:MM" в часы и минуты
- */
-function parseTime(timeStr: string): { hour: number; minute: number } | null {
-  const match = timeStr.match(/^(\d{1,2}):(\d{2})$/);
-  if (!match) {
-    return null;
-  }
-  const hour = parseInt(match[1], 10);
-  const minute = parseInt(match[2], 10);
-  if (hour < 0 || hour > 23 || minute < 0 || minute > 59) {
-    return null;
-  }
-  return { hour, minute };
-}
-
 /**
  * Проверяет, нужно ли запускать расписание прямо сейчас
  * @param channel - Канал с расписанием
  * @param schedule - Конкретное расписание
  * @param nowUtc - Текущее время в UTC
+ * @returns Время слота "HH:MM", который нужно запустить, или null
  */
 function shouldRunScheduleNow(
   channel: ChannelWithSchedule,
   schedule: ChannelAutoSendSchedule,
   nowUtc: Date
-): boolean {
+): string | null {
   // Детальное логирование для отладки
   const timezone = channel.timezone || "UTC";
   const localTime = getLocalTimeInTimezone(nowUtc, timezone);
-  const scheduleTime = parseTime(schedule.time);
+  const scheduleType = schedule.type ?? "weekly";
 
   Logger.info("shouldRunScheduleNow: checking", {
     channelId: channel.id,
@@ -331,12 +262,16 @@ function shouldRunScheduleNow(
     localTime: {
       dayOfWeek: localTime.dayOfWeek,
       time: localTime.timeString,
-      date: `${localTime.year}-${String(localTime.month).padStart(2, "0")}-${String(localTime.date).padStart(2, "0")}`
+      date: formatLocalDate(localTime)
     },
     schedule: {
       enabled: schedule.enabled,
+      type: scheduleType,
       daysOfWeek: schedule.daysOfWeek,
       time: schedule.time,
+      intervalMinutes: schedule.intervalMinutes,
+      window: scheduleType === "interval" ? `${schedule.windowStart}-${schedule.windowEnd}` : undefined,
+      cronExpression: schedule.cronExpression,
       lastRunAt: schedule.lastRunAt || "never"
     }
   });
@@ -347,52 +282,58 @@ function shouldRunScheduleNow(
       channelId: channel.id,
       scheduleId: schedule.id
     });
-    return false;
-  }
-
-  // Проверка 2: валидность времени в расписании
-  if (!scheduleTime) {
-    Logger.warn("shouldRunScheduleNow: SKIPPED (invalid time format)", {
-      channelId: channel.id,
-      scheduleId: schedule.id,
-      scheduleTime: schedule.time
-    });
-    return false;
+    return null;
   }
 
-  // Проверка 3: день недели
-  if (!schedule.daysOfWeek.includes(localTime.dayOfWeek)) {
-    Logger.info("shouldRunScheduleNow: SKIPPED (day of week mismatch)", {
+  // Проверка 2: запуски на сегодня (учитывают тип расписания, дни недели,
+  // период startDate–endDate и дни-исключения)
+  const todayTimes = getScheduleTimesForDay(schedule, localTime);
+  if (todayTimes.length === 0) {
+    Logger.info("shouldRunScheduleNow: SKIPPED (no runs today)", {
       channelId: channel.id,
       scheduleId: schedule.id,
+      localDate: formatLocalDate(localTime),
       localDayOfWeek: localTime.dayOfWeek,
-      scheduleDaysOfWeek: schedule.daysOfWeek
+      scheduleType
     });
-    return false;
+    return null;
   }
 
-  // Проверка 4: время (с "окном" в 1 минуту для надёжности)
-  // Считаем, что нужно запускать, если текущее время совпадает с расписанием
-  // или находится в пределах ±1 минуты от расписания
-  const timeDiff = Math.abs(
-    localTime.hour * 60 + localTime.minute - (scheduleTime.hour * 60 + scheduleTime.minute)
-  );
+  // Проверка 3: время (с "окном" в 1 минуту для надёжности)
+  // Считаем, что нужно запускать, если текущее время совпадает с одним из запусков
+  // или находится в пределах ±1 минуты от него (это нужно, чтобы учесть возможную задержку cron).
+  // Если под окно подходят несколько запусков, берём ближайший.
+  const nowMinutes = localTime.hour * 60 + localTime.minute;
+  let matchedTime: string | null = null;
+  let matchedDiff = Infinity;
+
+  for (const time of todayTimes) {
+    const parsed = parseTime(time);
+    if (!parsed) {
+      continue;
+    }
+    const diff = Math.abs(nowMinutes - (parsed.hour * 60 + parsed.minute));
+    if (diff <= 1 && diff < matchedDiff) {
+      matchedTime = time;
+      matchedDiff = diff;
+    }
+  }
 
-  // Разрешаем запуск, если время точно совпадает или отличается на 1 минуту
-  // (это нужно, чтобы учесть возможную задержку cron)
-  if (timeDiff > 1) {
+  if (!matchedTime) {
     Logger.info("shouldRunScheduleNow: SKIPPED (time mismatch)", {
       channelId: channel.id,
       scheduleId: schedule.id,
       localTime: localTime.timeString,
-      scheduleTime: schedule.time,
-      timeDiffMinutes: timeDiff
+      scheduleTimes: todayTimes.length > 10 ? `${todayTimes.length} runs today` : todayTimes
     });
-    return false;
+    return null;
   }
 
-  // Проверка 5: не был ли уже запуск сегодня в это время (с учётом "окна" ±1 минута)
-  if (schedule.lastRunAt) {
+  // Проверка 4: не был ли уже запуск сегодня в это время (с учётом "окна" ±1 минута).
+  // Только для weekly: у interval/cron запуски могут идти вплотную друг к другу,
+  // а повторный запуск того же слота исключает захват слота в Firestore.
+  const scheduleTime = parseTime(matchedTime);
+  if (scheduleType === "weekly" && schedule.lastRunAt && scheduleTime) {
     const lastRun = new Date(schedule.lastRunAt);
     const lastRunLocal = getLocalTimeInTimezone(lastRun, timezone);
 
@@ -416,17 +357,17 @@ function shouldRunScheduleNow(
         scheduleId: schedule.id,
         lastRunAt: schedule.lastRunAt,
         lastRunLocal: {
-          date: `${lastRunLocal.year}-${String(lastRunLocal.month).padStart(2, "0")}-${String(lastRunLocal.date).padStart(2, "0")}`,
+          date: formatLocalDate(lastRunLocal),
           time: lastRunLocal.timeString
         },
         currentLocal: {
-          date: `${localTime.year}-${String(localTime.month).padStart(2, "0")}-${String(localTime.date).padStart(2, "0")}`,
+          date: formatLocalDate(localTime),
           time: localTime.timeString
         },
-        targetTime: schedule.time,
+        targetTime: matchedTime,
         lastRunDiffMinutes: lastRunDiff
       });
-      return false;
+      return null;
     }
   }
 
@@ -435,10 +376,10 @@ function shouldRunScheduleNow(
     channelId: channel.id,
     scheduleId: schedule.id,
     localTime: localTime.timeString,
-    scheduleTime: schedule.time
+    scheduleTime: matchedTime
   });
 
-  return true;
+  return matchedTime;
 }
 
 /**
@@ -502,13 +443,193 @@ async function markScheduleExecuted(
   }
 }
 
+/**
+ * Захватывает слот расписания в Firestore.
+ * Слот выполняет ровно один инстанс, даже если одновременно работают
+ * node-cron на нескольких инстансах и Cloud Scheduler через /api/cron/manual-tick.
+ * @returns Ключ слота или null, если слот уже захвачен (или захват не удался)
+ */
+async function tryClaimScheduleSlot(
+  channel: ChannelWithSchedule,
+  schedule: ChannelAutoSendSchedule,
+  slot: { localDate: string; time: string },
+  trigger: ScheduleTickTrigger
+): Promise<string | null> {
+  const slotKey = buildScheduleSlotKey(channel.id, schedule.id, slot.localDate, slot.time);
+
+  let claimed = false;
+  try {
+    claimed = await claimScheduleSlot({
+      channelId: channel.id,
+      scheduleId: schedule.id,
+      userId: channel.ownerId,
+      timezone: channel.timezone || "UTC",
+      slotDate: slot.localDate,
+      slotTime: slot.time,
+      claimedBy: INSTANCE_ID,
+      trigger
+    });
+  } catch (claimError) {
+    // Без захвата слота не запускаем: лучше пропустить запуск, чем отправить дубль
+    Logger.error("processAutoSendTick: failed to claim schedule slot", {
+      channelId: channel.id,
+      scheduleId: schedule.id,
+      slotKey,
+      error: claimError instanceof Error ? claimError.message : String(claimError)
+    });
+  }
+
+  if (!claimed) {
+    Logger.info("processAutoSendTick: SKIPPED (slot already claimed)", {
+      channelId: channel.id,
+      scheduleId: schedule.id,
+      slotKey,
+      trigger
+    });
+    return null;
+  }
+
+  return slotKey;
+}
+
+/**
+ * Выполняет захваченный слот расписания: генерирует и отправляет промпты,
+ * планирует автоскачивание и сохраняет итог слота
+ * @returns true, если автоматика канала встала на паузу во время слота
+ */
+async function runScheduledSlot(
+  channel: ChannelWithSchedule,
+  schedule: ChannelAutoSendSchedule,
+  slotKey: string,
+  nowUtc: Date
+): Promise<boolean> {
+  let channelPaused = false;
+  try {
+    const failedPrompts: string[] = [];
+
+    // Запускаем генерацию и отправку N раз
+    for (let i = 0; i < schedule.promptsPerRun; i++) {
+      Logger.info("processAutoSendTick: generating and sending prompt", {
+        channelId: channel.id,
+        scheduleId: schedule.id,
+        promptNumber: i + 1,
+        totalPrompts: schedule.promptsPerRun
+      });
+
+      try {
+        await sendScheduledPrompt(channel, schedule.id);
+        await recordChannelAutomationSuccess(channel.ownerId, channel.id);
+      } catch (sendError) {
+        const errorMessage = sendError instanceof Error ? sendError.message : String(sendError);
+        failedPrompts.push(`#${i + 1}: ${errorMessage}`);
+
+        // Обычную ошибку канал получит, только если исчерпает попытки задача повтора
+        const paused =
+          isImmediatePauseError(sendError) &&
+          (await recordChannelAutomationFailure(channel.ownerId, channel.id, sendError));
+        if (paused) {
+          channelPaused = true;
+          // Канал поставлен на паузу: повторять и отправлять остальные промпты бессмысленно
+          Logger.warn("processAutoSendTick: channel automation paused, stopping slot", {
+            channelId: channel.id,
+            scheduleId: schedule.id,
+            promptNumber: i + 1,
+            error: errorMessage
+          });
+          break;
+        }
+
+        // Ошибка одного промпта не должна отменять остальные: ставим повтор в очередь
+
+        Logger.warn("processAutoSendTick: prompt send failed, enqueueing retry", {
+          channelId: channel.id,
+          scheduleId: schedule.id,
+          promptNumber: i + 1,
+          error: errorMessage
+        });
+
+        await enqueueScheduledSendRetry({
+          channel,
+          scheduleId: schedule.id,
+          slotKey,
+          promptNumber: i + 1,
+          error: sendError
+        }).catch((enqueueError) => {
+          Logger.error("processAutoSendTick: failed to enqueue send retry", {
+            channelId: channel.id,
+            scheduleId: schedule.id,
+            promptNumber: i + 1,
+            error: enqueueError instanceof Error ? enqueueError.message : String(enqueueError)
+          });
+        });
+      }
+
+      // Небольшая задержка между промптами, чтобы не перегружать API
+      if (i < schedule.promptsPerRun - 1) {
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+    }
+
+    // Отмечаем расписание как выполненное: неудачные промпты дальше обрабатывает очередь повторов
+    await markScheduleExecuted(
+      channel.ownerId,
+      channel.id,
+      schedule.id,
+      nowUtc
+    );
+
+    await finishScheduleSlot(
+      slotKey,
+      failedPrompts.length > 0 ? "failed" : "completed",
+      failedPrompts.length > 0 ? failedPrompts.join("; ") : undefined
+    ).catch((finishError) => {
+      Logger.warn("processAutoSendTick: failed to finish slot", {
+        slotKey,
+        error: finishError instanceof Error ? finishError.message : String(finishError)
+      });
+    });
+
+    Logger.info("processAutoSendTick: Scheduled prompt generation completed", {
+      channelId: channel.id,
+      scheduleId: schedule.id,
+      promptsSent: schedule.promptsPerRun - failedPrompts.length,
+      promptsQueuedForRetry: failedPrompts.length,
+      lastRunAt: nowUtc.toISOString()
+    });
+  } catch (error) {
+    // Логируем ошибку, но продолжаем обработку других каналов
+    Logger.error("processAutoSendTick: Failed to process scheduled prompt generation", {
+      channelId: channel.id,
+      scheduleId: schedule.id,
+      error: error instanceof Error ? error.message : String(error),
+      errorStack: error instanceof Error ? error.stack : undefined
+    });
+
+    await finishScheduleSlot(
+      slotKey,
+      "failed",
+      error instanceof Error ? error.message : String(error)
+    ).catch((finishError) => {
+      Logger.warn("processAutoSendTick: failed to mark slot as failed", {
+        slotKey,
+        error: finishError instanceof Error ? finishError.message : String(finishError)
+      });
+    });
+  }
+
+  return channelPaused;
+}
+
 /**
  * Основная функция планировщика - проверяет все каналы и запускает генерацию промптов
+ * @param trigger - Источник вызова (node-cron или HTTP-эндпоинт для Cloud Scheduler)
  */
-export async function processAutoSendTick(): Promise<void> {
+export async function processAutoSendTick(trigger: ScheduleTickTrigger = "cron"): Promise<void> {
   const nowUtc = new Date();
   Logger.info("processAutoSendTick: start", { 
     nowUtc: nowUtc.toISOString(),
+    trigger,
+    instanceId: INSTANCE_ID,
     nowUtcTimestamp: nowUtc.getTime(),
     env: {
       NODE_ENV: process.env.NODE_ENV,
@@ -544,12 +665,22 @@ export async function processAutoSendTick(): Promise<void> {
         continue;
       }
 
+      if (isChannelAutomationPaused(channel)) {
+        Logger.info("processAutoSendTick: skipping channel (automation paused)", {
+          channelId: channel.id
+        });
+        continue;
+      }
+
       Logger.info("processAutoSendTick: checking channel", {
         channelId: channel.id,
         timezone: channel.timezone || "UTC",
         schedulesCount: channel.autoSendSchedules.length
       });
 
+      // Пауза во время слота останавливает и догоняющие слоты, и остальные расписания канала
+      let channelPaused = false;
+
       // Проверяем каждое расписание в канале
       for (const schedule of channel.autoSendSchedules) {
         // Логируем кандидата на срабатывание (используем ту же функцию, что и в shouldRunScheduleNow)
@@ -566,151 +697,73 @@ export async function processAutoSendTick(): Promise<void> {
           timezone: channel.timezone || "UTC"
         });
 
-        if (shouldRunScheduleNow(channel, schedule, nowUtc)) {
-          const runKey = `${channel.id}:${schedule.id}`;
-          const lastRunTs = recentScheduleRuns.get(runKey);
-          const nowTs = nowUtc.getTime();
-
-          // Дополнительная защита: не даём одному и тому же расписанию
-          // сработать чаще, чем раз в 90 секунд на этом процессе,
-          // даже если что-то не так с сохранением lastRunAt.
-          if (lastRunTs && nowTs - lastRunTs < 90_000) {
-            Logger.warn("processAutoSendTick: SKIPPED (recent run in memory cache)", {
-              channelId: channel.id,
-              scheduleId: schedule.id,
-              nowUtc: nowUtc.toISOString(),
-              lastRunTs: new Date(lastRunTs).toISOString(),
-              diffMs: nowTs - lastRunTs
-            });
+        // Слоты к выполнению: пропущенные (согласно catchUpPolicy) и текущий
+        const timezone = channel.timezone || "UTC";
+        const slots = findMissedOccurrences(schedule, timezone, nowUtc).map((occurrence) => ({
+          localDate: occurrence.localDate,
+          time: occurrence.time,
+          catchUp: true
+        }));
+
+        if (slots.length > 0) {
+          Logger.info("processAutoSendTick: found missed slots to catch up", {
+            channelId: channel.id,
+            scheduleId: schedule.id,
+            catchUpPolicy: schedule.catchUpPolicy,
+            lastRunAt: schedule.lastRunAt,
+            missedSlots: slots.map((slot) => `${slot.localDate} ${slot.time}`)
+          });
+        }
+
+        const currentSlotTime = shouldRunScheduleNow(channel, schedule, nowUtc);
+        if (currentSlotTime) {
+          slots.push({
+            localDate: formatLocalDate(localTimeForLog),
+            time: currentSlotTime,
+            catchUp: false
+          });
+        }
+
+        if (slots.length === 0) {
+          skippedCount++;
+          continue;
+        }
+
+        for (const slot of slots) {
+          const slotKey = await tryClaimScheduleSlot(channel, schedule, slot, trigger);
+          if (!slotKey) {
             skippedCount++;
             continue;
           }
 
-          // Фиксируем запуск в кэше до фактической отправки,
-          // чтобы даже при ошибке сохранения в Firestore не было дублей.
-          recentScheduleRuns.set(runKey, nowTs);
-
           triggeredCount++;
           Logger.info("processAutoSendTick: TRIGGERED auto-send", {
             channelId: channel.id,
             scheduleId: schedule.id,
             nowUtc: nowUtc.toISOString(),
-            nowLocal: localTimeForLog.timeString
+            nowLocal: localTimeForLog.timeString,
+            slotKey,
+            catchUp: slot.catchUp
           });
           Logger.info("processAutoSendTick: TRIGGERED - Running scheduled prompt generation", {
             channelId: channel.id,
             scheduleId: schedule.id,
             promptsPerRun: schedule.promptsPerRun,
-            timezone: channel.timezone || "UTC"
+            timezone
           });
 
-          try {
-            // Запускаем генерацию и отправку N раз
-            for (let i = 0; i < schedule.promptsPerRun; i++) {
-              Logger.info("processAutoSendTick: generating and sending prompt", {
-                channelId: channel.id,
-                scheduleId: schedule.id,
-                promptNumber: i + 1,
-                totalPrompts: schedule.promptsPerRun
-              });
-
-              const promptResult = await generateAndSendPromptForChannel(channel.id, channel.ownerId);
-              
-              Logger.info("processAutoSendTick: prompt sent successfully", {
-                channelId: channel.id,
-                scheduleId: schedule.id,
-                promptNumber: i + 1,
-                messageId: promptResult.messageId,
-                chatId: promptResult.chatId,
-                hasTitle: !!promptResult.title
-              });
-
-              // Если включено автоматическое скачивание, планируем задачу
-              if (
-                channel.autoDownloadToDriveEnabled === true &&
-                channel.googleDriveFolderId
-              ) {
-                const delayMinutes = channel.autoDownloadDelayMinutes ?? 10;
-                
-                // Валидация задержки
-                const validDelay = Math.max(1, Math.min(60, delayMinutes));
-                
-                Logger.info("processAutoSendTick: scheduling auto-download", {
-                  channelId: channel.id,
-                  scheduleId: schedule.id,
-                  messageId: promptResult.messageId,
-                  delayMinutes: validDelay,
-                  hasGoogleDriveFolder: !!channel.googleDriveFolderId
-                });
-
-                try {
-                  const taskId = scheduleAutoDownload({
-                    channelId: channel.id,
-                    scheduleId: schedule.id,
-                    userId: channel.ownerId,
-                    telegramMessageInfo: {
-                      messageId: promptResult.messageId,
-                      chatId: promptResult.chatId
-                    },
-                    delayMinutes: validDelay,
-                    videoTitle: promptResult.title,
-                    prompt: promptResult.prompt
-                  });
-
-                  Logger.info("processAutoSendTick: auto-download scheduled", {
-                    channelId: channel.id,
-                    scheduleId: schedule.id,
-                    taskId,
-                    willRunInMinutes: validDelay
-                  });
-                } catch (scheduleError) {
-                  // Логируем ошибку планирования, но не прерываем основной процесс
-                  Logger.error("processAutoSendTick: failed to schedule auto-download", {
-                    channelId: channel.id,
-                    scheduleId: schedule.id,
-                    error: scheduleError instanceof Error ? scheduleError.message : String(scheduleError)
-                  });
-                }
-              } else {
-                Logger.info("processAutoSendTick: auto-download not enabled or folder not configured", {
-                  channelId: channel.id,
-                  scheduleId: schedule.id,
-                  autoDownloadToDriveEnabled: channel.autoDownloadToDriveEnabled,
-                  hasGoogleDriveFolder: !!channel.googleDriveFolderId
-                });
-              }
-              
-              // Небольшая задержка между промптами, чтобы не перегружать API
-              if (i < schedule.promptsPerRun - 1) {
-                await new Promise((resolve) => setTimeout(resolve, 1000));
-              }
-            }
-
-            // Отмечаем расписание как выполненное
-            await markScheduleExecuted(
-              channel.ownerId,
-              channel.id,
-              schedule.id,
-              nowUtc
-            );
-
-            Logger.info("processAutoSendTick: Scheduled prompt generation completed", {
-              channelId: channel.id,
-              scheduleId: schedule.id,
-              promptsSent: schedule.promptsPerRun,
-              lastRunAt: nowUtc.toISOString()
-            });
-          } catch (error) {
-            // Логируем ошибку, но продолжаем обработку других каналов
-            Logger.error("processAutoSendTick: Failed to process scheduled prompt generation", {
-              channelId: channel.id,
-              scheduleId: schedule.id,
-              error: error instanceof Error ? error.message : String(error),
-              errorStack: error instanceof Error ? error.stack : undefined
-            });
+          channelPaused = await runScheduledSlot(channel, schedule, slotKey, nowUtc);
+          if (channelPaused) {
+            break;
           }
-        } else {
-          skippedCount++;
+        }
+
+        if (channelPaused) {
+          Logger.warn("processAutoSendTick: channel automation paused, skipping remaining slots", {
+            channelId: channel.id,
+            scheduleId: schedule.id
+          });
+          break;
         }
       }
     }
@@ -1,46 +1,130 @@
 import { generatePromptForChannel } from "./promptGenerator";
 import { sendPromptFromUserToSyntx, type TelegramMessageInfo } from "./sendPromptFromUserToSyntx";
+import {
+  createGenerationRun,
+  tryUpdateGenerationRun,
+  type GenerationRunSource
+} from "../repositories/generationRunRepo";
 import { Logger } from "../utils/logger";
+import { tryRecordPromptCorrelation } from "./promptCorrelation";
+import { db } from "./firebaseAdmin";
+import { getChannelGenerationProvider } from "../providers/registry";
+import type { GenerationProvider } from "../providers/types";
 
 export interface PromptGenerationResult extends TelegramMessageInfo {
   title?: string;
   prompt: string;
+  runId?: string; // ID записи в истории запусков (если удалось создать)
+}
+
+/**
+ * Бот генерации, выбранный в настройках канала
+ */
+async function loadChannelProvider(userId: string, channelId: string): Promise<GenerationProvider> {
+  if (!db) {
+    return getChannelGenerationProvider(undefined);
+  }
+  const channelSnap = await db
+    .collection("users")
+    .doc(userId)
+    .collection("channels")
+    .doc(channelId)
+    .get();
+  return getChannelGenerationProvider(channelSnap.data());
 }
 
 /**
  * Генерирует промпт для канала и отправляет его в Syntx-бот
  * @param channelId - ID канала
  * @param userId - ID владельца канала
+ * @param options - Откуда запущена генерация (расписание или вручную)
  * @returns Информация об отправленном сообщении (messageId, chatId) и сгенерированном title
  */
 export async function generateAndSendPromptForChannel(
   channelId: string,
-  userId: string
+  userId: string,
+  options: { scheduleId?: string; source?: GenerationRunSource } = {}
 ): Promise<PromptGenerationResult> {
+  const source = options.source ?? (options.scheduleId ? "scheduled" : "manual");
+
   Logger.info("generateAndSendPromptForChannel: start", {
     channelId,
-    userId
+    userId,
+    scheduleId: options.scheduleId || "none",
+    source
   });
 
+  // Запись в истории запусков создаём до генерации, чтобы зафиксировать и неудачные попытки
+  let runId: string | undefined;
+  try {
+    runId = await createGenerationRun({
+      channelId,
+      userId,
+      scheduleId: options.scheduleId ?? null,
+      source
+    });
+  } catch (error) {
+    Logger.warn("generateAndSendPromptForChannel: failed to create generation run", {
+      channelId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  let stage: "generate" | "send" = "generate";
+
   try {
     // Шаг 1: Генерируем промпт
-    const { prompt, title } = await generatePromptForChannel(channelId, userId);
+    const { prompt, title, description, hashtags } = await generatePromptForChannel(
+      channelId,
+      userId
+    );
     Logger.info("Prompt generated", { channelId, promptLength: prompt.length, title });
 
-    // Шаг 2: Отправляем в Syntx-бот
-    const messageInfo = await sendPromptFromUserToSyntx(userId, prompt);
-    Logger.info("Prompt sent to Syntx", { 
+    await tryUpdateGenerationRun(userId, channelId, runId, {
+      title: title ?? null,
+      description: description ?? null,
+      hashtags: hashtags ?? null,
+      prompt,
+      promptGeneratedAt: new Date()
+    });
+
+    // Шаг 2: Отправляем в бот генерации, выбранный в канале (по умолчанию Syntx)
+    stage = "send";
+    const provider = await loadChannelProvider(userId, channelId);
+    const messageInfo = await sendPromptFromUserToSyntx(userId, prompt, provider);
+    Logger.info("Prompt sent to Syntx", {
       channelId,
+      providerId: provider.id,
       messageId: messageInfo.messageId,
       chatId: messageInfo.chatId,
       title: title || "not provided"
     });
 
-    // TODO: Опционально сохранить в БД лог отправки (channelId, time, promptPreview)
+    await tryUpdateGenerationRun(userId, channelId, runId, {
+      status: "sent",
+      telegramMessageId: messageInfo.messageId,
+      telegramChatId: messageInfo.chatId,
+      promptSentAt: new Date()
+    });
+
+    // Слот ожидания видео: пришедшее видео будет закреплено именно за этим промптом
+    await tryRecordPromptCorrelation({
+      userId,
+      channelId,
+      scheduleId: options.scheduleId ?? null,
+      runId: runId ?? null,
+      providerId: provider.id,
+      chatId: messageInfo.chatId,
+      promptMessageId: messageInfo.messageId,
+      prompt,
+      title: title ?? null
+    });
+
     return {
       ...messageInfo,
       title,
-      prompt
+      prompt,
+      runId
     };
   } catch (error) {
     Logger.error("Failed to generate and send prompt", {
@@ -48,7 +132,78 @@ export async function generateAndSendPromptForChannel(
       userId,
       error
     });
+
+    await tryUpdateGenerationRun(userId, channelId, runId, {
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      errorStage: stage,
+      finishedAt: new Date()
+    });
+
     throw error;
   }
 }
 
+/**
+ * Отправляет в Syntx-бот готовый промпт (ручной запуск из интерфейса)
+ * и фиксирует запуск в истории канала
+ * @param channelId - ID канала
+ * @param userId - ID владельца канала
+ * @param prompt - Текст промпта
+ * @param title - Название ролика, если оно уже известно
+ */
+export async function sendManualPromptForChannel(
+  channelId: string,
+  userId: string,
+  prompt: string,
+  title?: string
+): Promise<PromptGenerationResult> {
+  let runId: string | undefined;
+  try {
+    runId = await createGenerationRun({
+      channelId,
+      userId,
+      source: "manual",
+      title,
+      prompt
+    });
+  } catch (error) {
+    Logger.warn("sendManualPromptForChannel: failed to create generation run", {
+      channelId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  try {
+    const provider = await loadChannelProvider(userId, channelId);
+    const messageInfo = await sendPromptFromUserToSyntx(userId, prompt, provider);
+
+    await tryUpdateGenerationRun(userId, channelId, runId, {
+      status: "sent",
+      telegramMessageId: messageInfo.messageId,
+      telegramChatId: messageInfo.chatId,
+      promptSentAt: new Date()
+    });
+
+    await tryRecordPromptCorrelation({
+      userId,
+      channelId,
+      runId: runId ?? null,
+      providerId: provider.id,
+      chatId: messageInfo.chatId,
+      promptMessageId: messageInfo.messageId,
+      prompt,
+      title: title ?? null
+    });
+
+    return { ...messageInfo, title, prompt, runId };
+  } catch (error) {
+    await tryUpdateGenerationRun(userId, channelId, runId, {
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      errorStage: "send",
+      finishedAt: new Date()
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,410 @@
+import { db } from "./firebaseAdmin";
+import { Logger } from "../utils/logger";
+import { resolveSessionStringForUser } from "../telegram/sessionStore";
+import { withTelegramClient } from "../telegram/clientPool";
+import { runTelegramOutbound } from "./telegramOutboundQueue";
+import {
+  isTelegramSessionRevokedError,
+  TelegramSessionExpiredError
+} from "./sendPromptFromUserToSyntx";
+import { checkDriveFolderAccess } from "./googleDrive";
+import { checkDriveFolderAccessWithOAuth } from "./googleDriveOAuth";
+import { getDriveErrorCode, withDriveClient } from "./googleDriveClient";
+import { getChannelStorageBackendId } from "../storage/registry";
+import { DEFAULT_PROVIDER_ID } from "../providers/registry";
+
+/**
+ * Причина автоматической паузы автоматики канала
+ */
+export type AutomationPauseReason =
+  | "TELEGRAM_SESSION_EXPIRED_NEED_RELOGIN"
+  | "TELEGRAM_SESSION_NOT_INITIALIZED"
+  | "GOOGLE_DRIVE_FOLDER_NOT_FOUND"
+  | "GOOGLE_DRIVE_PERMISSION_DENIED"
+  | "GOOGLE_DRIVE_TOKEN_REVOKED"
+  | "GOOGLE_DRIVE_ERROR"
+  | "SYNTX_INSUFFICIENT_BALANCE"
+  | "REPEATED_FAILURES";
+
+export interface AutomationProblem {
+  reason: AutomationPauseReason;
+  message: string;
+}
+
+export type ResumeChannelAutomationResult =
+  | { status: "resumed" }
+  | { status: "not_found" }
+  | { status: "validation_failed"; problems: AutomationProblem[] };
+
+// Сколько ошибок подряд допускается до автоматической паузы
+const FAILURE_THRESHOLD = Math.max(1, Number(process.env.AUTOMATION_PAUSE_FAILURE_THRESHOLD) || 3);
+
+// Эти ошибки не исправятся сами собой — ставим канал на паузу сразу
+const IMMEDIATE_PAUSE_REASONS: AutomationPauseReason[] = [
+  "TELEGRAM_SESSION_EXPIRED_NEED_RELOGIN",
+  "TELEGRAM_SESSION_NOT_INITIALIZED",
+  "GOOGLE_DRIVE_TOKEN_REVOKED",
+  "SYNTX_INSUFFICIENT_BALANCE"
+];
+
+const REASON_MESSAGES: Record<AutomationPauseReason, string> = {
+  TELEGRAM_SESSION_EXPIRED_NEED_RELOGIN:
+    "Telegram-сессия истекла или была отозвана. Подключите Telegram заново.",
+  TELEGRAM_SESSION_NOT_INITIALIZED: "Telegram не подключён. Подключите Telegram в настройках аккаунта.",
+  GOOGLE_DRIVE_FOLDER_NOT_FOUND: "Папка Google Drive не найдена или не указана.",
+  GOOGLE_DRIVE_PERMISSION_DENIED: "Нет доступа к папке Google Drive.",
+  GOOGLE_DRIVE_TOKEN_REVOKED: "Доступ к Google Drive отозван. Подключите Google Drive заново.",
+  GOOGLE_DRIVE_ERROR: "Не удалось загрузить видео в Google Drive.",
+  SYNTX_INSUFFICIENT_BALANCE:
+    "На балансе SyntX недостаточно средств. Пополните баланс и возобновите автоматику.",
+  REPEATED_FAILURES: "Несколько запусков подряд завершились ошибкой."
+};
+
+function getChannelRef(userId: string, channelId: string) {
+  if (!db) {
+    throw new Error("Firestore is not available");
+  }
+  return db.collection("users").doc(userId).collection("channels").doc(channelId);
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Определяет причину паузы по тексту ошибки
+ */
+export function classifyAutomationError(error: unknown): AutomationPauseReason {
+  const message = getErrorMessage(error);
+
+  if (
+    error instanceof TelegramSessionExpiredError ||
+    message.includes("TELEGRAM_SESSION_EXPIRED_NEED_RELOGIN") ||
+    isTelegramSessionRevokedError(error)
+  ) {
+    return "TELEGRAM_SESSION_EXPIRED_NEED_RELOGIN";
+  }
+  if (message.includes("TELEGRAM_SESSION_NOT_INITIALIZED")) {
+    return "TELEGRAM_SESSION_NOT_INITIALIZED";
+  }
+  if (message.includes("SYNTX_INSUFFICIENT_BALANCE")) {
+    return "SYNTX_INSUFFICIENT_BALANCE";
+  }
+  if (message.includes("GOOGLE_DRIVE_FOLDER_NOT_CONFIGURED")) {
+    return "GOOGLE_DRIVE_FOLDER_NOT_FOUND";
+  }
+  switch (getDriveErrorCode(error)) {
+    case "FOLDER_NOT_FOUND":
+    case "NOT_A_FOLDER":
+      return "GOOGLE_DRIVE_FOLDER_NOT_FOUND";
+    case "FOLDER_NOT_SHARED":
+      return "GOOGLE_DRIVE_PERMISSION_DENIED";
+    case "TOKEN_REVOKED":
+      return "GOOGLE_DRIVE_TOKEN_REVOKED";
+    case null:
+      break;
+    default:
+      return "GOOGLE_DRIVE_ERROR";
+  }
+  return "REPEATED_FAILURES";
+}
+
+/**
+ * Ошибка, которая не исправится повтором (сессия Telegram, доступ к Drive, баланс):
+ * канал ставится на паузу сразу, не дожидаясь исчерпания попыток
+ */
+export function isImmediatePauseError(error: unknown): boolean {
+  return IMMEDIATE_PAUSE_REASONS.includes(classifyAutomationError(error));
+}
+
+/**
+ * Проверяет, стоит ли автоматика канала на паузе
+ */
+export function isChannelAutomationPaused(channelData: { automationPausedAt?: unknown }): boolean {
+  return !!channelData.automationPausedAt;
+}
+
+/**
+ * Учитывает ошибку автоматики канала. После FAILURE_THRESHOLD ошибок подряд
+ * (или сразу — при недействительной Telegram-сессии) ставит автоматику на паузу.
+ * @returns true, если канал на паузе после этой ошибки
+ */
+export async function recordChannelAutomationFailure(
+  userId: string,
+  channelId: string,
+  error: unknown
+): Promise<boolean> {
+  if (!db) {
+    return false;
+  }
+
+  const channelRef = getChannelRef(userId, channelId);
+  const errorMessage = getErrorMessage(error);
+  const reason = classifyAutomationError(error);
+
+  try {
+    const result = await db.runTransaction(async (tx) => {
+      const snap = await tx.get(channelRef);
+      if (!snap.exists) {
+        return { paused: false, justPaused: false, failureCount: 0 };
+      }
+
+      const data = snap.data() as any;
+      const failureCount = (Number(data.automationFailureCount) || 0) + 1;
+      const alreadyPaused = isChannelAutomationPaused(data);
+      const shouldPause =
+        !alreadyPaused &&
+        (failureCount >= FAILURE_THRESHOLD || IMMEDIATE_PAUSE_REASONS.includes(reason));
+
+      const now = new Date();
+      const update: Record<string, unknown> = {
+        automationFailureCount: failureCount,
+        automationLastError: errorMessage,
+        automationLastFailureAt: now
+      };
+
+      if (shouldPause) {
+        update.automationPausedAt = now;
+        update.automationPauseReason = reason;
+        update.automationPauseMessage = `${REASON_MESSAGES[reason]} ${errorMessage}`.trim();
+      }
+
+      tx.update(channelRef, update);
+      return { paused: alreadyPaused || shouldPause, justPaused: shouldPause, failureCount };
+    });
+
+    if (result.justPaused) {
+      Logger.warn("recordChannelAutomationFailure: channel automation paused", {
+        userId,
+        channelId,
+        reason,
+        failureCount: result.failureCount,
+        error: errorMessage
+      });
+    }
+
+    return result.paused;
+  } catch (updateError) {
+    Logger.error("recordChannelAutomationFailure: failed to update channel", {
+      userId,
+      channelId,
+      error: getErrorMessage(updateError)
+    });
+    return false;
+  }
+}
+
+/**
+ * Ставит на паузу автоматику всех каналов пользователя с включённой автоотправкой.
+ * Нужна для проблем уровня аккаунта (баланс SyntX общий для всех каналов).
+ * @param options.providerId - Только каналы этого провайдера генерации: баланс у каждого бота свой
+ * @returns Количество поставленных на паузу каналов
+ */
+export async function pauseUserChannelsAutomation(
+  userId: string,
+  reason: AutomationPauseReason,
+  detail: string,
+  options: { providerId?: string } = {}
+): Promise<number> {
+  if (!db) {
+    return 0;
+  }
+
+  try {
+    const channelsSnap = await db
+      .collection("users")
+      .doc(userId)
+      .collection("channels")
+      .where("autoSendEnabled", "==", true)
+      .get();
+
+    const now = new Date();
+    const batch = db.batch();
+    let pausedCount = 0;
+
+    for (const doc of channelsSnap.docs) {
+      if (isChannelAutomationPaused(doc.data())) {
+        continue;
+      }
+      if (
+        options.providerId &&
+        (doc.data().generationProviderId || DEFAULT_PROVIDER_ID) !== options.providerId
+      ) {
+        continue;
+      }
+      batch.update(doc.ref, {
+        automationLastError: detail,
+        automationLastFailureAt: now,
+        automationPausedAt: now,
+        automationPauseReason: reason,
+        automationPauseMessage: `${REASON_MESSAGES[reason]} ${detail}`.trim()
+      });
+      pausedCount++;
+    }
+
+    if (pausedCount > 0) {
+      await batch.commit();
+      Logger.warn("pauseUserChannelsAutomation: channels paused", {
+        userId,
+        reason,
+        pausedCount
+      });
+    }
+    return pausedCount;
+  } catch (updateError) {
+    Logger.error("pauseUserChannelsAutomation: failed to pause channels", {
+      userId,
+      reason,
+      error: getErrorMessage(updateError)
+    });
+    return 0;
+  }
+}
+
+/**
+ * Сбрасывает счётчик ошибок подряд после успешного запуска
+ */
+export async function recordChannelAutomationSuccess(
+  userId: string,
+  channelId: string
+): Promise<void> {
+  if (!db) {
+    return;
+  }
+
+  try {
+    const channelRef = getChannelRef(userId, channelId);
+    const snap = await channelRef.get();
+    if (!snap.exists || !(Number(snap.data()?.automationFailureCount) > 0)) {
+      return;
+    }
+
+    await channelRef.update({ automationFailureCount: 0 });
+  } catch (updateError) {
+    Logger.warn("recordChannelAutomationSuccess: failed to reset failure count", {
+      userId,
+      channelId,
+      error: getErrorMessage(updateError)
+    });
+  }
+}
+
+/**
+ * Проверяет Telegram-сессию владельца канала: подключается и запрашивает текущего пользователя
+ */
+async function validateTelegramSession(userId: string): Promise<AutomationProblem | null> {
+  const stringSession = await resolveSessionStringForUser(userId);
+  if (!stringSession) {
+    return {
+      reason: "TELEGRAM_SESSION_NOT_INITIALIZED",
+      message: REASON_MESSAGES.TELEGRAM_SESSION_NOT_INITIALIZED
+    };
+  }
+
+  try {
+    await runTelegramOutbound(userId, "validateSession", () =>
+      withTelegramClient(stringSession, (client) => client.getMe())
+    );
+    return null;
+  } catch (error) {
+    const reason = isTelegramSessionRevokedError(error)
+      ? "TELEGRAM_SESSION_EXPIRED_NEED_RELOGIN"
+      : "REPEATED_FAILURES";
+    return {
+      reason,
+      message:
+        reason === "TELEGRAM_SESSION_EXPIRED_NEED_RELOGIN"
+          ? REASON_MESSAGES.TELEGRAM_SESSION_EXPIRED_NEED_RELOGIN
+          : `Не удалось подключиться к Telegram: ${getErrorMessage(error)}`
+    };
+  }
+}
+
+/**
+ * Проверяет доступ к папке Google Drive канала (OAuth пользователя, затем Service Account)
+ */
+async function validateDriveFolder(
+  userId: string,
+  channelData: any
+): Promise<AutomationProblem | null> {
+  const folderId =
+    channelData.googleDriveFolderId?.trim() ||
+    process.env.GOOGLE_DRIVE_DEFAULT_PARENT?.trim() ||
+    undefined;
+
+  if (!folderId) {
+    return {
+      reason: "GOOGLE_DRIVE_FOLDER_NOT_FOUND",
+      message: "Не указана папка Google Drive для загрузки видео."
+    };
+  }
+
+  try {
+    await withDriveClient(
+      userId,
+      (client) =>
+        client.accessToken
+          ? checkDriveFolderAccessWithOAuth(folderId, client.accessToken)
+          : checkDriveFolderAccess(folderId),
+      { label: "validateDriveFolder" }
+    );
+    return null;
+  } catch (error) {
+    return {
+      reason: classifyAutomationError(error),
+      message: getErrorMessage(error)
+    };
+  }
+}
+
+/**
+ * Снимает канал с паузы, предварительно проверив Telegram-сессию и папку Google Drive
+ */
+export async function resumeChannelAutomation(
+  userId: string,
+  channelId: string
+): Promise<ResumeChannelAutomationResult> {
+  const channelRef = getChannelRef(userId, channelId);
+  const snap = await channelRef.get();
+  if (!snap.exists) {
+    return { status: "not_found" };
+  }
+
+  const channelData = snap.data() as any;
+  const problems: AutomationProblem[] = [];
+
+  const telegramProblem = await validateTelegramSession(userId);
+  if (telegramProblem) {
+    problems.push(telegramProblem);
+  }
+
+  // Папку проверяем только у каналов, которые складывают видео в Google Drive
+  if (
+    channelData.autoDownloadToDriveEnabled === true &&
+    getChannelStorageBackendId(channelData) === "googleDrive"
+  ) {
+    const driveProblem = await validateDriveFolder(userId, channelData);
+    if (driveProblem) {
+      problems.push(driveProblem);
+    }
+  }
+
+  if (problems.length > 0) {
+    Logger.warn("resumeChannelAutomation: prerequisites check failed", {
+      userId,
+      channelId,
+      problems
+    });
+    return { status: "validation_failed", problems };
+  }
+
+  await channelRef.update({
+    automationFailureCount: 0,
+    automationPausedAt: null,
+    automationPauseReason: null,
+    automationPauseMessage: null
+  });
+
+  Logger.info("resumeChannelAutomation: channel automation resumed", { userId, channelId });
+  return { status: "resumed" };
+}
@@ -2,44 +2,14 @@ import { google } from "googleapis";
 import { Readable } from "stream";
 import * as fs from "fs";
 import { Logger } from "../utils/logger";
-
-const DRIVE_SCOPE = ["https://www.googleapis.com/auth/drive.file"];
-const DRIVE_FULL_SCOPE = ["https://www.googleapis.com/auth/drive"];
-
-/**
- * Создаёт и возвращает клиент Google Drive API, используя Service Account
- * @param useFullScope - Если true, использует полный scope для создания папок и управления правами
- * @returns {google.drive_v3.Drive} Клиент Google Drive
- */
-function getDriveClient(useFullScope: boolean = false) {
-  const clientEmail = process.env.GOOGLE_DRIVE_CLIENT_EMAIL;
-  const privateKeyRaw = process.env.GOOGLE_DRIVE_PRIVATE_KEY;
-
-  if (!clientEmail || !privateKeyRaw) {
-    throw new Error(
-      "GOOGLE_DRIVE_CREDENTIALS_NOT_CONFIGURED: Google Drive credentials are not configured. Please set GOOGLE_DRIVE_CLIENT_EMAIL and GOOGLE_DRIVE_PRIVATE_KEY in backend/.env"
-    );
-  }
-
-  try {
-    // В .env переносы строк обычно экранируются как \n, здесь восстанавливаем их
-    const privateKey = privateKeyRaw.replace(/\\n/g, "\n");
-
-    // Инициализация JWT аутентификации для Service Account
-    const auth = new google.auth.JWT({
-      email: clientEmail,
-      key: privateKey,
-      scopes: useFullScope ? DRIVE_FULL_SCOPE : DRIVE_SCOPE
-    });
-
-    return google.drive({ version: "v3", auth });
-  } catch (error) {
-    Logger.error("Failed to create Google Drive client", error);
-    throw new Error(
-      "GOOGLE_DRIVE_AUTH_FAILED: Failed to authenticate with Google Drive. Check your credentials."
-    );
-  }
-}
+import type { DriveFileMetadata } from "./googleDriveOAuth";
+import {
+  getDriveClientFromOAuth,
+  getServiceAccountDriveClient as getDriveClient
+} from "./googleDriveClient";
+const FOLDER_MIME_TYPE = "application/vnd.google-apps.folder";
+// Сколько помним ID найденной/созданной подпапки (папку могут удалить или переименовать в Drive)
+const FOLDER_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
 
 /**
  * Проверяет доступность папки и права доступа Service Account
@@ -100,19 +70,29 @@ async function validateFolderAccess(
   }
 }
 
+/**
+ * Проверяет доступ Service Account к папке Google Drive
+ * @throws Error с кодом GOOGLE_DRIVE_FOLDER_NOT_FOUND / GOOGLE_DRIVE_PERMISSION_DENIED / GOOGLE_DRIVE_NOT_A_FOLDER
+ */
+export async function checkDriveFolderAccess(folderId: string): Promise<void> {
+  await validateFolderAccess(getDriveClient(), folderId);
+}
+
 /**
  * Загружает видеофайл в указанную папку Google Drive
  * @param {Buffer} fileBuffer - Буфер с данными файла
  * @param {string} mimeType - MIME-тип файла (например, 'video/mp4')
  * @param {string} fileName - Имя файла для сохранения
  * @param {string|undefined} folderId - ID папки из настроек канала (опционально)
+ * @param {DriveFileMetadata|undefined} metadata - Описание и appProperties файла (опционально)
  * @returns {Promise<{fileId: string, webViewLink?: string, webContentLink?: string}>}
  */
 export async function uploadVideoToDrive(
   fileBuffer: Buffer,
   mimeType: string,
   fileName: string,
-  folderId?: string
+  folderId?: string,
+  metadata?: DriveFileMetadata
 ): Promise<{ fileId: string; webViewLink?: string; webContentLink?: string }> {
   // Определяем родительскую папку: сначала из канала, потом из .env, иначе ошибка
   const folderIdFromChannel = folderId?.trim() || undefined;
@@ -193,7 +173,8 @@ export async function uploadVideoToDrive(
     const res = await drive.files.create({
       requestBody: {
         name: fileName,
-        parents: [parentFolderId]
+        parents: [parentFolderId],
+        ...metadata
       },
       media: {
         mimeType,
@@ -307,8 +288,9 @@ export async function uploadFileToDrive(params: {
   fileName: string; // Имя файла для сохранения в Drive
   mimeType?: string; // MIME-тип (по умолчанию 'video/mp4')
   parentFolderId?: string; // ID папки из запроса или GOOGLE_DRIVE_DEFAULT_PARENT
+  metadata?: DriveFileMetadata; // описание и appProperties файла
 }): Promise<{ fileId: string; webViewLink?: string; webContentLink?: string }> {
-  const { filePath, fileName, mimeType = "video/mp4", parentFolderId } = params;
+  const { filePath, fileName, mimeType = "video/mp4", parentFolderId, metadata } = params;
 
   // Проверяем, что файл существует
   try {
@@ -406,7 +388,8 @@ export async function uploadFileToDrive(params: {
     const res = await drive.files.create({
       requestBody: {
         name: fileName,
-        parents: [finalParentFolderId]
+        parents: [finalParentFolderId],
+        ...metadata
       },
       media: {
         mimeType,
@@ -510,16 +493,20 @@ export async function uploadFileToDrive(params: {
 
 /**
  * Создаёт папку в Google Drive от имени сервис-аккаунта
+ * (или пользователя, если передан его OAuth access token)
  * @param params.folderName - Имя создаваемой папки
  * @param params.parentId - Необязательный ID родительской папки
+ * @param params.accessToken - OAuth access token пользователя
  * @returns ID и webViewLink созданной папки
  */
 export async function createFolder(params: {
   folderName: string;
   parentId?: string;
+  accessToken?: string | null;
 }): Promise<{ folderId: string; webViewLink?: string }> {
-  const { folderName, parentId } = params;
-  const drive = getDriveClient(true); // полный scope для создания папок
+  const { folderName, parentId, accessToken } = params;
+  // полный scope для создания папок
+  const drive = accessToken ? getDriveClientFromOAuth(accessToken) : getDriveClient(true);
 
   try {
     Logger.info("Creating Google Drive folder", { folderName, parentId });
@@ -531,7 +518,7 @@ export async function createFolder(params: {
       writersCanShare?: boolean;
     } = {
       name: folderName,
-      mimeType: "application/vnd.google-apps.folder",
+      mimeType: FOLDER_MIME_TYPE,
       writersCanShare: true
     };
 
@@ -576,3 +563,95 @@ export async function createFolder(params: {
   }
 }
 
+type CachedFolder = { folderId: string; expiresAt: number };
+
+// ID подпапок по ключу «родитель/имя»
+const folderCache = new Map<string, CachedFolder>();
+// Подпапки в процессе поиска/создания, чтобы параллельные загрузки не создали дубликаты
+const resolvingFolders = new Map<string, Promise<string>>();
+
+/**
+ * Находит подпапку по имени внутри родительской папки
+ */
+async function findChildFolder(
+  parentId: string,
+  folderName: string,
+  accessToken?: string | null
+): Promise<string | null> {
+  const drive = accessToken ? getDriveClientFromOAuth(accessToken) : getDriveClient(true);
+  const escapedName = folderName.replace(/\\/g, "\\\\").replace(/'/g, "\\'");
+
+  const res = await drive.files.list({
+    q:
+      `'${parentId}' in parents and name = '${escapedName}' ` +
+      `and mimeType = '${FOLDER_MIME_TYPE}' and trashed = false`,
+    fields: "files(id, name)",
+    pageSize: 1,
+    supportsAllDrives: true,
+    includeItemsFromAllDrives: true
+  });
+
+  return res.data.files?.[0]?.id ?? null;
+}
+
+async function resolveChildFolder(
+  parentId: string,
+  folderName: string,
+  accessToken?: string | null
+): Promise<string> {
+  const key = `${parentId}/${folderName}`;
+  const cached = folderCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.folderId;
+  }
+
+  let pending = resolvingFolders.get(key);
+  if (!pending) {
+    pending = (async () => {
+      const existingId = await findChildFolder(parentId, folderName, accessToken);
+      const folderId =
+        existingId ?? (await createFolder({ folderName, parentId, accessToken })).folderId;
+      folderCache.set(key, { folderId, expiresAt: Date.now() + FOLDER_CACHE_TTL_MS });
+      return folderId;
+    })().finally(() => resolvingFolders.delete(key));
+    resolvingFolders.set(key, pending);
+  }
+  return pending;
+}
+
+/**
+ * Забывает закешированные ID подпапок пути (их удалили или переместили в корзину),
+ * чтобы следующий ensureDriveFolderPath нашёл или создал их заново
+ */
+export function forgetDriveFolderPath(params: { rootFolderId: string; segments: string[] }): void {
+  let parentId = params.rootFolderId;
+  for (const segment of params.segments) {
+    const key = `${parentId}/${segment}`;
+    const cached = folderCache.get(key);
+    folderCache.delete(key);
+    if (!cached) {
+      return;
+    }
+    parentId = cached.folderId;
+  }
+}
+
+/**
+ * Возвращает ID папки по пути из подпапок внутри корневой папки канала,
+ * создавая недостающие. Найденные ID кешируются в памяти.
+ * @param params.rootFolderId - Папка канала (googleDriveFolderId)
+ * @param params.segments - Подпапки по порядку, например ["Канал", "2024-05", "Утро"]
+ * @param params.accessToken - OAuth access token пользователя; без него — сервис-аккаунт
+ * @throws Error GOOGLE_DRIVE_CREATE_FOLDER_FAILED, если подпапку не удалось создать
+ */
+export async function ensureDriveFolderPath(params: {
+  rootFolderId: string;
+  segments: string[];
+  accessToken?: string | null;
+}): Promise<string> {
+  let folderId = params.rootFolderId;
+  for (const segment of params.segments) {
+    folderId = await resolveChildFolder(folderId, segment, params.accessToken);
+  }
+  return folderId;
+}
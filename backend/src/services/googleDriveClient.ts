@@ -0,0 +1,388 @@
+import { google, type drive_v3 } from "googleapis";
+import { Logger } from "../utils/logger";
+import { getUserOAuthTokens, updateUserAccessToken } from "../repositories/userOAuthTokensRepo";
+
+const DRIVE_SCOPE = ["https://www.googleapis.com/auth/drive.file"];
+const DRIVE_FULL_SCOPE = ["https://www.googleapis.com/auth/drive"];
+// Срок жизни токена, если Google не вернул expiry_date
+const DEFAULT_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Чем авторизован клиент Drive: OAuth-токеном пользователя или Service Account
+ */
+export type DriveAuthMode = "oauth" | "serviceAccount";
+
+/**
+ * Единые коды ошибок Google Drive для обоих способов авторизации
+ */
+export type DriveErrorCode =
+  | "NOT_CONFIGURED" // нет ни OAuth-токена пользователя, ни Service Account
+  | "TOKEN_REVOKED" // OAuth-доступ отозван или refresh token недействителен
+  | "FOLDER_NOT_FOUND"
+  | "FOLDER_NOT_SHARED" // у пользователя или Service Account нет прав на папку
+  | "NOT_A_FOLDER"
+  | "QUOTA_EXCEEDED" // закончилось место в Drive или дневная квота API
+  | "RATE_LIMITED"
+  | "FILE_TOO_LARGE"
+  | "UPLOAD_FAILED";
+
+const DRIVE_ERROR_CODES: DriveErrorCode[] = [
+  "NOT_CONFIGURED",
+  "TOKEN_REVOKED",
+  "FOLDER_NOT_FOUND",
+  "FOLDER_NOT_SHARED",
+  "NOT_A_FOLDER",
+  "QUOTA_EXCEEDED",
+  "RATE_LIMITED",
+  "FILE_TOO_LARGE",
+  "UPLOAD_FAILED"
+];
+
+// Коды, которые модули Drive бросали до появления единой классификации
+const LEGACY_ERROR_CODES: Record<string, DriveErrorCode> = {
+  PERMISSION_DENIED: "FOLDER_NOT_SHARED",
+  OAUTH_INVALID: "TOKEN_REVOKED",
+  CREDENTIALS_NOT_CONFIGURED: "NOT_CONFIGURED",
+  AUTH_FAILED: "NOT_CONFIGURED",
+  UPLOAD_SESSION_EXPIRED: "UPLOAD_FAILED",
+  CREATE_FOLDER_FAILED: "UPLOAD_FAILED"
+};
+
+const DRIVE_ERROR_MESSAGES: Record<DriveErrorCode, string> = {
+  NOT_CONFIGURED:
+    "Google Drive не подключён. Авторизуйтесь через Google OAuth или задайте GOOGLE_DRIVE_CLIENT_EMAIL и GOOGLE_DRIVE_PRIVATE_KEY в backend/.env",
+  TOKEN_REVOKED: "Доступ к Google Drive отозван или истёк. Подключите Google Drive заново.",
+  FOLDER_NOT_FOUND: "Папка Google Drive не найдена. Проверьте ID папки.",
+  FOLDER_NOT_SHARED: "Нет доступа к папке Google Drive. Выдайте права «Редактор» на папку.",
+  NOT_A_FOLDER: "Указанный ID не является папкой Google Drive.",
+  QUOTA_EXCEEDED: "Превышена квота Google Drive: закончилось место или дневной лимит API.",
+  RATE_LIMITED: "Слишком много запросов к Google Drive. Попробуйте позже.",
+  FILE_TOO_LARGE: "Файл слишком большой для загрузки в Google Drive.",
+  UPLOAD_FAILED: "Не удалось загрузить файл в Google Drive."
+};
+
+// При этих ошибках OAuth-загрузку повторяем через Service Account: у него могут быть свои права на папку.
+// UPLOAD_FAILED сюда не входит — это и обрыв посреди загрузки, после которого файл в Drive
+// мог уже появиться: повтор создал бы дубликат
+const SERVICE_ACCOUNT_FALLBACK_CODES: DriveErrorCode[] = [
+  "TOKEN_REVOKED",
+  "FOLDER_NOT_FOUND",
+  "FOLDER_NOT_SHARED"
+];
+
+/**
+ * Ошибка Google Drive с кодом из DriveErrorCode.
+ * Текст начинается с «GOOGLE_DRIVE_<код>:», как у остальных ошибок сервиса.
+ */
+export class DriveError extends Error {
+  constructor(
+    readonly code: DriveErrorCode,
+    readonly details: string = DRIVE_ERROR_MESSAGES[code], // текст для пользователя, без кода
+    readonly authMode?: DriveAuthMode
+  ) {
+    super(`GOOGLE_DRIVE_${code}: ${details}`);
+    this.name = "DriveError";
+  }
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Код ошибки Drive: из DriveError, из префикса «GOOGLE_DRIVE_...:» в тексте
+ * или по ответу Google API. null — ошибка не относится к Drive.
+ */
+export function getDriveErrorCode(error: unknown): DriveErrorCode | null {
+  if (error instanceof DriveError) {
+    return error.code;
+  }
+
+  const message = getErrorMessage(error);
+  const prefix = message.match(/GOOGLE_DRIVE_([A-Z_]+?):/)?.[1];
+  if (prefix) {
+    if (DRIVE_ERROR_CODES.includes(prefix as DriveErrorCode)) {
+      return prefix as DriveErrorCode;
+    }
+    if (LEGACY_ERROR_CODES[prefix]) {
+      return LEGACY_ERROR_CODES[prefix];
+    }
+  }
+
+  const apiError = error as any;
+  if (apiError?.response?.data?.error === "invalid_grant" || message.includes("invalid_grant")) {
+    return "TOKEN_REVOKED";
+  }
+
+  const status = Number(apiError?.response?.status ?? apiError?.code);
+  const reason: string | undefined =
+    apiError?.errors?.[0]?.reason ?? apiError?.response?.data?.error?.errors?.[0]?.reason;
+
+  if (status === 401) {
+    return "TOKEN_REVOKED";
+  }
+  if (reason === "storageQuotaExceeded" || reason === "quotaExceeded" || reason === "dailyLimitExceeded") {
+    return "QUOTA_EXCEEDED";
+  }
+  if (status === 429 || reason === "userRateLimitExceeded" || reason === "rateLimitExceeded") {
+    return "RATE_LIMITED";
+  }
+  if (status === 403) {
+    return "FOLDER_NOT_SHARED";
+  }
+  if (status === 404) {
+    return "FOLDER_NOT_FOUND";
+  }
+  if (status === 413) {
+    return "FILE_TOO_LARGE";
+  }
+  return null;
+}
+
+/**
+ * Приводит любую ошибку Drive к DriveError. Подробный текст из модулей Drive сохраняется.
+ */
+export function toDriveError(error: unknown, authMode?: DriveAuthMode): DriveError {
+  if (error instanceof DriveError) {
+    return error;
+  }
+
+  const code = getDriveErrorCode(error) ?? "UPLOAD_FAILED";
+  const message = getErrorMessage(error);
+  const details = message.match(/^GOOGLE_DRIVE_[A-Z_]+?:\s*(.+)$/s)?.[1];
+  const text =
+    details ??
+    (code === "UPLOAD_FAILED" ? `${DRIVE_ERROR_MESSAGES[code]} ${message}` : DRIVE_ERROR_MESSAGES[code]);
+
+  return new DriveError(code, text, authMode);
+}
+
+/**
+ * Настроен ли Service Account (GOOGLE_DRIVE_CLIENT_EMAIL и GOOGLE_DRIVE_PRIVATE_KEY)
+ */
+export function isServiceAccountConfigured(): boolean {
+  return !!process.env.GOOGLE_DRIVE_CLIENT_EMAIL && !!process.env.GOOGLE_DRIVE_PRIVATE_KEY;
+}
+
+/**
+ * Создаёт и возвращает клиент Google Drive API, используя Service Account
+ * @param useFullScope - Если true, использует полный scope для создания папок и управления правами
+ * @returns {google.drive_v3.Drive} Клиент Google Drive
+ */
+export function getServiceAccountDriveClient(useFullScope: boolean = false): drive_v3.Drive {
+  const clientEmail = process.env.GOOGLE_DRIVE_CLIENT_EMAIL;
+  const privateKeyRaw = process.env.GOOGLE_DRIVE_PRIVATE_KEY;
+
+  if (!clientEmail || !privateKeyRaw) {
+    throw new Error(
+      "GOOGLE_DRIVE_CREDENTIALS_NOT_CONFIGURED: Google Drive credentials are not configured. Please set GOOGLE_DRIVE_CLIENT_EMAIL and GOOGLE_DRIVE_PRIVATE_KEY in backend/.env"
+    );
+  }
+
+  try {
+    // В .env переносы строк обычно экранируются как \n, здесь восстанавливаем их
+    const privateKey = privateKeyRaw.replace(/\\n/g, "\n");
+
+    // Инициализация JWT аутентификации для Service Account
+    const auth = new google.auth.JWT({
+      email: clientEmail,
+      key: privateKey,
+      scopes: useFullScope ? DRIVE_FULL_SCOPE : DRIVE_SCOPE
+    });
+
+    return google.drive({ version: "v3", auth });
+  } catch (error) {
+    Logger.error("Failed to create Google Drive client", error);
+    throw new Error(
+      "GOOGLE_DRIVE_AUTH_FAILED: Failed to authenticate with Google Drive. Check your credentials."
+    );
+  }
+}
+
+/**
+ * Создаёт клиент Google Drive API, используя OAuth токен пользователя
+ * @param accessToken - OAuth access token пользователя
+ * @returns {google.drive_v3.Drive} Клиент Google Drive
+ */
+export function getDriveClientFromOAuth(accessToken: string): drive_v3.Drive {
+  const auth = new google.auth.OAuth2();
+  auth.setCredentials({ access_token: accessToken });
+
+  return google.drive({ version: "v3", auth });
+}
+
+// Обновление токена пользователя, которое уже выполняется: параллельные загрузки его ждут
+const refreshingTokens = new Map<string, Promise<string>>();
+
+async function refreshUserAccessToken(userId: string, refreshToken: string): Promise<string> {
+  const pending = refreshingTokens.get(userId);
+  if (pending) {
+    return pending;
+  }
+
+  const refresh = (async () => {
+    Logger.info("OAuth token expired, refreshing...", { userId });
+
+    const oauth2Client = new google.auth.OAuth2(
+      process.env.GOOGLE_OAUTH_CLIENT_ID,
+      process.env.GOOGLE_OAUTH_CLIENT_SECRET
+    );
+    oauth2Client.setCredentials({ refresh_token: refreshToken });
+
+    let accessToken: string;
+    let expiryDate: number;
+    try {
+      const { credentials } = await oauth2Client.refreshAccessToken();
+      if (!credentials.access_token) {
+        throw new Error("Google не вернул access token");
+      }
+      accessToken = credentials.access_token;
+      expiryDate = credentials.expiry_date || Date.now() + DEFAULT_TOKEN_TTL_MS;
+    } catch (error) {
+      // invalid_grant — пользователь отозвал доступ или refresh token устарел
+      throw toDriveError(error, "oauth");
+    }
+
+    // Сохраняем обновлённый токен
+    await updateUserAccessToken(userId, accessToken, expiryDate);
+
+    Logger.info("OAuth token refreshed", { userId });
+    return accessToken;
+  })();
+
+  refreshingTokens.set(userId, refresh);
+  try {
+    return await refresh;
+  } finally {
+    refreshingTokens.delete(userId);
+  }
+}
+
+/**
+ * Возвращает действующий OAuth access token пользователя для Google Drive,
+ * при необходимости обновляя его по refresh token
+ * @returns Токен или null, если пользователь не подключал Google Drive через OAuth
+ * @throws DriveError TOKEN_REVOKED, если токен не удалось обновить
+ */
+export async function getValidUserDriveAccessToken(userId: string): Promise<string | null> {
+  const userTokens = await getUserOAuthTokens(userId);
+  if (!userTokens?.googleDriveAccessToken) {
+    return null;
+  }
+
+  // Проверяем, не истёк ли токен
+  const isExpired = userTokens.googleDriveTokenExpiry
+    ? userTokens.googleDriveTokenExpiry < Date.now()
+    : false;
+
+  if (!isExpired || !userTokens.googleDriveRefreshToken) {
+    return userTokens.googleDriveAccessToken;
+  }
+
+  return refreshUserAccessToken(userId, userTokens.googleDriveRefreshToken);
+}
+
+/**
+ * Клиент Drive с информацией о способе авторизации.
+ * accessToken есть только у OAuth-клиента (нужен для возобновляемой загрузки через fetch).
+ */
+export interface DriveClientHandle {
+  drive: drive_v3.Drive;
+  authMode: DriveAuthMode;
+  accessToken: string | null;
+}
+
+function getServiceAccountHandle(useFullScope: boolean): DriveClientHandle {
+  try {
+    return {
+      drive: getServiceAccountDriveClient(useFullScope),
+      authMode: "serviceAccount",
+      accessToken: null
+    };
+  } catch (error) {
+    throw toDriveError(error, "serviceAccount");
+  }
+}
+
+/**
+ * Клиент Drive для пользователя: OAuth-токен пользователя (с обновлением),
+ * а если его нет или он отозван — Service Account.
+ *
+ * @throws DriveError NOT_CONFIGURED, если нет ни токена, ни Service Account;
+ *         TOKEN_REVOKED, если токен отозван, а Service Account не настроен
+ */
+export async function getDriveClientForUser(
+  userId: string,
+  options: { useFullScope?: boolean } = {}
+): Promise<DriveClientHandle> {
+  const useFullScope = options.useFullScope ?? true;
+
+  let accessToken: string | null = null;
+  try {
+    accessToken = await getValidUserDriveAccessToken(userId);
+  } catch (error) {
+    const driveError = toDriveError(error, "oauth");
+    if (!isServiceAccountConfigured()) {
+      throw driveError;
+    }
+    Logger.warn("OAuth token unavailable, falling back to Service Account", {
+      userId,
+      code: driveError.code,
+      error: driveError.message
+    });
+  }
+
+  if (accessToken) {
+    return { drive: getDriveClientFromOAuth(accessToken), authMode: "oauth", accessToken };
+  }
+  if (!isServiceAccountConfigured()) {
+    throw new DriveError("NOT_CONFIGURED");
+  }
+  return getServiceAccountHandle(useFullScope);
+}
+
+/**
+ * Выполняет операцию с Drive клиентом пользователя. Если OAuth-клиент получил отказ,
+ * который может не коснуться Service Account (нет прав, папка не видна, токен отозван),
+ * операция повторяется через Service Account. Остальные ошибки не повторяются.
+ * Любая ошибка приводится к DriveError.
+ */
+export async function withDriveClient<T>(
+  userId: string,
+  operation: (client: DriveClientHandle) => Promise<T>,
+  options: { useFullScope?: boolean; label?: string } = {}
+): Promise<T> {
+  const client = await getDriveClientForUser(userId, options);
+
+  try {
+    return await operation(client);
+  } catch (error) {
+    const driveError = toDriveError(error, client.authMode);
+    if (
+      client.authMode !== "oauth" ||
+      !isServiceAccountConfigured() ||
+      !SERVICE_ACCOUNT_FALLBACK_CODES.includes(driveError.code)
+    ) {
+      throw driveError;
+    }
+
+    Logger.warn("OAuth Drive operation failed, trying Service Account", {
+      userId,
+      operation: options.label || "unknown",
+      code: driveError.code,
+      error: driveError.message
+    });
+
+    try {
+      return await operation(getServiceAccountHandle(options.useFullScope ?? true));
+    } catch (serviceAccountError) {
+      // Пользователю важнее причина отказа его собственного доступа
+      Logger.warn("Service Account Drive operation failed too", {
+        userId,
+        operation: options.label || "unknown",
+        error: getErrorMessage(serviceAccountError)
+      });
+      throw driveError;
+    }
+  }
+}
@@ -1,44 +1,25 @@
-import { google } from "googleapis";
 import { Readable } from "stream";
 import * as fs from "fs";
 import { Logger } from "../utils/logger";
+import { getDriveClientFromOAuth } from "./googleDriveClient";
 
 /**
- * Создаёт клиент Google Drive API, используя OAuth токен пользователя
- * @param accessToken - OAuth access token пользователя
- * @returns {google.drive_v3.Drive} Клиент Google Drive
+ * Дополнительные свойства файла в Drive: описание видно в карточке файла,
+ * appProperties доступны через API (поиск по каналу, расписанию, запуску)
  */
-function getDriveClientFromOAuth(accessToken: string) {
-  const auth = new google.auth.OAuth2();
-  auth.setCredentials({ access_token: accessToken });
-
-  return google.drive({ version: "v3", auth });
+export interface DriveFileMetadata {
+  description?: string;
+  appProperties?: Record<string, string>;
 }
 
 /**
- * Загружает файл в Google Drive используя OAuth токен пользователя
- * @param params - Параметры загрузки
- * @returns Информация о загруженном файле
+ * Проверяет, что папка существует и доступна пользователю
+ * @throws Error с кодом GOOGLE_DRIVE_FOLDER_NOT_FOUND / GOOGLE_DRIVE_PERMISSION_DENIED / GOOGLE_DRIVE_NOT_A_FOLDER
  */
-export async function uploadFileToDriveWithOAuth(params: {
-  filePath: string;
-  fileName: string;
-  mimeType?: string;
-  parentFolderId: string;
-  accessToken: string;
-}): Promise<{ fileId: string; webViewLink?: string; webContentLink?: string }> {
-  const { filePath, fileName, mimeType = "video/mp4", parentFolderId, accessToken } = params;
-
-  // Проверяем, что файл существует
-  try {
-    await fs.promises.access(filePath);
-  } catch {
-    throw new Error(`FILE_NOT_FOUND: Файл не найден: ${filePath}`);
-  }
-
-  const drive = getDriveClientFromOAuth(accessToken);
-
-  // Проверяем доступ к папке
+async function validateFolderWithOAuth(
+  drive: ReturnType<typeof getDriveClientFromOAuth>,
+  parentFolderId: string
+): Promise<void> {
   try {
     const folderInfo = await drive.files.get({
       fileId: parentFolderId,
@@ -49,7 +30,7 @@ export async function uploadFileToDriveWithOAuth(params: {
       throw new Error("GOOGLE_DRIVE_NOT_A_FOLDER: Указанный ID не является папкой Google Drive.");
     }
 
-    Logger.info("Folder validated for OAuth upload", {
+    Logger.info("Folder validated with OAuth", {
       folderId: parentFolderId,
       folderName: folderInfo.data.name
     });
@@ -66,6 +47,45 @@ export async function uploadFileToDriveWithOAuth(params: {
     }
     throw error;
   }
+}
+
+/**
+ * Проверяет доступ к папке Google Drive по OAuth токену пользователя
+ */
+export async function checkDriveFolderAccessWithOAuth(
+  folderId: string,
+  accessToken: string
+): Promise<void> {
+  await validateFolderWithOAuth(getDriveClientFromOAuth(accessToken), folderId);
+}
+
+/**
+ * Загружает файл в Google Drive используя OAuth токен пользователя
+ * @param params - Параметры загрузки
+ * @returns Информация о загруженном файле
+ */
+export async function uploadFileToDriveWithOAuth(params: {
+  filePath: string;
+  fileName: string;
+  mimeType?: string;
+  parentFolderId: string;
+  accessToken: string;
+  metadata?: DriveFileMetadata;
+}): Promise<{ fileId: string; webViewLink?: string; webContentLink?: string }> {
+  const { filePath, fileName, mimeType = "video/mp4", parentFolderId, accessToken, metadata } =
+    params;
+
+  // Проверяем, что файл существует
+  try {
+    await fs.promises.access(filePath);
+  } catch {
+    throw new Error(`FILE_NOT_FOUND: Файл не найден: ${filePath}`);
+  }
+
+  const drive = getDriveClientFromOAuth(accessToken);
+
+  // Проверяем доступ к папке
+  await validateFolderWithOAuth(drive, parentFolderId);
 
   const stats = await fs.promises.stat(filePath);
   const fileSizeMB = (stats.size / (1024 * 1024)).toFixed(2);
@@ -86,7 +106,8 @@ export async function uploadFileToDriveWithOAuth(params: {
     const res = await drive.files.create({
       requestBody: {
         name: fileName,
-        parents: [parentFolderId]
+        parents: [parentFolderId],
+        ...metadata
       },
       media: {
         mimeType,
@@ -135,3 +156,400 @@ export async function uploadFileToDriveWithOAuth(params: {
   }
 }
 
+/**
+ * Загружает небольшой файл из памяти (сопроводительные файлы к видео: сценарий, субтитры)
+ */
+export async function uploadBufferToDriveWithOAuth(params: {
+  buffer: Buffer;
+  fileName: string;
+  mimeType: string;
+  parentFolderId: string;
+  accessToken: string;
+  metadata?: DriveFileMetadata;
+}): Promise<{ fileId: string; webViewLink?: string }> {
+  const drive = getDriveClientFromOAuth(params.accessToken);
+
+  const res = await drive.files.create({
+    requestBody: {
+      name: params.fileName,
+      parents: [params.parentFolderId],
+      ...params.metadata
+    },
+    media: {
+      mimeType: params.mimeType,
+      body: Readable.from(params.buffer)
+    },
+    fields: "id, webViewLink"
+  });
+
+  return {
+    fileId: res.data.id as string,
+    webViewLink: res.data.webViewLink ?? undefined
+  };
+}
+
+const DRIVE_RESUMABLE_UPLOAD_URL =
+  "https://www.googleapis.com/upload/drive/v3/files?uploadType=resumable&fields=id,name,webViewLink,webContentLink,size";
+// Drive принимает части возобновляемой загрузки, кратные 256 KB
+const RESUMABLE_CHUNK_ALIGNMENT = 256 * 1024;
+// Размер части из DRIVE_UPLOAD_CHUNK_MB, округлённый вниз до кратного 256 KB
+const RESUMABLE_CHUNK_SIZE = Math.max(
+  RESUMABLE_CHUNK_ALIGNMENT,
+  Math.floor(
+    ((Number(process.env.DRIVE_UPLOAD_CHUNK_MB) || 8) * 1024 * 1024) / RESUMABLE_CHUNK_ALIGNMENT
+  ) * RESUMABLE_CHUNK_ALIGNMENT
+);
+// Сколько раз подряд продолжаем загрузку после обрыва сети или ошибки сервера
+const RESUMABLE_MAX_RETRIES = 5;
+const RESUMABLE_RETRY_BASE_DELAY_MS = 2000;
+
+export interface DriveUploadProgress {
+  uploadedBytes: number;
+  totalBytes: number;
+}
+
+type DriveUploadedFile = {
+  id: string;
+  name?: string;
+  webViewLink?: string;
+  webContentLink?: string;
+  size?: string;
+};
+
+type ChunkResult = { done: true; file: DriveUploadedFile } | { done: false; committed: number };
+
+/**
+ * Переводит HTTP-ответ Drive в ошибку. Коды GOOGLE_DRIVE_* — окончательные,
+ * DRIVE_UPLOAD_RETRYABLE — можно продолжить загрузку с подтверждённого места.
+ */
+async function toUploadError(res: Response): Promise<Error> {
+  const details = await res.text().catch(() => "");
+
+  if (res.status === 401) {
+    return new Error("GOOGLE_DRIVE_OAUTH_INVALID: OAuth токен недействителен или истёк. Обновите токен.");
+  }
+  if (res.status === 403 && !details.includes("rateLimitExceeded")) {
+    return new Error(
+      `GOOGLE_DRIVE_PERMISSION_DENIED: Нет прав на загрузку в эту папку. Убедитесь, что у вас есть права "Редактор".`
+    );
+  }
+  if (res.status === 404 || res.status === 410) {
+    return new Error("GOOGLE_DRIVE_UPLOAD_SESSION_EXPIRED: Сессия загрузки в Google Drive истекла.");
+  }
+  if (res.status === 403 || res.status === 408 || res.status === 429 || res.status >= 500) {
+    return new Error(`DRIVE_UPLOAD_RETRYABLE: HTTP ${res.status} ${details.slice(0, 200)}`);
+  }
+  return new Error(`GOOGLE_DRIVE_UPLOAD_FAILED: HTTP ${res.status} ${details.slice(0, 200)}`);
+}
+
+function isRetryableUploadError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return !message.startsWith("GOOGLE_DRIVE_");
+}
+
+function isOAuthInvalidError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.startsWith("GOOGLE_DRIVE_OAUTH_INVALID:");
+}
+
+/**
+ * Сколько байт Drive уже сохранил: заголовок Range вида "bytes=0-12345"
+ */
+function getCommittedBytes(res: Response): number {
+  const match = res.headers.get("range")?.match(/bytes=0-(\d+)/);
+  return match ? Number(match[1]) + 1 : 0;
+}
+
+async function readChunkResult(res: Response): Promise<ChunkResult> {
+  if (res.status === 200 || res.status === 201) {
+    return { done: true, file: (await res.json()) as DriveUploadedFile };
+  }
+  if (res.status === 308) {
+    return { done: false, committed: getCommittedBytes(res) };
+  }
+  throw await toUploadError(res);
+}
+
+/**
+ * Открывает сессию возобновляемой загрузки
+ * @returns URI сессии, по которому отправляются части файла
+ */
+async function createResumableUploadSession(params: {
+  accessToken: string;
+  fileName: string;
+  mimeType: string;
+  parentFolderId: string;
+  size: number;
+  metadata?: DriveFileMetadata;
+}): Promise<string> {
+  const res = await fetch(DRIVE_RESUMABLE_UPLOAD_URL, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${params.accessToken}`,
+      "Content-Type": "application/json; charset=UTF-8",
+      "X-Upload-Content-Type": params.mimeType,
+      "X-Upload-Content-Length": String(params.size)
+    },
+    body: JSON.stringify({
+      name: params.fileName,
+      parents: [params.parentFolderId],
+      ...params.metadata
+    })
+  });
+
+  if (!res.ok) {
+    throw await toUploadError(res);
+  }
+
+  const sessionUri = res.headers.get("location");
+  if (!sessionUri) {
+    throw new Error("GOOGLE_DRIVE_UPLOAD_FAILED: Drive не вернул адрес сессии загрузки");
+  }
+  return sessionUri;
+}
+
+async function putChunk(
+  sessionUri: string,
+  accessToken: string,
+  chunk: Buffer,
+  offset: number,
+  totalBytes: number
+): Promise<ChunkResult> {
+  const res = await fetch(sessionUri, {
+    method: "PUT",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Length": String(chunk.length),
+      "Content-Range": `bytes ${offset}-${offset + chunk.length - 1}/${totalBytes}`
+    },
+    body: new Uint8Array(chunk)
+  });
+  return readChunkResult(res);
+}
+
+/**
+ * Спрашивает у Drive, сколько байт сессии уже сохранено (после обрыва соединения)
+ */
+async function queryUploadStatus(
+  sessionUri: string,
+  accessToken: string,
+  totalBytes: number
+): Promise<ChunkResult> {
+  const res = await fetch(sessionUri, {
+    method: "PUT",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Length": "0",
+      "Content-Range": `bytes */${totalBytes}`
+    }
+  });
+  return readChunkResult(res);
+}
+
+/**
+ * Отправляет поток в сессию начиная с offset, собирая части по RESUMABLE_CHUNK_SIZE.
+ * Drive может сохранить часть не целиком — несохранённый остаток отправляется заново.
+ * Ответ без продвижения считается обрывом: повтор с паузой решает uploadStreamToDriveWithOAuth.
+ */
+async function uploadStreamFromOffset(
+  sessionUri: string,
+  accessToken: string,
+  stream: AsyncIterable<Buffer>,
+  offset: number,
+  totalBytes: number,
+  onCommitted: (committed: number) => void
+): Promise<DriveUploadedFile> {
+  let position = offset;
+  let pending = Buffer.alloc(0);
+
+  const send = async (chunk: Buffer): Promise<DriveUploadedFile | null> => {
+    const result = await putChunk(sessionUri, accessToken, chunk, position, totalBytes);
+    if (result.done) {
+      onCommitted(totalBytes);
+      return result.file;
+    }
+    if (result.committed <= position || result.committed > position + chunk.length) {
+      throw new Error(
+        `DRIVE_UPLOAD_RETRYABLE: Drive подтвердил ${result.committed} байт, ожидалось больше ${position}`
+      );
+    }
+    pending = Buffer.concat([chunk.subarray(result.committed - position), pending]);
+    position = result.committed;
+    onCommitted(position);
+    return null;
+  };
+
+  for await (const piece of stream) {
+    pending = Buffer.concat([pending, piece]);
+    while (pending.length >= RESUMABLE_CHUNK_SIZE) {
+      const chunk = pending.subarray(0, RESUMABLE_CHUNK_SIZE);
+      pending = pending.subarray(RESUMABLE_CHUNK_SIZE);
+      const file = await send(chunk);
+      if (file) {
+        return file;
+      }
+    }
+  }
+
+  if (position + pending.length !== totalBytes) {
+    throw new Error(
+      `DRIVE_UPLOAD_RETRYABLE: Поток завершился на ${position + pending.length} из ${totalBytes} байт`
+    );
+  }
+
+  while (pending.length > 0) {
+    const chunk = pending;
+    pending = Buffer.alloc(0);
+    const file = await send(chunk);
+    if (file) {
+      return file;
+    }
+  }
+
+  throw new Error("DRIVE_UPLOAD_RETRYABLE: Drive не подтвердил завершение загрузки");
+}
+
+/**
+ * Загружает файл в Google Drive потоком через возобновляемую сессию, без временного файла.
+ * После обрыва сети загрузка продолжается с последнего сохранённого в Drive байта:
+ * openStream вызывается заново с этим смещением.
+ * @param params.openStream - Открывает поток файла начиная с указанного смещения
+ * @param params.size - Точный размер файла в байтах
+ * @param params.onProgress - Вызывается после каждой сохранённой в Drive части
+ * @param params.refreshAccessToken - Свежий токен, если Drive ответил 401 посреди загрузки
+ *        (токен живёт около часа, а длинная загрузка может идти дольше)
+ */
+export async function uploadStreamToDriveWithOAuth(params: {
+  openStream: (offset: number) => AsyncIterable<Buffer>;
+  size: number;
+  fileName: string;
+  mimeType?: string;
+  parentFolderId: string;
+  accessToken: string;
+  metadata?: DriveFileMetadata;
+  onProgress?: (progress: DriveUploadProgress) => void;
+  refreshAccessToken?: () => Promise<string | null>;
+}): Promise<{ fileId: string; webViewLink?: string; webContentLink?: string }> {
+  const {
+    openStream,
+    size,
+    fileName,
+    mimeType = "video/mp4",
+    parentFolderId,
+    accessToken,
+    metadata,
+    onProgress,
+    refreshAccessToken
+  } = params;
+
+  await validateFolderWithOAuth(getDriveClientFromOAuth(accessToken), parentFolderId);
+
+  const sessionUri = await createResumableUploadSession({
+    accessToken,
+    fileName,
+    mimeType,
+    parentFolderId,
+    size,
+    metadata
+  });
+
+  Logger.info("Starting resumable stream upload to Google Drive", {
+    fileName,
+    parentFolderId,
+    fileSizeBytes: size,
+    fileSizeMB: (size / (1024 * 1024)).toFixed(2),
+    chunkSizeBytes: RESUMABLE_CHUNK_SIZE
+  });
+
+  const uploadStartTime = Date.now();
+  let currentAccessToken = accessToken;
+  let committed = 0;
+  let retries = 0;
+
+  const onCommitted = (bytes: number) => {
+    if (bytes > committed) {
+      retries = 0;
+    }
+    committed = bytes;
+    onProgress?.({ uploadedBytes: bytes, totalBytes: size });
+  };
+
+  for (;;) {
+    let file: DriveUploadedFile | null = null;
+    try {
+      file = await uploadStreamFromOffset(
+        sessionUri,
+        currentAccessToken,
+        openStream(committed),
+        committed,
+        size,
+        onCommitted
+      );
+    } catch (error) {
+      // Токен истёк посреди загрузки: продолжаем ту же сессию со свежим токеном
+      const freshAccessToken =
+        isOAuthInvalidError(error) && refreshAccessToken && retries < RESUMABLE_MAX_RETRIES
+          ? await refreshAccessToken().catch(() => null)
+          : null;
+      const tokenRefreshed = !!freshAccessToken && freshAccessToken !== currentAccessToken;
+
+      if (!tokenRefreshed && (!isRetryableUploadError(error) || retries >= RESUMABLE_MAX_RETRIES)) {
+        Logger.error("Resumable upload to Google Drive failed", {
+          fileName,
+          committedBytes: committed,
+          totalBytes: size,
+          retries,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        throw error;
+      }
+
+      if (tokenRefreshed && freshAccessToken) {
+        currentAccessToken = freshAccessToken;
+        Logger.info("OAuth token refreshed during resumable upload", { fileName });
+      }
+
+      retries++;
+      Logger.warn("Resumable upload interrupted, resuming", {
+        fileName,
+        committedBytes: committed,
+        totalBytes: size,
+        attempt: retries,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      await new Promise((resolve) =>
+        setTimeout(resolve, RESUMABLE_RETRY_BASE_DELAY_MS * 2 ** (retries - 1))
+      );
+
+      try {
+        const status = await queryUploadStatus(sessionUri, currentAccessToken, size);
+        if (status.done) {
+          file = status.file;
+        } else {
+          committed = status.committed;
+        }
+      } catch (statusError) {
+        if (!isRetryableUploadError(statusError)) {
+          throw statusError;
+        }
+        // Статус узнаем на следующей попытке; продолжаем с последнего известного места
+      }
+    }
+
+    if (file) {
+      Logger.info("File uploaded successfully to Google Drive with resumable upload", {
+        fileId: file.id,
+        fileName: file.name,
+        fileSize: file.size,
+        webViewLink: file.webViewLink,
+        uploadDurationMs: Date.now() - uploadStartTime
+      });
+
+      return {
+        fileId: file.id,
+        webViewLink: file.webViewLink ?? undefined,
+        webContentLink: file.webContentLink ?? undefined
+      };
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import { Logger } from "../utils/logger";
+import { INSTANCE_ID } from "../utils/instanceId";
+import { isFirestoreAvailable } from "./firebaseAdmin";
+import { AUTO_DOWNLOAD_RETRY_DELAY_MS, runAutoDownloadJob } from "./scheduledTasks";
+import { getAutoSendRetryDelayMs, runAutoSendJob } from "./scheduledSend";
+import {
+  claimJob,
+  findDueJobs,
+  markJobFailed,
+  markJobSucceeded,
+  rescheduleJob,
+  type Job
+} from "../repositories/jobRepo";
+import { tryUpdateGenerationRun } from "../repositories/generationRunRepo";
+import {
+  isImmediatePauseError,
+  recordChannelAutomationFailure,
+  recordChannelAutomationSuccess
+} from "./channelAutomationHealth";
+
+// Как часто воркер проверяет очередь задач
+const WORKER_POLL_INTERVAL_MS = Number(process.env.JOB_WORKER_POLL_INTERVAL_MS) || 15_000;
+// Сколько задач воркер берёт за один проход
+const WORKER_BATCH_SIZE = 5;
+// На сколько задача блокируется за инстансом (скачивание + загрузка могут идти долго)
+const JOB_LOCK_MS = 15 * 60 * 1000;
+
+let workerTimer: NodeJS.Timeout | null = null;
+let workerTickInProgress = false;
+
+/**
+ * Выполняет задачу в зависимости от её типа
+ */
+function runJob(job: Job): Promise<Record<string, unknown>> {
+  switch (job.type) {
+    case "autoSend":
+      return runAutoSendJob(job);
+    case "autoDownload":
+    default:
+      return runAutoDownloadJob(job);
+  }
+}
+
+/**
+ * Задержка перед следующей попыткой.
+ * Для отправки промптов — экспоненциальная с учётом FLOOD_WAIT, для скачивания — фиксированная.
+ */
+function getRetryDelayMs(job: Job, error: unknown): number {
+  if (job.type === "autoSend") {
+    // Первая попытка была в самом слоте расписания, поэтому номер повтора = attempts + 1
+    return getAutoSendRetryDelayMs(job.attempts + 1, error);
+  }
+  return AUTO_DOWNLOAD_RETRY_DELAY_MS;
+}
+
+/**
+ * Выполняет одну захваченную задачу и сохраняет её итоговый статус.
+ * Задачи, исчерпавшие попытки, остаются в статусе failed — это dead-letter список,
+ * который пользователь видит в истории канала и может перезапустить.
+ */
+async function executeJob(job: Job): Promise<void> {
+  Logger.info("jobWorker: executing job", {
+    jobId: job.id,
+    type: job.type,
+    channelId: job.channelId,
+    scheduleId: job.scheduleId,
+    attempt: job.attempts,
+    maxAttempts: job.maxAttempts
+  });
+
+  try {
+    const result = await runJob(job);
+    await markJobSucceeded(job.id, result);
+    if (!result.skipped) {
+      await recordChannelAutomationSuccess(job.userId, job.channelId);
+    }
+
+    Logger.info("jobWorker: job completed successfully", {
+      jobId: job.id,
+      type: job.type,
+      channelId: job.channelId,
+      scheduleId: job.scheduleId,
+      ...result
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    if (job.attempts < job.maxAttempts) {
+      // Обычные ошибки засчитываются каналу только после последней попытки,
+      // иначе одно долгое видео с повторами ставило бы канал на паузу
+      if (isImmediatePauseError(error)) {
+        await recordChannelAutomationFailure(job.userId, job.channelId, error);
+      }
+
+      const nextRunAt = new Date(Date.now() + getRetryDelayMs(job, error));
+      await rescheduleJob(job.id, errorMessage, nextRunAt);
+
+      Logger.warn("jobWorker: job failed, will retry", {
+        jobId: job.id,
+        type: job.type,
+        channelId: job.channelId,
+        scheduleId: job.scheduleId,
+        attempt: job.attempts,
+        maxAttempts: job.maxAttempts,
+        nextRunAt: nextRunAt.toISOString(),
+        error: errorMessage
+      });
+      return;
+    }
+
+    await markJobFailed(job.id, errorMessage);
+    await recordChannelAutomationFailure(job.userId, job.channelId, error);
+    if (job.type === "autoDownload") {
+      await tryUpdateGenerationRun(job.userId, job.channelId, job.payload.runId, {
+        status: "failed",
+        error: errorMessage,
+        errorStage: "download",
+        finishedAt: new Date()
+      });
+    }
+
+    Logger.error("jobWorker: job failed permanently (moved to dead-letter)", {
+      jobId: job.id,
+      type: job.type,
+      channelId: job.channelId,
+      scheduleId: job.scheduleId,
+      attempts: job.attempts,
+      error: errorMessage,
+      errorStack: error instanceof Error ? error.stack : undefined
+    });
+  }
+}
+
+/**
+ * Один проход воркера: находит готовые задачи, захватывает и выполняет их
+ */
+async function runJobWorkerTick(): Promise<void> {
+  if (workerTickInProgress) {
+    return;
+  }
+
+  if (!isFirestoreAvailable()) {
+    return;
+  }
+
+  workerTickInProgress = true;
+
+  try {
+    const dueJobs = await findDueJobs(new Date(), WORKER_BATCH_SIZE);
+
+    for (const dueJob of dueJobs) {
+      const job = await claimJob(dueJob.id, INSTANCE_ID, JOB_LOCK_MS);
+      if (!job) {
+        // Задачу уже взял другой инстанс
+        continue;
+      }
+      await executeJob(job);
+    }
+  } catch (error) {
+    Logger.error("jobWorker: tick failed", {
+      error: error instanceof Error ? error.message : String(error),
+      errorStack: error instanceof Error ? error.stack : undefined
+    });
+  } finally {
+    workerTickInProgress = false;
+  }
+}
+
+/**
+ * Запускает внеочередной проход воркера, не дожидаясь таймера
+ * (например, когда слушатель чата SyntX ускорил задачу скачивания)
+ */
+export function wakeJobWorker(): void {
+  if (!workerTimer) {
+    return;
+  }
+  void runJobWorkerTick();
+}
+
+/**
+ * Запускает фоновый воркер очереди задач.
+ * При старте сразу подхватывает задачи, просроченные за время простоя сервера.
+ */
+export function startJobWorker(): void {
+  if (workerTimer) {
+    return;
+  }
+
+  Logger.info("jobWorker: starting", {
+    instanceId: INSTANCE_ID,
+    pollIntervalMs: WORKER_POLL_INTERVAL_MS
+  });
+
+  void runJobWorkerTick();
+  workerTimer = setInterval(() => {
+    void runJobWorkerTick();
+  }, WORKER_POLL_INTERVAL_MS);
+}
+
+/**
+ * Останавливает фоновый воркер
+ */
+export function stopJobWorker(): void {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+    Logger.info("jobWorker: stopped", { instanceId: INSTANCE_ID });
+  }
+}
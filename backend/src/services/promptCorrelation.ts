@@ -0,0 +1,673 @@
+import type { Api, TelegramClient } from "telegram";
+import { Logger } from "../utils/logger";
+import type { SyntxReply } from "../utils/syntxReplyParser";
+import type { GenerationProvider } from "../providers/types";
+import { runTelegramOutbound } from "./telegramOutboundQueue";
+import { db } from "./firebaseAdmin";
+import { ensureSyntxListener } from "../telegram/syntxListener";
+import { wakeJobWorker } from "./jobWorker";
+import { enqueueAssignedVideoDownload } from "./scheduledTasks";
+import {
+  pauseUserChannelsAutomation,
+  recordChannelAutomationFailure
+} from "./channelAutomationHealth";
+import { cancelJob, expediteJob, findPendingJobs } from "../repositories/jobRepo";
+import { tryUpdateGenerationRun } from "../repositories/generationRunRepo";
+import {
+  addVideoVariantToCorrelation,
+  assignVideoToCorrelation,
+  createPromptCorrelation,
+  findAssignedCorrelationsInWindow,
+  findCorrelationByGroupedId,
+  findCorrelationByVideoMessageId,
+  findPendingCorrelations,
+  getCorrelationVideoMessageIds,
+  getPromptCorrelation,
+  recordCorrelationBotReply,
+  type PromptCorrelation,
+  type PromptCorrelationMatch
+} from "../repositories/promptCorrelationRepo";
+import {
+  addUnassignedVideo,
+  getUnassignedVideo,
+  hasUnassignedVideo,
+  resolveUnassignedVideo
+} from "../repositories/unassignedVideoRepo";
+
+// Сколько символов подписи/промпта сравниваем при сопоставлении по подписи
+const CAPTION_MATCH_LENGTH = 80;
+// Слишком короткая подпись («Готово!», эмодзи) ничего не говорит о промпте
+const CAPTION_MIN_LENGTH = 20;
+// Сколько раз пытаемся закрепить видео, если слот перехватил параллельный обработчик
+const ASSIGN_ATTEMPTS = 3;
+// Сколько ждём остальные варианты и видео альбома после первого видео, прежде чем скачивать
+const MULTI_VIDEO_COLLECT_MS =
+  Number(process.env.MULTI_VIDEO_COLLECT_SECONDS ?? 30) * 1000 || 0;
+// Терминальный ответ без reply-to относим к промпту, только если он пришёл сразу после отправки
+const UNLINKED_TERMINAL_REPLY_WINDOW_MS =
+  (Number(process.env.BOT_REPLY_WINDOW_SECONDS) || 120) * 1000;
+
+export type AssignUnassignedVideoResult =
+  | { status: "assigned"; jobId: string; correlationId: string | null }
+  | { status: "not_found" }
+  | { status: "channel_not_found" }
+  | { status: "already_resolved" };
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Подпись к видео совпадает с промптом, если одна начинается внутри другой
+ * (бот может обрезать промпт или дописать к нему служебный текст)
+ */
+function captionMatchesPrompt(caption: string, prompt: string): boolean {
+  const normalizedCaption = normalizeText(caption);
+  const normalizedPrompt = normalizeText(prompt);
+  if (normalizedCaption.length < CAPTION_MIN_LENGTH || !normalizedPrompt) {
+    return false;
+  }
+
+  return (
+    normalizedPrompt.includes(normalizedCaption.slice(0, CAPTION_MATCH_LENGTH)) ||
+    normalizedCaption.includes(normalizedPrompt.slice(0, CAPTION_MATCH_LENGTH))
+  );
+}
+
+/**
+ * Выбирает слот для видео: reply-to, затем однозначное совпадение подписи,
+ * затем самый ранний ожидающий промпт — но только если все ожидающие промпты
+ * из одного канала. Иначе одно так и не пришедшее видео сдвинуло бы все следующие
+ * в чужие каналы, поэтому такое видео уходит во «Входящие».
+ */
+function pickCorrelation(
+  candidates: PromptCorrelation[],
+  message: Api.Message
+): { correlation: PromptCorrelation; matchedBy: PromptCorrelationMatch } | null {
+  const replyToMsgId = message.replyTo?.replyToMsgId;
+  if (replyToMsgId) {
+    const replied = candidates.find((c) => c.promptMessageId === replyToMsgId);
+    if (replied) {
+      return { correlation: replied, matchedBy: "replyTo" };
+    }
+  }
+
+  const caption = message.message ?? "";
+  if (caption) {
+    const byCaption = candidates.filter((c) => captionMatchesPrompt(caption, c.prompt));
+    if (byCaption.length === 1) {
+      return { correlation: byCaption[0], matchedBy: "caption" };
+    }
+  }
+
+  if (candidates.length > 0 && candidates.every((c) => c.channelId === candidates[0].channelId)) {
+    return { correlation: candidates[0], matchedBy: "order" };
+  }
+  return null;
+}
+
+/**
+ * Слот, к которому видео относится как ещё один вариант: по grouped_id альбома
+ * или по reply-to на промпт, уже получивший видео
+ */
+async function findVariantCorrelation(
+  userId: string,
+  provider: GenerationProvider,
+  message: Api.Message
+): Promise<PromptCorrelation | null> {
+  const groupedId = message.groupedId?.toString();
+  if (groupedId) {
+    const album = await findCorrelationByGroupedId(userId, provider.id, groupedId);
+    if (album) {
+      return album;
+    }
+  }
+
+  const replyToMsgId = message.replyTo?.replyToMsgId;
+  if (replyToMsgId) {
+    const replied = await getPromptCorrelation(userId, provider.id, replyToMsgId);
+    if (replied?.status === "assigned") {
+      return replied;
+    }
+  }
+  return null;
+}
+
+/**
+ * Добавляет видео к слоту как вариант, пока слот в окне ожидания
+ * и его задача скачивания ещё не запустилась (иначе вариант не попадёт в запуск)
+ */
+async function attachVideoVariant(
+  correlation: PromptCorrelation,
+  videoMessageId: number
+): Promise<PromptCorrelation | null> {
+  if (correlation.expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+  if (!(await findCorrelatedDownloadJob(correlation))) {
+    return null;
+  }
+
+  const updated = await addVideoVariantToCorrelation(correlation.id, videoMessageId);
+  if (updated) {
+    Logger.info("attachVideoVariant: video added to prompt as another variant", {
+      userId: updated.userId,
+      providerId: updated.providerId,
+      channelId: updated.channelId,
+      promptMessageId: updated.promptMessageId,
+      videoMessageId,
+      videosCount: getCorrelationVideoMessageIds(updated).length
+    });
+  }
+  return updated;
+}
+
+/**
+ * Регистрирует отправленный промпт как слот, ожидающий видео.
+ * Ошибки только логируются: отправка уже состоялась.
+ */
+export async function tryRecordPromptCorrelation(input: {
+  userId: string;
+  channelId: string;
+  scheduleId?: string | null;
+  runId?: string | null;
+  providerId: string;
+  chatId: string;
+  promptMessageId: number;
+  prompt: string;
+  title?: string | null;
+}): Promise<void> {
+  try {
+    await createPromptCorrelation(input);
+    void ensureSyntxListener(input.userId);
+  } catch (error) {
+    Logger.warn("tryRecordPromptCorrelation: failed to record prompt", {
+      userId: input.userId,
+      channelId: input.channelId,
+      providerId: input.providerId,
+      promptMessageId: input.promptMessageId,
+      error: getErrorMessage(error)
+    });
+  }
+}
+
+/**
+ * Закрепляет пришедшее видео ровно за одним слотом.
+ * Видео из того же альбома, ответ на уже получивший видео промпт или видео без ожидающих
+ * промптов добавляется к слоту как ещё один вариант.
+ * Несопоставленное видео попадает во «Входящие» для ручного назначения.
+ * Повторная обработка того же видео ничего не меняет.
+ * @returns Слот, за которым закреплено видео, или null
+ */
+export async function assignIncomingVideo(
+  userId: string,
+  provider: GenerationProvider,
+  message: Api.Message
+): Promise<PromptCorrelation | null> {
+  const videoMessageId = message.id;
+  const providerId = provider.id;
+
+  const existing = await findCorrelationByVideoMessageId(userId, providerId, videoMessageId);
+  if (existing) {
+    return existing;
+  }
+  if (await hasUnassignedVideo(userId, providerId, videoMessageId)) {
+    return null;
+  }
+
+  const variantOf = await findVariantCorrelation(userId, provider, message);
+  if (variantOf) {
+    const updated = await attachVideoVariant(variantOf, videoMessageId);
+    if (updated) {
+      return updated;
+    }
+  }
+
+  let noPendingPrompts = false;
+  for (let attempt = 0; attempt < ASSIGN_ATTEMPTS; attempt++) {
+    const candidates = (await findPendingCorrelations({ userId, providerId })).filter(
+      (c) => c.promptMessageId < videoMessageId
+    );
+    const match = pickCorrelation(candidates, message);
+    if (!match) {
+      // Промпты есть, но видео нельзя однозначно отнести ни к одному — во «Входящие»
+      noPendingPrompts = candidates.length === 0;
+      break;
+    }
+
+    const assigned = await assignVideoToCorrelation(
+      match.correlation.id,
+      videoMessageId,
+      match.matchedBy,
+      message.groupedId?.toString() ?? null
+    );
+    if (assigned) {
+      Logger.info("assignIncomingVideo: video assigned to prompt", {
+        userId,
+        providerId,
+        channelId: assigned.channelId,
+        promptMessageId: assigned.promptMessageId,
+        videoMessageId,
+        matchedBy: match.matchedBy
+      });
+      return assigned;
+    }
+
+    // Видео мог закрепить параллельный обработчик
+    const taken = await findCorrelationByVideoMessageId(userId, providerId, videoMessageId);
+    if (taken) {
+      return taken;
+    }
+  }
+
+  // Бот прислал ещё один вариант отдельным сообщением: относим его к последнему промпту с видео
+  if (noPendingPrompts) {
+    const recent = (await findAssignedCorrelationsInWindow({ userId, providerId })).filter(
+      (c) => c.promptMessageId < videoMessageId
+    );
+    const latest = recent[recent.length - 1];
+    const updated = latest ? await attachVideoVariant(latest, videoMessageId) : null;
+    if (updated) {
+      return updated;
+    }
+  }
+
+  await addUnassignedVideo({
+    userId,
+    providerId,
+    chatId: provider.chatId ?? "",
+    videoMessageId,
+    caption: message.message || null,
+    replyToMsgId: message.replyTo?.replyToMsgId ?? null,
+    fileName: message.file?.name ?? null
+  });
+
+  Logger.warn("assignIncomingVideo: video not matched, moved to unassigned inbox", {
+    userId,
+    providerId,
+    videoMessageId,
+    replyToMsgId: message.replyTo?.replyToMsgId
+  });
+  return null;
+}
+
+/**
+ * Ожидающая задача скачивания видео для слота
+ */
+async function findCorrelatedDownloadJob(correlation: PromptCorrelation) {
+  const jobs = await findPendingJobs({
+    type: "autoDownload",
+    userId: correlation.userId,
+    channelId: correlation.channelId
+  });
+  return jobs.find((j) => j.payload.telegramMessageId === correlation.promptMessageId) ?? null;
+}
+
+/**
+ * Код ошибки для слота, на который бот ответил терминальным статусом
+ */
+function getBotFailureCode(correlation: PromptCorrelation): string {
+  return correlation.botStatus === "insufficient_balance"
+    ? "SYNTX_INSUFFICIENT_BALANCE"
+    : "SYNTX_GENERATION_FAILED";
+}
+
+/**
+ * Запускает ожидающую задачу скачивания для слота, не дожидаясь таймаута.
+ * Задача стартует через MULTI_VIDEO_COLLECT_MS, чтобы успели прийти остальные варианты.
+ */
+async function expediteCorrelatedDownload(correlation: PromptCorrelation): Promise<void> {
+  const job = await findCorrelatedDownloadJob(correlation);
+  if (!job || correlation.videoMessageId === null) {
+    return;
+  }
+
+  const runAt = new Date(Date.now() + MULTI_VIDEO_COLLECT_MS);
+  const expedited = await expediteJob(
+    job.id,
+    { videoMessageId: correlation.videoMessageId },
+    runAt
+  );
+  if (expedited) {
+    Logger.info("expediteCorrelatedDownload: download job rescheduled", {
+      jobId: job.id,
+      channelId: correlation.channelId,
+      promptMessageId: correlation.promptMessageId,
+      videoMessageIds: getCorrelationVideoMessageIds(correlation),
+      runAt: expedited.runAt.toISOString()
+    });
+    if (expedited.runAt.getTime() <= Date.now()) {
+      wakeJobWorker();
+    }
+  }
+}
+
+/**
+ * Учитывает ответ бота на промпт: сохраняет статус в слоте и запуске,
+ * а при терминальном ответе прекращает ожидание видео.
+ * Нехватка баланса ставит на паузу автоматику всех каналов пользователя с тем же провайдером.
+ */
+async function applyBotReply(
+  correlation: PromptCorrelation,
+  reply: SyntxReply,
+  replyMessageId: number
+): Promise<void> {
+  const updated = await recordCorrelationBotReply(correlation.id, reply, replyMessageId);
+  if (!updated) {
+    return;
+  }
+
+  const { userId, channelId } = updated;
+  const now = new Date();
+
+  Logger.info("applyBotReply: bot reply recorded", {
+    userId,
+    channelId,
+    providerId: updated.providerId,
+    promptMessageId: updated.promptMessageId,
+    replyMessageId,
+    botStatus: reply.status,
+    terminal: reply.terminal
+  });
+
+  // Ответ после уже пришедшего видео на исход запуска не влияет
+  if (!reply.terminal || updated.status !== "failed") {
+    await tryUpdateGenerationRun(userId, channelId, updated.runId, {
+      botStatus: reply.status,
+      botStatusMessage: reply.message,
+      botStatusAt: now
+    });
+    return;
+  }
+
+  const failureCode = getBotFailureCode(updated);
+  await tryUpdateGenerationRun(userId, channelId, updated.runId, {
+    status: "failed",
+    botStatus: reply.status,
+    botStatusMessage: reply.message,
+    botStatusAt: now,
+    error: `${failureCode}: ${reply.message}`,
+    errorStage: "video",
+    finishedAt: now
+  });
+
+  const job = await findCorrelatedDownloadJob(updated);
+  if (job) {
+    await cancelJob(job.id, `${failureCode}: ${reply.message}`);
+  }
+
+  if (reply.status === "insufficient_balance") {
+    await pauseUserChannelsAutomation(userId, "SYNTX_INSUFFICIENT_BALANCE", reply.message, {
+      providerId: updated.providerId
+    });
+  } else {
+    await recordChannelAutomationFailure(
+      userId,
+      channelId,
+      new Error(`${failureCode}: ${reply.message}`)
+    );
+  }
+}
+
+/**
+ * Обрабатывает текстовый ответ бота: сопоставляет его с промптом
+ * (по reply-to, иначе с последним отправленным до ответа промптом).
+ * Терминальный ответ без reply-to учитывается, только если пришёл сразу после промпта:
+ * иначе это может быть рассылка бота, и она отменила бы ожидание чужого видео.
+ */
+async function processIncomingBotReply(
+  userId: string,
+  provider: GenerationProvider,
+  message: Api.Message
+): Promise<void> {
+  const reply = provider.parseReply(message.message);
+  if (!reply) {
+    return;
+  }
+
+  const candidates = (await findPendingCorrelations({ userId, providerId: provider.id })).filter(
+    (c) => c.promptMessageId < message.id
+  );
+  const replyToMsgId = message.replyTo?.replyToMsgId;
+  const repliedTo = replyToMsgId
+    ? candidates.find((c) => c.promptMessageId === replyToMsgId)
+    : undefined;
+  const correlation = repliedTo ?? candidates[candidates.length - 1];
+
+  if (correlation && !repliedTo && reply.terminal) {
+    const replyAt = message.date * 1000;
+    if (replyAt - correlation.createdAt.getTime() > UNLINKED_TERMINAL_REPLY_WINDOW_MS) {
+      Logger.info("processIncomingBotReply: terminal reply without reply-to is too late, ignoring", {
+        userId,
+        providerId: provider.id,
+        replyMessageId: message.id,
+        promptMessageId: correlation.promptMessageId,
+        botStatus: reply.status
+      });
+      return;
+    }
+  }
+
+  if (!correlation) {
+    Logger.info("processIncomingBotReply: reply does not match any pending prompt", {
+      userId,
+      providerId: provider.id,
+      replyMessageId: message.id,
+      botStatus: reply.status
+    });
+    return;
+  }
+
+  await applyBotReply(correlation, reply, message.id);
+}
+
+/**
+ * Обрабатывает новое видео из чата провайдера: закрепляет за слотом и запускает скачивание
+ */
+export async function processIncomingVideo(
+  userId: string,
+  provider: GenerationProvider,
+  message: Api.Message
+): Promise<void> {
+  const correlation = await assignIncomingVideo(userId, provider, message);
+  if (correlation) {
+    await expediteCorrelatedDownload(correlation);
+  }
+}
+
+/**
+ * Обрабатывает входящее сообщение бота: видео или текстовый ответ
+ */
+export async function processIncomingMessage(
+  userId: string,
+  provider: GenerationProvider,
+  message: Api.Message
+): Promise<void> {
+  if (provider.isVideoMessage(message)) {
+    await processIncomingVideo(userId, provider, message);
+    return;
+  }
+  await processIncomingBotReply(userId, provider, message);
+}
+
+/**
+ * Прогоняет через сопоставление сообщения бота, пришедшие, пока слушатель не работал
+ * (перезапуск сервера, слушатель отключён или не смог подключиться)
+ */
+export async function replayMissedMessages(
+  userId: string,
+  client: TelegramClient,
+  provider: GenerationProvider
+): Promise<void> {
+  const chatId = provider.chatId;
+  if (!chatId) {
+    return;
+  }
+
+  const pending = await findPendingCorrelations({ userId, providerId: provider.id });
+  if (pending.length === 0) {
+    return;
+  }
+
+  const minId = pending[0].promptMessageId;
+  const messages = (await runTelegramOutbound(userId, "replayVideos", () =>
+    client.getMessages(chatId, { limit: 100, minId })
+  )) as Api.Message[];
+
+  const incoming = messages.filter((msg) => !msg.out).sort((a, b) => a.id - b.id);
+
+  for (const message of incoming) {
+    await processIncomingMessage(userId, provider, message);
+  }
+}
+
+/**
+ * Находит все видео, закреплённые за промптом (варианты и видео альбома).
+ * Для промптов без слота (отправленных до появления сопоставления) возвращает undefined —
+ * тогда видео ищется по-старому, последним после промпта.
+ * @throws Error NO_VIDEO_FOUND, если видео для слота ещё не пришло,
+ *   SYNTX_GENERATION_FAILED / SYNTX_INSUFFICIENT_BALANCE, если бот ответил ошибкой
+ */
+export async function resolveCorrelatedVideoMessageIds(
+  userId: string,
+  promptMessageId: number,
+  client: TelegramClient,
+  provider: GenerationProvider
+): Promise<number[] | undefined> {
+  let correlation = await getPromptCorrelation(userId, provider.id, promptMessageId);
+  if (!correlation) {
+    return undefined;
+  }
+
+  if (correlation.status === "pending") {
+    await replayMissedMessages(userId, client, provider);
+    correlation =
+      (await getPromptCorrelation(userId, provider.id, promptMessageId)) ?? correlation;
+  }
+
+  if (correlation.status === "failed") {
+    throw new Error(`${getBotFailureCode(correlation)}: ${correlation.botStatusMessage ?? ""}`.trim());
+  }
+
+  if (correlation.videoMessageId !== null) {
+    return getCorrelationVideoMessageIds(correlation);
+  }
+
+  throw new Error(
+    `NO_VIDEO_FOUND: Видео для промпта ${promptMessageId} ещё не пришло в чат. ` +
+      `Подождите окончания генерации или назначьте видео вручную во «Входящих».`
+  );
+}
+
+/**
+ * Назначает видео из «Входящих» каналу.
+ * Если у канала есть промпт, ожидающий видео, видео закрепляется за ним
+ * и скачивание идёт в его запуск; иначе создаётся отдельная задача скачивания.
+ */
+export async function assignUnassignedVideoToChannel(
+  userId: string,
+  videoId: string,
+  channelId: string
+): Promise<AssignUnassignedVideoResult> {
+  const video = await getUnassignedVideo(videoId);
+  if (!video || video.userId !== userId) {
+    return { status: "not_found" };
+  }
+  if (video.status !== "unassigned") {
+    return { status: "already_resolved" };
+  }
+
+  const channelSnap = await db!
+    .collection("users")
+    .doc(userId)
+    .collection("channels")
+    .doc(channelId)
+    .get();
+  if (!channelSnap.exists) {
+    return { status: "channel_not_found" };
+  }
+
+  const candidates = (
+    await findPendingCorrelations({ userId, channelId, providerId: video.providerId })
+  ).filter((c) => c.promptMessageId < video.videoMessageId);
+
+  let correlation: PromptCorrelation | null = null;
+  for (const candidate of candidates) {
+    correlation = await assignVideoToCorrelation(candidate.id, video.videoMessageId, "manual");
+    if (correlation) {
+      break;
+    }
+  }
+
+  let jobId: string | null = null;
+  let createdJob = false;
+
+  if (correlation) {
+    const jobs = await findPendingJobs({ type: "autoDownload", userId, channelId });
+    const job = jobs.find((j) => j.payload.telegramMessageId === correlation!.promptMessageId);
+    if (job && (await expediteJob(job.id, { videoMessageId: video.videoMessageId }))) {
+      jobId = job.id;
+    }
+  }
+
+  if (!jobId) {
+    jobId = await enqueueAssignedVideoDownload({
+      channelId,
+      userId,
+      chatId: video.chatId,
+      videoMessageId: video.videoMessageId,
+      telegramMessageId: correlation?.promptMessageId,
+      scheduleId: correlation?.scheduleId ?? undefined,
+      videoTitle: correlation?.title ?? undefined,
+      prompt: correlation?.prompt,
+      runId: correlation?.runId ?? undefined
+    });
+    createdJob = true;
+  }
+
+  const resolved = await resolveUnassignedVideo(videoId, {
+    status: "assigned",
+    assignedChannelId: channelId,
+    assignedJobId: jobId
+  });
+  if (!resolved) {
+    if (createdJob) {
+      await cancelJob(jobId, "UNASSIGNED_VIDEO_ALREADY_RESOLVED");
+    }
+    return { status: "already_resolved" };
+  }
+
+  Logger.info("assignUnassignedVideoToChannel: video assigned manually", {
+    userId,
+    channelId,
+    videoMessageId: video.videoMessageId,
+    jobId,
+    correlationId: correlation?.id ?? null
+  });
+
+  wakeJobWorker();
+  return { status: "assigned", jobId, correlationId: correlation?.id ?? null };
+}
+
+/**
+ * Скрывает видео из «Входящих» без скачивания
+ */
+export async function dismissUnassignedVideo(
+  userId: string,
+  videoId: string
+): Promise<"dismissed" | "not_found" | "already_resolved"> {
+  const video = await getUnassignedVideo(videoId);
+  if (!video || video.userId !== userId) {
+    return "not_found";
+  }
+
+  const resolved = await resolveUnassignedVideo(videoId, { status: "dismissed" });
+  return resolved ? "dismissed" : "already_resolved";
+}
@@ -90,6 +90,9 @@ ${channel.extraNotes ? `- Дополнительные пожелания: ${cha
 
 2. Затем сразу напиши 1-3 готовых сценария для этого ролика.
 
+3. Напиши короткое описание ролика для публикации (1-2 предложения) и 3-7 хештегов
+   на ${languageName} языке.
+
 Каждый сценарий должен быть:
 - Коротким и покадровым
 - С репликами и действиями
@@ -104,7 +107,9 @@ ${channel.extraNotes ? `- Дополнительные пожелания: ${cha
     "Сценарий 1: [детальное описание с репликами и действиями]",
     "Сценарий 2: [детальное описание с репликами и действиями]",
     "Сценарий 3: [детальное описание с репликами и действиями] (опционально)"
-  ]
+  ],
+  "description": "Описание ролика для публикации",
+  "hashtags": ["#хештег1", "#хештег2", "#хештег3"]
 }
 
 Верни ТОЛЬКО валидный JSON, без дополнительных комментариев.`;
@@ -116,6 +121,8 @@ ${channel.extraNotes ? `- Дополнительные пожелания: ${cha
 function parseAutoGenerateResponse(responseText: string): {
   idea: string;
   scripts: string[];
+  description?: string;
+  hashtags?: string[];
 } {
   try {
     const jsonMatch = responseText.match(/\{[\s\S]*\}/);
@@ -123,7 +130,11 @@ function parseAutoGenerateResponse(responseText: string): {
       const parsed = JSON.parse(jsonMatch[0]);
       return {
         idea: parsed.idea || "",
-        scripts: Array.isArray(parsed.scripts) ? parsed.scripts : []
+        scripts: Array.isArray(parsed.scripts) ? parsed.scripts : [],
+        description: typeof parsed.description === "string" ? parsed.description : undefined,
+        hashtags: Array.isArray(parsed.hashtags)
+          ? parsed.hashtags.filter((tag: unknown): tag is string => typeof tag === "string")
+          : undefined
       };
     }
     throw new Error("JSON не найден в ответе");
@@ -216,12 +227,13 @@ async function callOpenAIProxy(
  * Генерирует промпт для канала (использует ту же логику, что и кнопка "ИИ-идея")
  * @param channelId - ID канала
  * @param userId - ID владельца канала
- * @returns Объект с промптом (videoPrompt для режима video-prompt-only, иначе первый сценарий)
+ * @returns Объект с промптом (videoPrompt для режима video-prompt-only, иначе первый сценарий),
+ *   названием, описанием и хештегами ролика
  */
 export async function generatePromptForChannel(
   channelId: string,
   userId: string
-): Promise<{ prompt: string; title?: string }> {
+): Promise<{ prompt: string; title?: string; description?: string; hashtags?: string[] }> {
   Logger.info("Generating prompt for channel", { channelId, userId });
 
   // Получаем канал из Firestore
@@ -301,7 +313,9 @@ export async function generatePromptForChannel(
 
     return {
       prompt: prompt.trim(),
-      title: result.idea || undefined
+      title: result.idea || undefined,
+      description: result.description?.trim() || undefined,
+      hashtags: result.hashtags?.length ? result.hashtags : undefined
     };
   } catch (error) {
     Logger.error("Failed to generate prompt", { channelId, error });
@@ -0,0 +1,153 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  findMissedOccurrences,
+  listScheduleOccurrences,
+  type ChannelAutoSendSchedule
+} from "./scheduleOccurrences";
+
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+function schedule(overrides: Partial<ChannelAutoSendSchedule>): ChannelAutoSendSchedule {
+  return {
+    id: "s1",
+    enabled: true,
+    daysOfWeek: EVERY_DAY,
+    time: "09:00",
+    promptsPerRun: 1,
+    ...overrides
+  };
+}
+
+function list(
+  overrides: Partial<ChannelAutoSendSchedule>,
+  timezone: string,
+  from: string,
+  to: string,
+  limit?: number
+) {
+  const occurrences = listScheduleOccurrences(
+    schedule(overrides),
+    timezone,
+    new Date(from),
+    new Date(to),
+    limit
+  );
+  return occurrences.map(
+    (occurrence) => `${occurrence.localDate} ${occurrence.time} ${occurrence.at.toISOString()}`
+  );
+}
+
+test("listScheduleOccurrences: интервал (from, to] в таймзоне канала", () => {
+  assert.deepEqual(list({}, "Asia/Yekaterinburg", "2026-10-19T04:00:00Z", "2026-10-20T04:00:00Z"), [
+    "2026-10-20 09:00 2026-10-20T04:00:00.000Z"
+  ]);
+});
+
+test("listScheduleOccurrences: весенний переход — запуск в пропавший час не теряется", () => {
+  // 2026-03-08 в Нью-Йорке часы переводятся с 02:00 на 03:00
+  const runs = list(
+    { time: "02:30" },
+    "America/New_York",
+    "2026-03-07T00:00:00Z",
+    "2026-03-10T00:00:00Z"
+  );
+  assert.equal(runs.length, 3);
+  assert.equal(runs[0], "2026-03-07 02:30 2026-03-07T07:30:00.000Z");
+  assert.match(runs[1], /^2026-03-08 02:30 /);
+  assert.equal(runs[2], "2026-03-09 02:30 2026-03-09T06:30:00.000Z");
+});
+
+test("listScheduleOccurrences: осенний переход — повторяющийся час даёт один запуск", () => {
+  // 2026-11-01 в Нью-Йорке 01:00–02:00 проходит дважды
+  const newYorkRuns = list(
+    { time: "01:30" },
+    "America/New_York",
+    "2026-10-31T00:00:00Z",
+    "2026-11-03T00:00:00Z"
+  );
+  assert.deepEqual(newYorkRuns, [
+    "2026-10-31 01:30 2026-10-31T05:30:00.000Z",
+    "2026-11-01 01:30 2026-11-01T05:30:00.000Z",
+    "2026-11-02 01:30 2026-11-02T06:30:00.000Z"
+  ]);
+
+  // 2026-10-25 в Берлине 02:00–03:00 проходит дважды; подходит любой из двух моментов
+  const berlinRuns = list(
+    { type: "cron", cronExpression: "30 2 * * *" },
+    "Europe/Berlin",
+    "2026-10-24T00:00:00Z",
+    "2026-10-27T00:00:00Z"
+  );
+  assert.equal(berlinRuns.length, 3);
+  assert.equal(berlinRuns[0], "2026-10-24 02:30 2026-10-24T00:30:00.000Z");
+  assert.match(berlinRuns[1], /^2026-10-25 02:30 2026-10-25T0[01]:30:00\.000Z$/);
+  assert.equal(berlinRuns[2], "2026-10-26 02:30 2026-10-26T01:30:00.000Z");
+});
+
+test("listScheduleOccurrences: интервальное расписание в окне и днях недели", () => {
+  // 2026-10-19 — понедельник
+  const runs = list(
+    {
+      type: "interval",
+      daysOfWeek: [1],
+      intervalMinutes: 90,
+      windowStart: "10:00",
+      windowEnd: "13:00"
+    },
+    "UTC",
+    "2026-10-18T00:00:00Z",
+    "2026-10-21T00:00:00Z"
+  );
+  assert.deepEqual(runs, [
+    "2026-10-19 10:00 2026-10-19T10:00:00.000Z",
+    "2026-10-19 11:30 2026-10-19T11:30:00.000Z",
+    "2026-10-19 13:00 2026-10-19T13:00:00.000Z"
+  ]);
+});
+
+test("listScheduleOccurrences: даты кампании и дни-исключения", () => {
+  const runs = list(
+    { startDate: "2026-10-20", endDate: "2026-10-23", blackoutDates: ["2026-10-22"] },
+    "UTC",
+    "2026-10-18T00:00:00Z",
+    "2026-10-26T00:00:00Z"
+  );
+  assert.deepEqual(
+    runs.map((run) => run.slice(0, 10)),
+    ["2026-10-20", "2026-10-21", "2026-10-23"]
+  );
+});
+
+test("listScheduleOccurrences: limit останавливает перебор", () => {
+  const runs = list(
+    { type: "cron", cronExpression: "* * * * *" },
+    "UTC",
+    "2026-10-19T00:00:00Z",
+    "2026-12-18T00:00:00Z",
+    3
+  );
+  assert.deepEqual(runs, [
+    "2026-10-19 00:01 2026-10-19T00:01:00.000Z",
+    "2026-10-19 00:02 2026-10-19T00:02:00.000Z",
+    "2026-10-19 00:03 2026-10-19T00:03:00.000Z"
+  ]);
+});
+
+test("findMissedOccurrences: политика once берёт последний пропущенный запуск", () => {
+  const hourly = schedule({
+    type: "cron",
+    cronExpression: "0 * * * *",
+    lastRunAt: "2026-10-19T06:00:00Z",
+    catchUpPolicy: "once"
+  });
+  const now = new Date("2026-10-19T09:30:00Z");
+  const missed = findMissedOccurrences(hourly, "UTC", now);
+  assert.deepEqual(
+    missed.map((occurrence) => occurrence.at.toISOString()),
+    ["2026-10-19T09:00:00.000Z"]
+  );
+
+  assert.deepEqual(findMissedOccurrences({ ...hourly, catchUpPolicy: "skip" }, "UTC", now), []);
+  assert.deepEqual(findMissedOccurrences({ ...hourly, lastRunAt: null }, "UTC", now), []);
+});
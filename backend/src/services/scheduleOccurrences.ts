@@ -0,0 +1,224 @@
+import { formatLocalDate, getLocalTimeInTimezone, parseTime, zonedTimeToUtc } from "../utils/timezone";
+import { listCronTimesForDay, parseCronExpression } from "../utils/cron";
+
+/**
+ * Что делать с запусками, пропущенными пока backend был недоступен:
+ * skip — пропускать (поведение по умолчанию)
+ * once — после восстановления выполнить один, самый поздний пропущенный запуск
+ * all  — выполнить все пропущенные запуски по порядку
+ */
+export type CatchUpPolicy = "skip" | "once" | "all";
+
+/**
+ * weekly   — в указанные дни недели в одно время time (старые расписания без type)
+ * interval — в указанные дни недели каждые intervalMinutes между windowStart и windowEnd
+ * cron     — по cron-выражению cronExpression в таймзоне канала
+ */
+export type ScheduleType = "weekly" | "interval" | "cron";
+
+export interface ChannelAutoSendSchedule {
+  id: string;
+  enabled: boolean;
+  type?: ScheduleType;
+  daysOfWeek: number[]; // 0–6 (вс, пн, вт, ...)
+  time: string; // "HH:MM"
+  intervalMinutes?: number;
+  windowStart?: string; // "HH:MM"
+  windowEnd?: string; // "HH:MM"
+  cronExpression?: string;
+  startDate?: string | null; // "YYYY-MM-DD", включительно
+  endDate?: string | null; // "YYYY-MM-DD", включительно
+  blackoutDates?: string[]; // "YYYY-MM-DD", дни без запусков
+  promptsPerRun: number;
+  lastRunAt?: string | null; // ISO-дата
+  catchUpPolicy?: CatchUpPolicy;
+  catchUpWindowHours?: number; // насколько далеко в прошлое искать пропущенные запуски
+}
+
+export interface LocalDay {
+  year: number;
+  month: number; // 1–12
+  date: number;
+  dayOfWeek: number; // 0 = воскресенье
+}
+
+export interface ScheduleOccurrence {
+  at: Date; // момент запуска в UTC
+  localDate: string; // "YYYY-MM-DD" в таймзоне канала
+  time: string; // "HH:MM" в таймзоне канала
+}
+
+export const DEFAULT_CATCH_UP_WINDOW_HOURS = 6;
+const MAX_CATCH_UP_WINDOW_HOURS = 7 * 24;
+// Ограничение на количество догоняющих запусков за один тик (для политики "all")
+const MAX_CATCH_UP_RUNS = 10;
+// Запуски в пределах ±1 минуты от текущего времени обрабатывает обычная проверка
+const REGULAR_WINDOW_MS = 2 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_INTERVAL_MINUTES = 5;
+
+function timeToMinutes(time: { hour: number; minute: number }): number {
+  return time.hour * 60 + time.minute;
+}
+
+function minutesToTime(totalMinutes: number): string {
+  const hour = Math.floor(totalMinutes / 60);
+  const minute = totalMinutes % 60;
+  return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+}
+
+/**
+ * Проверяет ограничения по датам: период кампании (startDate–endDate) и дни-исключения
+ */
+export function isScheduleActiveOnDate(
+  schedule: Pick<ChannelAutoSendSchedule, "startDate" | "endDate" | "blackoutDates">,
+  localDate: string
+): boolean {
+  if (schedule.startDate && localDate < schedule.startDate) {
+    return false;
+  }
+  if (schedule.endDate && localDate > schedule.endDate) {
+    return false;
+  }
+  if (schedule.blackoutDates?.includes(localDate)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Возвращает времена запусков "HH:MM" в указанный локальный день (по возрастанию).
+ * Некорректные настройки расписания дают пустой список.
+ */
+export function getScheduleTimesForDay(
+  schedule: ChannelAutoSendSchedule,
+  day: LocalDay
+): string[] {
+  if (!isScheduleActiveOnDate(schedule, formatLocalDate(day))) {
+    return [];
+  }
+
+  const type = schedule.type ?? "weekly";
+
+  if (type === "cron") {
+    const cron = schedule.cronExpression ? parseCronExpression(schedule.cronExpression) : null;
+    return cron ? listCronTimesForDay(cron, day) : [];
+  }
+
+  if (!schedule.daysOfWeek.includes(day.dayOfWeek)) {
+    return [];
+  }
+
+  if (type === "interval") {
+    const windowStart = parseTime(schedule.windowStart ?? "");
+    const windowEnd = parseTime(schedule.windowEnd ?? "");
+    const interval = schedule.intervalMinutes ?? 0;
+    if (!windowStart || !windowEnd || interval < MIN_INTERVAL_MINUTES) {
+      return [];
+    }
+
+    const times: string[] = [];
+    for (
+      let minutes = timeToMinutes(windowStart);
+      minutes <= timeToMinutes(windowEnd);
+      minutes += interval
+    ) {
+      times.push(minutesToTime(minutes));
+    }
+    return times;
+  }
+
+  return parseTime(schedule.time) ? [schedule.time] : [];
+}
+
+/**
+ * Перечисляет запуски расписания в интервале (from, to]
+ * @param schedule - Расписание
+ * @param timezone - Таймзона канала
+ * @param limit - Остановиться после стольких первых запусков (cron "* * * * *" даёт 1440 в день)
+ */
+export function listScheduleOccurrences(
+  schedule: ChannelAutoSendSchedule,
+  timezone: string,
+  from: Date,
+  to: Date,
+  limit = Infinity
+): ScheduleOccurrence[] {
+  if (from.getTime() >= to.getTime()) {
+    return [];
+  }
+
+  const occurrences: ScheduleOccurrence[] = [];
+  const fromLocal = getLocalTimeInTimezone(from, timezone);
+  // Перебираем календарные дни в таймзоне канала; полдень UTC — чтобы не зависеть от смещения
+  let dayCursor = Date.UTC(fromLocal.year, fromLocal.month - 1, fromLocal.date, 12);
+
+  while (dayCursor - DAY_MS <= to.getTime() && limit > 0) {
+    const cursorDate = new Date(dayCursor);
+    const day: LocalDay = {
+      year: cursorDate.getUTCFullYear(),
+      month: cursorDate.getUTCMonth() + 1,
+      date: cursorDate.getUTCDate(),
+      dayOfWeek: cursorDate.getUTCDay()
+    };
+
+    for (const time of getScheduleTimesForDay(schedule, day)) {
+      const parsed = parseTime(time);
+      if (!parsed) {
+        continue;
+      }
+
+      const at = zonedTimeToUtc(day.year, day.month, day.date, parsed.hour, parsed.minute, timezone);
+      if (at.getTime() > from.getTime() && at.getTime() <= to.getTime()) {
+        occurrences.push({ at, localDate: formatLocalDate(day), time });
+        if (occurrences.length >= limit) {
+          return occurrences;
+        }
+      }
+    }
+
+    dayCursor += DAY_MS;
+  }
+
+  return occurrences;
+}
+
+/**
+ * Находит пропущенные запуски расписания, которые нужно выполнить согласно catchUpPolicy.
+ * Пропущенным считается запуск, который наступил после lastRunAt, но не попал
+ * в обычное окно ±1 минута (например, backend в это время не работал).
+ *
+ * Если расписание ещё ни разу не запускалось (lastRunAt пуст), догонять нечего:
+ * иначе новое расписание сразу отправило бы промпты за прошедшие часы.
+ */
+export function findMissedOccurrences(
+  schedule: ChannelAutoSendSchedule,
+  timezone: string,
+  nowUtc: Date
+): ScheduleOccurrence[] {
+  const policy = schedule.catchUpPolicy ?? "skip";
+  if (policy === "skip" || !schedule.enabled || !schedule.lastRunAt) {
+    return [];
+  }
+
+  const lastRunAt = new Date(schedule.lastRunAt);
+  if (Number.isNaN(lastRunAt.getTime())) {
+    return [];
+  }
+
+  const windowHours = Math.max(
+    1,
+    Math.min(MAX_CATCH_UP_WINDOW_HOURS, schedule.catchUpWindowHours ?? DEFAULT_CATCH_UP_WINDOW_HOURS)
+  );
+  const windowStart = new Date(
+    Math.max(lastRunAt.getTime(), nowUtc.getTime() - windowHours * 60 * 60 * 1000)
+  );
+  const windowEnd = new Date(nowUtc.getTime() - REGULAR_WINDOW_MS);
+
+  const missed = listScheduleOccurrences(schedule, timezone, windowStart, windowEnd);
+  if (missed.length === 0) {
+    return [];
+  }
+
+  return policy === "once" ? missed.slice(-1) : missed.slice(-MAX_CATCH_UP_RUNS);
+}
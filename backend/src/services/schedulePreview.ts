@@ -0,0 +1,99 @@
+import { db } from "./firebaseAdmin";
+import { listScheduleOccurrences, type ChannelAutoSendSchedule, type ScheduleType } from "./scheduleOccurrences";
+import { formatUtcOffset } from "../utils/timezone";
+import { isChannelAutomationPaused } from "./channelAutomationHealth";
+import { hasChannelStorageDestination } from "../storage/registry";
+
+export interface UpcomingRun {
+  channelId: string;
+  channelName: string;
+  scheduleId: string;
+  scheduleType: ScheduleType;
+  runAtUtc: string; // ISO
+  timezone: string;
+  localDate: string; // "YYYY-MM-DD" в таймзоне канала
+  localTime: string; // "HH:MM" в таймзоне канала
+  utcOffset: string; // "UTC+05:00" на момент запуска (с учётом перехода на летнее время)
+  promptsPerRun: number;
+  autoDownloadAtUtc: string | null; // ожидаемое время автоскачивания в хранилище канала
+}
+
+const DEFAULT_PREVIEW_DAYS = 14;
+const MAX_PREVIEW_DAYS = 60;
+
+/**
+ * Возвращает ближайшие запланированные запуски по всем каналам пользователя
+ * @param userId - ID пользователя
+ * @param options.limit - Сколько запусков вернуть
+ * @param options.days - На сколько дней вперёд смотреть
+ * @param options.channelId - Только для одного канала
+ */
+export async function getUpcomingRunsForUser(
+  userId: string,
+  options: { limit: number; days?: number; channelId?: string; from?: Date }
+): Promise<UpcomingRun[]> {
+  if (!db) {
+    throw new Error("Firestore is not available");
+  }
+
+  const from = options.from ?? new Date();
+  const days = Math.max(1, Math.min(MAX_PREVIEW_DAYS, options.days ?? DEFAULT_PREVIEW_DAYS));
+  const to = new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+
+  const channelsSnap = await db.collection("users").doc(userId).collection("channels").get();
+  const runs: UpcomingRun[] = [];
+
+  for (const channelDoc of channelsSnap.docs) {
+    if (options.channelId && channelDoc.id !== options.channelId) {
+      continue;
+    }
+
+    const channelData = channelDoc.data() as any;
+    // Каналы на паузе не запускаются, пока пользователь их не возобновит
+    if (
+      channelData.autoSendEnabled !== true ||
+      !Array.isArray(channelData.autoSendSchedules) ||
+      isChannelAutomationPaused(channelData)
+    ) {
+      continue;
+    }
+
+    const timezone: string = channelData.timezone || "UTC";
+    // То же условие, что и в sendScheduledPrompt
+    const autoDownloadEnabled =
+      channelData.autoDownloadToDriveEnabled === true && hasChannelStorageDestination(channelData);
+    // Та же валидация задержки, что и в планировщике
+    const autoDownloadDelayMinutes = Math.max(
+      1,
+      Math.min(60, channelData.autoDownloadDelayMinutes ?? 10)
+    );
+
+    for (const schedule of channelData.autoSendSchedules as ChannelAutoSendSchedule[]) {
+      if (!schedule.enabled) {
+        continue;
+      }
+
+      // Одно расписание не может дать больше limit ближайших запусков
+      for (const occurrence of listScheduleOccurrences(schedule, timezone, from, to, options.limit)) {
+        runs.push({
+          channelId: channelDoc.id,
+          channelName: channelData.name ?? "",
+          scheduleId: schedule.id,
+          scheduleType: schedule.type ?? "weekly",
+          runAtUtc: occurrence.at.toISOString(),
+          timezone,
+          localDate: occurrence.localDate,
+          localTime: occurrence.time,
+          utcOffset: formatUtcOffset(occurrence.at, timezone),
+          promptsPerRun: schedule.promptsPerRun,
+          autoDownloadAtUtc: autoDownloadEnabled
+            ? new Date(occurrence.at.getTime() + autoDownloadDelayMinutes * 60 * 1000).toISOString()
+            : null
+        });
+      }
+    }
+  }
+
+  runs.sort((a, b) => a.runAtUtc.localeCompare(b.runAtUtc));
+  return runs.slice(0, options.limit);
+}
@@ -0,0 +1,228 @@
+import { db } from "./firebaseAdmin";
+import { Logger } from "../utils/logger";
+import { computeBackoffDelayMs, getFloodWaitSeconds } from "../utils/backoff";
+import { generateAndSendPromptForChannel, type PromptGenerationResult } from "./autoSendService";
+import { scheduleAutoDownload } from "./scheduledTasks";
+import { tryUpdateGenerationRun } from "../repositories/generationRunRepo";
+import { createJob, type Job } from "../repositories/jobRepo";
+import { isChannelAutomationPaused } from "./channelAutomationHealth";
+import { getChannelStorageBackendId, hasChannelStorageDestination } from "../storage/registry";
+
+// Повторы отправки по расписанию: количество попыток и экспоненциальная задержка между ними
+export const AUTO_SEND_MAX_ATTEMPTS = Number(process.env.AUTO_SEND_MAX_ATTEMPTS) || 5;
+const AUTO_SEND_RETRY_BASE_DELAY_MS =
+  (Number(process.env.AUTO_SEND_RETRY_BASE_DELAY_SECONDS) || 60) * 1000;
+const AUTO_SEND_RETRY_MAX_DELAY_MS =
+  (Number(process.env.AUTO_SEND_RETRY_MAX_DELAY_MINUTES) || 60) * 60 * 1000;
+// Небольшой запас сверх FLOOD_WAIT, чтобы не попасть в ограничение повторно
+const FLOOD_WAIT_MARGIN_MS = 5000;
+
+/**
+ * Настройки канала, нужные для отправки промпта по расписанию
+ */
+export interface ScheduledSendChannel {
+  id: string;
+  ownerId: string;
+  autoDownloadToDriveEnabled?: boolean;
+  autoDownloadDelayMinutes?: number;
+  googleDriveFolderId?: string;
+  storageBackend?: string | null;
+}
+
+/**
+ * Задержка перед повторной отправкой.
+ * Если Telegram ответил FLOOD_WAIT, ждём не меньше, чем он требует.
+ * @param attempt - Номер повторной попытки, начиная с 1
+ */
+export function getAutoSendRetryDelayMs(attempt: number, error: unknown): number {
+  const backoffMs = computeBackoffDelayMs(
+    attempt,
+    AUTO_SEND_RETRY_BASE_DELAY_MS,
+    AUTO_SEND_RETRY_MAX_DELAY_MS
+  );
+  const floodWaitSeconds = getFloodWaitSeconds(error);
+
+  if (floodWaitSeconds === null) {
+    return backoffMs;
+  }
+  return Math.max(backoffMs, floodWaitSeconds * 1000 + FLOOD_WAIT_MARGIN_MS);
+}
+
+/**
+ * Генерирует и отправляет один промпт по расписанию и, если включено,
+ * планирует автоскачивание видео в хранилище канала
+ */
+export async function sendScheduledPrompt(
+  channel: ScheduledSendChannel,
+  scheduleId: string
+): Promise<PromptGenerationResult> {
+  const promptResult = await generateAndSendPromptForChannel(channel.id, channel.ownerId, {
+    scheduleId,
+    source: "scheduled"
+  });
+
+  Logger.info("sendScheduledPrompt: prompt sent successfully", {
+    channelId: channel.id,
+    scheduleId,
+    messageId: promptResult.messageId,
+    chatId: promptResult.chatId,
+    hasTitle: !!promptResult.title
+  });
+
+  const storageBackend = getChannelStorageBackendId(channel);
+  const hasStorageDestination = hasChannelStorageDestination(channel);
+
+  // Если включено автоматическое скачивание, планируем задачу
+  if (channel.autoDownloadToDriveEnabled === true && hasStorageDestination) {
+    const delayMinutes = channel.autoDownloadDelayMinutes ?? 10;
+
+    // Валидация задержки
+    const validDelay = Math.max(1, Math.min(60, delayMinutes));
+
+    Logger.info("sendScheduledPrompt: scheduling auto-download", {
+      channelId: channel.id,
+      scheduleId,
+      messageId: promptResult.messageId,
+      delayMinutes: validDelay,
+      storageBackend
+    });
+
+    try {
+      const taskId = await scheduleAutoDownload({
+        channelId: channel.id,
+        scheduleId,
+        userId: channel.ownerId,
+        telegramMessageInfo: {
+          messageId: promptResult.messageId,
+          chatId: promptResult.chatId
+        },
+        delayMinutes: validDelay,
+        videoTitle: promptResult.title,
+        prompt: promptResult.prompt,
+        runId: promptResult.runId
+      });
+
+      await tryUpdateGenerationRun(channel.ownerId, channel.id, promptResult.runId, {
+        downloadJobId: taskId
+      });
+
+      Logger.info("sendScheduledPrompt: auto-download scheduled", {
+        channelId: channel.id,
+        scheduleId,
+        taskId,
+        willRunInMinutes: validDelay
+      });
+    } catch (scheduleError) {
+      // Логируем ошибку планирования, но не прерываем основной процесс
+      Logger.error("sendScheduledPrompt: failed to schedule auto-download", {
+        channelId: channel.id,
+        scheduleId,
+        error: scheduleError instanceof Error ? scheduleError.message : String(scheduleError)
+      });
+    }
+  } else {
+    Logger.info("sendScheduledPrompt: auto-download not enabled or folder not configured", {
+      channelId: channel.id,
+      scheduleId,
+      autoDownloadToDriveEnabled: channel.autoDownloadToDriveEnabled,
+      storageBackend,
+      hasStorageDestination
+    });
+  }
+
+  return promptResult;
+}
+
+/**
+ * Ставит в очередь повторную отправку промпта после ошибки в слоте расписания
+ * @returns ID задачи
+ */
+export async function enqueueScheduledSendRetry(options: {
+  channel: ScheduledSendChannel;
+  scheduleId: string;
+  slotKey: string;
+  promptNumber: number;
+  error: unknown;
+}): Promise<string> {
+  const { channel, scheduleId, slotKey, promptNumber, error } = options;
+  const runAt = new Date(Date.now() + getAutoSendRetryDelayMs(1, error));
+
+  const job = await createJob({
+    type: "autoSend",
+    userId: channel.ownerId,
+    channelId: channel.id,
+    scheduleId,
+    payload: { slotKey, promptNumber },
+    runAt,
+    maxAttempts: AUTO_SEND_MAX_ATTEMPTS
+  });
+
+  Logger.info("enqueueScheduledSendRetry: retry scheduled", {
+    jobId: job.id,
+    channelId: channel.id,
+    scheduleId,
+    slotKey,
+    promptNumber,
+    runAt: runAt.toISOString(),
+    floodWaitSeconds: getFloodWaitSeconds(error)
+  });
+
+  return job.id;
+}
+
+/**
+ * Выполняет задачу повторной отправки промпта.
+ * Настройки канала читаются заново: за время ожидания их могли изменить.
+ * @throws Error, если отправка снова не удалась
+ */
+export async function runAutoSendJob(job: Job): Promise<Record<string, unknown>> {
+  if (!db) {
+    throw new Error("Firestore is not available");
+  }
+
+  const channelSnap = await db
+    .collection("users")
+    .doc(job.userId)
+    .collection("channels")
+    .doc(job.channelId)
+    .get();
+
+  if (!channelSnap.exists) {
+    throw new Error("CHANNEL_NOT_FOUND");
+  }
+
+  const channelData = channelSnap.data() as any;
+  if (channelData.autoSendEnabled !== true) {
+    Logger.info("runAutoSendJob: auto-send disabled for channel, skipping retry", {
+      jobId: job.id,
+      channelId: job.channelId
+    });
+    return { skipped: "AUTO_SEND_DISABLED" };
+  }
+
+  if (isChannelAutomationPaused(channelData)) {
+    Logger.info("runAutoSendJob: channel automation paused, skipping retry", {
+      jobId: job.id,
+      channelId: job.channelId,
+      pauseReason: channelData.automationPauseReason
+    });
+    return { skipped: "AUTOMATION_PAUSED" };
+  }
+
+  const promptResult = await sendScheduledPrompt(
+    {
+      id: job.channelId,
+      ownerId: job.userId,
+      autoDownloadToDriveEnabled: channelData.autoDownloadToDriveEnabled === true,
+      autoDownloadDelayMinutes: channelData.autoDownloadDelayMinutes ?? 10,
+      googleDriveFolderId: channelData.googleDriveFolderId,
+      storageBackend: channelData.storageBackend ?? null
+    },
+    job.scheduleId ?? ""
+  );
+
+  return {
+    messageId: promptResult.messageId,
+    runId: promptResult.runId
+  };
+}
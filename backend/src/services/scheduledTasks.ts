@@ -1,27 +1,21 @@
 import { Logger } from "../utils/logger";
-import { downloadAndUploadVideoToDrive, type DownloadAndUploadOptions } from "./videoDownloadService";
+import { downloadAndUploadVideoToDrive } from "./videoDownloadService";
+import { cancelJob, createJob, findPendingJobs, type Job } from "../repositories/jobRepo";
 
-interface ScheduledTask {
-  id: string;
-  channelId: string;
-  scheduleId: string;
-  userId: string;
-  runAt: number; // timestamp в миллисекундах
-  telegramMessageId?: number;
-  videoTitle?: string; // сгенерированное название ролика
-  prompt?: string; // текст промпта для fallback
-  timeoutId?: NodeJS.Timeout;
-}
-
-// Хранилище активных задач
-const activeTasks = new Map<string, ScheduledTask>();
+// Количество попыток и пауза между ними для автоскачивания
+const AUTO_DOWNLOAD_MAX_ATTEMPTS = Number(process.env.AUTO_DOWNLOAD_MAX_ATTEMPTS) || 3;
+export const AUTO_DOWNLOAD_RETRY_DELAY_MS =
+  (Number(process.env.AUTO_DOWNLOAD_RETRY_DELAY_MINUTES) || 5) * 60 * 1000;
 
 /**
- * Планирует автоматическое скачивание и загрузку видео в Google Drive
+ * Планирует автоматическое скачивание и загрузку видео в Google Drive.
+ * Задача сохраняется в Firestore (коллекция "jobs") и переживает перезапуск сервера.
+ * Если видео придёт в чат раньше и будет сопоставлено с промптом,
+ * слушатель чата SyntX запустит задачу сразу — delayMinutes служит только таймаутом.
  * @param options - Параметры задачи
  * @returns ID задачи
  */
-export function scheduleAutoDownload(options: {
+export async function scheduleAutoDownload(options: {
   channelId: string;
   scheduleId: string;
   userId: string;
@@ -29,160 +23,129 @@ export function scheduleAutoDownload(options: {
   delayMinutes: number;
   videoTitle?: string; // сгенерированное название ролика
   prompt?: string; // текст промпта для fallback
-}): string {
-  const { channelId, scheduleId, userId, telegramMessageInfo, delayMinutes, videoTitle, prompt } = options;
-  
-  const taskId = `${channelId}_${scheduleId}_${Date.now()}`;
-  const delayMs = delayMinutes * 60 * 1000;
-  const runAt = Date.now() + delayMs;
+  runId?: string; // ID записи в истории запусков генерации
+}): Promise<string> {
+  const { channelId, scheduleId, userId, telegramMessageInfo, delayMinutes, videoTitle, prompt, runId } =
+    options;
+
+  const runAt = new Date(Date.now() + delayMinutes * 60 * 1000);
 
   Logger.info("scheduleAutoDownload: scheduling task", {
-    taskId,
     channelId,
     scheduleId,
     userId,
     messageId: telegramMessageInfo.messageId,
     delayMinutes,
-    runAt: new Date(runAt).toISOString(),
+    runAt: runAt.toISOString(),
     hasVideoTitle: !!videoTitle,
     hasPrompt: !!prompt
   });
 
-  // Отменяем предыдущую задачу для этого scheduleId, если она существует
-  const existingTaskKey = `${channelId}_${scheduleId}`;
-  const existingTask = Array.from(activeTasks.values()).find(
-    (task) => task.channelId === channelId && task.scheduleId === scheduleId
-  );
-  
-  if (existingTask && existingTask.timeoutId) {
-    Logger.info("scheduleAutoDownload: cancelling existing task", {
-      existingTaskId: existingTask.id,
-      channelId,
-      scheduleId
-    });
-    clearTimeout(existingTask.timeoutId);
-    activeTasks.delete(existingTask.id);
-  }
+  // Отменяем только повторно запланированные задачи для того же промпта:
+  // задачи других слотов и промптов этого расписания ждут свои видео
+  await cancelTasksForSchedule(channelId, scheduleId, telegramMessageInfo.messageId);
 
-  // Создаём таймаут для выполнения задачи
-  const timeoutId = setTimeout(async () => {
-    Logger.info("scheduleAutoDownload: executing scheduled task", {
-      taskId,
-      channelId,
-      scheduleId,
-      userId,
-      messageId: telegramMessageInfo.messageId
-    });
-
-    try {
-      // Получаем сохранённые данные задачи
-      const savedTask = activeTasks.get(taskId);
-      
-      // Вызываем функцию скачивания и загрузки
-      const result = await downloadAndUploadVideoToDrive({
-        channelId,
-        userId,
-        telegramMessageId: telegramMessageInfo.messageId,
-        scheduleId,
-        videoTitle: savedTask?.videoTitle,
-        prompt: savedTask?.prompt
-      });
-
-      if (result.success) {
-        Logger.info("scheduleAutoDownload: task completed successfully", {
-          taskId,
-          channelId,
-          scheduleId,
-          driveFileId: result.driveFileId,
-          fileName: result.fileName
-        });
-      } else {
-        Logger.error("scheduleAutoDownload: task failed", {
-          taskId,
-          channelId,
-          scheduleId,
-          error: result.error
-        });
-      }
-    } catch (error) {
-      Logger.error("scheduleAutoDownload: task execution error", {
-        taskId,
-        channelId,
-        scheduleId,
-        error: error instanceof Error ? error.message : String(error),
-        errorStack: error instanceof Error ? error.stack : undefined
-      });
-    } finally {
-      // Удаляем задачу из активных
-      activeTasks.delete(taskId);
-    }
-  }, delayMs);
-
-  // Сохраняем задачу
-  const task: ScheduledTask = {
-    id: taskId,
+  const job = await createJob({
+    type: "autoDownload",
+    userId,
     channelId,
     scheduleId,
-    userId,
+    payload: {
+      telegramMessageId: telegramMessageInfo.messageId,
+      chatId: telegramMessageInfo.chatId,
+      videoTitle,
+      prompt,
+      runId
+    },
     runAt,
-    telegramMessageId: telegramMessageInfo.messageId,
-    videoTitle,
-    prompt,
-    timeoutId
-  };
-
-  activeTasks.set(taskId, task);
+    maxAttempts: AUTO_DOWNLOAD_MAX_ATTEMPTS
+  });
 
   Logger.info("scheduleAutoDownload: task scheduled", {
-    taskId,
+    taskId: job.id,
     channelId,
     scheduleId,
-    willRunAt: new Date(runAt).toISOString(),
-    activeTasksCount: activeTasks.size
+    willRunAt: runAt.toISOString()
   });
 
-  return taskId;
+  return job.id;
+}
+
+/**
+ * Ставит в очередь немедленное скачивание уже известного видео
+ * (видео назначено каналу вручную из «Входящих»)
+ * @returns ID задачи
+ */
+export async function enqueueAssignedVideoDownload(options: {
+  channelId: string;
+  userId: string;
+  chatId: string;
+  videoMessageId: number;
+  telegramMessageId?: number; // промпт, к которому относится видео, если известен
+  scheduleId?: string;
+  videoTitle?: string;
+  prompt?: string;
+  runId?: string;
+}): Promise<string> {
+  const job = await createJob({
+    type: "autoDownload",
+    userId: options.userId,
+    channelId: options.channelId,
+    scheduleId: options.scheduleId,
+    payload: {
+      telegramMessageId: options.telegramMessageId,
+      chatId: options.chatId,
+      videoMessageId: options.videoMessageId,
+      videoTitle: options.videoTitle,
+      prompt: options.prompt,
+      runId: options.runId
+    },
+    runAt: new Date(),
+    maxAttempts: AUTO_DOWNLOAD_MAX_ATTEMPTS
+  });
+
+  Logger.info("enqueueAssignedVideoDownload: task scheduled", {
+    taskId: job.id,
+    channelId: options.channelId,
+    videoMessageId: options.videoMessageId
+  });
+
+  return job.id;
 }
 
 /**
  * Отменяет запланированную задачу
  * @param taskId - ID задачи
  */
-export function cancelScheduledTask(taskId: string): boolean {
-  const task = activeTasks.get(taskId);
-  if (!task) {
-    return false;
-  }
+export async function cancelScheduledTask(taskId: string): Promise<boolean> {
+  const cancelled = await cancelJob(taskId, "CANCELLED");
 
-  if (task.timeoutId) {
-    clearTimeout(task.timeoutId);
+  if (cancelled) {
+    Logger.info("cancelScheduledTask: task cancelled", { taskId });
   }
 
-  activeTasks.delete(taskId);
-
-  Logger.info("cancelScheduledTask: task cancelled", {
-    taskId,
-    channelId: task.channelId,
-    scheduleId: task.scheduleId
-  });
-
-  return true;
+  return cancelled;
 }
 
 /**
- * Отменяет все задачи для указанного канала и расписания
+ * Отменяет ожидающие задачи для указанного канала и расписания
  * @param channelId - ID канала
  * @param scheduleId - ID расписания
+ * @param telegramMessageId - Если указан, отменяются только задачи для этого промпта
  */
-export function cancelTasksForSchedule(channelId: string, scheduleId: string): number {
+export async function cancelTasksForSchedule(
+  channelId: string,
+  scheduleId: string,
+  telegramMessageId?: number
+): Promise<number> {
+  const pendingJobs = await findPendingJobs({ type: "autoDownload", channelId, scheduleId });
   let cancelledCount = 0;
 
-  for (const [taskId, task] of activeTasks.entries()) {
-    if (task.channelId === channelId && task.scheduleId === scheduleId) {
-      if (task.timeoutId) {
-        clearTimeout(task.timeoutId);
-      }
-      activeTasks.delete(taskId);
+  for (const job of pendingJobs) {
+    if (telegramMessageId !== undefined && job.payload.telegramMessageId !== telegramMessageId) {
+      continue;
+    }
+    if (await cancelJob(job.id, "CANCELLED_BY_NEWER_TASK")) {
       cancelledCount++;
     }
   }
@@ -191,6 +154,7 @@ export function cancelTasksForSchedule(channelId: string, scheduleId: string): n
     Logger.info("cancelTasksForSchedule: tasks cancelled", {
       channelId,
       scheduleId,
+      telegramMessageId,
       cancelledCount
     });
   }
@@ -199,23 +163,55 @@ export function cancelTasksForSchedule(channelId: string, scheduleId: string): n
 }
 
 /**
- * Получает информацию о всех активных задачах
+ * Получает информацию о всех ожидающих задачах
  */
-export function getActiveTasks(): Array<{
+export async function getActiveTasks(): Promise<Array<{
   id: string;
   channelId: string;
   scheduleId: string;
   userId: string;
   runAt: string;
   telegramMessageId?: number;
-}> {
-  return Array.from(activeTasks.values()).map((task) => ({
-    id: task.id,
-    channelId: task.channelId,
-    scheduleId: task.scheduleId,
-    userId: task.userId,
-    runAt: new Date(task.runAt).toISOString(),
-    telegramMessageId: task.telegramMessageId
+}>> {
+  const jobs = await findPendingJobs({ type: "autoDownload" });
+  return jobs.map((job) => ({
+    id: job.id,
+    channelId: job.channelId,
+    scheduleId: job.scheduleId ?? "",
+    userId: job.userId,
+    runAt: job.runAt.toISOString(),
+    telegramMessageId: job.payload.telegramMessageId
   }));
 }
 
+/**
+ * Выполняет задачу автоскачивания
+ * @throws Error, если видео не удалось скачать или загрузить
+ */
+export async function runAutoDownloadJob(job: Job): Promise<Record<string, unknown>> {
+  const result = await downloadAndUploadVideoToDrive({
+    channelId: job.channelId,
+    userId: job.userId,
+    telegramMessageId: job.payload.telegramMessageId,
+    videoMessageId: job.payload.videoMessageId,
+    chatId: job.payload.chatId,
+    scheduleId: job.scheduleId ?? undefined,
+    videoTitle: job.payload.videoTitle,
+    prompt: job.payload.prompt,
+    runId: job.payload.runId
+  });
+
+  if (!result.success) {
+    // Бот сам сообщил, что видео не будет: запуск уже помечен ошибкой, повторять нечего
+    if (result.error?.startsWith("SYNTX_")) {
+      return { skipped: result.error.split(":")[0], error: result.error };
+    }
+    throw new Error(result.error || "Unknown error");
+  }
+
+  return {
+    driveFileId: result.driveFileId,
+    driveWebViewLink: result.driveWebViewLink,
+    fileName: result.fileName
+  };
+}
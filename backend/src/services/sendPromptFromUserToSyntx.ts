@@ -1,7 +1,8 @@
-import { createTelegramClientFromStringSession } from "../telegram/client";
-import { loadSessionString } from "../telegram/sessionStore";
-
-const SYNX_CHAT_ID = process.env.SYNX_CHAT_ID;
+import { withTelegramClient } from "../telegram/clientPool";
+import { resolveSessionStringForUser } from "../telegram/sessionStore";
+import { runTelegramOutbound } from "./telegramOutboundQueue";
+import { getGenerationProvider } from "../providers/registry";
+import type { GenerationProvider } from "../providers/types";
 
 export class TelegramSessionExpiredError extends Error {}
 
@@ -10,58 +11,64 @@ export interface TelegramMessageInfo {
   chatId: string;
 }
 
+/**
+ * Проверяет, что ошибка Telegram означает отозванную или недействительную сессию
+ */
+export function isTelegramSessionRevokedError(err: any): boolean {
+  const message = String(err?.message ?? err);
+  return (
+    message.includes("AUTH_KEY_UNREGISTERED") ||
+    message.includes("SESSION_REVOKED") ||
+    message.includes("USER_DEACTIVATED") ||
+    message.includes("PASSWORD_HASH_INVALID")
+  );
+}
+
 export async function sendPromptFromUserToSyntx(
-  // userId сохранён для совместимости сигнатуры, сейчас не используется
-  _userId: string,
-  prompt: string
+  // Владелец канала: его Telegram-сессия и место в общей очереди отправки
+  userId: string,
+  prompt: string,
+  // Бот генерации, выбранный в канале (по умолчанию SyntX)
+  provider: GenerationProvider = getGenerationProvider()
 ): Promise<TelegramMessageInfo> {
-  if (!SYNX_CHAT_ID) {
-    throw new Error("SYNX_CHAT_ID is not configured");
+  const chatId = provider.chatId;
+  if (!chatId) {
+    throw new Error(`GENERATION_PROVIDER_NOT_CONFIGURED: chat for provider "${provider.id}" is not configured`);
   }
 
-  const stringSession = loadSessionString();
+  // Отправляем от имени Telegram-аккаунта владельца канала
+  const stringSession = await resolveSessionStringForUser(userId);
   if (!stringSession) {
     throw new Error("TELEGRAM_SESSION_NOT_INITIALIZED");
   }
 
-  let client;
-  try {
-    client = await createTelegramClientFromStringSession(stringSession);
-    const sentMessage = await client.sendMessage(SYNX_CHAT_ID, { message: prompt });
-    
-    // Извлекаем messageId из отправленного сообщения
-    const messageId = (sentMessage as any).id;
-    
-    if (!messageId || typeof messageId !== "number") {
-      throw new Error("Failed to get messageId from sent message");
-    }
-    
-    return {
-      messageId,
-      chatId: SYNX_CHAT_ID
-    };
-  } catch (err: any) {
-    const message = String(err?.message ?? err);
-    if (
-      message.includes("AUTH_KEY_UNREGISTERED") ||
-      message.includes("SESSION_REVOKED") ||
-      message.includes("USER_DEACTIVATED") ||
-      message.includes("PASSWORD_HASH_INVALID")
-    ) {
-      throw new TelegramSessionExpiredError(
-        "TELEGRAM_SESSION_EXPIRED_NEED_RELOGIN"
-      );
-    }
-    throw err;
-  } finally {
-    if (client) {
-      try {
-        await client.disconnect();
-      } catch {
-        // ignore
+  // Все отправки идут через общую очередь: одна сессия и один чат SyntX на все каналы
+  return runTelegramOutbound(userId, "sendPromptToSyntx", async () => {
+    try {
+      return await withTelegramClient(stringSession, async (client) => {
+        const sentMessage = await client.sendMessage(chatId, {
+          message: provider.formatPrompt(prompt)
+        });
+
+        // Извлекаем messageId из отправленного сообщения
+        const messageId = (sentMessage as any).id;
+
+        if (!messageId || typeof messageId !== "number") {
+          throw new Error("Failed to get messageId from sent message");
+        }
+
+        return {
+          messageId,
+          chatId
+        };
+      });
+    } catch (err: any) {
+      if (isTelegramSessionRevokedError(err)) {
+        throw new TelegramSessionExpiredError(
+          "TELEGRAM_SESSION_EXPIRED_NEED_RELOGIN"
+        );
       }
+      throw err;
     }
-  }
+  });
 }
-
-
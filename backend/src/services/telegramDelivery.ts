@@ -0,0 +1,201 @@
+import { helpers, type Api, type TelegramClient } from "telegram";
+import { Logger } from "../utils/logger";
+import { runTelegramOutbound } from "./telegramOutboundQueue";
+import { getGenerationRun, tryUpdateGenerationRun } from "../repositories/generationRunRepo";
+
+// Лимит подписи к медиа в Telegram
+const CAPTION_MAX_LENGTH = 1024;
+
+/**
+ * forward — переслать сообщение бота (без указания автора),
+ * upload  — отправить видео заново как своё сообщение с подписью
+ */
+export type TelegramDeliveryMethod = "forward" | "upload";
+
+/**
+ * publish — опубликовать в чате/канале,
+ * draft   — отправить на проверку в «Избранное» (Saved Messages) аккаунта, а не в сам чат
+ */
+export type TelegramDeliveryMode = "publish" | "draft";
+
+/**
+ * Куда канал дополнительно отправляет готовое видео в Telegram
+ */
+export interface TelegramDeliveryTarget {
+  chatId: string; // @username или числовой ID канала/группы
+  method: TelegramDeliveryMethod;
+  mode: TelegramDeliveryMode;
+}
+
+/**
+ * Читает настройку доставки из данных канала; пустой chatId — доставка выключена
+ */
+export function getChannelTelegramDeliveryTarget(
+  channelData: { telegramDeliveryTarget?: Partial<TelegramDeliveryTarget> | null } | undefined
+): TelegramDeliveryTarget | null {
+  const target = channelData?.telegramDeliveryTarget;
+  const chatId = target?.chatId?.trim();
+  if (!chatId) {
+    return null;
+  }
+  return {
+    chatId,
+    method: target?.method === "forward" ? "forward" : "upload",
+    mode: target?.mode === "draft" ? "draft" : "publish"
+  };
+}
+
+/**
+ * Числовой ID чата передаём в gramjs как число, иначе он ищет его как username
+ */
+function toChatEntity(chatId: string) {
+  return /^-?\d+$/.test(chatId) ? helpers.returnBigInt(chatId) : chatId;
+}
+
+function normalizeHashtag(tag: string): string {
+  const word = tag.trim().replace(/^#+/, "").replace(/\s+/g, "_");
+  return word ? `#${word}` : "";
+}
+
+/**
+ * Черновик уходит в «Избранное» аккаунта — его видит только владелец сессии
+ */
+function getDeliveryEntity(target: TelegramDeliveryTarget) {
+  return target.mode === "draft" ? "me" : toChatEntity(target.chatId);
+}
+
+/**
+ * Собирает подпись из названия, описания и хештегов ролика.
+ * У черновика первой строкой указан чат, куда его нужно опубликовать после проверки.
+ */
+export function buildTelegramDeliveryCaption(
+  content: { title?: string | null; description?: string | null; hashtags?: string[] | null },
+  target: Pick<TelegramDeliveryTarget, "chatId" | "mode">
+): string {
+  const hashtags = (content.hashtags ?? []).map(normalizeHashtag).filter(Boolean).join(" ");
+  const parts = [
+    target.mode === "draft" ? `📝 Черновик для ${target.chatId}` : "",
+    content.title?.trim() ?? "",
+    content.description?.trim() ?? "",
+    hashtags
+  ].filter(Boolean);
+
+  const caption = parts.join("\n\n");
+  return caption.length > CAPTION_MAX_LENGTH
+    ? `${caption.slice(0, CAPTION_MAX_LENGTH - 1).trimEnd()}…`
+    : caption;
+}
+
+/**
+ * Отправляет видео в чат доставки канала: пересылкой или повторной отправкой медиа
+ * (файл не скачивается заново — Telegram использует уже загруженный документ)
+ */
+export async function deliverVideosToTelegram(options: {
+  client: TelegramClient;
+  userId: string;
+  sourceChatId: string;
+  videoMessages: Api.Message[];
+  target: TelegramDeliveryTarget;
+  caption: string;
+}): Promise<void> {
+  const { client, userId, sourceChatId, videoMessages, target, caption } = options;
+  const entity = getDeliveryEntity(target);
+  const silent = target.mode === "draft";
+
+  if (target.method === "forward") {
+    await runTelegramOutbound(userId, "deliverForward", () =>
+      client.forwardMessages(entity, {
+        messages: videoMessages.map((msg) => msg.id),
+        fromPeer: toChatEntity(sourceChatId),
+        dropAuthor: true,
+        silent
+      })
+    );
+    // Подпись пересланного сообщения заменить нельзя, поэтому отправляем её следом
+    if (caption) {
+      await runTelegramOutbound(userId, "deliverCaption", () =>
+        client.sendMessage(entity, { message: caption, silent })
+      );
+    }
+    return;
+  }
+
+  const media = videoMessages
+    .map((msg) => msg.media)
+    .filter((item): item is Api.TypeMessageMedia => !!item);
+  // Альбом: подпись только у первого видео
+  const captions = media.map((_, index) => (index === 0 ? caption : ""));
+
+  await runTelegramOutbound(userId, "deliverUpload", () =>
+    client.sendFile(entity, {
+      file: media.length === 1 ? media[0] : media,
+      caption: media.length === 1 ? caption : captions,
+      supportsStreaming: true,
+      silent
+    })
+  );
+}
+
+/**
+ * Доставляет видео запуска в Telegram и отмечает результат в запуске.
+ * Ошибка доставки не ломает запуск: видео уже лежит в Google Drive.
+ */
+export async function tryDeliverRunVideosToTelegram(options: {
+  client: TelegramClient;
+  userId: string;
+  channelId: string;
+  runId?: string;
+  sourceChatId: string;
+  videoMessages: Api.Message[];
+  target: TelegramDeliveryTarget;
+  videoTitle?: string;
+}): Promise<void> {
+  const { userId, channelId, runId, target } = options;
+
+  try {
+    const run = runId ? await getGenerationRun(userId, channelId, runId) : null;
+    const caption = buildTelegramDeliveryCaption(
+      {
+        title: run?.title ?? options.videoTitle,
+        description: run?.description,
+        hashtags: run?.hashtags
+      },
+      target
+    );
+
+    await deliverVideosToTelegram({
+      client: options.client,
+      userId,
+      sourceChatId: options.sourceChatId,
+      videoMessages: options.videoMessages,
+      target,
+      caption
+    });
+
+    Logger.info("tryDeliverRunVideosToTelegram: videos delivered", {
+      channelId,
+      runId: runId || "none",
+      targetChatId: target.chatId,
+      method: target.method,
+      mode: target.mode,
+      videosCount: options.videoMessages.length
+    });
+
+    await tryUpdateGenerationRun(userId, channelId, runId, {
+      telegramDeliveredAt: new Date(),
+      telegramDeliveryError: null
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    Logger.warn("tryDeliverRunVideosToTelegram: delivery failed", {
+      channelId,
+      runId: runId || "none",
+      targetChatId: target.chatId,
+      error: message
+    });
+
+    await tryUpdateGenerationRun(userId, channelId, runId, {
+      telegramDeliveryError: `TELEGRAM_DELIVERY_FAILED: ${message}`
+    });
+  }
+}
@@ -0,0 +1,67 @@
+import { Logger } from "../utils/logger";
+import { isFirestoreAvailable } from "./firebaseAdmin";
+import { deleteTempClientState, sweepTempClientStates } from "../telegram/client";
+import {
+  TELEGRAM_LOGIN_SESSION_TTL_MS,
+  telegramLoginSessionRepository
+} from "../repositories/telegramLoginSessionRepo";
+
+// Как часто удаляются брошенные входы в Telegram
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+// Сколько истёкших записей удаляется за один проход
+const SWEEP_BATCH_SIZE = 100;
+
+let sweeperTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Удаляет истёкшие незавершённые входы из Firestore и отключает их клиенты на этом инстансе
+ */
+export async function sweepTelegramLoginSessions(): Promise<void> {
+  try {
+    const disconnected = sweepTempClientStates(TELEGRAM_LOGIN_SESSION_TTL_MS);
+
+    let deleted = 0;
+    if (isFirestoreAvailable()) {
+      const expired = await telegramLoginSessionRepository.findExpired(new Date(), SWEEP_BATCH_SIZE);
+      for (const session of expired) {
+        deleteTempClientState(session.mtprotoStateId);
+        await telegramLoginSessionRepository.deleteById(session.id);
+        deleted++;
+      }
+    }
+
+    if (disconnected > 0 || deleted > 0) {
+      Logger.info("telegramLoginSweeper: stale login sessions removed", {
+        disconnectedClients: disconnected,
+        deletedSessions: deleted
+      });
+    }
+  } catch (error) {
+    Logger.error("telegramLoginSweeper: sweep failed", {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * Запускает периодическую очистку брошенных входов в Telegram
+ */
+export function startTelegramLoginSweeper(): void {
+  if (sweeperTimer) {
+    return;
+  }
+
+  sweeperTimer = setInterval(() => {
+    void sweepTelegramLoginSessions();
+  }, SWEEP_INTERVAL_MS);
+}
+
+/**
+ * Останавливает очистку
+ */
+export function stopTelegramLoginSweeper(): void {
+  if (sweeperTimer) {
+    clearInterval(sweeperTimer);
+    sweeperTimer = null;
+  }
+}
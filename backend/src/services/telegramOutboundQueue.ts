@@ -0,0 +1,179 @@
+import { Logger } from "../utils/logger";
+import { getFloodWaitSeconds } from "../utils/backoff";
+
+/**
+ * Общая очередь исходящих запросов к Telegram.
+ *
+ * Все каналы работают через одну Telegram-сессию и один чат SyntX, поэтому
+ * запросы (отправка промптов, поиск видео) выполняются через очередь:
+ * - не чаще TELEGRAM_OUTBOUND_RATE_PER_MINUTE запусков в минуту;
+ * - не больше TELEGRAM_OUTBOUND_CONCURRENCY одновременно;
+ * - пользователи обслуживаются по кругу, чтобы один пользователь с десятками
+ *   каналов не задерживал остальных;
+ * - после FLOOD_WAIT очередь приостанавливается на указанное Telegram время.
+ */
+
+const RATE_PER_MINUTE = Math.max(1, Number(process.env.TELEGRAM_OUTBOUND_RATE_PER_MINUTE) || 20);
+const MIN_START_INTERVAL_MS = Math.ceil(60_000 / RATE_PER_MINUTE);
+const CONCURRENCY = Math.max(1, Number(process.env.TELEGRAM_OUTBOUND_CONCURRENCY) || 1);
+// Предупреждаем в логах, если задача ждала в очереди дольше этого времени
+const SLOW_WAIT_WARN_MS = 60_000;
+
+// Ключ для запросов без пользователя (тестовые отправки и т.п.)
+const SYSTEM_QUEUE_KEY = "system";
+
+interface QueuedTask {
+  userId: string;
+  label: string;
+  enqueuedAt: number;
+  run: () => Promise<void>;
+}
+
+export interface TelegramOutboundQueueStats {
+  queued: number;
+  active: number;
+  users: number;
+  ratePerMinute: number;
+  concurrency: number;
+  pausedUntil: string | null;
+}
+
+const userQueues = new Map<string, QueuedTask[]>();
+// Порядок обхода пользователей (round-robin)
+const userOrder: string[] = [];
+let activeCount = 0;
+let lastStartAt = 0;
+let pausedUntil = 0;
+let pumpTimer: NodeJS.Timeout | null = null;
+
+function takeNextTask(): QueuedTask | null {
+  const userId = userOrder.shift();
+  if (userId === undefined) {
+    return null;
+  }
+
+  const queue = userQueues.get(userId) ?? [];
+  const task = queue.shift() ?? null;
+
+  if (queue.length > 0) {
+    // У пользователя остались задачи — он встаёт в конец круга
+    userOrder.push(userId);
+  } else {
+    userQueues.delete(userId);
+  }
+
+  return task;
+}
+
+function schedulePump(delayMs: number): void {
+  if (pumpTimer) {
+    return;
+  }
+  pumpTimer = setTimeout(() => {
+    pumpTimer = null;
+    pump();
+  }, delayMs);
+}
+
+function pump(): void {
+  while (activeCount < CONCURRENCY && userOrder.length > 0) {
+    const now = Date.now();
+    const waitMs = Math.max(pausedUntil, lastStartAt + MIN_START_INTERVAL_MS) - now;
+    if (waitMs > 0) {
+      schedulePump(waitMs);
+      return;
+    }
+
+    const task = takeNextTask();
+    if (!task) {
+      return;
+    }
+
+    activeCount++;
+    lastStartAt = now;
+
+    const waitedMs = now - task.enqueuedAt;
+    if (waitedMs > SLOW_WAIT_WARN_MS) {
+      Logger.warn("telegramOutboundQueue: task waited long in queue", {
+        label: task.label,
+        userId: task.userId,
+        waitedMs
+      });
+    }
+
+    void task.run().finally(() => {
+      activeCount--;
+      pump();
+    });
+  }
+}
+
+/**
+ * Выполняет запрос к Telegram через общую очередь
+ * @param userId - Владелец запроса (для справедливого распределения между пользователями)
+ * @param label - Название операции для логов
+ * @param operation - Сам запрос
+ * @returns Результат operation; ошибки пробрасываются вызывающему коду
+ */
+export function runTelegramOutbound<T>(
+  userId: string,
+  label: string,
+  operation: () => Promise<T>
+): Promise<T> {
+  const queueKey = userId || SYSTEM_QUEUE_KEY;
+
+  return new Promise<T>((resolve, reject) => {
+    const task: QueuedTask = {
+      userId: queueKey,
+      label,
+      enqueuedAt: Date.now(),
+      run: async () => {
+        try {
+          resolve(await operation());
+        } catch (error) {
+          const floodWaitSeconds = getFloodWaitSeconds(error);
+          if (floodWaitSeconds !== null) {
+            // Ограничение действует на всю сессию, поэтому останавливаем всю очередь
+            pausedUntil = Math.max(pausedUntil, Date.now() + floodWaitSeconds * 1000);
+            Logger.warn("telegramOutboundQueue: FLOOD_WAIT received, pausing queue", {
+              label,
+              userId: queueKey,
+              floodWaitSeconds,
+              pausedUntil: new Date(pausedUntil).toISOString()
+            });
+          }
+          reject(error);
+        }
+      }
+    };
+
+    const queue = userQueues.get(queueKey);
+    if (queue) {
+      queue.push(task);
+    } else {
+      userQueues.set(queueKey, [task]);
+      userOrder.push(queueKey);
+    }
+
+    pump();
+  });
+}
+
+/**
+ * Текущее состояние очереди (для диагностики)
+ */
+export function getTelegramOutboundQueueStats(): TelegramOutboundQueueStats {
+  let queued = 0;
+  userQueues.forEach((queue) => {
+    queued += queue.length;
+  });
+
+  return {
+    queued,
+    active: activeCount,
+    users: userQueues.size,
+    ratePerMinute: RATE_PER_MINUTE,
+    concurrency: CONCURRENCY,
+    pausedUntil: pausedUntil > Date.now() ? new Date(pausedUntil).toISOString() : null
+  };
+}
@@ -1,23 +1,68 @@
-import { createTelegramClientFromStringSession } from "../telegram/client";
-import { loadSessionString } from "../telegram/sessionStore";
-import { downloadTelegramVideoToTemp, cleanupTempFile } from "../utils/telegramDownload";
-import { uploadFileToDrive } from "./googleDrive";
-import { uploadFileToDriveWithOAuth } from "./googleDriveOAuth";
-import { getUserOAuthTokens, updateUserAccessToken } from "../repositories/userOAuthTokensRepo";
+import { releaseTelegramClient, retainTelegramClient } from "../telegram/clientPool";
+import { resolveSessionStringForUser } from "../telegram/sessionStore";
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+import type { Api, TelegramClient } from "telegram";
+import {
+  MAX_FILE_SIZE,
+  cleanupTempFile,
+  downloadTelegramVideoToTemp,
+  findTelegramVideoMessages,
+  getTelegramVideoFileInfo,
+  streamTelegramVideo
+} from "../utils/telegramDownload";
 import { db, isFirestoreAvailable } from "./firebaseAdmin";
 import { Logger } from "../utils/logger";
-import { google } from "googleapis";
 import { generateVideoFileName } from "../utils/fileUtils";
-
-const SYNX_CHAT_ID = process.env.SYNX_CHAT_ID;
+import {
+  getChannelDriveFolderSegments,
+  getChannelScheduleLabel
+} from "../utils/driveFolderLayout";
+import {
+  buildDriveVideoMetadata,
+  buildScriptJson,
+  buildScriptMarkdown,
+  buildSrt,
+  parseScenarioSteps,
+  type VideoPublishInfo
+} from "../utils/driveVideoMetadata";
+import {
+  getGenerationRun,
+  tryUpdateGenerationRun,
+  type GenerationRunVideo
+} from "../repositories/generationRunRepo";
+import {
+  findUploadedVideo,
+  recordUploadedVideo,
+  type UploadedVideo
+} from "../repositories/uploadedVideoRepo";
+import { resolveCorrelatedVideoMessageIds } from "./promptCorrelation";
+import { getChannelGenerationProvider } from "../providers/registry";
+import { createChannelStorage } from "../storage/registry";
+import type {
+  StorageBackendId,
+  StorageFileMetadata,
+  StorageUploadProgress,
+  StoredFile,
+  VideoStorage
+} from "../storage/types";
+import {
+  getChannelTelegramDeliveryTarget,
+  tryDeliverRunVideosToTelegram,
+  type TelegramDeliveryTarget
+} from "./telegramDelivery";
 
 export interface DownloadAndUploadOptions {
   channelId: string;
   userId: string;
   telegramMessageId?: number;
+  videoMessageId?: number; // сообщение с видео, уже сопоставленное слушателем чата бота
+  chatId?: string; // чат, откуда брать видео (по умолчанию — чат провайдера канала)
   videoTitle?: string; // сгенерированное название ролика
   prompt?: string; // текст промпта для fallback
   scheduleId?: string; // Для отслеживания автоматических загрузок
+  runId?: string; // ID записи в истории запусков генерации
+  forceReupload?: boolean; // загрузить заново, даже если видео уже есть в журнале загрузок
 }
 
 export interface DownloadAndUploadResult {
@@ -26,39 +71,429 @@ export interface DownloadAndUploadResult {
   driveWebViewLink?: string;
   driveWebContentLink?: string;
   fileName?: string;
+  videos?: GenerationRunVideo[]; // все загруженные видео, если бот прислал несколько вариантов
+  storageBackend?: StorageBackendId; // хранилище, куда загружены видео (drive* — ID и ссылки в нём)
+  alreadyUploaded?: boolean; // видео уже было загружено раньше, возвращена прежняя ссылка
   error?: string;
 }
 
 /**
- * Скачивает видео из Telegram и загружает его в Google Drive
- * Используется как для ручной загрузки, так и для автоматической
+ * Общие параметры загрузки видео одного запуска
+ */
+type VideoUploadContext = {
+  userId: string;
+  channelId: string;
+  runId?: string;
+  scheduleId?: string;
+  forceReupload: boolean;
+  chatId: string;
+  telegramMessageId?: number;
+  telegramClient: TelegramClient;
+  isVideoMessage: (msg: Api.Message) => boolean;
+  storage: VideoStorage;
+  channelRef: FirebaseFirestore.DocumentReference;
+  publishInfo: VideoPublishInfo; // для описания, appProperties и сопроводительных файлов
+  sidecarsEnabled: boolean;
+};
+
+type UploadedVideoMessage = GenerationRunVideo & {
+  driveWebContentLink: string | null;
+  alreadyUploaded: boolean;
+};
+
+// Шаг прогресса загрузки (в процентах), с которым он сохраняется в запуск
+const UPLOAD_PROGRESS_STEP_PERCENT = 10;
+
+/**
+ * Сохраняет прогресс потоковой загрузки в запуск генерации и лог, не чаще чем раз в 10%
+ */
+function createUploadProgressReporter(
+  userId: string,
+  channelId: string,
+  runId: string | undefined
+): (progress: StorageUploadProgress) => void {
+  let lastReportedPercent = -1;
+
+  return ({ uploadedBytes, totalBytes }) => {
+    const percent = Math.floor((uploadedBytes / totalBytes) * 100);
+    if (
+      percent < 100 &&
+      percent - lastReportedPercent < UPLOAD_PROGRESS_STEP_PERCENT
+    ) {
+      return;
+    }
+    lastReportedPercent = percent;
+
+    Logger.info("Video upload progress", {
+      channelId,
+      runId: runId || "none",
+      uploadedBytes,
+      totalBytes,
+      percent
+    });
+    void tryUpdateGenerationRun(userId, channelId, runId, {
+      uploadedBytes,
+      videoSizeBytes: totalBytes
+    });
+  };
+}
+
+/**
+ * Считает SHA-256 файла при потоковой загрузке. После продолжения с offset
+ * уже учтённые байты пропускаются, поэтому получается хеш файла целиком.
+ */
+function createStreamHasher() {
+  const hash = createHash("sha256");
+  let hashedBytes = 0;
+
+  return {
+    wrap: async function* (stream: AsyncIterable<Buffer>, offset: number) {
+      let position = offset;
+      for await (const chunk of stream) {
+        const end = position + chunk.length;
+        if (end > hashedBytes) {
+          hash.update(chunk.subarray(Math.max(0, hashedBytes - position)));
+          hashedBytes = end;
+        }
+        position = end;
+        yield chunk;
+      }
+    },
+    digest: () => hash.digest("hex")
+  };
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Кладёт рядом с видео сценарий (JSON и Markdown) и субтитры SRT по таймингам шагов сценария.
+ * Ошибки только логируются: видео уже загружено.
+ */
+async function uploadVideoSidecars(params: {
+  context: VideoUploadContext;
+  publishInfo: VideoPublishInfo;
+  metadata: StorageFileMetadata;
+  driveFileName: string;
+  driveFileId: string;
+}): Promise<void> {
+  const { context, publishInfo, driveFileName, driveFileId } = params;
+  const baseName = driveFileName.replace(/\.mp4$/i, "");
+  const steps = publishInfo.prompt ? parseScenarioSteps(publishInfo.prompt) : [];
+
+  const sidecars = [
+    {
+      fileName: `${baseName}.json`,
+      mimeType: "application/json",
+      content: buildScriptJson(publishInfo, { fileName: driveFileName, driveFileId })
+    },
+    {
+      fileName: `${baseName}.md`,
+      mimeType: "text/markdown",
+      content: buildScriptMarkdown(publishInfo)
+    },
+    ...(steps.length > 0
+      ? [{ fileName: `${baseName}.srt`, mimeType: "application/x-subrip", content: buildSrt(steps) }]
+      : [])
+  ];
+
+  // Сопроводительные файлы находятся по ID видео через appProperties
+  const metadata: StorageFileMetadata = {
+    appProperties: { ...params.metadata.appProperties, videoFileId: driveFileId }
+  };
+
+  for (const sidecar of sidecars) {
+    try {
+      await context.storage.uploadBuffer({
+        buffer: Buffer.from(sidecar.content, "utf8"),
+        fileName: sidecar.fileName,
+        mimeType: sidecar.mimeType,
+        metadata
+      });
+    } catch (sidecarError: any) {
+      Logger.warn("Failed to upload sidecar file", {
+        storage: context.storage.id,
+        channelId: context.channelId,
+        fileName: sidecar.fileName,
+        error: String(sidecarError?.message ?? sidecarError)
+      });
+    }
+  }
+
+  Logger.info("Sidecar files uploaded next to the video", {
+    channelId: context.channelId,
+    driveFileId,
+    files: sidecars.map((sidecar) => sidecar.fileName)
+  });
+}
+
+/**
+ * Ищет видео в журнале загрузок канала. Запись о загрузке в другое хранилище
+ * (канал сменил хранилище) не считается: такое видео нужно загрузить заново.
+ */
+async function findUploadedVideoInStorage(
+  userId: string,
+  channelId: string,
+  storageBackend: StorageBackendId,
+  key: Parameters<typeof findUploadedVideo>[2]
+): Promise<UploadedVideo | null> {
+  const existing = await findUploadedVideo(userId, channelId, key);
+  return existing && (existing.storageBackend ?? "googleDrive") === storageBackend ? existing : null;
+}
+
+/**
+ * Загружает одно видео в хранилище канала: потоково, а при ошибке — через временный файл.
+ * Видео, уже лежащее в журнале загрузок того же хранилища, повторно не загружается.
+ */
+async function uploadVideoMessage(
+  context: VideoUploadContext,
+  videoMessage: Api.Message,
+  driveFileName: string,
+  variant?: number
+): Promise<UploadedVideoMessage> {
+  const { userId, channelId, runId, scheduleId, forceReupload, chatId, storage } = context;
+  const videoFile = getTelegramVideoFileInfo(videoMessage);
+  const publishInfo: VideoPublishInfo = {
+    ...context.publishInfo,
+    telegramMessageId: videoMessage.id,
+    variant: variant ?? null
+  };
+  const metadata = buildDriveVideoMetadata(publishInfo);
+
+  const findExisting = (key: { telegramFileId?: string | null; fileHash?: string | null }) =>
+    findUploadedVideoInStorage(userId, channelId, storage.id, {
+      chatId,
+      messageId: videoMessage.id,
+      ...key
+    });
+
+  const skipUpload = (existing: {
+    driveFileId: string;
+    driveWebViewLink: string | null;
+    driveWebContentLink: string | null;
+    fileName: string | null;
+    uploadedAt: Date;
+  }): UploadedVideoMessage => {
+    Logger.info("Video already uploaded, skipping upload", {
+      channelId,
+      storage: storage.id,
+      chatId,
+      messageId: videoMessage.id,
+      driveFileId: existing.driveFileId,
+      uploadedAt: existing.uploadedAt.toISOString()
+    });
+    return {
+      messageId: videoMessage.id,
+      driveFileId: existing.driveFileId,
+      driveWebViewLink: existing.driveWebViewLink,
+      driveWebContentLink: existing.driveWebContentLink,
+      fileName: existing.fileName,
+      alreadyUploaded: true
+    };
+  };
+
+  // Повторный запуск или ретрай задачи не должен загружать то же видео ещё раз
+  if (!forceReupload) {
+    const existing = await findExisting({ telegramFileId: videoFile.fileId });
+    if (existing) {
+      return skipUpload(existing);
+    }
+  }
+
+  // Потоково загружаем видео в хранилище (без временного файла)
+  let driveResult: StoredFile | null = null;
+  let fileHash: string | null = null;
+
+  if (storage.uploadStream && videoFile.size > 0) {
+    Logger.info("Streaming video from Telegram to storage", {
+      videoMessageId: videoMessage.id,
+      fileSizeBytes: videoFile.size,
+      storage: storage.location
+    });
+
+    const hasher = createStreamHasher();
+    try {
+      driveResult = await storage.uploadStream({
+        openStream: (offset) =>
+          hasher.wrap(streamTelegramVideo(context.telegramClient, videoMessage, offset), offset),
+        size: videoFile.size,
+        fileName: driveFileName,
+        mimeType: videoFile.mimeType,
+        metadata,
+        onProgress: createUploadProgressReporter(userId, channelId, runId)
+      });
+      fileHash = hasher.digest();
+    } catch (streamError: any) {
+      // Временный файл ограничен MAX_FILE_SIZE: большое видео через него не пройдёт
+      if (videoFile.size > MAX_FILE_SIZE) {
+        throw streamError;
+      }
+      Logger.warn("Stream upload failed, falling back to temp file", {
+        videoMessageId: videoMessage.id,
+        error: streamError?.message
+      });
+    }
+  }
+
+  if (!driveResult) {
+    // Запасной путь: скачиваем видео во временную папку и загружаем файл
+    const downloadResult = await downloadTelegramVideoToTemp(
+      context.telegramClient,
+      chatId,
+      context.telegramMessageId,
+      { userId, videoMessageId: videoMessage.id, isVideoMessage: context.isVideoMessage }
+    );
+    const tempFilePath = downloadResult.tempPath;
+
+    try {
+      Logger.info("Video downloaded to temp file", {
+        tempPath: tempFilePath,
+        fileName: downloadResult.fileName,
+        messageId: downloadResult.messageId
+      });
+
+      // То же содержимое могло прийти другим файлом (бот прислал копию)
+      fileHash = await hashFile(tempFilePath);
+      if (!forceReupload) {
+        const existing = await findExisting({ fileHash });
+        if (existing) {
+          return skipUpload(existing);
+        }
+      }
+
+      Logger.info("Uploading temp file to storage", {
+        filePath: tempFilePath,
+        storage: storage.location
+      });
+      driveResult = await storage.uploadFile({
+        filePath: tempFilePath,
+        fileName: driveFileName,
+        mimeType: "video/mp4",
+        metadata
+      });
+    } finally {
+      Logger.info("Cleaning up temporary file", { tempPath: tempFilePath });
+      await cleanupTempFile(tempFilePath).catch((cleanupError) => {
+        Logger.error("Failed to cleanup temp file", {
+          tempPath: tempFilePath,
+          error: String(cleanupError)
+        });
+      });
+    }
+  }
+
+  // Локальное хранилище и S3 переименовывают файл, если имя уже занято
+  const storedFileName = driveResult.fileName ?? driveFileName;
+
+  Logger.info("File uploaded to storage", {
+    channelId,
+    fileId: driveResult.fileId,
+    fileName: storedFileName,
+    webViewLink: driveResult.webViewLink,
+    storage: storage.location,
+    scheduleId: scheduleId || "manual"
+  });
+
+  // Сохраняем информацию о видео в Firestore
+  try {
+    await recordUploadedVideo(userId, channelId, {
+      chatId,
+      messageId: videoMessage.id,
+      telegramFileId: videoFile.fileId,
+      fileHash,
+      sizeBytes: videoFile.size || null,
+      storageBackend: storage.id,
+      driveFileId: driveResult.fileId,
+      driveWebViewLink: driveResult.webViewLink || null,
+      driveWebContentLink: driveResult.webContentLink || null,
+      fileName: storedFileName,
+      runId: runId || null
+    });
+
+    await context.channelRef.collection("generatedVideos").add({
+      storageBackend: storage.id,
+      driveFileId: driveResult.fileId,
+      driveWebViewLink: driveResult.webViewLink || null,
+      driveWebContentLink: driveResult.webContentLink || null,
+      createdAt: new Date(),
+      source: scheduleId ? "auto-scheduled" : "manual",
+      telegramMessageId: videoMessage.id,
+      scheduleId: scheduleId || null
+    });
+
+    // Обновляем последнее видео в канале (опционально)
+    await context.channelRef.update({
+      lastVideoDriveFileId: driveResult.fileId,
+      lastVideoDriveLink: driveResult.webViewLink || null,
+      lastVideoUpdatedAt: new Date()
+    });
+  } catch (firestoreError) {
+    Logger.warn("Failed to save video info to Firestore", {
+      error: String(firestoreError)
+    });
+    // Не прерываем выполнение, так как файл уже загружен
+  }
+
+  if (context.sidecarsEnabled) {
+    await uploadVideoSidecars({
+      context,
+      publishInfo,
+      metadata,
+      driveFileName: storedFileName,
+      driveFileId: driveResult.fileId
+    });
+  }
+
+  return {
+    messageId: videoMessage.id,
+    driveFileId: driveResult.fileId,
+    driveWebViewLink: driveResult.webViewLink || null,
+    driveWebContentLink: driveResult.webContentLink || null,
+    fileName: storedFileName,
+    alreadyUploaded: false
+  };
+}
+
+/**
+ * Скачивает видео из Telegram и загружает его в хранилище канала
+ * (Google Drive, локальная папка или S3). Используется как для ручной загрузки, так и для автоматической
  */
 export async function downloadAndUploadVideoToDrive(
   options: DownloadAndUploadOptions
 ): Promise<DownloadAndUploadResult> {
-  const { channelId, userId, telegramMessageId, videoTitle, prompt, scheduleId } = options;
+  const {
+    channelId,
+    userId,
+    telegramMessageId,
+    videoMessageId,
+    chatId: chatIdOverride,
+    videoTitle,
+    prompt,
+    scheduleId,
+    runId,
+    forceReupload = false
+  } = options;
 
   Logger.info("downloadAndUploadVideoToDrive: start", {
     channelId,
     userId,
     telegramMessageId,
+    videoMessageId,
     videoTitle: videoTitle || "not provided",
     scheduleId: scheduleId || "manual"
   });
 
-  // Проверяем Telegram-сессию
-  const stringSession = loadSessionString();
+  // Проверяем Telegram-сессию владельца канала
+  const stringSession = await resolveSessionStringForUser(userId);
   if (!stringSession) {
     return {
       success: false,
-      error: "Telegram-сеанс не настроен. Сначала подключите SyntX на backend (npm run dev:login)."
-    };
-  }
-
-  if (!SYNX_CHAT_ID) {
-    return {
-      success: false,
-      error: "SYNX_CHAT_ID is not configured on the server"
+      error: "TELEGRAM_SESSION_NOT_INITIALIZED: Telegram не подключён. Подключите Telegram в настройках аккаунта."
     };
   }
 
@@ -71,7 +506,6 @@ export async function downloadAndUploadVideoToDrive(
     };
   }
 
-  let tempFilePath: string | null = null;
   let telegramClient: any = null;
 
   try {
@@ -93,225 +527,210 @@ export async function downloadAndUploadVideoToDrive(
     const channelData = channelSnap.data() as {
       name?: string;
       googleDriveFolderId?: string;
+      generationProviderId?: string | null;
+      telegramDeliveryTarget?: Partial<TelegramDeliveryTarget> | null;
+      timezone?: string;
+      googleDriveFolderLayout?: string | null;
+      googleDriveSidecarsEnabled?: boolean;
+      storageBackend?: string | null;
+      storagePath?: string | null;
+      autoSendSchedules?: Array<{ id: string; label?: string | null }>;
     };
 
-    // Определяем папку для загрузки: сначала из канала, потом из .env
-    const folderIdFromChannel = channelData.googleDriveFolderId?.trim() || undefined;
-    const defaultFolderId = process.env.GOOGLE_DRIVE_DEFAULT_PARENT?.trim() || undefined;
-
-    const finalFolderId = folderIdFromChannel || defaultFolderId;
-
-    if (!finalFolderId) {
+    const provider = getChannelGenerationProvider(channelData);
+    const chatId = chatIdOverride ?? provider.chatId;
+    if (!chatId) {
       return {
         success: false,
-        error: "Не указана папка для загрузки. Укажите googleDriveFolderId в настройках канала или задайте GOOGLE_DRIVE_DEFAULT_PARENT в backend/.env"
+        error: `GENERATION_PROVIDER_NOT_CONFIGURED: Чат бота «${provider.name}» не настроен на сервере`
       };
     }
 
-    Logger.info("Determining Google Drive folder", {
-      folderIdFromChannel: folderIdFromChannel || "not set",
-      defaultFolderId: defaultFolderId || "not set",
-      finalFolderId
+    // Хранилище канала с подпапками по шаблону ({channel}/{yyyy-MM}/...).
+    // Не настроено — ошибка до обращения к Telegram.
+    const storage = await createChannelStorage(channelData, {
+      userId,
+      channelId,
+      folderSegments: getChannelDriveFolderSegments(channelData, { scheduleId })
+    });
+    Logger.info("Video storage selected", {
+      channelId,
+      storage: storage.id,
+      location: storage.location
     });
 
-    // Создаём Telegram-клиент
-    telegramClient = await createTelegramClientFromStringSession(stringSession);
+    // Берём общий Telegram-клиент сессии из пула
+    telegramClient = await retainTelegramClient(stringSession);
 
     try {
-      // Шаг 1: Скачиваем видео во временную папку
+      // Шаг 1: Находим сообщение с видео
       // ВАЖНО: При автоматическом скачивании telegramMessageId - это ID промпта (текстового сообщения),
       // а не видео. Видео приходит позже. Поэтому передаём messageId как "маркер" для поиска видео ПОСЛЕ него,
       // но не пытаемся получить само сообщение с этим ID.
-      Logger.info("Step 1: Downloading video from Telegram to temp folder", {
-        chatId: SYNX_CHAT_ID,
+      Logger.info("Step 1: Looking for video message in Telegram", {
+        chatId,
+        providerId: provider.id,
         promptMessageId: telegramMessageId || "not specified",
         note: telegramMessageId 
           ? "Will search for video after this prompt message ID" 
           : "Will search for latest video in chat"
       });
 
-      // Передаём messageId только как маркер для поиска видео после него
-      // В downloadTelegramVideoToTemp это будет использовано для фильтрации сообщений
-      const downloadResult = await downloadTelegramVideoToTemp(
-        telegramClient,
-        SYNX_CHAT_ID,
-        telegramMessageId // Передаём как маркер, не как конкретное сообщение
-      );
-
-      tempFilePath = downloadResult.tempPath;
-
-      Logger.info("Video downloaded to temp file", {
-        tempPath: tempFilePath,
-        fileName: downloadResult.fileName,
-        messageId: downloadResult.messageId
-      });
-
-      // Шаг 2: Загружаем файл в Google Drive
-      Logger.info("Step 2: Uploading file to Google Drive", {
-        filePath: tempFilePath,
-        folderId: finalFolderId
-      });
-
-      // Формируем имя файла для Google Drive используя общую функцию
-      const driveFileName = generateVideoFileName({
-        title: videoTitle,
-        prompt: prompt,
-        channelName: channelData.name,
-        createdAt: new Date()
-      });
-      
-      Logger.info("Generated video file name for Google Drive", {
-        channelId,
-        originalTitle: videoTitle || "not provided",
-        promptLength: prompt?.length || 0,
-        channelName: channelData.name || "not provided",
-        fileName: driveFileName
-      });
-
-      // Пробуем использовать OAuth токен пользователя, если доступен
-      let driveResult;
-      try {
-        const userTokens = await getUserOAuthTokens(userId);
-        
-        if (userTokens?.googleDriveAccessToken) {
-          // Проверяем, не истёк ли токен
-          const now = Date.now();
-          const isExpired = userTokens.googleDriveTokenExpiry 
-            ? userTokens.googleDriveTokenExpiry < now 
-            : false;
-          
-          let accessToken = userTokens.googleDriveAccessToken;
-          
-          // Если токен истёк, обновляем его
-          if (isExpired && userTokens.googleDriveRefreshToken) {
-            Logger.info("OAuth token expired, refreshing...", { userId });
-            
-            const oauth2Client = new google.auth.OAuth2(
-              process.env.GOOGLE_OAUTH_CLIENT_ID,
-              process.env.GOOGLE_OAUTH_CLIENT_SECRET
-            );
-            oauth2Client.setCredentials({ refresh_token: userTokens.googleDriveRefreshToken });
-            
-            const { credentials } = await oauth2Client.refreshAccessToken();
-            accessToken = credentials.access_token!;
-            
-            // Сохраняем обновлённый токен
-            await updateUserAccessToken(
-              userId,
-              accessToken,
-              credentials.expiry_date || Date.now() + 3600000
-            );
-            
-            Logger.info("OAuth token refreshed", { userId });
-          }
-          
-          // Используем OAuth токен для загрузки
-          Logger.info("Using OAuth token for Google Drive upload", { userId });
-          driveResult = await uploadFileToDriveWithOAuth({
-            filePath: tempFilePath,
-            fileName: driveFileName,
-            mimeType: "video/mp4",
-            parentFolderId: finalFolderId,
-            accessToken: accessToken
-          });
-        } else {
-          // Fallback: используем Service Account (может не работать для загрузки)
-          Logger.warn("No OAuth token found, falling back to Service Account", { userId });
-          driveResult = await uploadFileToDrive({
-            filePath: tempFilePath,
-            fileName: driveFileName,
-            mimeType: "video/mp4",
-            parentFolderId: finalFolderId
-          });
-        }
-      } catch (oauthError: any) {
-        // Если OAuth не работает, пробуем Service Account
-        Logger.warn("OAuth upload failed, trying Service Account", {
-          error: oauthError?.message,
-          userId
-        });
-        
+      // Видео, закреплённое за промптом. Без этого «последнее видео после промпта»
+      // может оказаться видео другого канала, отправившего промпт почти одновременно.
+      // Уже известное видео дополняется остальными вариантами, закреплёнными за тем же промптом
+      let correlatedVideoMessageIds = videoMessageId ? [videoMessageId] : undefined;
+      if (telegramMessageId) {
         try {
-          driveResult = await uploadFileToDrive({
-            filePath: tempFilePath,
-            fileName: driveFileName,
-            mimeType: "video/mp4",
-            parentFolderId: finalFolderId
-          });
-        } catch (serviceAccountError: any) {
-          // Если и Service Account не работает, пробрасываем ошибку
-          throw new Error(
-            `GOOGLE_DRIVE_UPLOAD_FAILED: Не удалось загрузить файл. ` +
-            `OAuth ошибка: ${oauthError?.message}. ` +
-            `Service Account ошибка: ${serviceAccountError?.message}. ` +
-            `Пожалуйста, авторизуйтесь через Google OAuth: http://localhost:8080/api/auth/google`
+          const ids = await resolveCorrelatedVideoMessageIds(
+            userId,
+            telegramMessageId,
+            telegramClient,
+            provider
           );
+          if (ids && (!videoMessageId || ids.includes(videoMessageId))) {
+            correlatedVideoMessageIds = ids;
+          }
+        } catch (resolveError) {
+          if (!videoMessageId) {
+            throw resolveError;
+          }
         }
       }
 
-      Logger.info("File uploaded to Google Drive", {
+      const isVideoMessage = (msg: Api.Message) => provider.isVideoMessage(msg);
+      const videoMessages = await findTelegramVideoMessages(
+        telegramClient,
+        chatId,
+        telegramMessageId, // Передаём как маркер, не как конкретное сообщение
+        { userId, videoMessageIds: correlatedVideoMessageIds, isVideoMessage }
+      );
+
+      // Данные ролика для описания файла и сопроводительных файлов
+      const run = runId ? await getGenerationRun(userId, channelId, runId).catch(() => null) : null;
+      const publishInfo: VideoPublishInfo = {
+        title: run?.title ?? videoTitle ?? null,
+        description: run?.description ?? null,
+        hashtags: run?.hashtags ?? null,
+        prompt: run?.prompt ?? prompt ?? null,
         channelId,
-        fileId: driveResult.fileId,
-        fileName: driveFileName,
-        webViewLink: driveResult.webViewLink,
-        folderId: finalFolderId,
-        scheduleId: scheduleId || "manual"
-      });
+        channelName: channelData.name ?? null,
+        scheduleId: scheduleId ?? null,
+        scheduleLabel: getChannelScheduleLabel(channelData, scheduleId),
+        runId: runId ?? null,
+        generatedAt: run?.promptGeneratedAt ?? run?.startedAt ?? new Date()
+      };
 
-      // Шаг 3: Удаляем временный файл
-      Logger.info("Step 3: Cleaning up temporary file", {
-        tempPath: tempFilePath
-      });
+      const context: VideoUploadContext = {
+        userId,
+        channelId,
+        runId,
+        scheduleId,
+        forceReupload,
+        chatId,
+        telegramMessageId,
+        telegramClient,
+        isVideoMessage,
+        storage,
+        channelRef,
+        publishInfo,
+        sidecarsEnabled: channelData.googleDriveSidecarsEnabled === true
+      };
 
-      await cleanupTempFile(tempFilePath);
-      tempFilePath = null; // Помечаем, что файл удалён
-
-      // Шаг 4: Сохраняем информацию о видео в Firestore
-      try {
-        await channelRef.collection("generatedVideos").add({
-          driveFileId: driveResult.fileId,
-          driveWebViewLink: driveResult.webViewLink || null,
-          driveWebContentLink: driveResult.webContentLink || null,
-          createdAt: new Date(),
-          source: scheduleId ? "auto-scheduled" : "manual",
-          telegramMessageId: downloadResult.messageId,
-          scheduleId: scheduleId || null
+      // Шаг 2: Загружаем видео по очереди; варианты получают суффикс _v1, _v2, ...
+      const createdAt = new Date();
+      const videos: UploadedVideoMessage[] = [];
+      for (const [index, videoMessage] of videoMessages.entries()) {
+        const driveFileName = generateVideoFileName({
+          title: videoTitle,
+          prompt: prompt,
+          channelName: channelData.name,
+          createdAt,
+          variant: videoMessages.length > 1 ? index + 1 : undefined
         });
 
-        // Обновляем последнее видео в канале (опционально)
-        await channelRef.update({
-          lastVideoDriveFileId: driveResult.fileId,
-          lastVideoDriveLink: driveResult.webViewLink || null,
-          lastVideoUpdatedAt: new Date()
+        Logger.info("Generated video file name", {
+          channelId,
+          originalTitle: videoTitle || "not provided",
+          promptLength: prompt?.length || 0,
+          channelName: channelData.name || "not provided",
+          fileName: driveFileName,
+          videoMessageId: videoMessage.id,
+          variant: `${index + 1}/${videoMessages.length}`
         });
-      } catch (firestoreError) {
-        Logger.warn("Failed to save video info to Firestore", {
-          error: String(firestoreError)
-        });
-        // Не прерываем выполнение, так как файл уже загружен
+
+        videos.push(
+          await uploadVideoMessage(
+            context,
+            videoMessage,
+            driveFileName,
+            videoMessages.length > 1 ? index + 1 : undefined
+          )
+        );
       }
 
-      Logger.info("Video successfully processed and uploaded to Google Drive", {
-        fileId: driveResult.fileId,
-        webViewLink: driveResult.webViewLink,
+      const [first] = videos;
+      const runVideos: GenerationRunVideo[] = videos.map((video) => ({
+        messageId: video.messageId,
+        driveFileId: video.driveFileId,
+        driveWebViewLink: video.driveWebViewLink,
+        fileName: video.fileName
+      }));
+      const alreadyUploaded = videos.every((video) => video.alreadyUploaded);
+
+      const uploadedAt = new Date();
+      await tryUpdateGenerationRun(userId, channelId, runId, {
+        status: "completed",
+        storageBackend: storage.id,
+        driveFileId: first.driveFileId,
+        driveWebViewLink: first.driveWebViewLink,
+        fileName: first.fileName,
+        videos: runVideos,
+        error: null,
+        errorStage: null,
+        videoUploadedAt: uploadedAt,
+        finishedAt: uploadedAt
+      });
+
+      Logger.info("Video successfully processed and uploaded to storage", {
+        storage: storage.id,
+        fileId: first.driveFileId,
+        webViewLink: first.driveWebViewLink,
+        videosCount: videos.length,
+        alreadyUploaded,
         scheduleId: scheduleId || "manual"
       });
 
+      // Шаг 3: Публикуем видео в Telegram-чат канала. Уже загруженные раньше видео
+      // были доставлены при первой загрузке, повторный запуск их не дублирует.
+      const deliveryTarget = getChannelTelegramDeliveryTarget(channelData);
+      if (deliveryTarget && !alreadyUploaded) {
+        await tryDeliverRunVideosToTelegram({
+          client: telegramClient,
+          userId,
+          channelId,
+          runId,
+          sourceChatId: chatId,
+          videoMessages,
+          target: deliveryTarget,
+          videoTitle
+        });
+      }
+
       return {
         success: true,
-        driveFileId: driveResult.fileId,
-        driveWebViewLink: driveResult.webViewLink,
-        driveWebContentLink: driveResult.webContentLink,
-        fileName: driveFileName
+        alreadyUploaded: alreadyUploaded || undefined,
+        storageBackend: storage.id,
+        driveFileId: first.driveFileId,
+        driveWebViewLink: first.driveWebViewLink ?? undefined,
+        driveWebContentLink: first.driveWebContentLink ?? undefined,
+        fileName: first.fileName ?? undefined,
+        videos: runVideos
       };
     } finally {
-      // Отключаемся от Telegram
-      try {
-        if (telegramClient) {
-          await telegramClient.disconnect();
-        }
-      } catch {
-        // ignore
+      // Возвращаем клиент в пул (соединение остаётся открытым для следующих операций)
+      if (telegramClient) {
+        releaseTelegramClient(stringSession);
       }
     }
   } catch (err: any) {
@@ -323,21 +742,9 @@ export async function downloadAndUploadVideoToDrive(
       stack: errorStack,
       userId,
       channelId,
-      tempFilePath,
       scheduleId
     });
 
-    // Удаляем временный файл в случае ошибки
-    if (tempFilePath) {
-      Logger.warn("Cleaning up temp file after error", { tempFilePath });
-      await cleanupTempFile(tempFilePath).catch((cleanupError) => {
-        Logger.error("Failed to cleanup temp file after error", {
-          tempPath: tempFilePath,
-          error: String(cleanupError)
-        });
-      });
-    }
-
     return {
       success: false,
       error: errorMessage
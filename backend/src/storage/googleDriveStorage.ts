@@ -0,0 +1,167 @@
+import {
+  ensureDriveFolderPath,
+  forgetDriveFolderPath,
+  uploadFileToDrive,
+  uploadVideoToDrive
+} from "../services/googleDrive";
+import {
+  uploadBufferToDriveWithOAuth,
+  uploadFileToDriveWithOAuth,
+  uploadStreamToDriveWithOAuth
+} from "../services/googleDriveOAuth";
+import {
+  getDriveClientForUser,
+  getDriveErrorCode,
+  toDriveError,
+  withDriveClient
+} from "../services/googleDriveClient";
+import { Logger } from "../utils/logger";
+import type { StoredFile, VideoStorage } from "./types";
+
+/**
+ * Корневая папка канала: сначала из канала, потом из .env
+ */
+export function getGoogleDriveRootFolderId(channelData: {
+  googleDriveFolderId?: string | null;
+}): string | undefined {
+  return (
+    channelData.googleDriveFolderId?.trim() ||
+    process.env.GOOGLE_DRIVE_DEFAULT_PARENT?.trim() ||
+    undefined
+  );
+}
+
+/**
+ * Google Drive: папка канала и подпапки по шаблону (недостающие создаются).
+ * Загрузка идёт OAuth-токеном пользователя, а при отказе — Service Account (см. withDriveClient).
+ * Потоковая загрузка доступна только с OAuth-токеном; истёкший посреди загрузки токен обновляется.
+ *
+ * @throws DriveError NOT_CONFIGURED, если нет ни OAuth-токена, ни Service Account
+ */
+export async function createGoogleDriveStorage(params: {
+  userId: string;
+  rootFolderId: string;
+  folderSegments: string[];
+}): Promise<VideoStorage> {
+  const { userId, rootFolderId, folderSegments } = params;
+
+  // Клиент определяет, доступна ли потоковая загрузка: она идёт только по OAuth-токену
+  const { accessToken, authMode } = await getDriveClientForUser(userId);
+
+  const resolveFolderId = async (): Promise<string> => {
+    if (folderSegments.length === 0) {
+      return rootFolderId;
+    }
+    try {
+      const folderId = await ensureDriveFolderPath({
+        rootFolderId,
+        segments: folderSegments,
+        accessToken
+      });
+      Logger.info("Resolved Google Drive folder by channel layout", {
+        path: folderSegments.join("/"),
+        folderId
+      });
+      return folderId;
+    } catch (folderError: any) {
+      // Видео важнее структуры: загружаем в корневую папку канала
+      Logger.warn("Failed to resolve Google Drive folder layout, using channel folder", {
+        path: folderSegments.join("/"),
+        error: String(folderError?.message ?? folderError)
+      });
+      return rootFolderId;
+    }
+  };
+
+  let folderId = await resolveFolderId();
+
+  // ID подпапок берутся из кеша: если папку удалили, забываем путь и загружаем ещё раз в заново найденную
+  const withFolder = async (upload: (folderId: string) => Promise<StoredFile>): Promise<StoredFile> => {
+    try {
+      return await upload(folderId);
+    } catch (error) {
+      if (folderId === rootFolderId || getDriveErrorCode(error) !== "FOLDER_NOT_FOUND") {
+        throw error;
+      }
+      Logger.warn("Cached Google Drive folder not found, resolving layout again", {
+        path: folderSegments.join("/"),
+        folderId
+      });
+      forgetDriveFolderPath({ rootFolderId, segments: folderSegments });
+      folderId = await resolveFolderId();
+      return upload(folderId);
+    }
+  };
+
+  return {
+    id: "googleDrive",
+    location: `Google Drive (${authMode}): ${folderId}`,
+    uploadStream: accessToken
+      ? (upload) =>
+          withFolder((parentFolderId) =>
+            uploadStreamToDriveWithOAuth({
+              openStream: upload.openStream,
+              size: upload.size,
+              fileName: upload.fileName,
+              mimeType: upload.mimeType,
+              parentFolderId,
+              accessToken,
+              metadata: upload.metadata,
+              onProgress: upload.onProgress,
+              // Длинная загрузка может пережить токен: берём обновлённый (см. getValidUserDriveAccessToken)
+              refreshAccessToken: async () => (await getDriveClientForUser(userId)).accessToken
+            }).catch((error) => {
+              throw toDriveError(error, "oauth");
+            })
+          )
+      : undefined,
+    uploadFile: (upload) =>
+      withFolder((parentFolderId) =>
+        withDriveClient(
+          userId,
+          (client) =>
+            client.accessToken
+              ? uploadFileToDriveWithOAuth({
+                  filePath: upload.filePath,
+                  fileName: upload.fileName,
+                  mimeType: upload.mimeType,
+                  parentFolderId,
+                  accessToken: client.accessToken,
+                  metadata: upload.metadata
+                })
+              : uploadFileToDrive({
+                  filePath: upload.filePath,
+                  fileName: upload.fileName,
+                  mimeType: upload.mimeType,
+                  parentFolderId,
+                  metadata: upload.metadata
+                }),
+          { label: "uploadFile" }
+        )
+      ),
+    uploadBuffer: (upload) =>
+      withFolder((parentFolderId) =>
+        withDriveClient(
+          userId,
+          (client) =>
+            client.accessToken
+              ? uploadBufferToDriveWithOAuth({
+                  buffer: upload.buffer,
+                  fileName: upload.fileName,
+                  mimeType: upload.mimeType,
+                  parentFolderId,
+                  accessToken: client.accessToken,
+                  metadata: upload.metadata
+                })
+              : uploadVideoToDrive(
+                  upload.buffer,
+                  upload.mimeType,
+                  upload.fileName,
+                  parentFolderId,
+                  upload.metadata
+                ),
+          { label: "uploadBuffer" }
+        )
+      )
+  };
+}
@@ -0,0 +1,126 @@
+import { createReadStream, createWriteStream, promises as fs } from "fs";
+import * as path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { Logger } from "../utils/logger";
+import { MAX_FILE_NAME_ATTEMPTS, getFileNameCandidate, toStoragePathSegments } from "./paths";
+import type { StoredFile, VideoStorage } from "./types";
+
+/**
+ * Корень локального хранилища на сервере; без LOCAL_STORAGE_DIR хранилище недоступно
+ */
+export function getLocalStorageRoot(): string | undefined {
+  const dir = process.env.LOCAL_STORAGE_DIR?.trim();
+  return dir ? path.resolve(dir) : undefined;
+}
+
+/**
+ * Ссылка на файл, если каталог раздаётся веб-сервером (LOCAL_STORAGE_PUBLIC_URL)
+ */
+function getPublicUrl(relativePath: string): string | undefined {
+  const base = process.env.LOCAL_STORAGE_PUBLIC_URL?.trim().replace(/\/+$/, "");
+  if (!base) {
+    return undefined;
+  }
+  return `${base}/${relativePath.split("/").map(encodeURIComponent).join("/")}`;
+}
+
+/**
+ * Пишет файл через временное имя .part, чтобы незавершённая загрузка
+ * не выглядела готовым видео. Готовый файл публикуется жёсткой ссылкой:
+ * в отличие от rename она не заменяет существующий файл, и при совпадении
+ * имени берётся следующее свободное («video (2).mp4»).
+ * @returns Итоговое имя файла
+ */
+async function writeFileWithoutOverwrite(
+  folderPath: string,
+  fileName: string,
+  source: AsyncIterable<Buffer>,
+  onChunk?: (bytes: number) => void
+): Promise<string> {
+  await fs.mkdir(folderPath, { recursive: true });
+  const partPath = path.join(folderPath, `.${fileName}.${process.pid}.${Date.now()}.part`);
+
+  try {
+    await pipeline(
+      Readable.from(
+        (async function* () {
+          for await (const chunk of source) {
+            onChunk?.(chunk.length);
+            yield chunk;
+          }
+        })()
+      ),
+      createWriteStream(partPath)
+    );
+
+    for (let attempt = 1; attempt <= MAX_FILE_NAME_ATTEMPTS; attempt++) {
+      const candidate = getFileNameCandidate(fileName, attempt);
+      try {
+        await fs.link(partPath, path.join(folderPath, candidate));
+        return candidate;
+      } catch (error: any) {
+        if (error?.code !== "EEXIST") {
+          throw error;
+        }
+      }
+    }
+    throw new Error(
+      `LOCAL_STORAGE_FILE_EXISTS: Не удалось подобрать свободное имя для «${fileName}»`
+    );
+  } finally {
+    await fs.rm(partPath, { force: true }).catch(() => undefined);
+  }
+}
+
+/**
+ * Локальная папка на сервере:
+ * LOCAL_STORAGE_DIR / пользователь / канал / подпапка канала / подпапки по шаблону.
+ * Папки пользователя и канала не дают каналам писать друг другу в папки.
+ * Описание и свойства файла здесь не сохраняются — для них есть сопроводительные файлы.
+ */
+export function createLocalStorage(params: {
+  rootDir: string;
+  userId: string;
+  channelId: string;
+  channelPath?: string | null;
+  folderSegments: string[];
+}): VideoStorage {
+  const segments = toStoragePathSegments(
+    params.userId,
+    params.channelId,
+    params.channelPath,
+    ...params.folderSegments
+  );
+  const folderPath = path.join(params.rootDir, ...segments);
+
+  const store = async (
+    fileName: string,
+    source: AsyncIterable<Buffer>,
+    onChunk?: (bytes: number) => void
+  ): Promise<StoredFile> => {
+    const [safeName] = toStoragePathSegments(fileName.replace(/[\/\\]/g, "-"));
+    if (!safeName) {
+      throw new Error(`LOCAL_STORAGE_INVALID_FILE_NAME: Недопустимое имя файла «${fileName}»`);
+    }
+    const storedName = await writeFileWithoutOverwrite(folderPath, safeName, source, onChunk);
+    const relativePath = [...segments, storedName].join("/");
+    Logger.info("File saved to local storage", { path: relativePath });
+
+    return { fileId: relativePath, fileName: storedName, webViewLink: getPublicUrl(relativePath) };
+  };
+
+  return {
+    id: "local",
+    location: `Локальная папка: ${folderPath}`,
+    uploadStream: (upload) => {
+      let uploadedBytes = 0;
+      return store(upload.fileName, upload.openStream(0), (bytes) => {
+        uploadedBytes += bytes;
+        upload.onProgress?.({ uploadedBytes, totalBytes: upload.size });
+      });
+    },
+    uploadFile: (upload) => store(upload.fileName, createReadStream(upload.filePath)),
+    uploadBuffer: (upload) => store(upload.fileName, Readable.from([upload.buffer]))
+  };
+}
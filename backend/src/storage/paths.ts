@@ -0,0 +1,28 @@
+/**
+ * Части пути внутри хранилища (подпапка канала, подпапки по шаблону).
+ * Пустые части, «.» и «..» отбрасываются, чтобы путь не вышел за корень хранилища.
+ */
+export function toStoragePathSegments(...parts: Array<string | null | undefined>): string[] {
+  return parts
+    .flatMap((part) => (part ?? "").split(/[\/\\]/))
+    .map((segment) => segment.replace(/[\u0000-\u001f]/g, "").trim())
+    .filter((segment) => segment.length > 0 && segment !== "." && segment !== "..");
+}
+
+// Сколько вариантов имени перебираем, прежде чем сдаться
+export const MAX_FILE_NAME_ATTEMPTS = 100;
+
+/**
+ * Имя файла для попытки attempt: «video.mp4», «video (2).mp4», «video (3).mp4»…
+ * Локальное хранилище и S3 не допускают двух файлов с одним именем, а перезаписывать
+ * чужое видео нельзя — поэтому при совпадении имени берётся следующий вариант.
+ */
+export function getFileNameCandidate(fileName: string, attempt: number): string {
+  if (attempt <= 1) {
+    return fileName;
+  }
+  const dotIndex = fileName.lastIndexOf(".");
+  return dotIndex > 0
+    ? `${fileName.slice(0, dotIndex)} (${attempt})${fileName.slice(dotIndex)}`
+    : `${fileName} (${attempt})`;
+}
@@ -0,0 +1,141 @@
+import { Logger } from "../utils/logger";
+import { createGoogleDriveStorage, getGoogleDriveRootFolderId } from "./googleDriveStorage";
+import { createLocalStorage, getLocalStorageRoot } from "./localStorage";
+import { createS3Storage, getS3StorageConfig } from "./s3Storage";
+import type { StorageBackendId, StorageBackendInfo, VideoStorage } from "./types";
+
+export const DEFAULT_STORAGE_BACKEND_ID: StorageBackendId = "googleDrive";
+
+const STORAGE_BACKEND_IDS: StorageBackendId[] = ["googleDrive", "local", "s3"];
+
+/**
+ * Настройки хранилища в документе канала
+ */
+export interface ChannelStorageData {
+  storageBackend?: string | null;
+  // Подпапка канала в локальном хранилище или префикс ключей в S3
+  storagePath?: string | null;
+  googleDriveFolderId?: string | null;
+}
+
+/**
+ * Хранилище, выбранное в канале. Пустое или неизвестное значение — Google Drive,
+ * чтобы каналы, созданные до появления выбора, продолжали работать.
+ */
+export function getChannelStorageBackendId(
+  channelData: Pick<ChannelStorageData, "storageBackend"> | undefined
+): StorageBackendId {
+  const id = channelData?.storageBackend;
+  return STORAGE_BACKEND_IDS.includes(id as StorageBackendId)
+    ? (id as StorageBackendId)
+    : DEFAULT_STORAGE_BACKEND_ID;
+}
+
+/**
+ * Есть ли у канала, куда складывать видео. Папка нужна только Google Drive:
+ * локальное хранилище и S3 настраиваются на сервере (иначе загрузка вернёт *_NOT_CONFIGURED).
+ */
+export function hasChannelStorageDestination(
+  channelData: Pick<ChannelStorageData, "storageBackend" | "googleDriveFolderId"> | undefined
+): boolean {
+  if (getChannelStorageBackendId(channelData) !== "googleDrive") {
+    return true;
+  }
+  return !!getGoogleDriveRootFolderId(channelData ?? {});
+}
+
+/**
+ * Список хранилищ для выбора в настройках канала
+ */
+export function listStorageBackends(): StorageBackendInfo[] {
+  const s3Config = getS3StorageConfig();
+  return [
+    {
+      id: "googleDrive",
+      name: "Google Drive",
+      description: "Папка Google Drive канала",
+      // Папку можно указать в самом канале, поэтому Drive всегда доступен
+      configured: true,
+      isDefault: true
+    },
+    {
+      id: "local",
+      name: "Папка на сервере",
+      description: "Каталог LOCAL_STORAGE_DIR на сервере",
+      configured: !!getLocalStorageRoot(),
+      isDefault: false
+    },
+    {
+      id: "s3",
+      name: "S3-совместимое хранилище",
+      description: s3Config
+        ? `Бакет ${s3Config.bucket}`
+        : "AWS S3, MinIO и другие S3-совместимые хранилища",
+      configured: !!s3Config,
+      isDefault: false
+    }
+  ];
+}
+
+/**
+ * Создаёт хранилище канала для одной загрузки
+ *
+ * @param folderSegments - Подпапки по шаблону канала (см. getChannelDriveFolderSegments)
+ * @throws Error *_NOT_CONFIGURED, если выбранное хранилище не настроено
+ */
+export async function createChannelStorage(
+  channelData: ChannelStorageData,
+  params: { userId: string; channelId: string; folderSegments: string[] }
+): Promise<VideoStorage> {
+  const backendId = getChannelStorageBackendId(channelData);
+
+  switch (backendId) {
+    case "local": {
+      const rootDir = getLocalStorageRoot();
+      if (!rootDir) {
+        throw new Error(
+          "LOCAL_STORAGE_NOT_CONFIGURED: Локальное хранилище не настроено. Задайте LOCAL_STORAGE_DIR в backend/.env"
+        );
+      }
+      return createLocalStorage({
+        rootDir,
+        userId: params.userId,
+        channelId: params.channelId,
+        channelPath: channelData.storagePath,
+        folderSegments: params.folderSegments
+      });
+    }
+    case "s3": {
+      const config = getS3StorageConfig();
+      if (!config) {
+        throw new Error(
+          "S3_STORAGE_NOT_CONFIGURED: S3-хранилище не настроено. Задайте S3_BUCKET, S3_ACCESS_KEY_ID и S3_SECRET_ACCESS_KEY в backend/.env"
+        );
+      }
+      return createS3Storage({
+        config,
+        userId: params.userId,
+        channelId: params.channelId,
+        channelPath: channelData.storagePath,
+        folderSegments: params.folderSegments
+      });
+    }
+    default: {
+      const rootFolderId = getGoogleDriveRootFolderId(channelData);
+      if (!rootFolderId) {
+        throw new Error(
+          "GOOGLE_DRIVE_FOLDER_NOT_CONFIGURED: Не указана папка для загрузки. Укажите googleDriveFolderId в настройках канала или задайте GOOGLE_DRIVE_DEFAULT_PARENT в backend/.env"
+        );
+      }
+      Logger.info("Determining Google Drive folder", {
+        folderIdFromChannel: channelData.googleDriveFolderId?.trim() || "not set",
+        rootFolderId
+      });
+      return createGoogleDriveStorage({
+        userId: params.userId,
+        rootFolderId,
+        folderSegments: params.folderSegments
+      });
+    }
+  }
+}
@@ -0,0 +1,336 @@
+import { createHash, createHmac } from "crypto";
+import { createReadStream, promises as fs } from "fs";
+import * as http from "http";
+import * as https from "https";
+import { Readable } from "stream";
+import { Logger } from "../utils/logger";
+import { MAX_FILE_NAME_ATTEMPTS, getFileNameCandidate, toStoragePathSegments } from "./paths";
+import type { StorageFileMetadata, StoredFile, VideoStorage } from "./types";
+
+// S3 ограничивает пользовательские метаданные объекта 2 КБ
+const USER_METADATA_MAX_BYTES = 2048;
+// Соединение без активности дольше этого времени считается оборванным
+const REQUEST_IDLE_TIMEOUT_MS = 2 * 60 * 1000;
+const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
+
+/**
+ * Настройки S3-совместимого хранилища (AWS S3, MinIO, Yandex Object Storage и т.п.)
+ */
+export interface S3StorageConfig {
+  endpoint: URL;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // bucket в пути (http://host/bucket/key), а не в поддомене — нужно для MinIO
+  forcePathStyle: boolean;
+  publicUrl?: string;
+}
+
+/**
+ * Читает настройки из .env; без бакета и ключей хранилище недоступно
+ */
+export function getS3StorageConfig(): S3StorageConfig | null {
+  const bucket = process.env.S3_BUCKET?.trim();
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID?.trim();
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY?.trim();
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    return null;
+  }
+
+  const region = process.env.S3_REGION?.trim() || "us-east-1";
+  const customEndpoint = process.env.S3_ENDPOINT?.trim();
+
+  try {
+    return {
+      endpoint: new URL(customEndpoint || `https://s3.${region}.amazonaws.com`),
+      region,
+      bucket,
+      accessKeyId,
+      secretAccessKey,
+      // Для своего сервера (MinIO) по умолчанию путь, для AWS — поддомен
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+        ? process.env.S3_FORCE_PATH_STYLE === "true"
+        : !!customEndpoint,
+      publicUrl: process.env.S3_PUBLIC_URL?.trim().replace(/\/+$/, "") || undefined
+    };
+  } catch (error) {
+    Logger.error("s3Storage: invalid S3_ENDPOINT", {
+      endpoint: customEndpoint,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return null;
+  }
+}
+
+/**
+ * URI-кодирование по правилам AWS Signature V4 (RFC 3986, «/» в ключе не кодируется)
+ */
+function encodeS3Key(key: string): string {
+  return key
+    .split("/")
+    .map((part) =>
+      encodeURIComponent(part).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+    )
+    .join("/");
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data, "utf8").digest();
+}
+
+export function getObjectUrl(config: S3StorageConfig, key: string): URL {
+  const url = new URL(config.endpoint.toString());
+  const basePath = url.pathname.replace(/\/+$/, "");
+  if (config.forcePathStyle) {
+    url.pathname = `${basePath}/${config.bucket}/${encodeS3Key(key)}`;
+  } else {
+    url.hostname = `${config.bucket}.${url.hostname}`;
+    url.pathname = `${basePath}/${encodeS3Key(key)}`;
+  }
+  return url;
+}
+
+/**
+ * Подписывает запрос по AWS Signature V4. Подписываются все переданные заголовки.
+ */
+export function signRequest(params: {
+  config: S3StorageConfig;
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  payloadHash: string;
+  now?: Date;
+}): Record<string, string> {
+  const { config, method, url, payloadHash } = params;
+  const amzDate = (params.now ?? new Date()).toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+
+  const headers: Record<string, string> = {
+    ...Object.fromEntries(
+      Object.entries(params.headers).map(([name, value]) => [name.toLowerCase(), value.trim()])
+    ),
+    host: url.host,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate
+  };
+  const signedHeaderNames = Object.keys(headers).sort();
+  const canonicalHeaders = signedHeaderNames.map((name) => `${name}:${headers[name]}\n`).join("");
+  const signedHeaders = signedHeaderNames.join(";");
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    url.searchParams.toString(),
+    canonicalHeaders,
+    signedHeaders,
+    payloadHash
+  ].join("\n");
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+
+  const signingKey = ["s3", "aws4_request"].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region)
+  );
+  const signature = createHmac("sha256", signingKey).update(stringToSign, "utf8").digest("hex");
+
+  return {
+    ...headers,
+    authorization:
+      `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${signedHeaders}, Signature=${signature}`
+  };
+}
+
+/**
+ * Свойства файла как x-amz-meta-*. Значения кодируются encodeURIComponent:
+ * заголовки HTTP допускают только ASCII. Описание не передаётся — оно длиннее лимита S3.
+ */
+function toUserMetadataHeaders(metadata?: StorageFileMetadata): Record<string, string> {
+  const headers: Record<string, string> = {};
+  let totalBytes = 0;
+  for (const [key, value] of Object.entries(metadata?.appProperties ?? {})) {
+    const name = key.toLowerCase().replace(/[^a-z0-9-]/g, "-");
+    const encoded = encodeURIComponent(value);
+    totalBytes += name.length + encoded.length;
+    if (totalBytes > USER_METADATA_MAX_BYTES) {
+      break;
+    }
+    headers[`x-amz-meta-${name}`] = encoded;
+  }
+  return headers;
+}
+
+/**
+ * Объект с таким ключом уже есть (условный PUT отклонён)
+ */
+class S3ObjectExistsError extends Error {}
+
+/**
+ * PUT объекта одним запросом. Тело-поток отправляется с известной длиной
+ * и неподписанным содержимым (UNSIGNED-PAYLOAD), буфер — с хешем содержимого.
+ * If-None-Match: * не даёт перезаписать существующий объект.
+ * @throws S3ObjectExistsError, если ключ занят
+ */
+async function putObject(params: {
+  config: S3StorageConfig;
+  key: string;
+  body: Buffer | Readable;
+  size: number;
+  mimeType: string;
+  metadata?: StorageFileMetadata;
+}): Promise<void> {
+  const { config, key, body, size, mimeType } = params;
+  const url = getObjectUrl(config, key);
+  const headers = signRequest({
+    config,
+    method: "PUT",
+    url,
+    headers: {
+      "content-type": mimeType,
+      "content-length": String(size),
+      "if-none-match": "*",
+      ...toUserMetadataHeaders(params.metadata)
+    },
+    payloadHash: Buffer.isBuffer(body) ? sha256Hex(body) : UNSIGNED_PAYLOAD
+  });
+
+  const transport = url.protocol === "http:" ? http : https;
+
+  await new Promise<void>((resolve, reject) => {
+    const req = transport.request(url, { method: "PUT", headers }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on("data", (chunk: Buffer) => chunks.push(chunk));
+      res.on("error", reject);
+      res.on("end", () => {
+        const status = res.statusCode ?? 0;
+        if (status >= 200 && status < 300) {
+          resolve();
+          return;
+        }
+        if (status === 412) {
+          reject(new S3ObjectExistsError(`S3_OBJECT_EXISTS: ${key}`));
+          return;
+        }
+        const responseBody = Buffer.concat(chunks).toString("utf8");
+        const code = responseBody.match(/<Code>([^<]+)<\/Code>/)?.[1];
+        const message = responseBody.match(/<Message>([^<]+)<\/Message>/)?.[1];
+        reject(
+          new Error(
+            `S3_UPLOAD_FAILED: HTTP ${status}${code ? ` ${code}` : ""}${message ? `: ${message}` : ""}`
+          )
+        );
+      });
+    });
+
+    req.setTimeout(REQUEST_IDLE_TIMEOUT_MS, () => {
+      req.destroy(new Error("S3_UPLOAD_FAILED: Превышено время ожидания ответа S3"));
+    });
+    req.on("error", reject);
+
+    if (Buffer.isBuffer(body)) {
+      req.end(body);
+    } else {
+      body.on("error", (error) => req.destroy(error));
+      body.pipe(req);
+    }
+  });
+}
+
+/**
+ * S3-совместимый бакет: ключ объекта —
+ * пользователь / канал / префикс канала / подпапки по шаблону / имя файла.
+ * Существующие объекты не перезаписываются: при совпадении ключа берётся имя «video (2).mp4».
+ */
+export function createS3Storage(params: {
+  config: S3StorageConfig;
+  userId: string;
+  channelId: string;
+  channelPath?: string | null;
+  folderSegments: string[];
+}): VideoStorage {
+  const { config } = params;
+  const prefix = toStoragePathSegments(
+    params.userId,
+    params.channelId,
+    params.channelPath,
+    ...params.folderSegments
+  ).join("/");
+
+  // openBody вызывается на каждую попытку: поток после неудачного PUT уже прочитан
+  const store = async (
+    fileName: string,
+    openBody: () => Buffer | Readable,
+    size: number,
+    mimeType: string,
+    metadata?: StorageFileMetadata
+  ): Promise<StoredFile> => {
+    const safeName = fileName.replace(/[\/\\]/g, "-");
+
+    for (let attempt = 1; attempt <= MAX_FILE_NAME_ATTEMPTS; attempt++) {
+      const storedName = getFileNameCandidate(safeName, attempt);
+      const key = [prefix, storedName].filter(Boolean).join("/");
+      try {
+        await putObject({ config, key, body: openBody(), size, mimeType, metadata });
+      } catch (error) {
+        if (error instanceof S3ObjectExistsError) {
+          continue;
+        }
+        throw error;
+      }
+
+      Logger.info("Object uploaded to S3", { bucket: config.bucket, key, size });
+      return {
+        fileId: key,
+        fileName: storedName,
+        webViewLink: config.publicUrl ? `${config.publicUrl}/${encodeS3Key(key)}` : undefined
+      };
+    }
+
+    throw new Error(`S3_OBJECT_EXISTS: Не удалось подобрать свободное имя для «${fileName}»`);
+  };
+
+  return {
+    id: "s3",
+    location: `S3: ${config.bucket}/${prefix}`,
+    uploadStream: (upload) => {
+      const openBody = () => {
+        let uploadedBytes = 0;
+        const source = upload.openStream(0);
+        return Readable.from(
+          (async function* () {
+            for await (const chunk of source) {
+              uploadedBytes += chunk.length;
+              upload.onProgress?.({ uploadedBytes, totalBytes: upload.size });
+              yield chunk;
+            }
+          })()
+        );
+      };
+      return store(upload.fileName, openBody, upload.size, upload.mimeType, upload.metadata);
+    },
+    uploadFile: async (upload) => {
+      const { size } = await fs.stat(upload.filePath);
+      return store(
+        upload.fileName,
+        () => createReadStream(upload.filePath),
+        size,
+        upload.mimeType,
+        upload.metadata
+      );
+    },
+    uploadBuffer: (upload) =>
+      store(
+        upload.fileName,
+        () => upload.buffer,
+        upload.buffer.length,
+        upload.mimeType,
+        upload.metadata
+      )
+  };
+}
@@ -0,0 +1,69 @@
+import type { DriveFileMetadata } from "../services/googleDriveOAuth";
+
+/**
+ * Куда канал складывает готовые видео
+ */
+export type StorageBackendId = "googleDrive" | "local" | "s3";
+
+/**
+ * Описание и свойства файла. Google Drive хранит их в description и appProperties,
+ * S3 — в пользовательских метаданных объекта (x-amz-meta-*).
+ */
+export type StorageFileMetadata = DriveFileMetadata;
+
+/**
+ * Загруженный файл. fileId — ID в Drive, ключ объекта в S3 или путь относительно корня
+ * локального хранилища.
+ */
+export interface StoredFile {
+  fileId: string;
+  // Итоговое имя, если хранилище изменило его, чтобы не перезаписать существующий файл
+  fileName?: string;
+  webViewLink?: string;
+  webContentLink?: string;
+}
+
+export interface StorageUploadProgress {
+  uploadedBytes: number;
+  totalBytes: number;
+}
+
+interface StorageUploadParams {
+  fileName: string;
+  mimeType: string;
+  metadata?: StorageFileMetadata;
+}
+
+/**
+ * Хранилище видео канала. Создаётся на одну загрузку: папка назначения
+ * (с подпапками по шаблону канала) уже определена.
+ */
+export interface VideoStorage {
+  id: StorageBackendId;
+  // Где окажутся файлы, для логов: «Google Drive: <folderId>», «S3: bucket/prefix»
+  location: string;
+  /**
+   * Потоковая загрузка без временного файла. Отсутствует, если хранилище
+   * сейчас так не умеет (например, у пользователя нет OAuth-токена Google Drive).
+   */
+  uploadStream?(
+    params: StorageUploadParams & {
+      openStream: (offset: number) => AsyncIterable<Buffer>;
+      size: number;
+      onProgress?: (progress: StorageUploadProgress) => void;
+    }
+  ): Promise<StoredFile>;
+  uploadFile(params: StorageUploadParams & { filePath: string }): Promise<StoredFile>;
+  uploadBuffer(params: StorageUploadParams & { buffer: Buffer }): Promise<StoredFile>;
+}
+
+/**
+ * Описание хранилища для интерфейса
+ */
+export interface StorageBackendInfo {
+  id: StorageBackendId;
+  name: string;
+  description?: string;
+  configured: boolean;
+  isDefault: boolean;
+}
@@ -9,16 +9,10 @@ if (!apiId || !apiHash) {
   throw new Error("TELEGRAM_API_ID and TELEGRAM_API_HASH must be set");
 }
 
-export async function createTelegramClientFromStringSession(
-  stringSession: string
-): Promise<TelegramClient> {
-  const session = new StringSession(stringSession);
-  const client = new TelegramClient(session, apiId, apiHash, {
-    connectionRetries: 5,
-    // Используем TCP для большей стабильности
-    useWSS: false
-  });
-  
+/**
+ * Подключает клиент к Telegram (или переподключает после обрыва)
+ */
+export async function connectTelegramClient(client: TelegramClient): Promise<void> {
   // Увеличиваем таймаут подключения до 30 секунд
   try {
     await Promise.race([
@@ -31,7 +25,20 @@ export async function createTelegramClientFromStringSession(
     Logger.error("Failed to connect Telegram client", error);
     throw error;
   }
-  
+}
+
+export async function createTelegramClientFromStringSession(
+  stringSession: string
+): Promise<TelegramClient> {
+  const session = new StringSession(stringSession);
+  const client = new TelegramClient(session, apiId, apiHash, {
+    connectionRetries: 5,
+    // Используем TCP для большей стабильности
+    useWSS: false
+  });
+
+  await connectTelegramClient(client);
+
   return client;
 }
 
@@ -41,6 +48,8 @@ type TempClientState = {
   createdAt: number;
 };
 
+// Клиенты незавершённых входов, открытые на этом инстансе.
+// Основное состояние входа хранится в Firestore (telegramLoginSessions).
 const tempStates = new Map<string, TempClientState>();
 
 export async function createTempClientState(stateId: string, phone: string) {
@@ -69,6 +78,29 @@ export function getTempClientState(stateId: string): TempClientState | null {
   return tempStates.get(stateId) ?? null;
 }
 
+/**
+ * Возвращает клиент незавершённого входа. Если вход начат на другом инстансе,
+ * клиент восстанавливается из сохранённой временной сессии (тот же ключ авторизации и DC,
+ * поэтому phoneCodeHash остаётся действительным).
+ */
+export async function restoreTempClientState(
+  stateId: string,
+  phone: string,
+  stringSession: string
+): Promise<TempClientState> {
+  const existing = tempStates.get(stateId);
+  if (existing) {
+    return existing;
+  }
+
+  const client = await createTelegramClientFromStringSession(stringSession);
+  const state = { client, phone, createdAt: Date.now() };
+  tempStates.set(stateId, state);
+
+  Logger.info("Restored temp Telegram client from stored login session", { stateId });
+  return state;
+}
+
 export function deleteTempClientState(stateId: string): void {
   const state = tempStates.get(stateId);
   if (state) {
@@ -81,4 +113,20 @@ export function deleteTempClientState(stateId: string): void {
   }
 }
 
+/**
+ * Отключает клиенты незавершённых входов старше maxAgeMs
+ * @returns Количество отключённых клиентов
+ */
+export function sweepTempClientStates(maxAgeMs: number): number {
+  const threshold = Date.now() - maxAgeMs;
+  let removed = 0;
 
+  for (const [stateId, state] of tempStates) {
+    if (state.createdAt < threshold) {
+      deleteTempClientState(stateId);
+      removed++;
+    }
+  }
+
+  return removed;
+}
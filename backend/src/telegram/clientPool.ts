@@ -0,0 +1,260 @@
+import { createHash } from "crypto";
+import type { TelegramClient } from "telegram";
+import { Logger } from "../utils/logger";
+import { connectTelegramClient, createTelegramClientFromStringSession } from "./client";
+import { isTelegramSessionRevokedError } from "../services/sendPromptFromUserToSyntx";
+
+// Через сколько минут простоя клиент отключается и удаляется из пула
+const IDLE_TIMEOUT_MS = (Number(process.env.TELEGRAM_CLIENT_IDLE_TIMEOUT_MINUTES) || 10) * 60 * 1000;
+// Как часто проверяем соединения (переподключение и отключение простаивающих)
+const KEEPALIVE_INTERVAL_MS =
+  (Number(process.env.TELEGRAM_CLIENT_KEEPALIVE_SECONDS) || 60) * 1000;
+
+type PooledClient = {
+  key: string;
+  client: TelegramClient;
+  // Сколько операций (и долгоживущих подписчиков) сейчас используют клиент
+  refCount: number;
+  lastUsedAt: number;
+  reconnecting: Promise<void> | null;
+};
+
+// Один подключённый клиент на Telegram-сессию
+const pool = new Map<string, PooledClient>();
+// Клиенты в процессе создания, чтобы параллельные вызовы не открывали второе соединение
+const creating = new Map<string, Promise<PooledClient>>();
+
+// Кому сообщить, что клиент удалён из пула (слушатели, удерживающие клиент)
+const evictionHandlers: Array<(client: TelegramClient) => void> = [];
+
+let keepAliveTimer: NodeJS.Timeout | null = null;
+let shuttingDown = false;
+
+/**
+ * Ключ пула — хеш сессии: сама строка сессии не хранится в ключах и не попадает в логи
+ */
+function getPoolKey(stringSession: string): string {
+  return createHash("sha256").update(stringSession).digest("hex").slice(0, 16);
+}
+
+async function ensureConnected(entry: PooledClient): Promise<void> {
+  if (entry.client.connected) {
+    return;
+  }
+
+  if (!entry.reconnecting) {
+    Logger.info("telegramClientPool: reconnecting client", { key: entry.key });
+    entry.reconnecting = connectTelegramClient(entry.client).finally(() => {
+      entry.reconnecting = null;
+    });
+  }
+  await entry.reconnecting;
+}
+
+async function disconnectEntry(entry: PooledClient, reason: string): Promise<void> {
+  if (pool.get(entry.key) !== entry) {
+    return;
+  }
+  pool.delete(entry.key);
+
+  // Удерживающие клиент подписчики должны отпустить его: переподключать его больше некому
+  for (const handler of evictionHandlers) {
+    try {
+      handler(entry.client);
+    } catch (error) {
+      Logger.warn("telegramClientPool: eviction handler failed", {
+        key: entry.key,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  try {
+    await entry.client.disconnect();
+  } catch {
+    // ignore
+  }
+  Logger.info("telegramClientPool: client removed", { key: entry.key, reason });
+}
+
+async function acquire(stringSession: string): Promise<PooledClient> {
+  if (shuttingDown) {
+    throw new Error("TELEGRAM_CLIENT_POOL_SHUTTING_DOWN");
+  }
+
+  const key = getPoolKey(stringSession);
+  const existing = pool.get(key);
+  if (existing) {
+    existing.refCount++;
+    existing.lastUsedAt = Date.now();
+    try {
+      await ensureConnected(existing);
+    } catch (error) {
+      existing.refCount--;
+      throw error;
+    }
+    return existing;
+  }
+
+  let pending = creating.get(key);
+  if (!pending) {
+    pending = createTelegramClientFromStringSession(stringSession)
+      .then((client) => {
+        const entry: PooledClient = {
+          key,
+          client,
+          refCount: 0,
+          lastUsedAt: Date.now(),
+          reconnecting: null
+        };
+        pool.set(key, entry);
+        Logger.info("telegramClientPool: client connected", { key, poolSize: pool.size });
+        return entry;
+      })
+      .finally(() => creating.delete(key));
+    creating.set(key, pending);
+  }
+
+  const entry = await pending;
+  entry.refCount++;
+  entry.lastUsedAt = Date.now();
+  return entry;
+}
+
+function release(entry: PooledClient): void {
+  entry.refCount = Math.max(0, entry.refCount - 1);
+  entry.lastUsedAt = Date.now();
+}
+
+/**
+ * Выполняет операцию на общем подключённом клиенте сессии.
+ * Клиент не отключается после операции; при отозванной сессии он удаляется из пула.
+ */
+export async function withTelegramClient<T>(
+  stringSession: string,
+  operation: (client: TelegramClient) => Promise<T>
+): Promise<T> {
+  const entry = await acquire(stringSession);
+  try {
+    return await operation(entry.client);
+  } catch (error) {
+    if (isTelegramSessionRevokedError(error)) {
+      await disconnectEntry(entry, "session revoked");
+    }
+    throw error;
+  } finally {
+    release(entry);
+  }
+}
+
+/**
+ * Берёт клиент для долгоживущего использования (подписка на события).
+ * Пока клиент удерживается, он не отключается по простою.
+ * Каждому вызову должен соответствовать releaseTelegramClient.
+ */
+export async function retainTelegramClient(stringSession: string): Promise<TelegramClient> {
+  const entry = await acquire(stringSession);
+  return entry.client;
+}
+
+/**
+ * Отпускает клиент, взятый через retainTelegramClient
+ */
+export function releaseTelegramClient(stringSession: string): void {
+  const entry = pool.get(getPoolKey(stringSession));
+  if (entry) {
+    release(entry);
+  }
+}
+
+/**
+ * Отключает клиент сессии и удаляет его из пула (пользователь отключил Telegram).
+ * Операции, которые сейчас используют клиент, завершатся ошибкой.
+ */
+export async function evictTelegramClient(stringSession: string): Promise<void> {
+  const entry = pool.get(getPoolKey(stringSession));
+  if (entry) {
+    await disconnectEntry(entry, "evicted");
+  }
+}
+
+/**
+ * Подписка на удаление клиента из пула (отозванная сессия, отключение Telegram, остановка сервера)
+ */
+export function onTelegramClientEvicted(handler: (client: TelegramClient) => void): void {
+  evictionHandlers.push(handler);
+}
+
+/**
+ * Один проход обслуживания пула: отключает простаивающие клиенты
+ * и переподключает используемые, если соединение оборвалось
+ */
+async function runKeepAliveTick(): Promise<void> {
+  const now = Date.now();
+
+  for (const entry of Array.from(pool.values())) {
+    if (entry.refCount === 0 && now - entry.lastUsedAt >= IDLE_TIMEOUT_MS) {
+      await disconnectEntry(entry, "idle");
+      continue;
+    }
+
+    try {
+      await ensureConnected(entry);
+    } catch (error) {
+      Logger.warn("telegramClientPool: reconnect failed, will retry", {
+        key: entry.key,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
+
+/**
+ * Запускает обслуживание пула (keep-alive и отключение простаивающих клиентов)
+ */
+export function startTelegramClientPool(): void {
+  if (keepAliveTimer) {
+    return;
+  }
+
+  keepAliveTimer = setInterval(() => {
+    void runKeepAliveTick();
+  }, KEEPALIVE_INTERVAL_MS);
+
+  Logger.info("telegramClientPool: started", {
+    idleTimeoutMs: IDLE_TIMEOUT_MS,
+    keepAliveIntervalMs: KEEPALIVE_INTERVAL_MS
+  });
+}
+
+/**
+ * Отключает все клиенты при остановке сервера. Новые операции после этого отклоняются.
+ */
+export async function shutdownTelegramClientPool(): Promise<void> {
+  shuttingDown = true;
+  if (keepAliveTimer) {
+    clearInterval(keepAliveTimer);
+    keepAliveTimer = null;
+  }
+
+  await Promise.all(
+    Array.from(pool.values()).map((entry) => disconnectEntry(entry, "shutdown"))
+  );
+  Logger.info("telegramClientPool: shut down");
+}
+
+/**
+ * Состояние пула (для отладочного эндпоинта)
+ */
+export function getTelegramClientPoolStats() {
+  const now = Date.now();
+  return {
+    size: pool.size,
+    clients: Array.from(pool.values()).map((entry) => ({
+      key: entry.key,
+      connected: !!entry.client.connected,
+      refCount: entry.refCount,
+      idleMs: now - entry.lastUsedAt
+    }))
+  };
+}
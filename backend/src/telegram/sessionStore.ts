@@ -1,9 +1,15 @@
 import fs from "fs";
 import path from "path";
 import { encrypt, decrypt } from "../crypto/aes";
+import { telegramAccountRepository } from "../repositories/telegramAccountRepo";
+import { Logger } from "../utils/logger";
 
 const SESSION_FILE = path.join(process.cwd(), "telegram-session.enc");
 
+// Глобальная сессия из файла (npm run dev:login) используется только если это явно разрешено:
+// иначе все пользователи отправляли бы сообщения от имени одного Telegram-аккаунта
+const ALLOW_GLOBAL_SESSION_FALLBACK = process.env.TELEGRAM_ALLOW_GLOBAL_SESSION_FALLBACK === "true";
+
 export function saveSessionString(session: string): void {
   const encrypted = encrypt(session);
   fs.writeFileSync(SESSION_FILE, encrypted, { encoding: "utf8" });
@@ -17,8 +23,27 @@ export function loadSessionString(): string | null {
   return decrypt(encrypted);
 }
 
+/**
+ * Возвращает Telegram-сессию пользователя (владельца канала).
+ * Если пользователь не подключил Telegram, а TELEGRAM_ALLOW_GLOBAL_SESSION_FALLBACK=true,
+ * используется глобальная сессия из файла.
+ * @returns Строка сессии или null, если сессии нет
+ */
+export async function resolveSessionStringForUser(userId: string): Promise<string | null> {
+  if (userId) {
+    const account = await telegramAccountRepository.findActiveByUserId(userId);
+    if (account) {
+      return decrypt(account.sessionEncrypted);
+    }
+  }
 
+  if (ALLOW_GLOBAL_SESSION_FALLBACK) {
+    const globalSession = loadSessionString();
+    if (globalSession) {
+      Logger.info("resolveSessionStringForUser: using global session fallback", { userId });
+    }
+    return globalSession;
+  }
 
-
-
-
+  return null;
+}
@@ -0,0 +1,224 @@
+import type { TelegramClient } from "telegram";
+import { NewMessage, type NewMessageEvent } from "telegram/events";
+import { Logger } from "../utils/logger";
+import {
+  onTelegramClientEvicted,
+  releaseTelegramClient,
+  retainTelegramClient
+} from "./clientPool";
+import { resolveSessionStringForUser } from "./sessionStore";
+import { findPendingCorrelations } from "../repositories/promptCorrelationRepo";
+import { processIncomingMessage } from "../services/promptCorrelation";
+import { getConfiguredGenerationProviders } from "../providers/registry";
+import type { GenerationProvider } from "../providers/types";
+
+// Слушатель отключается явно; без него видео ищется по таймауту autoDownloadDelayMinutes
+const LISTENER_ENABLED = process.env.ENABLE_SYNTX_LISTENER !== "false";
+// Как часто проверяем, не пора ли отключить слушателей без ожидающих видео промптов
+const IDLE_CHECK_INTERVAL_MS = 60 * 1000;
+
+type ProviderSubscription = {
+  handler: (event: NewMessageEvent) => Promise<void>;
+  eventBuilder: NewMessage;
+};
+
+type SyntxListener = {
+  client: TelegramClient;
+  stringSession: string;
+  // По подписке на чат каждого настроенного провайдера
+  subscriptions: ProviderSubscription[];
+};
+
+// Один долгоживущий клиент на пользователя, у которого есть промпты, ожидающие видео
+const listeners = new Map<string, SyntxListener>();
+// Подключения в процессе, чтобы параллельные вызовы не открывали второй клиент
+const starting = new Map<string, Promise<void>>();
+
+let idleTimer: NodeJS.Timeout | null = null;
+
+async function startListener(userId: string): Promise<void> {
+  const stringSession = await resolveSessionStringForUser(userId);
+  if (!stringSession) {
+    Logger.warn("syntxListener: no Telegram session for user, listener not started", { userId });
+    return;
+  }
+
+  // Клиент из общего пула удерживается, пока слушатель работает
+  const client = await retainTelegramClient(stringSession);
+  try {
+    // Запрос к API запускает приём обновлений и заодно проверяет сессию
+    await client.getMe();
+  } catch (error) {
+    releaseTelegramClient(stringSession);
+    throw error;
+  }
+
+  const providers = getConfiguredGenerationProviders();
+  const subscriptions = providers.map((provider) => subscribe(client, userId, provider));
+  listeners.set(userId, { client, stringSession, subscriptions });
+
+  Logger.info("syntxListener: listening for generation bot messages", {
+    userId,
+    providers: providers.map((provider) => provider.id)
+  });
+}
+
+function subscribe(
+  client: TelegramClient,
+  userId: string,
+  provider: GenerationProvider
+): ProviderSubscription {
+  const handler = async (event: NewMessageEvent) => {
+    const message = event.message;
+    try {
+      await processIncomingMessage(userId, provider, message);
+    } catch (error) {
+      Logger.error("syntxListener: failed to handle incoming message", {
+        userId,
+        providerId: provider.id,
+        messageId: message?.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+  const eventBuilder = new NewMessage({ chats: [provider.chatId!], incoming: true });
+
+  client.addEventHandler(handler, eventBuilder);
+  return { handler, eventBuilder };
+}
+
+function hasConfiguredProviders(): boolean {
+  return getConfiguredGenerationProviders().length > 0;
+}
+
+/**
+ * Останавливает слушателя пользователя и отпускает его клиент
+ */
+export function stopSyntxListener(userId: string): void {
+  const listener = listeners.get(userId);
+  if (!listener) {
+    return;
+  }
+
+  listeners.delete(userId);
+  for (const { handler, eventBuilder } of listener.subscriptions) {
+    listener.client.removeEventHandler(handler, eventBuilder);
+  }
+  releaseTelegramClient(listener.stringSession);
+
+  Logger.info("syntxListener: listener stopped", { userId });
+}
+
+/**
+ * Гарантирует, что для пользователя слушаются чаты ботов-генераторов.
+ * Вызывается при отправке промпта; ошибки только логируются —
+ * пропущенные видео будут сопоставлены при скачивании по таймауту.
+ */
+export async function ensureSyntxListener(userId: string): Promise<void> {
+  if (!LISTENER_ENABLED || !hasConfiguredProviders() || listeners.has(userId)) {
+    return;
+  }
+
+  let pending = starting.get(userId);
+  if (!pending) {
+    pending = startListener(userId).finally(() => starting.delete(userId));
+    starting.set(userId, pending);
+  }
+
+  try {
+    await pending;
+  } catch (error) {
+    Logger.warn("syntxListener: failed to start listener, falling back to delayed search", {
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * Отключает слушателей пользователей, у которых не осталось промптов, ожидающих видео
+ */
+async function evictIdleListeners(): Promise<void> {
+  for (const userId of Array.from(listeners.keys())) {
+    try {
+      const pending = await findPendingCorrelations({ userId });
+      if (pending.length === 0) {
+        stopSyntxListener(userId);
+      }
+    } catch (error) {
+      Logger.warn("syntxListener: idle check failed", {
+        userId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
+
+/**
+ * Запускает слушателей для пользователей с промптами, ожидающими видео
+ * (после перезапуска сервера) и периодическое отключение простаивающих
+ */
+export async function startSyntxListeners(): Promise<void> {
+  if (!LISTENER_ENABLED || !hasConfiguredProviders() || idleTimer) {
+    return;
+  }
+
+  idleTimer = setInterval(() => {
+    void evictIdleListeners();
+  }, IDLE_CHECK_INTERVAL_MS);
+
+  try {
+    const pending = await findPendingCorrelations();
+    const userIds = Array.from(new Set(pending.map((correlation) => correlation.userId)));
+    for (const userId of userIds) {
+      await ensureSyntxListener(userId);
+    }
+    Logger.info("syntxListener: started", { listeners: listeners.size });
+  } catch (error) {
+    Logger.error("syntxListener: failed to start listeners for pending prompts", {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * Останавливает всех слушателей
+ */
+export function stopSyntxListeners(): void {
+  if (idleTimer) {
+    clearInterval(idleTimer);
+    idleTimer = null;
+  }
+  for (const userId of Array.from(listeners.keys())) {
+    stopSyntxListener(userId);
+  }
+}
+
+/**
+ * Перезапускает слушателя на текущей сессии пользователя (после повторного входа в Telegram),
+ * если у пользователя есть промпты, ожидающие видео
+ */
+export async function restartSyntxListener(userId: string): Promise<void> {
+  stopSyntxListener(userId);
+  try {
+    const pending = await findPendingCorrelations({ userId });
+    if (pending.length > 0) {
+      await ensureSyntxListener(userId);
+    }
+  } catch (error) {
+    Logger.warn("syntxListener: failed to restart listener", {
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+// Клиент удалён из пула (сессия отозвана или Telegram отключён): он больше не переподключается,
+// поэтому слушатель на нём останавливается. Новый запустится на новой сессии.
+onTelegramClientEvicted((client) => {
+  for (const [userId, listener] of Array.from(listeners.entries())) {
+    if (listener.client === client) {
+      stopSyntxListener(userId);
+    }
+  }
+});
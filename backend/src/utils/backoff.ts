@@ -0,0 +1,28 @@
+/**
+ * Экспоненциальная задержка перед повторной попыткой: base * 2^(attempt - 1), не больше max
+ * @param attempt - Номер попытки, начиная с 1
+ */
+export function computeBackoffDelayMs(attempt: number, baseMs: number, maxMs: number): number {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.min(maxMs, baseMs * Math.pow(2, exponent));
+}
+
+/**
+ * Извлекает время ожидания из ошибки Telegram FLOOD_WAIT.
+ * gramjs бросает FloodWaitError с полем seconds, но в сообщениях
+ * обёрнутых ошибок остаётся только текст вида "FLOOD_WAIT_42" или "A wait of 42 seconds is required".
+ * @returns Количество секунд или null, если это не FLOOD_WAIT
+ */
+export function getFloodWaitSeconds(error: unknown): number | null {
+  const seconds = (error as { seconds?: unknown } | null)?.seconds;
+  if (typeof seconds === "number" && seconds > 0) {
+    return seconds;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const match =
+    message.match(/FLOOD_(?:PREMIUM_)?WAIT_(\d+)/) ||
+    message.match(/A wait of (\d+) seconds is required/);
+
+  return match ? parseInt(match[1], 10) : null;
+}
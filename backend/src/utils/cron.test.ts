@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { cronMatchesDay, listCronTimesForDay, parseCronExpression } from "./cron";
+
+function parse(expression: string) {
+  const cron = parseCronExpression(expression);
+  assert.ok(cron, `выражение "${expression}" должно разбираться`);
+  return cron;
+}
+
+// 2026-10-19 — понедельник
+const MONDAY_19 = { date: 19, month: 10, dayOfWeek: 1 };
+const TUESDAY_20 = { date: 20, month: 10, dayOfWeek: 2 };
+const MONDAY_26 = { date: 26, month: 10, dayOfWeek: 1 };
+const THURSDAY_1 = { date: 1, month: 10, dayOfWeek: 4 };
+
+test("parseCronExpression: списки, диапазоны и шаги", () => {
+  const cron = parse("0,30 9-17/4 * 1-3 *");
+  assert.deepEqual([...cron.minutes], [0, 30]);
+  assert.deepEqual([...cron.hours], [9, 13, 17]);
+  assert.deepEqual([...cron.months], [1, 2, 3]);
+  assert.equal(cron.daysOfMonth.size, 31);
+});
+
+test("parseCronExpression: шаг от числа идёт до конца диапазона", () => {
+  assert.deepEqual([...parse("50/5 * * * *").minutes], [50, 55]);
+});
+
+test("parseCronExpression: 7 — воскресенье", () => {
+  const cron = parse("0 9 * * 5-7");
+  assert.deepEqual([...cron.daysOfWeek].sort(), [0, 5, 6]);
+});
+
+test("parseCronExpression: некорректные выражения", () => {
+  const invalid = [
+    "",
+    "* * * *",
+    "* * * * * *",
+    "60 * * * *",
+    "* 24 * * *",
+    "* * 0 * *",
+    "* * * 13 *",
+    "* * * * 8",
+    "5-1 * * * *",
+    "*/0 * * * *",
+    "a * * * *"
+  ];
+  for (const expression of invalid) {
+    assert.equal(parseCronExpression(expression), null, expression);
+  }
+});
+
+test("cronMatchesDay: ограничены оба дня — достаточно любого совпадения", () => {
+  const cron = parse("0 9 1 * 1");
+  assert.equal(cronMatchesDay(cron, MONDAY_19), true);
+  assert.equal(cronMatchesDay(cron, THURSDAY_1), true);
+  assert.equal(cronMatchesDay(cron, TUESDAY_20), false);
+});
+
+test("cronMatchesDay: поле со звёздочкой и шагом не считается ограничением", () => {
+  // Как в Vixie cron: нечётные числа, выпавшие на понедельник
+  const cron = parse("0 9 */2 * 1");
+  assert.equal(cronMatchesDay(cron, MONDAY_19), true);
+  assert.equal(cronMatchesDay(cron, MONDAY_26), false);
+  assert.equal(cronMatchesDay(cron, THURSDAY_1), false);
+
+  // Первое число, если оно выпало на вс/вт/чт/сб
+  const everyOtherWeekday = parse("0 9 1 * */2");
+  assert.equal(cronMatchesDay(everyOtherWeekday, THURSDAY_1), true);
+  assert.equal(cronMatchesDay(everyOtherWeekday, { date: 1, month: 6, dayOfWeek: 1 }), false);
+  assert.equal(cronMatchesDay(everyOtherWeekday, TUESDAY_20), false);
+});
+
+test("cronMatchesDay: месяц должен совпадать", () => {
+  assert.equal(cronMatchesDay(parse("0 9 * 11 *"), MONDAY_19), false);
+});
+
+test("listCronTimesForDay: времена по возрастанию", () => {
+  assert.deepEqual(listCronTimesForDay(parse("30,5 18,7 * * *"), MONDAY_19), [
+    "07:05",
+    "07:30",
+    "18:05",
+    "18:30"
+  ]);
+  assert.deepEqual(listCronTimesForDay(parse("0 9 * * 2"), MONDAY_19), []);
+});
@@ -0,0 +1,129 @@
+/**
+ * Минимальный парсер cron-выражений из 5 полей: "минута час день_месяца месяц день_недели".
+ * Поддерживаются "*", списки через запятую, диапазоны "a-b" и шаги "* /n", "a-b/n".
+ * День недели: 0–7 (0 и 7 — воскресенье).
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // По правилам cron, если ограничены и день месяца, и день недели, достаточно совпадения любого.
+  // Поле, начинающееся со "*" (в том числе "*/n"), ограничением не считается — как в Vixie cron.
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+function parseField(field: string, min: number, max: number): Set<number> | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const match = part.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+    if (!match) {
+      return null;
+    }
+
+    let start = min;
+    let end = max;
+    if (match[1] !== "*") {
+      const [from, to] = match[1].split("-").map((value) => parseInt(value, 10));
+      start = from;
+      end = to ?? (match[2] ? max : from);
+    }
+
+    const step = match[2] ? parseInt(match[2], 10) : 1;
+    if (start < min || end > max || start > end || step < 1) {
+      return null;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Разбирает cron-выражение
+ * @returns Разобранное выражение или null, если выражение некорректно
+ */
+export function parseCronExpression(expression: string): CronSchedule | null {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    return null;
+  }
+
+  const minutes = parseField(fields[0], 0, 59);
+  const hours = parseField(fields[1], 0, 23);
+  const daysOfMonth = parseField(fields[2], 1, 31);
+  const months = parseField(fields[3], 1, 12);
+  const daysOfWeek = parseField(fields[4], 0, 7);
+
+  if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) {
+    return null;
+  }
+
+  // 7 — тоже воскресенье
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+    daysOfWeek.delete(7);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: !fields[2].startsWith("*"),
+    daysOfWeekRestricted: !fields[4].startsWith("*")
+  };
+}
+
+/**
+ * Проверяет, подходит ли календарный день под cron-выражение (без учёта часов и минут)
+ * @param day.month - Месяц 1–12
+ */
+export function cronMatchesDay(
+  cron: CronSchedule,
+  day: { date: number; month: number; dayOfWeek: number }
+): boolean {
+  if (!cron.months.has(day.month)) {
+    return false;
+  }
+
+  const domMatches = cron.daysOfMonth.has(day.date);
+  const dowMatches = cron.daysOfWeek.has(day.dayOfWeek);
+
+  if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) {
+    return domMatches || dowMatches;
+  }
+  return domMatches && dowMatches;
+}
+
+/**
+ * Возвращает все времена "HH:MM" за день, подходящие под cron-выражение (по возрастанию)
+ */
+export function listCronTimesForDay(
+  cron: CronSchedule,
+  day: { date: number; month: number; dayOfWeek: number }
+): string[] {
+  if (!cronMatchesDay(cron, day)) {
+    return [];
+  }
+
+  const times: string[] = [];
+  const hours = [...cron.hours].sort((a, b) => a - b);
+  const minutes = [...cron.minutes].sort((a, b) => a - b);
+
+  for (const hour of hours) {
+    for (const minute of minutes) {
+      times.push(`${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`);
+    }
+  }
+
+  return times;
+}
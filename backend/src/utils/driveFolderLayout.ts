@@ -0,0 +1,130 @@
+/**
+ * Шаблон структуры папок канала, например "{channel}/{yyyy-MM}/{scheduleLabel}".
+ * Каждая часть между "/" — отдельная подпапка внутри папки канала
+ * (в Google Drive, локальном хранилище или префиксе ключей S3).
+ *
+ * Доступные подстановки:
+ *   {channel}       — название канала
+ *   {scheduleLabel} — название расписания (для ручных запусков — «Вручную»)
+ *   {source}        — «Расписание» или «Вручную»
+ *   {yyyy}, {MM}, {dd}, {yyyy-MM}, {yyyy-MM-dd} — дата загрузки в таймзоне канала
+ */
+
+const MANUAL_LABEL = "Вручную";
+const SCHEDULED_LABEL = "Расписание";
+const MAX_SEGMENT_LENGTH = 100;
+
+interface ChannelLayoutData {
+  name?: string;
+  timezone?: string;
+  googleDriveFolderLayout?: string | null;
+  autoSendSchedules?: Array<{ id: string; label?: string | null }>;
+}
+
+/**
+ * Части даты в таймзоне канала (без таймзоны — в UTC)
+ */
+function getDateParts(date: Date, timeZone?: string): { yyyy: string; MM: string; dd: string } {
+  try {
+    const parts = new Intl.DateTimeFormat("en-CA", {
+      timeZone: timeZone || "UTC",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit"
+    }).formatToParts(date);
+    const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+    return { yyyy: get("year"), MM: get("month"), dd: get("day") };
+  } catch {
+    // Неизвестная таймзона — используем UTC
+    const iso = date.toISOString();
+    return { yyyy: iso.slice(0, 4), MM: iso.slice(5, 7), dd: iso.slice(8, 10) };
+  }
+}
+
+/**
+ * Имя папки без символов, которые ломают путь или выглядят как служебные
+ */
+function sanitizeSegment(segment: string): string {
+  return segment
+    .replace(/[\/\\]/g, "-")
+    .replace(/[\u0000-\u001f]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_SEGMENT_LENGTH)
+    .trim();
+}
+
+/**
+ * Превращает шаблон в список подпапок. Части, оставшиеся пустыми после подстановки, пропускаются.
+ */
+export function renderDriveFolderLayout(
+  template: string,
+  values: {
+    channelName?: string;
+    scheduleLabel?: string;
+    source: "scheduled" | "manual";
+    date: Date;
+    timeZone?: string;
+  }
+): string[] {
+  const { yyyy, MM, dd } = getDateParts(values.date, values.timeZone);
+  const replacements: Record<string, string> = {
+    channel: values.channelName ?? "",
+    scheduleLabel: values.scheduleLabel ?? "",
+    source: values.source === "scheduled" ? SCHEDULED_LABEL : MANUAL_LABEL,
+    yyyy,
+    MM,
+    dd,
+    "yyyy-MM": `${yyyy}-${MM}`,
+    "yyyy-MM-dd": `${yyyy}-${MM}-${dd}`
+  };
+
+  return template
+    .split("/")
+    .map((part) =>
+      // Неизвестные подстановки оставляем как есть, чтобы опечатка в шаблоне была видна в Drive
+      part.replace(/\{([^{}]+)\}/g, (match, key: string) => replacements[key.trim()] ?? match)
+    )
+    .map(sanitizeSegment)
+    .filter((segment) => segment.length > 0);
+}
+
+/**
+ * Название расписания для папок и метаданных. Расписание без названия — по номеру,
+ * как в настройках канала; ручной запуск — «Вручную».
+ */
+export function getChannelScheduleLabel(
+  channelData: Pick<ChannelLayoutData, "autoSendSchedules">,
+  scheduleId?: string | null
+): string {
+  if (!scheduleId) {
+    return MANUAL_LABEL;
+  }
+  const schedules = channelData.autoSendSchedules ?? [];
+  const index = schedules.findIndex((s) => s.id === scheduleId);
+  if (index < 0) {
+    return SCHEDULED_LABEL;
+  }
+  return schedules[index].label?.trim() || `${SCHEDULED_LABEL} ${index + 1}`;
+}
+
+/**
+ * Подпапки для видео канала по его шаблону (пустой список, если шаблон не задан)
+ */
+export function getChannelDriveFolderSegments(
+  channelData: ChannelLayoutData,
+  options: { scheduleId?: string | null; date?: Date }
+): string[] {
+  const template = channelData.googleDriveFolderLayout?.trim();
+  if (!template) {
+    return [];
+  }
+
+  return renderDriveFolderLayout(template, {
+    channelName: channelData.name,
+    scheduleLabel: getChannelScheduleLabel(channelData, options.scheduleId),
+    source: options.scheduleId ? "scheduled" : "manual",
+    date: options.date ?? new Date(),
+    timeZone: channelData.timezone
+  });
+}
@@ -0,0 +1,209 @@
+import type { DriveFileMetadata } from "../services/googleDriveOAuth";
+
+// Drive ограничивает пару ключ+значение в appProperties 124 байтами
+const APP_PROPERTY_MAX_BYTES = 124;
+// Описание файла в Drive — до 32 КБ, оставляем запас
+const DESCRIPTION_MAX_LENGTH = 30000;
+
+/**
+ * Всё, что известно о ролике на момент загрузки в Google Drive
+ */
+export interface VideoPublishInfo {
+  title?: string | null;
+  description?: string | null;
+  hashtags?: string[] | null;
+  prompt?: string | null;
+  channelId: string;
+  channelName?: string | null;
+  scheduleId?: string | null;
+  scheduleLabel?: string | null;
+  runId?: string | null;
+  generatedAt: Date;
+  telegramMessageId?: number | null;
+  variant?: number | null;
+}
+
+/**
+ * Шаг сценария с таймингом: «0-3с: описание» и реплики персонажей под ним
+ */
+export interface ScenarioStep {
+  from: number; // секунды
+  to: number;
+  description: string;
+  dialog: Array<{ character: string; text: string }>;
+}
+
+const STEP_PATTERN = /^\s*(\d+(?:[.,]\d+)?)\s*[-–—]\s*(\d+(?:[.,]\d+)?)\s*(?:с|сек|s|sec)?\.?\s*:\s*(.*)$/i;
+const DIALOG_PATTERN = /^\s*([^:"«»]{1,40}):\s*["«](.+?)["»]\s*$/;
+const INLINE_DIALOG_PATTERN = /([^:,|"«»]{1,40}):\s*["«](.+?)["»]/g;
+
+/**
+ * Разбирает покадровый сценарий на шаги с таймингами.
+ * Понимает формат, в котором промпт отправляется боту: «0-3с: ...» и строки «Персонаж: "реплика"».
+ */
+export function parseScenarioSteps(script: string): ScenarioStep[] {
+  const steps: ScenarioStep[] = [];
+
+  for (const line of script.split(/\r?\n/)) {
+    const stepMatch = line.match(STEP_PATTERN);
+    if (stepMatch) {
+      const from = Number(stepMatch[1].replace(",", "."));
+      const to = Number(stepMatch[2].replace(",", "."));
+      if (to > from) {
+        // Реплики могут идти в той же строке после «|»
+        const [description, ...inlineDialog] = stepMatch[3].split("|");
+        const step: ScenarioStep = { from, to, description: description.trim(), dialog: [] };
+        for (const match of inlineDialog.join("|").matchAll(INLINE_DIALOG_PATTERN)) {
+          step.dialog.push({ character: match[1].trim(), text: match[2].trim() });
+        }
+        steps.push(step);
+      }
+      continue;
+    }
+
+    const dialogMatch = line.match(DIALOG_PATTERN);
+    const current = steps[steps.length - 1];
+    if (dialogMatch && current) {
+      current.dialog.push({ character: dialogMatch[1].trim(), text: dialogMatch[2].trim() });
+    }
+  }
+
+  return steps;
+}
+
+function formatSrtTime(seconds: number): string {
+  const totalMs = Math.round(seconds * 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)},${pad(totalMs % 1000, 3)}`;
+}
+
+/**
+ * Субтитры SRT по шагам сценария: реплики, а для шагов без реплик — описание кадра
+ */
+export function buildSrt(steps: ScenarioStep[]): string {
+  return steps
+    .map((step, index) => {
+      const text =
+        step.dialog.length > 0
+          ? step.dialog.map((d) => `${d.character}: ${d.text}`).join("\n")
+          : step.description;
+      return `${index + 1}\n${formatSrtTime(step.from)} --> ${formatSrtTime(step.to)}\n${text}\n`;
+    })
+    .join("\n");
+}
+
+function formatHashtags(hashtags?: string[] | null): string {
+  return (hashtags ?? [])
+    .map((tag) => tag.trim().replace(/^#+/, ""))
+    .filter(Boolean)
+    .map((tag) => `#${tag.replace(/\s+/g, "_")}`)
+    .join(" ");
+}
+
+/**
+ * Обрезает значение appProperties так, чтобы ключ и значение уместились в лимит Drive
+ */
+function fitAppProperty(key: string, value: string): string {
+  let result = value;
+  while (Buffer.byteLength(key + result, "utf8") > APP_PROPERTY_MAX_BYTES) {
+    result = result.slice(0, -1);
+  }
+  return result;
+}
+
+/**
+ * Описание и appProperties файла в Drive: по ним видео находится поиском
+ * и сопоставляется с каналом, расписанием и запуском
+ */
+export function buildDriveVideoMetadata(info: VideoPublishInfo): DriveFileMetadata {
+  const lines = [
+    info.title ? `Название: ${info.title}` : "",
+    info.description ? `Описание: ${info.description}` : "",
+    info.hashtags?.length ? `Хештеги: ${formatHashtags(info.hashtags)}` : "",
+    `Канал: ${info.channelName || info.channelId}`,
+    info.scheduleLabel ? `Расписание: ${info.scheduleLabel}` : "",
+    `Дата генерации: ${info.generatedAt.toISOString()}`,
+    info.prompt ? `\nПромпт:\n${info.prompt}` : ""
+  ].filter(Boolean);
+
+  const properties: Record<string, string | number | null | undefined> = {
+    channelId: info.channelId,
+    channelName: info.channelName,
+    scheduleId: info.scheduleId,
+    scheduleLabel: info.scheduleLabel,
+    runId: info.runId,
+    title: info.title,
+    generatedAt: info.generatedAt.toISOString(),
+    telegramMessageId: info.telegramMessageId,
+    variant: info.variant
+  };
+
+  const appProperties: Record<string, string> = {};
+  for (const [key, value] of Object.entries(properties)) {
+    if (value !== null && value !== undefined && value !== "") {
+      appProperties[key] = fitAppProperty(key, String(value));
+    }
+  }
+
+  return {
+    description: lines.join("\n").slice(0, DESCRIPTION_MAX_LENGTH),
+    appProperties
+  };
+}
+
+/**
+ * Сценарий и данные для публикации в JSON (для скриптов и автоматизаций)
+ */
+export function buildScriptJson(
+  info: VideoPublishInfo,
+  video: { fileName: string; driveFileId: string }
+): string {
+  return JSON.stringify(
+    {
+      title: info.title ?? null,
+      description: info.description ?? null,
+      hashtags: info.hashtags ?? [],
+      prompt: info.prompt ?? null,
+      steps: info.prompt ? parseScenarioSteps(info.prompt) : [],
+      channel: { id: info.channelId, name: info.channelName ?? null },
+      schedule: info.scheduleId ? { id: info.scheduleId, label: info.scheduleLabel ?? null } : null,
+      runId: info.runId ?? null,
+      generatedAt: info.generatedAt.toISOString(),
+      video: {
+        fileName: video.fileName,
+        driveFileId: video.driveFileId,
+        telegramMessageId: info.telegramMessageId ?? null,
+        variant: info.variant ?? null
+      }
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Карточка ролика в Markdown: всё, что нужно редактору для публикации
+ */
+export function buildScriptMarkdown(info: VideoPublishInfo): string {
+  const hashtags = formatHashtags(info.hashtags);
+  const sections = [
+    `# ${info.title || "Без названия"}`,
+    info.description ?? "",
+    hashtags,
+    info.prompt ? `## Сценарий\n\n${info.prompt}` : "",
+    [
+      "---",
+      `- Канал: ${info.channelName || info.channelId}`,
+      info.scheduleLabel ? `- Расписание: ${info.scheduleLabel}` : "- Запуск: вручную",
+      `- Дата генерации: ${info.generatedAt.toISOString()}`,
+      info.variant ? `- Вариант: ${info.variant}` : ""
+    ]
+      .filter(Boolean)
+      .join("\n")
+  ];
+
+  return `${sections.filter(Boolean).join("\n\n")}\n`;
+}
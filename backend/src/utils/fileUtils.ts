@@ -53,8 +53,10 @@ export function generateVideoFileName(params: {
   prompt?: string;     // текст промпта (на случай, если title нет)
   channelName?: string;
   createdAt?: Date;
+  variant?: number;    // номер варианта, если бот прислал несколько видео на один промпт
 }): string {
-  const { title, prompt, channelName, createdAt } = params;
+  const { title, prompt, channelName, createdAt, variant } = params;
+  const suffix = variant ? `_v${variant}` : "";
   
   let name: string;
   
@@ -70,7 +72,7 @@ export function generateVideoFileName(params: {
     // Fallback: используем дату и время
     const date = createdAt || new Date();
     const dateStr = date.toISOString().slice(0, 19).replace(/[:-]/g, "").replace("T", "_");
-    return `video_${dateStr}.mp4`;
+    return `video_${dateStr}${suffix}.mp4`;
   }
   
   // Нормализация строки
@@ -96,14 +98,14 @@ export function generateVideoFileName(params: {
   if (name.length === 0) {
     const date = createdAt || new Date();
     const dateStr = date.toISOString().slice(0, 19).replace(/[:-]/g, "").replace("T", "_");
-    return `video_${dateStr}.mp4`;
+    return `video_${dateStr}${suffix}.mp4`;
   }
   
   // Убираем расширение, если оно уже есть
   const withoutExt = name.replace(/\.(mp4|avi|mov|mkv|webm)$/i, "");
   
-  // Добавляем расширение .mp4
-  return `${withoutExt}.mp4`;
+  // Добавляем суффикс варианта и расширение .mp4
+  return `${withoutExt}${suffix}.mp4`;
 }
 
 
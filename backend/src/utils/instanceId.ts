@@ -0,0 +1,13 @@
+import os from "os";
+import { randomUUID } from "crypto";
+
+/**
+ * Идентификатор текущего экземпляра backend.
+ * Используется, чтобы понимать, какой процесс захватил задачу или слот расписания
+ * (несколько инстансов Cloud Run, локальный запуск и т.п.).
+ */
+export const INSTANCE_ID = [
+  process.env.K_REVISION || os.hostname(),
+  process.pid,
+  randomUUID().slice(0, 8)
+].join(":");
@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseSyntxReply } from "./syntxReplyParser";
+
+function statusOf(text: string) {
+  return parseSyntxReply(text)?.status ?? null;
+}
+
+test("parseSyntxReply: нехватка баланса — терминальный ответ", () => {
+  for (const text of [
+    "Недостаточно средств на балансе",
+    "У вас не хватает генераций",
+    "Пополните баланс, чтобы продолжить",
+    "Закончились кредиты",
+    "Insufficient balance",
+    "You are out of credits"
+  ]) {
+    assert.deepEqual(parseSyntxReply(text), {
+      status: "insufficient_balance",
+      terminal: true,
+      message: text
+    });
+  }
+});
+
+test("parseSyntxReply: нехватка баланса важнее слова «ошибка»", () => {
+  assert.equal(statusOf("Произошла ошибка: недостаточно кредитов"), "insufficient_balance");
+});
+
+test("parseSyntxReply: ошибка генерации — терминальный ответ", () => {
+  for (const text of [
+    "Произошла ошибка, попробуйте позже",
+    "Не удалось сгенерировать видео",
+    "Генерация прервана",
+    "Промпт нарушает правила сервиса",
+    "Запрос отклонён модерацией",
+    "Generation failed",
+    "Something went wrong"
+  ]) {
+    assert.equal(statusOf(text), "error", text);
+    assert.equal(parseSyntxReply(text)?.terminal, true, text);
+  }
+});
+
+test("parseSyntxReply: генерация в очереди — не терминальный ответ", () => {
+  for (const text of [
+    "Генерация началась",
+    "Запрос принят, ожидайте",
+    "Вы в очереди: 3",
+    "Видео генерируется…",
+    "Generation started",
+    "Please wait"
+  ]) {
+    assert.deepEqual(parseSyntxReply(text), { status: "queued", terminal: false, message: text });
+  }
+});
+
+test("parseSyntxReply: рассылки и подсказки бота не считаются терминальными", () => {
+  for (const text of [
+    "Top up now and get a 20% bonus!",
+    "Пополнение баланса со скидкой до пятницы",
+    "Error 404 is not an error: check our new guide",
+    "error",
+    "Новая модель Veo уже доступна",
+    "Баланс: 120 кредитов"
+  ]) {
+    assert.equal(parseSyntxReply(text)?.terminal ?? false, false, text);
+  }
+});
+
+test("parseSyntxReply: пустой и неизвестный текст", () => {
+  assert.equal(parseSyntxReply(""), null);
+  assert.equal(parseSyntxReply("   "), null);
+  assert.equal(parseSyntxReply(null), null);
+  assert.equal(parseSyntxReply(undefined), null);
+  assert.equal(parseSyntxReply("Привет!"), null);
+});
@@ -0,0 +1,84 @@
+/**
+ * Разбор текстовых ответов SyntX-бота
+ */
+
+/**
+ * queued               — промпт принят, генерация в очереди или уже идёт
+ * error                — бот не смог сгенерировать видео (видео не придёт)
+ * insufficient_balance — на балансе SyntX не хватает средств (видео не придёт)
+ */
+export type SyntxReplyStatus = "queued" | "error" | "insufficient_balance";
+
+export interface SyntxReply {
+  status: SyntxReplyStatus;
+  // true — ждать видео дальше бессмысленно
+  terminal: boolean;
+  message: string;
+}
+
+// Порядок важен: сообщение о нехватке баланса часто содержит и слово «ошибка».
+// Шаблоны только конкретные: одиночные «error» или «top up» встречаются в рассылках бота,
+// а терминальный ответ отменяет ожидание видео
+const REPLY_PATTERNS: Array<{ status: SyntxReplyStatus; patterns: RegExp[] }> = [
+  {
+    status: "insufficient_balance",
+    patterns: [
+      /недостаточно\s+(?:средств|кредитов|токенов|генераций|баланса)/i,
+      /не\s*хватает\s+(?:средств|кредитов|токенов|генераций)/i,
+      /пополните\s+баланс/i,
+      /закончил(?:ись|ся)\s+(?:кредиты|токены|генерации|лимит)/i,
+      /баланс\s+(?:исчерпан|пуст)/i,
+      /insufficient\s+(?:balance|funds|credits)/i,
+      /not\s+enough\s+(?:balance|credits|funds)/i,
+      /out\s+of\s+credits/i
+    ]
+  },
+  {
+    status: "error",
+    patterns: [
+      /произошла\s+ошибка/i,
+      /ошибка\s+генерации/i,
+      /не\s+удалось\s+(?:сгенерировать|создать|обработать)/i,
+      /генерация\s+(?:не\s+удалась|прервана|отменена)/i,
+      /нарушает\s+правила|запрещ[её]нн/i,
+      /отклон[её]н/i,
+      /generation\s+failed/i,
+      /something\s+went\s+wrong/i
+    ]
+  },
+  {
+    status: "queued",
+    patterns: [
+      /генерация\s+(?:началась|запущена|начата)/i,
+      /(?:запрос|промпт|задача)\s+принят/i,
+      /в\s+очереди|добавлен[оа]?\s+в\s+очередь/i,
+      /генерирую|создаю\s+видео|видео\s+(?:генерируется|создаётся|создается)/i,
+      /подождите|ожидайте/i,
+      /generation\s+(?:started|queued)/i,
+      /\bqueued\b|in\s+queue|please\s+wait/i
+    ]
+  }
+];
+
+/**
+ * Классифицирует текстовое сообщение бота.
+ * @returns null, если сообщение не похоже ни на один известный статус
+ */
+export function parseSyntxReply(text: string | null | undefined): SyntxReply | null {
+  const message = (text ?? "").trim();
+  if (!message) {
+    return null;
+  }
+
+  for (const { status, patterns } of REPLY_PATTERNS) {
+    if (patterns.some((pattern) => pattern.test(message))) {
+      return {
+        status,
+        terminal: status !== "queued",
+        message
+      };
+    }
+  }
+
+  return null;
+}
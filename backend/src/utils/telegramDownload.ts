@@ -1,14 +1,18 @@
 import * as fs from "fs/promises";
 import * as path from "path";
 import { randomUUID } from "crypto";
-import type { TelegramClient } from "telegram";
+import { helpers, type TelegramClient } from "telegram";
 import type { Api } from "telegram";
 import { Logger } from "./logger";
+import { runTelegramOutbound } from "../services/telegramOutboundQueue";
 
 // Используем process.cwd() для определения корня проекта (backend/)
 // Это работает и в dev режиме (ts-node-dev), и после компиляции (dist/)
 const TMP_DIR = path.join(process.cwd(), "tmp");
-const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100 MB
+// Лимит только для скачивания через временный файл; потоковая загрузка в Drive его не имеет
+export const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100 MB
+// Размер одного запроса к Telegram при потоковом скачивании (максимум API — 512 KB)
+const STREAM_REQUEST_SIZE = 512 * 1024;
 
 /**
  * Создаёт временную директорию, если её нет
@@ -24,27 +28,78 @@ async function ensureTmpDir(): Promise<void> {
 }
 
 /**
- * Скачивает видео из Telegram во временную папку
- * @param client - Telegram клиент
- * @param messageId - ID сообщения с видео (опционально, если не указан - ищет последнее)
- * @param chatId - ID чата (например, SYNX_CHAT_ID)
- * @returns Путь к временному файлу и имя файла
+ * Проверяет, что сообщение Telegram содержит видео (как video или как документ с видео)
  */
-export async function downloadTelegramVideoToTemp(
+export function isTelegramVideoMessage(msg: Api.Message): boolean {
+  // Проверяем наличие video attachment
+  const hasVideo =
+    "video" in msg &&
+    (msg as any).video != null &&
+    !(msg as any).video.deleted;
+
+  // Проверяем наличие document с видео-атрибутом
+  const doc = (msg as any).document;
+  const hasDocVideo =
+    doc != null &&
+    Array.isArray(doc.attributes) &&
+    doc.attributes.some(
+      (attr: any) =>
+        attr?.className === "DocumentAttributeVideo" ||
+        attr?.className === "MessageMediaDocument"
+    ) &&
+    // Дополнительная проверка MIME типа для документов
+    (doc.mimeType?.startsWith("video/") ||
+      doc.mimeType === "application/octet-stream" ||
+      doc.fileName?.match(/\.(mp4|avi|mov|mkv|webm)$/i));
+
+  return hasVideo || hasDocVideo;
+}
+
+/**
+ * Находит сообщение с видео в чате бота: уже сопоставленное (videoMessageId)
+ * или последнее видео после промпта
+ * @param messageId - ID промпта: видео ищется только после него
+ * @throws Error NO_VIDEO_FOUND, если видео в чате ещё нет
+ */
+export async function findTelegramVideoMessage(
   client: TelegramClient,
   chatId: string | number,
-  messageId?: number
-): Promise<{ tempPath: string; fileName: string; messageId: number }> {
-  await ensureTmpDir();
-
-  let videoMessage: Api.Message;
+  messageId?: number,
+  options: {
+    userId?: string;
+    videoMessageId?: number;
+    isVideoMessage?: (msg: Api.Message) => boolean;
+  } = {}
+): Promise<Api.Message> {
+  const userId = options.userId ?? "";
+  const isVideoMessage = options.isVideoMessage ?? isTelegramVideoMessage;
+  let videoMessage: Api.Message | null = null;
+
+  // Если сообщение с видео уже известно, берём именно его
+  if (options.videoMessageId) {
+    const [exactMessage] = (await runTelegramOutbound(userId, "getVideoMessage", () =>
+      client.getMessages(chatId, { ids: [options.videoMessageId!] })
+    )) as Api.Message[];
+
+    if (exactMessage && isVideoMessage(exactMessage)) {
+      videoMessage = exactMessage;
+      Logger.info("Using video message matched by chat listener", {
+        videoMessageId: exactMessage.id,
+        promptMessageId: messageId || "not specified"
+      });
+    } else {
+      Logger.warn("Matched video message not found or has no video, falling back to search", {
+        videoMessageId: options.videoMessageId
+      });
+    }
+  }
 
-  try {
+  if (!videoMessage) {
     // ИСПРАВЛЕНИЕ: Если указан messageId, это обычно ID промпта (текстового сообщения),
     // а не видео. Видео приходит позже. Поэтому мы НЕ пытаемся получить сообщение с этим ID,
     // а ищем последнее видео ПОСЛЕ этого messageId.
     // Всегда ищем последнее видео в чате, но если messageId указан, фильтруем только видео после него
-    
+  
     // Ищем последнее видео в чате
     // Если messageId передан, ищем видео ПОСЛЕ этого сообщения (для автоматического скачивания)
     Logger.info("Searching for latest video in Telegram chat", {
@@ -56,134 +111,265 @@ export async function downloadTelegramVideoToTemp(
         : "Will search for latest video in chat"
     });
 
-      let messages: Api.Message[];
-      try {
-        // Получаем больше сообщений, если нужно искать после конкретного messageId
-        const limit = messageId ? 100 : 50;
-        
-        messages = await Promise.race([
+    let messages: Api.Message[];
+    try {
+      // Получаем больше сообщений, если нужно искать после конкретного messageId
+      const limit = messageId ? 100 : 50;
+
+      messages = await runTelegramOutbound(userId, "searchVideo", () =>
+        Promise.race([
           client.getMessages(chatId, {
             limit
           }) as Promise<Api.Message[]>,
           new Promise<Api.Message[]>((_, reject) => 
             setTimeout(() => reject(new Error("Get messages timeout after 30 seconds")), 30000)
           )
-        ]);
-      } catch (getMsgError: any) {
-        const errorMsg = String(getMsgError?.message ?? getMsgError);
-        if (errorMsg.includes("timeout") || errorMsg.includes("TIMEOUT")) {
-          throw new Error(
-            "TELEGRAM_TIMEOUT: Превышено время ожидания получения сообщений. " +
-            "Проверьте подключение к интернету и попробуйте ещё раз."
-          );
-        }
-        throw getMsgError;
+        ])
+      );
+    } catch (getMsgError: any) {
+      const errorMsg = String(getMsgError?.message ?? getMsgError);
+      if (errorMsg.includes("timeout") || errorMsg.includes("TIMEOUT")) {
+        throw new Error(
+          "TELEGRAM_TIMEOUT: Превышено время ожидания получения сообщений. " +
+          "Проверьте подключение к интернету и попробуйте ещё раз."
+        );
       }
+      throw getMsgError;
+    }
+
+    Logger.info(`Received ${messages.length} messages from Telegram chat`);
 
-      Logger.info(`Received ${messages.length} messages from Telegram chat`);
-
-      // Фильтруем сообщения с видео
-      // Если messageId указан, фильтруем только сообщения ПОСЛЕ него (с большим ID)
-      const videoMessages = messages
-        .filter((msg) => {
-          // Если указан messageId, берём только сообщения после него
-          if (messageId) {
-            const msgId = (msg as any).id;
-            if (typeof msgId === "number" && msgId <= messageId) {
-              return false; // Пропускаем сообщения до или равные messageId промпта
-            }
+    // Фильтруем сообщения с видео
+    // Если messageId указан, фильтруем только сообщения ПОСЛЕ него (с большим ID)
+    const videoMessages = messages
+      .filter((msg) => {
+        // Если указан messageId, берём только сообщения после него
+        if (messageId) {
+          const msgId = (msg as any).id;
+          if (typeof msgId === "number" && msgId <= messageId) {
+            return false; // Пропускаем сообщения до или равные messageId промпта
           }
-          
-          try {
-            // Проверяем наличие video attachment
-            const hasVideo =
-              "video" in msg &&
-              (msg as any).video != null &&
-              !(msg as any).video.deleted;
-
-            // Проверяем наличие document с видео-атрибутом
-            const doc = (msg as any).document;
-            const hasDocVideo =
-              doc != null &&
-              Array.isArray(doc.attributes) &&
-              doc.attributes.some(
-                (attr: any) =>
-                  attr?.className === "DocumentAttributeVideo" ||
-                  attr?.className === "MessageMediaDocument"
-              ) &&
-              // Дополнительная проверка MIME типа для документов
-              (doc.mimeType?.startsWith("video/") ||
-                doc.mimeType === "application/octet-stream" ||
-                doc.fileName?.match(/\.(mp4|avi|mov|mkv|webm)$/i));
-
-            return hasVideo || hasDocVideo;
-          } catch (filterError) {
-            Logger.warn("Error filtering video message", {
-              messageId: (msg as any).id,
-              error: String(filterError)
-            });
-            return false;
+        }
+
+        try {
+          return isVideoMessage(msg);
+        } catch (filterError) {
+          Logger.warn("Error filtering video message", {
+            messageId: (msg as any).id,
+            error: String(filterError)
+          });
+          return false;
+        }
+      })
+      .sort((a, b) => {
+        // Сортируем по дате (самое свежее первым)
+        let dateA = 0;
+        let dateB = 0;
+
+        try {
+          const msgA = a as any;
+          const msgB = b as any;
+
+          if (msgA.date) {
+            dateA =
+              msgA.date instanceof Date
+                ? msgA.date.getTime()
+                : typeof msgA.date === "number"
+                  ? msgA.date * 1000
+                  : new Date(msgA.date).getTime();
+          } else if (msgA.id) {
+            dateA = msgA.id;
           }
-        })
-        .sort((a, b) => {
-          // Сортируем по дате (самое свежее первым)
-          let dateA = 0;
-          let dateB = 0;
-
-          try {
-            const msgA = a as any;
-            const msgB = b as any;
-
-            if (msgA.date) {
-              dateA =
-                msgA.date instanceof Date
-                  ? msgA.date.getTime()
-                  : typeof msgA.date === "number"
-                    ? msgA.date * 1000
-                    : new Date(msgA.date).getTime();
-            } else if (msgA.id) {
-              dateA = msgA.id;
-            }
-
-            if (msgB.date) {
-              dateB =
-                msgB.date instanceof Date
-                  ? msgB.date.getTime()
-                  : typeof msgB.date === "number"
-                    ? msgB.date * 1000
-                    : new Date(msgB.date).getTime();
-            } else if (msgB.id) {
-              dateB = msgB.id;
-            }
-          } catch (sortError) {
-            Logger.warn("Error sorting messages by date", {
-              error: String(sortError)
-            });
+
+          if (msgB.date) {
+            dateB =
+              msgB.date instanceof Date
+                ? msgB.date.getTime()
+                : typeof msgB.date === "number"
+                  ? msgB.date * 1000
+                  : new Date(msgB.date).getTime();
+          } else if (msgB.id) {
+            dateB = msgB.id;
           }
+        } catch (sortError) {
+          Logger.warn("Error sorting messages by date", {
+            error: String(sortError)
+          });
+        }
 
-          return dateB - dateA; // Сортируем по убыванию (новые первыми)
-        });
+        return dateB - dateA; // Сортируем по убыванию (новые первыми)
+      });
 
-      if (videoMessages.length === 0) {
-        if (messageId) {
-          throw new Error(
-            `NO_VIDEO_FOUND: Видео ещё не готово в чате после сообщения ${messageId}. ` +
-            `Подождите окончания генерации и попробуйте ещё раз.`
-          );
-        } else {
-          throw new Error(
-            "NO_VIDEO_FOUND: Видео ещё не готово в чате. Подождите окончания генерации и попробуйте ещё раз."
-          );
-        }
+    if (videoMessages.length === 0) {
+      if (messageId) {
+        throw new Error(
+          `NO_VIDEO_FOUND: Видео ещё не готово в чате после сообщения ${messageId}. ` +
+          `Подождите окончания генерации и попробуйте ещё раз.`
+        );
+      } else {
+        throw new Error(
+          "NO_VIDEO_FOUND: Видео ещё не готово в чате. Подождите окончания генерации и попробуйте ещё раз."
+        );
       }
+    }
 
-      videoMessage = videoMessages[0];
-      
-      Logger.info("Found video message after filtering", {
-        videoMessageId: (videoMessage as any).id,
-        promptMessageId: messageId || "not specified",
-        totalVideoMessages: videoMessages.length
-      });
+    videoMessage = videoMessages[0];
+
+    Logger.info("Found video message after filtering", {
+      videoMessageId: (videoMessage as any).id,
+      promptMessageId: messageId || "not specified",
+      totalVideoMessages: videoMessages.length
+    });
+  }
+
+  return videoMessage;
+}
+
+/**
+ * Находит все видео результата: уже сопоставленные (videoMessageIds)
+ * или последнее видео после промпта вместе с остальными видео его альбома
+ * @returns Сообщения с видео по порядку прихода
+ * @throws Error NO_VIDEO_FOUND, если видео в чате ещё нет
+ */
+export async function findTelegramVideoMessages(
+  client: TelegramClient,
+  chatId: string | number,
+  messageId?: number,
+  options: {
+    userId?: string;
+    videoMessageIds?: number[];
+    isVideoMessage?: (msg: Api.Message) => boolean;
+  } = {}
+): Promise<Api.Message[]> {
+  const userId = options.userId ?? "";
+  const isVideoMessage = options.isVideoMessage ?? isTelegramVideoMessage;
+  const videoMessageIds = options.videoMessageIds ?? [];
+
+  if (videoMessageIds.length > 0) {
+    const exactMessages = (await runTelegramOutbound(userId, "getVideoMessage", () =>
+      client.getMessages(chatId, { ids: videoMessageIds })
+    )) as Array<Api.Message | undefined>;
+    const found = exactMessages.filter(
+      (msg): msg is Api.Message => !!msg && isVideoMessage(msg)
+    );
+
+    if (found.length > 0) {
+      if (found.length < videoMessageIds.length) {
+        Logger.warn("Some matched video messages not found or have no video", {
+          expected: videoMessageIds,
+          found: found.map((msg) => msg.id)
+        });
+      }
+      return found.sort((a, b) => a.id - b.id);
+    }
+
+    Logger.warn("Matched video messages not found or have no video, falling back to search", {
+      videoMessageIds
+    });
+  }
+
+  const latest = await findTelegramVideoMessage(client, chatId, messageId, {
+    userId,
+    isVideoMessage
+  });
+  if (!latest.groupedId) {
+    return [latest];
+  }
+
+  // Альбом — до 10 соседних сообщений с тем же grouped_id
+  const groupedId = latest.groupedId.toString();
+  const neighbourIds = Array.from({ length: 19 }, (_, i) => latest.id - 9 + i).filter(
+    (id) => id > (messageId ?? 0)
+  );
+  const neighbours = (await runTelegramOutbound(userId, "getAlbumMessages", () =>
+    client.getMessages(chatId, { ids: neighbourIds })
+  )) as Array<Api.Message | undefined>;
+
+  const album = neighbours.filter(
+    (msg): msg is Api.Message =>
+      !!msg && msg.groupedId?.toString() === groupedId && isVideoMessage(msg)
+  );
+  Logger.info("Found video album after prompt", {
+    groupedId,
+    promptMessageId: messageId || "not specified",
+    videoMessageIds: album.map((msg) => msg.id)
+  });
+  return album.length > 0 ? album.sort((a, b) => a.id - b.id) : [latest];
+}
+
+/**
+ * Имя, размер, MIME-тип и ID документа Telegram для видео в сообщении
+ */
+export function getTelegramVideoFileInfo(message: Api.Message): {
+  fileName: string;
+  size: number;
+  mimeType: string;
+  fileId: string | null;
+} {
+  let fileName = "video.mp4";
+  const doc = (message as any).document;
+  if (doc?.fileName) {
+    fileName = doc.fileName;
+  } else if ((message as any).video) {
+    fileName = `video_${message.id}.mp4`;
+  }
+
+  return {
+    fileName,
+    size: Number(message.file?.size ?? 0),
+    mimeType: message.file?.mimeType || "video/mp4",
+    fileId: (doc ?? (message as any).video)?.id?.toString() ?? null
+  };
+}
+
+/**
+ * Потоково скачивает видео из сообщения частями, начиная с offset байт.
+ * Нужен для загрузки в Google Drive без временного файла и для продолжения после обрыва.
+ */
+export async function* streamTelegramVideo(
+  client: TelegramClient,
+  message: Api.Message,
+  offset = 0
+): AsyncGenerator<Buffer> {
+  if (!message.media) {
+    throw new Error(`TELEGRAM_DOWNLOAD_ERROR: В сообщении ${message.id} нет медиафайла`);
+  }
+
+  const chunks = client.iterDownload({
+    file: message.media,
+    offset: helpers.returnBigInt(offset),
+    requestSize: STREAM_REQUEST_SIZE
+  });
+
+  for await (const chunk of chunks) {
+    yield chunk as Buffer;
+  }
+}
+
+/**
+ * Скачивает видео из Telegram во временную папку
+ * @param client - Telegram клиент
+ * @param messageId - ID сообщения с видео (опционально, если не указан - ищет последнее)
+ * @param chatId - ID чата бота-генератора (например, SYNX_CHAT_ID)
+ * @param options.userId - Владелец канала: поиск видео идёт через общую очередь запросов к Telegram
+ * @param options.videoMessageId - ID уже найденного сообщения с видео (например, пойманного слушателем чата)
+ * @param options.isVideoMessage - Как распознавать видео в чате (по умолчанию isTelegramVideoMessage)
+ * @returns Путь к временному файлу и имя файла
+ */
+export async function downloadTelegramVideoToTemp(
+  client: TelegramClient,
+  chatId: string | number,
+  messageId?: number,
+  options: {
+    userId?: string;
+    videoMessageId?: number;
+    isVideoMessage?: (msg: Api.Message) => boolean;
+  } = {}
+): Promise<{ tempPath: string; fileName: string; messageId: number }> {
+  await ensureTmpDir();
+
+  try {
+    const videoMessage = await findTelegramVideoMessage(client, chatId, messageId, options);
 
     Logger.info("Video message found, preparing to download", {
       messageId: videoMessage.id,
@@ -192,13 +378,7 @@ export async function downloadTelegramVideoToTemp(
     });
 
     // Определяем имя файла из сообщения или используем дефолтное
-    let originalFileName = "video.mp4";
-    const doc = (videoMessage as any).document;
-    if (doc?.fileName) {
-      originalFileName = doc.fileName;
-    } else if ((videoMessage as any).video) {
-      originalFileName = `video_${videoMessage.id}.mp4`;
-    }
+    const { fileName: originalFileName } = getTelegramVideoFileInfo(videoMessage);
 
     // Генерируем уникальное имя файла для временной папки
     // Используем timestamp и UUID для уникальности
@@ -0,0 +1,130 @@
+/**
+ * Утилиты для работы со временем в IANA-таймзоне канала (например, "Asia/Almaty")
+ */
+
+export interface LocalDateTime {
+  dayOfWeek: number; // 0 = воскресенье, 1 = понедельник, ...
+  hour: number;
+  minute: number;
+  date: number;
+  month: number;
+  year: number;
+  timeString: string; // "HH:MM"
+}
+
+/**
+ * Получает локальное время в указанной таймзоне
+ * Использует Intl.DateTimeFormat для надёжной конвертации
+ */
+export function getLocalTimeInTimezone(date: Date, timezone: string): LocalDateTime {
+  // Используем Intl.DateTimeFormat для правильной конвертации
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    weekday: "long",
+    hour: "2-digit",
+    minute: "2-digit",
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour12: false
+  });
+
+  const parts = formatter.formatToParts(date);
+  
+  const dayOfWeekMap: Record<string, number> = {
+    Sunday: 0,
+    Monday: 1,
+    Tuesday: 2,
+    Wednesday: 3,
+    Thursday: 4,
+    Friday: 5,
+    Saturday: 6
+  };
+
+  const dayOfWeek = dayOfWeekMap[parts.find((p) => p.type === "weekday")?.value || "Sunday"] ?? 0;
+  // В некоторых окружениях полночь при hour12: false приходит как "24"
+  const hour = parseInt(parts.find((p) => p.type === "hour")?.value || "0", 10) % 24;
+  const minute = parseInt(parts.find((p) => p.type === "minute")?.value || "0", 10);
+  const dateNum = parseInt(parts.find((p) => p.type === "day")?.value || "0", 10);
+  const month = parseInt(parts.find((p) => p.type === "month")?.value || "0", 10);
+  const year = parseInt(parts.find((p) => p.type === "year")?.value || "0", 10);
+  const timeString = `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+
+  return {
+    dayOfWeek,
+    hour,
+    minute,
+    date: dateNum,
+    month,
+    year,
+    timeString
+  };
+}
+
+/**
+ * Парсит время из строки "HH:MM" в часы и минуты
+ */
+export function parseTime(timeStr: string): { hour: number; minute: number } | null {
+  const match = timeStr.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const hour = parseInt(match[1], 10);
+  const minute = parseInt(match[2], 10);
+  if (hour < 0 || hour > 23 || minute < 0 || minute > 59) {
+    return null;
+  }
+  return { hour, minute };
+}
+
+/**
+ * Форматирует локальную дату как "YYYY-MM-DD"
+ */
+export function formatLocalDate(local: Pick<LocalDateTime, "year" | "month" | "date">): string {
+  return `${local.year}-${String(local.month).padStart(2, "0")}-${String(local.date).padStart(2, "0")}`;
+}
+
+/**
+ * Смещение таймзоны относительно UTC (в минутах) в указанный момент
+ */
+export function getTimezoneOffsetMinutes(date: Date, timezone: string): number {
+  const local = getLocalTimeInTimezone(date, timezone);
+  const localAsUtc = Date.UTC(local.year, local.month - 1, local.date, local.hour, local.minute);
+  const utcMinutes = Math.floor(date.getTime() / 60_000) * 60_000;
+  return Math.round((localAsUtc - utcMinutes) / 60_000);
+}
+
+/**
+ * Переводит локальные дату и время в таймзоне в момент времени UTC.
+ * Учитывает переход на летнее/зимнее время (смещение пересчитывается для найденного момента).
+ * @param month - Месяц 1–12
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timezone: string
+): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const firstOffset = getTimezoneOffsetMinutes(new Date(guess), timezone);
+  let result = guess - firstOffset * 60_000;
+
+  const secondOffset = getTimezoneOffsetMinutes(new Date(result), timezone);
+  if (secondOffset !== firstOffset) {
+    result = guess - secondOffset * 60_000;
+  }
+
+  return new Date(result);
+}
+
+/**
+ * Форматирует смещение таймзоны в указанный момент как "UTC+05:00"
+ */
+export function formatUtcOffset(date: Date, timezone: string): string {
+  const offset = getTimezoneOffsetMinutes(date, timezone);
+  const sign = offset < 0 ? "-" : "+";
+  const abs = Math.abs(offset);
+  return `UTC${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}:${String(abs % 60).padStart(2, "0")}`;
+}
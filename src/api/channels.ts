@@ -0,0 +1,18 @@
+import axios from "axios";
+import { backendBaseUrl, getAuthHeader } from "./client";
+import type { AutomationPauseReason } from "../domain/channel";
+
+export interface AutomationProblem {
+  reason: AutomationPauseReason;
+  message: string;
+}
+
+export async function resumeChannelAutomation(channelId: string) {
+  const headers = await getAuthHeader();
+  const res = await axios.post(
+    `${backendBaseUrl}/api/channels/${channelId}/resume`,
+    {},
+    { headers }
+  );
+  return res.data as { success: boolean };
+}
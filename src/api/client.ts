@@ -0,0 +1,15 @@
+import { getAuth } from "firebase/auth";
+
+export const backendBaseUrl =
+  (import.meta.env.VITE_BACKEND_URL as string | undefined) ||
+  "http://localhost:8080";
+
+export async function getAuthHeader() {
+  const auth = getAuth();
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error("Not authenticated");
+  }
+  const token = await user.getIdToken();
+  return { Authorization: `Bearer ${token}` };
+}
@@ -0,0 +1,35 @@
+import axios from "axios";
+import { backendBaseUrl, getAuthHeader } from "./client";
+
+export type JobType = "autoDownload" | "autoSend";
+
+export interface DeadLetterJob {
+  id: string;
+  type: JobType;
+  channelId: string;
+  scheduleId?: string | null;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string | null;
+  createdAt: string;
+  finishedAt?: string | null;
+}
+
+export async function fetchDeadLetterJobs(channelId?: string) {
+  const headers = await getAuthHeader();
+  const res = await axios.get(`${backendBaseUrl}/api/jobs/dead-letter`, {
+    headers,
+    params: channelId ? { channelId } : undefined
+  });
+  return res.data as { jobs: DeadLetterJob[] };
+}
+
+export async function retryJob(jobId: string) {
+  const headers = await getAuthHeader();
+  const res = await axios.post(
+    `${backendBaseUrl}/api/jobs/${jobId}/retry`,
+    {},
+    { headers }
+  );
+  return res.data as { success: boolean; job: DeadLetterJob };
+}
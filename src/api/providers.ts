@@ -0,0 +1,18 @@
+import axios from "axios";
+import { backendBaseUrl, getAuthHeader } from "./client";
+
+export interface GenerationProviderInfo {
+  id: string;
+  name: string;
+  description?: string;
+  configured: boolean;
+  isDefault: boolean;
+}
+
+export async function fetchGenerationProviders() {
+  const headers = await getAuthHeader();
+  const res = await axios.get(`${backendBaseUrl}/api/providers`, {
+    headers
+  });
+  return res.data as { providers: GenerationProviderInfo[] };
+}
@@ -0,0 +1,30 @@
+import axios from "axios";
+import { backendBaseUrl, getAuthHeader } from "./client";
+import type { ScheduleType } from "../domain/channel";
+
+export interface UpcomingRun {
+  channelId: string;
+  channelName: string;
+  scheduleId: string;
+  scheduleType: ScheduleType;
+  runAtUtc: string;
+  timezone: string;
+  localDate: string; // "YYYY-MM-DD" во временной зоне канала
+  localTime: string; // "HH:MM" во временной зоне канала
+  utcOffset: string; // например "UTC+05:00"
+  promptsPerRun: number;
+  autoDownloadAtUtc: string | null;
+}
+
+export async function fetchUpcomingRuns(params: {
+  limit?: number;
+  days?: number;
+  channelId?: string;
+} = {}) {
+  const headers = await getAuthHeader();
+  const res = await axios.get(`${backendBaseUrl}/api/schedule/upcoming`, {
+    headers,
+    params
+  });
+  return res.data as { runs: UpcomingRun[]; generatedAt: string };
+}
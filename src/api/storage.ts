@@ -0,0 +1,19 @@
+import axios from "axios";
+import { backendBaseUrl, getAuthHeader } from "./client";
+import type { StorageBackendId } from "../domain/channel";
+
+export interface StorageBackendInfo {
+  id: StorageBackendId;
+  name: string;
+  description?: string;
+  configured: boolean;
+  isDefault: boolean;
+}
+
+export async function fetchStorageBackends() {
+  const headers = await getAuthHeader();
+  const res = await axios.get(`${backendBaseUrl}/api/storage`, {
+    headers
+  });
+  return res.data as { backends: StorageBackendInfo[] };
+}
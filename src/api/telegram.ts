@@ -1,19 +1,6 @@
 import axios from "axios";
-import { getAuth } from "firebase/auth";
-
-const backendBaseUrl =
-  (import.meta.env.VITE_BACKEND_URL as string | undefined) ||
-  "http://localhost:8080";
-
-async function getAuthHeader() {
-  const auth = getAuth();
-  const user = auth.currentUser;
-  if (!user) {
-    throw new Error("Not authenticated");
-  }
-  const token = await user.getIdToken();
-  return { Authorization: `Bearer ${token}` };
-}
+import { backendBaseUrl, getAuthHeader } from "./client";
+import type { StorageBackendId } from "../domain/channel";
 
 export async function telegramStart(phone: string) {
   const headers = await getAuthHeader();
@@ -66,28 +53,45 @@ export async function telegramSendPrompt(channelId: string, prompt: string) {
     { channelId, prompt },
     { headers }
   );
-  return res.data as { status: string; error?: string };
+  return res.data as {
+    status: string;
+    runId?: string;
+    messageId?: number;
+    error?: string;
+  };
 }
 
-export async function sendPromptToSyntx(prompt: string) {
+export async function sendPromptToSyntx(
+  prompt: string,
+  channelId?: string,
+  title?: string
+) {
   const headers = await getAuthHeader();
   const res = await axios.post(
     `${backendBaseUrl}/api/telegram/sendPromptToSyntx`,
-    { prompt },
+    { prompt, channelId, title },
     { headers }
   );
-  return res.data as { status: string; error?: string; message?: string };
+  return res.data as {
+    status: string;
+    runId?: string;
+    messageId?: number;
+    error?: string;
+    message?: string;
+  };
 }
 
-export async function fetchLatestVideoToDrive(channelId: string) {
+export async function fetchLatestVideoToDrive(channelId: string, forceReupload = false) {
   const headers = await getAuthHeader();
   const res = await axios.post(
     `${backendBaseUrl}/api/telegram/fetchLatestVideoToDrive`,
-    { channelId },
+    { channelId, forceReupload },
     { headers }
   );
   return res.data as {
     status: string;
+    alreadyUploaded?: boolean;
+    storageBackend?: StorageBackendId;
     driveFileId?: string;
     webViewLink?: string;
     webContentLink?: string;
@@ -100,16 +104,19 @@ export async function fetchVideoAndUploadToDrive(
   channelId: string,
   googleDriveFolderId?: string,
   telegramMessageId?: number,
-  videoTitle?: string
+  videoTitle?: string,
+  runId?: string,
+  forceReupload = false
 ) {
   const headers = await getAuthHeader();
   const res = await axios.post(
     `${backendBaseUrl}/api/telegram/fetchVideoAndUploadToDrive`,
-    { channelId, googleDriveFolderId, telegramMessageId, videoTitle },
+    { channelId, googleDriveFolderId, telegramMessageId, videoTitle, runId, forceReupload },
     { headers }
   );
   return res.data as {
     status: string;
+    alreadyUploaded?: boolean;
     fileId?: string;
     webViewLink?: string;
     webContentLink?: string;
@@ -0,0 +1,39 @@
+import axios from "axios";
+import { backendBaseUrl, getAuthHeader } from "./client";
+
+export interface UnassignedVideo {
+  id: string;
+  videoMessageId: number;
+  caption?: string | null;
+  replyToMsgId?: number | null;
+  fileName?: string | null;
+  receivedAt: string;
+}
+
+export async function fetchUnassignedVideos() {
+  const headers = await getAuthHeader();
+  const res = await axios.get(`${backendBaseUrl}/api/videos/unassigned`, {
+    headers
+  });
+  return res.data as { videos: UnassignedVideo[] };
+}
+
+export async function assignUnassignedVideo(videoId: string, channelId: string) {
+  const headers = await getAuthHeader();
+  const res = await axios.post(
+    `${backendBaseUrl}/api/videos/unassigned/${videoId}/assign`,
+    { channelId },
+    { headers }
+  );
+  return res.data as { success: boolean; jobId: string; correlationId: string | null };
+}
+
+export async function dismissUnassignedVideo(videoId: string) {
+  const headers = await getAuthHeader();
+  const res = await axios.post(
+    `${backendBaseUrl}/api/videos/unassigned/${videoId}/dismiss`,
+    {},
+    { headers }
+  );
+  return res.data as { success: boolean };
+}
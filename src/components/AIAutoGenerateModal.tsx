@@ -44,6 +44,10 @@ const AIAutoGenerateModal = ({
   >("idle");
   const [driveMessage, setDriveMessage] = useState<string | null>(null);
   const [driveWebViewLink, setDriveWebViewLink] = useState<string | null>(null);
+  // Видео уже было в Google Drive: предлагаем загрузить заново
+  const [driveAlreadyUploaded, setDriveAlreadyUploaded] = useState(false);
+  // ID запуска в истории канала, чтобы связать с ним загрузку видео
+  const [runId, setRunId] = useState<string | null>(null);
 
   useEffect(() => {
     if (isOpen && channel) {
@@ -181,13 +185,18 @@ const AIAutoGenerateModal = ({
     setSyntxError(null);
 
     try {
-      await sendPromptToSyntx(detailedResult.videoPrompt);
+      const response = await sendPromptToSyntx(
+        detailedResult.videoPrompt,
+        channel?.id,
+        detailedResult.fileTitle || undefined
+      );
+      setRunId(response.runId || null);
       setSyntxSendStatus("sent");
     } catch (err: any) {
       setSyntxSendStatus("error");
       const errorMessage =
         err?.response?.data?.error === "TELEGRAM_SESSION_NOT_INITIALIZED"
-          ? "Телеграм не подключён. Авторизуйтесь через backend командой: npm run dev:login"
+          ? "Телеграм не подключён. Подключите его в настройках аккаунта."
           : err?.response?.data?.message ||
             err?.message ||
             "Ошибка отправки. Проверьте Telegram-сессию.";
@@ -195,11 +204,12 @@ const AIAutoGenerateModal = ({
     }
   };
 
-  const handleFetchVideoToDrive = async () => {
+  const handleFetchVideoToDrive = async (forceReupload = false) => {
     if (!channel) return;
 
     setDriveStatus("loading");
     setDriveMessage(null);
+    setDriveAlreadyUploaded(false);
 
     try {
       // Получаем название ролика из detailedResult.fileTitle
@@ -210,14 +220,21 @@ const AIAutoGenerateModal = ({
         channel.id,
         channel.googleDriveFolderId,
         undefined, // telegramMessageId - не передаём, ищем последнее видео
-        videoTitle || undefined // Передаём название ролика для имени файла
+        videoTitle || undefined, // Передаём название ролика для имени файла
+        runId || undefined,
+        forceReupload
       );
 
       if (result.status === "ok") {
         setDriveStatus("success");
         const webViewLink = result.driveWebViewLink || result.webViewLink;
         setDriveWebViewLink(webViewLink || null);
-        setDriveMessage("Видео успешно загружено в Google Drive");
+        setDriveAlreadyUploaded(result.alreadyUploaded === true);
+        setDriveMessage(
+          result.alreadyUploaded
+            ? "Это видео уже было загружено в Google Drive"
+            : "Видео успешно загружено в Google Drive"
+        );
       } else {
         setDriveStatus("error");
         setDriveMessage(
@@ -545,7 +562,7 @@ const AIAutoGenerateModal = ({
                       {syntxSendStatus === "sent" && (
                         <button
                           type="button"
-                          onClick={handleFetchVideoToDrive}
+                          onClick={() => void handleFetchVideoToDrive()}
                           disabled={driveStatus === "loading"}
                           className="flex items-center gap-2 rounded-lg border border-white/20 bg-slate-900/60 px-3 py-1.5 text-xs font-medium text-slate-100 transition hover:border-brand/40 hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed"
                         >
@@ -602,6 +619,15 @@ const AIAutoGenerateModal = ({
                           Открыть в Google Drive
                         </a>
                       )}
+                      {driveAlreadyUploaded && (
+                        <button
+                          type="button"
+                          onClick={() => void handleFetchVideoToDrive(true)}
+                          className="ml-2 underline text-slate-300 hover:text-white"
+                        >
+                          Загрузить заново
+                        </button>
+                      )}
                     </p>
                   )}
                   {driveStatus === "error" && driveMessage && (
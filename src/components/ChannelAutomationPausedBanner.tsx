@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { Loader2, PauseCircle, PlayCircle } from "lucide-react";
+import type { AutomationPauseReason, Channel } from "../domain/channel";
+import { resumeChannelAutomation, type AutomationProblem } from "../api/channels";
+import { useChannelStore } from "../stores/channelStore";
+import { timestampToDate } from "../utils/firestore";
+
+interface ChannelAutomationPausedBannerProps {
+  channel: Channel;
+  onResumed?: () => void;
+}
+
+const reasonLabels: Record<AutomationPauseReason, string> = {
+  TELEGRAM_SESSION_EXPIRED_NEED_RELOGIN: "Telegram-сессия истекла",
+  TELEGRAM_SESSION_NOT_INITIALIZED: "Telegram не подключён",
+  GOOGLE_DRIVE_FOLDER_NOT_FOUND: "Папка Google Drive не найдена",
+  GOOGLE_DRIVE_PERMISSION_DENIED: "Нет доступа к Google Drive",
+  GOOGLE_DRIVE_TOKEN_REVOKED: "Доступ к Google Drive отозван",
+  GOOGLE_DRIVE_ERROR: "Ошибка Google Drive",
+  SYNTX_INSUFFICIENT_BALANCE: "Недостаточно средств на балансе SyntX",
+  REPEATED_FAILURES: "Повторяющиеся ошибки"
+};
+
+const ChannelAutomationPausedBanner = ({
+  channel,
+  onResumed
+}: ChannelAutomationPausedBannerProps) => {
+  const clearAutomationPause = useChannelStore((state) => state.clearAutomationPause);
+  const [resuming, setResuming] = useState(false);
+  const [problems, setProblems] = useState<string[]>([]);
+
+  if (!channel.automationPausedAt) {
+    return null;
+  }
+
+  const handleResume = async (e: React.MouseEvent<HTMLButtonElement>) => {
+    e.stopPropagation();
+    setResuming(true);
+    setProblems([]);
+    try {
+      await resumeChannelAutomation(channel.id);
+      clearAutomationPause(channel.id);
+      onResumed?.();
+    } catch (err: any) {
+      const data = err?.response?.data;
+      const details = Array.isArray(data?.problems)
+        ? (data.problems as AutomationProblem[]).map((problem) => problem.message)
+        : [data?.message || err?.message || "Не удалось возобновить автоматику"];
+      setProblems(details);
+    } finally {
+      setResuming(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-xl border border-amber-500/30 bg-amber-950/30 px-4 py-3 text-sm text-amber-100">
+      <div className="flex flex-wrap items-center gap-3">
+        <PauseCircle size={18} className="text-amber-300" />
+        <span className="font-medium">
+          Автоматика на паузе
+          {channel.automationPauseReason
+            ? `: ${reasonLabels[channel.automationPauseReason]}`
+            : ""}
+        </span>
+        <span className="text-xs text-amber-200/70">
+          с {timestampToDate(channel.automationPausedAt).toLocaleString()}
+        </span>
+        <button
+          type="button"
+          onClick={(e) => void handleResume(e)}
+          disabled={resuming}
+          className="ml-auto flex items-center gap-2 rounded-lg border border-amber-400/40 px-3 py-1 text-xs font-medium text-amber-100 transition hover:border-amber-300 hover:text-white disabled:opacity-50"
+        >
+          {resuming ? (
+            <Loader2 size={14} className="animate-spin" />
+          ) : (
+            <PlayCircle size={14} />
+          )}
+          Проверить и возобновить
+        </button>
+      </div>
+      {channel.automationPauseMessage && (
+        <p className="text-xs text-amber-200/80">{channel.automationPauseMessage}</p>
+      )}
+      {problems.length > 0 && (
+        <ul className="list-disc space-y-1 pl-5 text-xs text-red-200">
+          {problems.map((problem) => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ChannelAutomationPausedBanner;
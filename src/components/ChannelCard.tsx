@@ -2,6 +2,7 @@ import { Calendar, Clock, Languages, Users, Sparkles } from "lucide-react";
 import type { Channel } from "../domain/channel";
 import { timestampToIso } from "../utils/firestore";
 import { CollapsibleText } from "./CollapsibleText";
+import ChannelAutomationPausedBanner from "./ChannelAutomationPausedBanner";
 
 interface ChannelCardProps {
   channel: Channel;
@@ -97,6 +98,12 @@ const ChannelCard = ({
         </div>
       </div>
 
+      {channel.automationPausedAt && (
+        <div className="mt-4">
+          <ChannelAutomationPausedBanner channel={channel} />
+        </div>
+      )}
+
       <div className="mt-4 grid gap-3 text-sm text-slate-300 md:grid-cols-2">
         <div className="flex items-center gap-2">
           <Clock className="h-4 w-4 text-brand-light" />
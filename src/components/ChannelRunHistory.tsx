@@ -0,0 +1,316 @@
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, ExternalLink, Loader2, RefreshCw, RotateCcw } from "lucide-react";
+import type {
+  GenerationRun,
+  GenerationRunSource,
+  GenerationRunStage,
+  GenerationRunStatus,
+  SyntxBotStatus
+} from "../domain/generationRun";
+import type { StorageBackendId } from "../domain/channel";
+import { generationRunRepository } from "../repositories/generationRunRepository";
+import { timestampToDate } from "../utils/firestore";
+import { fetchDeadLetterJobs, retryJob, type DeadLetterJob, type JobType } from "../api/jobs";
+
+interface ChannelRunHistoryProps {
+  userId: string;
+  channelId: string;
+}
+
+const statusLabels: Record<GenerationRunStatus, string> = {
+  generating: "Генерация",
+  sent: "Ожидает видео",
+  completed: "Готово",
+  failed: "Ошибка"
+};
+
+const statusClasses: Record<GenerationRunStatus, string> = {
+  generating: "border-sky-500/30 bg-sky-500/10 text-sky-200",
+  sent: "border-yellow-500/30 bg-yellow-500/10 text-yellow-200",
+  completed: "border-emerald-500/30 bg-emerald-500/10 text-emerald-200",
+  failed: "border-red-500/30 bg-red-500/10 text-red-200"
+};
+
+const sourceLabels: Record<GenerationRunSource, string> = {
+  scheduled: "По расписанию",
+  manual: "Вручную"
+};
+
+const stageLabels: Record<GenerationRunStage, string> = {
+  generate: "генерация промпта",
+  send: "отправка в SyntX",
+  video: "генерация видео в SyntX",
+  download: "загрузка в хранилище"
+};
+
+const storageLabels: Record<StorageBackendId, string> = {
+  googleDrive: "Google Drive",
+  local: "папку на сервере",
+  s3: "S3"
+};
+
+const botStatusLabels: Record<SyntxBotStatus, string> = {
+  queued: "SyntX принял промпт в работу",
+  error: "SyntX сообщил об ошибке",
+  insufficient_balance: "Недостаточно средств на балансе SyntX"
+};
+
+const jobTypeLabels: Record<JobType, string> = {
+  autoSend: "Отправка по расписанию",
+  autoDownload: "Автоскачивание в Google Drive"
+};
+
+const formatDateTime = (run: GenerationRun) =>
+  timestampToDate(run.startedAt).toLocaleString();
+
+const ChannelRunHistory = ({ userId, channelId }: ChannelRunHistoryProps) => {
+  const [runs, setRuns] = useState<GenerationRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<GenerationRunStatus | "all">("all");
+  const [sourceFilter, setSourceFilter] = useState<GenerationRunSource | "all">("all");
+  const [deadLetterJobs, setDeadLetterJobs] = useState<DeadLetterJob[]>([]);
+  const [retryingJobId, setRetryingJobId] = useState<string | null>(null);
+
+  const loadDeadLetterJobs = async () => {
+    try {
+      const data = await fetchDeadLetterJobs(channelId);
+      setDeadLetterJobs(data.jobs);
+    } catch (err) {
+      // Список проваленных задач вспомогательный — не мешаем показу истории
+      console.error("Failed to load dead-letter jobs", err);
+    }
+  };
+
+  const loadRuns = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await generationRunRepository.getRecentRuns(userId, channelId);
+      setRuns(data);
+      void loadDeadLetterJobs();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Не удалось загрузить историю запусков"
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void loadRuns();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId, channelId]);
+
+  const handleRetryJob = async (jobId: string) => {
+    setRetryingJobId(jobId);
+    setError(null);
+    try {
+      await retryJob(jobId);
+      setDeadLetterJobs((prev) => prev.filter((job) => job.id !== jobId));
+    } catch (err: any) {
+      setError(
+        err?.response?.data?.message ||
+          err?.message ||
+          "Не удалось повторить задачу"
+      );
+    } finally {
+      setRetryingJobId(null);
+    }
+  };
+
+  const filteredRuns = useMemo(
+    () =>
+      runs.filter(
+        (run) =>
+          (statusFilter === "all" || run.status === statusFilter) &&
+          (sourceFilter === "all" || run.source === sourceFilter)
+      ),
+    [runs, statusFilter, sourceFilter]
+  );
+
+  return (
+    <div className="space-y-6 rounded-2xl border border-white/10 bg-slate-900/60 p-8 shadow-2xl shadow-brand/10">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={statusFilter}
+          onChange={(e) =>
+            setStatusFilter(e.target.value as GenerationRunStatus | "all")
+          }
+          className="rounded-xl border border-white/10 bg-slate-950/60 px-4 py-2 text-sm text-white outline-none focus:border-brand"
+        >
+          <option value="all">Все статусы</option>
+          {(Object.keys(statusLabels) as GenerationRunStatus[]).map((status) => (
+            <option key={status} value={status}>
+              {statusLabels[status]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={sourceFilter}
+          onChange={(e) =>
+            setSourceFilter(e.target.value as GenerationRunSource | "all")
+          }
+          className="rounded-xl border border-white/10 bg-slate-950/60 px-4 py-2 text-sm text-white outline-none focus:border-brand"
+        >
+          <option value="all">Все запуски</option>
+          {(Object.keys(sourceLabels) as GenerationRunSource[]).map((source) => (
+            <option key={source} value={source}>
+              {sourceLabels[source]}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => void loadRuns()}
+          disabled={loading}
+          className="ml-auto flex items-center gap-2 rounded-xl border border-white/10 bg-slate-950/60 px-4 py-2 text-sm text-slate-300 transition hover:border-brand/40 hover:text-white disabled:opacity-50"
+        >
+          <RefreshCw size={14} className={loading ? "animate-spin" : ""} />
+          Обновить
+        </button>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-500/30 bg-red-950/40 px-4 py-3 text-sm text-red-200">
+          {error}
+        </div>
+      )}
+
+      {deadLetterJobs.length > 0 && (
+        <div className="space-y-3 rounded-xl border border-red-500/30 bg-red-950/20 p-4">
+          <div className="flex items-center gap-2 text-sm font-medium text-red-200">
+            <AlertTriangle size={16} />
+            Не выполнено после всех попыток: {deadLetterJobs.length}
+          </div>
+          <ul className="space-y-2">
+            {deadLetterJobs.map((job) => (
+              <li
+                key={job.id}
+                className="flex flex-wrap items-center gap-x-3 gap-y-1 rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-xs"
+              >
+                <span className="font-medium text-white">{jobTypeLabels[job.type]}</span>
+                <span className="text-slate-500">
+                  {job.finishedAt ? new Date(job.finishedAt).toLocaleString() : ""} · попыток:{" "}
+                  {job.attempts}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => void handleRetryJob(job.id)}
+                  disabled={retryingJobId === job.id}
+                  className="ml-auto flex items-center gap-1 rounded-lg border border-white/10 px-3 py-1 text-slate-200 transition hover:border-brand/40 hover:text-white disabled:opacity-50"
+                >
+                  {retryingJobId === job.id ? (
+                    <Loader2 size={12} className="animate-spin" />
+                  ) : (
+                    <RotateCcw size={12} />
+                  )}
+                  Повторить
+                </button>
+                {job.lastError && (
+                  <p className="w-full text-red-300">{job.lastError}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {loading && runs.length === 0 ? (
+        <div className="flex items-center gap-3 text-sm text-slate-300">
+          <Loader2 className="h-4 w-4 animate-spin text-brand-light" />
+          Загрузка истории...
+        </div>
+      ) : filteredRuns.length === 0 ? (
+        <p className="text-sm text-slate-400">Запусков пока нет</p>
+      ) : (
+        <ul className="space-y-3">
+          {filteredRuns.map((run) => (
+            <li
+              key={run.id}
+              className="space-y-2 rounded-xl border border-white/10 bg-slate-950/60 p-4"
+            >
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span
+                  className={`rounded-full border px-2 py-0.5 font-medium ${statusClasses[run.status]}`}
+                >
+                  {statusLabels[run.status]}
+                </span>
+                <span className="text-slate-400">{sourceLabels[run.source]}</span>
+                <span className="ml-auto text-slate-500">{formatDateTime(run)}</span>
+              </div>
+
+              <p className="text-sm font-medium text-white">
+                {run.title || run.fileName || "Без названия"}
+              </p>
+
+              {run.status === "sent" && run.botStatus && (
+                <p className="text-xs text-yellow-200">
+                  {botStatusLabels[run.botStatus]}
+                  {run.botStatusMessage ? `: ${run.botStatusMessage}` : ""}
+                </p>
+              )}
+
+              {run.status === "sent" && run.uploadedBytes != null && run.videoSizeBytes ? (
+                <p className="text-xs text-slate-300">
+                  Загрузка в {storageLabels[run.storageBackend ?? "googleDrive"]}:{" "}
+                  {Math.floor((run.uploadedBytes / run.videoSizeBytes) * 100)}%
+                </p>
+              ) : null}
+
+              {run.status === "failed" && run.error && (
+                <p className="text-xs text-red-300">
+                  {run.errorStage ? `Ошибка на этапе «${stageLabels[run.errorStage]}»: ` : ""}
+                  {run.error}
+                </p>
+              )}
+
+              {run.telegramDeliveryError && (
+                <p className="text-xs text-amber-300">
+                  Не удалось отправить видео в Telegram: {run.telegramDeliveryError}
+                </p>
+              )}
+
+              {run.videos && run.videos.length > 1 ? (
+                <div className="flex flex-wrap gap-x-3 gap-y-1">
+                  {run.videos.map((video, index) =>
+                    video.driveWebViewLink ? (
+                      <a
+                        key={video.messageId}
+                        href={video.driveWebViewLink}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        title={video.fileName ?? undefined}
+                        className="inline-flex items-center gap-1 text-xs text-brand-light hover:underline"
+                      >
+                        <ExternalLink size={12} />
+                        Вариант {index + 1}
+                      </a>
+                    ) : null
+                  )}
+                </div>
+              ) : (
+                run.driveWebViewLink && (
+                  <a
+                    href={run.driveWebViewLink}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-xs text-brand-light hover:underline"
+                  >
+                    <ExternalLink size={12} />
+                    {(run.storageBackend ?? "googleDrive") === "googleDrive"
+                      ? "Открыть в Google Drive"
+                      : "Открыть видео"}
+                  </a>
+                )
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ChannelRunHistory;
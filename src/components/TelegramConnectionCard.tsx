@@ -0,0 +1,211 @@
+import { useEffect, useState } from "react";
+import { CheckCircle2, Loader2, Send } from "lucide-react";
+import {
+  telegramConfirm,
+  telegramDisconnect,
+  telegramStart,
+  telegramStatus
+} from "../api/telegram";
+
+type Step = "phone" | "code";
+
+const errorMessages: Record<string, string> = {
+  FAILED_TO_SEND_CODE: "Не удалось отправить код. Проверьте номер телефона.",
+  NO_PENDING_LOGIN_SESSION: "Запрос кода устарел. Запросите код ещё раз.",
+  MTPROTO_STATE_NOT_FOUND: "Запрос кода устарел. Запросите код ещё раз.",
+  PASSWORD_REQUIRED_FOR_2FA: "Аккаунт защищён облачным паролем. Введите пароль.",
+  INVALID_CODE_OR_LOGIN_FAILED: "Неверный код или пароль.",
+  FAILED_TO_CONFIRM: "Не удалось подтвердить вход. Попробуйте ещё раз."
+};
+
+const getErrorCode = (err: any): string | undefined => err?.response?.data?.error;
+
+const TelegramConnectionCard = () => {
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [phoneMasked, setPhoneMasked] = useState<string | null>(null);
+  const [step, setStep] = useState<Step>("phone");
+  const [phone, setPhone] = useState("");
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [passwordRequired, setPasswordRequired] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadStatus = async () => {
+      try {
+        const status = await telegramStatus();
+        setPhoneMasked(status.connected ? status.phoneMasked : null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Не удалось получить статус Telegram");
+      } finally {
+        setLoading(false);
+      }
+    };
+    void loadStatus();
+  }, []);
+
+  const handleSendCode = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await telegramStart(phone.trim());
+      setStep("code");
+    } catch (err: any) {
+      const code = getErrorCode(err);
+      setError((code && errorMessages[code]) || err?.message || "Ошибка отправки кода");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const result = await telegramConfirm(
+        phone.trim(),
+        code.trim(),
+        passwordRequired ? password : undefined
+      );
+      setPhoneMasked(result.phoneMasked ?? "•••");
+      setStep("phone");
+      setCode("");
+      setPassword("");
+      setPasswordRequired(false);
+    } catch (err: any) {
+      const errorCode = getErrorCode(err);
+      if (errorCode === "PASSWORD_REQUIRED_FOR_2FA") {
+        setPasswordRequired(true);
+      }
+      if (errorCode === "NO_PENDING_LOGIN_SESSION" || errorCode === "MTPROTO_STATE_NOT_FOUND") {
+        setStep("phone");
+      }
+      setError((errorCode && errorMessages[errorCode]) || err?.message || "Ошибка входа");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDisconnect = async () => {
+    if (!window.confirm("Отключить Telegram? Автоотправка по каналам перестанет работать.")) {
+      return;
+    }
+    setSubmitting(true);
+    setError(null);
+    try {
+      await telegramDisconnect();
+      setPhoneMasked(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Не удалось отключить Telegram");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-2xl border border-white/10 bg-slate-900/60 p-8">
+      <h2 className="text-lg font-semibold">Telegram</h2>
+      <p className="text-sm text-slate-400">
+        Промпты отправляются в SyntX от имени вашего Telegram-аккаунта, видео скачиваются из
+        вашего чата с ботом.
+      </p>
+
+      {error && (
+        <div className="rounded-lg border border-red-500/30 bg-red-950/40 px-4 py-3 text-sm text-red-200">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center gap-3 text-sm text-slate-300">
+          <Loader2 className="h-4 w-4 animate-spin text-brand-light" />
+          Проверяем подключение...
+        </div>
+      ) : phoneMasked ? (
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="flex items-center gap-2 text-sm text-emerald-300">
+            <CheckCircle2 size={16} />
+            Подключён: {phoneMasked}
+          </span>
+          <button
+            type="button"
+            onClick={() => void handleDisconnect()}
+            disabled={submitting}
+            className="ml-auto rounded-xl border border-red-500/40 px-4 py-2 text-sm text-red-200 transition hover:border-red-400 hover:text-white disabled:opacity-50"
+          >
+            Отключить
+          </button>
+        </div>
+      ) : step === "phone" ? (
+        <div className="flex flex-wrap gap-3">
+          <input
+            type="tel"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            placeholder="+7 700 000 00 00"
+            className="flex-1 rounded-xl border border-white/10 bg-slate-950/60 px-4 py-2 text-sm text-white outline-none focus:border-brand"
+          />
+          <button
+            type="button"
+            onClick={() => void handleSendCode()}
+            disabled={submitting || !phone.trim()}
+            className="flex items-center gap-2 rounded-xl bg-brand px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-dark disabled:opacity-50"
+          >
+            {submitting ? <Loader2 size={14} className="animate-spin" /> : <Send size={14} />}
+            Получить код
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-slate-300">
+            Код отправлен в Telegram на номер {phone}.
+          </p>
+          <div className="flex flex-wrap gap-3">
+            <input
+              type="text"
+              inputMode="numeric"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Код из Telegram"
+              className="flex-1 rounded-xl border border-white/10 bg-slate-950/60 px-4 py-2 text-sm text-white outline-none focus:border-brand"
+            />
+            {passwordRequired && (
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Облачный пароль"
+                className="flex-1 rounded-xl border border-white/10 bg-slate-950/60 px-4 py-2 text-sm text-white outline-none focus:border-brand"
+              />
+            )}
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <button
+              type="button"
+              onClick={() => void handleConfirm()}
+              disabled={submitting || !code.trim() || (passwordRequired && !password)}
+              className="flex items-center gap-2 rounded-xl bg-brand px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-dark disabled:opacity-50"
+            >
+              {submitting && <Loader2 size={14} className="animate-spin" />}
+              Подтвердить
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setStep("phone");
+                setError(null);
+              }}
+              disabled={submitting}
+              className="rounded-xl border border-white/10 px-4 py-2 text-sm text-slate-300 transition hover:border-brand/40 hover:text-white"
+            >
+              Изменить номер
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TelegramConnectionCard;
@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { EyeOff, Inbox, Loader2, RefreshCw, Send } from "lucide-react";
+import type { Channel } from "../domain/channel";
+import {
+  assignUnassignedVideo,
+  dismissUnassignedVideo,
+  fetchUnassignedVideos,
+  type UnassignedVideo
+} from "../api/videos";
+
+interface UnassignedVideosInboxProps {
+  channels: Channel[];
+}
+
+const UnassignedVideosInbox = ({ channels }: UnassignedVideosInboxProps) => {
+  const [videos, setVideos] = useState<UnassignedVideo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedChannels, setSelectedChannels] = useState<Record<string, string>>({});
+  const [busyVideoId, setBusyVideoId] = useState<string | null>(null);
+
+  const loadVideos = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await fetchUnassignedVideos();
+      setVideos(data.videos);
+    } catch (err: any) {
+      setError(
+        err?.response?.data?.message || err?.message || "Не удалось загрузить входящие видео"
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void loadVideos();
+  }, []);
+
+  const removeVideo = (videoId: string) => {
+    setVideos((prev) => prev.filter((video) => video.id !== videoId));
+  };
+
+  const handleAssign = async (videoId: string) => {
+    const channelId = selectedChannels[videoId];
+    if (!channelId) {
+      return;
+    }
+    setBusyVideoId(videoId);
+    setError(null);
+    try {
+      await assignUnassignedVideo(videoId, channelId);
+      removeVideo(videoId);
+    } catch (err: any) {
+      setError(err?.response?.data?.message || err?.message || "Не удалось назначить видео");
+    } finally {
+      setBusyVideoId(null);
+    }
+  };
+
+  const handleDismiss = async (videoId: string) => {
+    setBusyVideoId(videoId);
+    setError(null);
+    try {
+      await dismissUnassignedVideo(videoId);
+      removeVideo(videoId);
+    } catch (err: any) {
+      setError(err?.response?.data?.message || err?.message || "Не удалось скрыть видео");
+    } finally {
+      setBusyVideoId(null);
+    }
+  };
+
+  // Пустые «Входящие» не показываем, чтобы не занимать место на главной
+  if (videos.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <section className="space-y-4 rounded-3xl border border-amber-500/30 bg-amber-950/20 p-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <Inbox size={18} className="text-amber-300" />
+        <div className="flex-1">
+          <h2 className="text-lg font-semibold text-white">
+            Неразобранные видео ({videos.length})
+          </h2>
+          <p className="text-sm text-slate-400">
+            Эти видео пришли из SyntX, но их не удалось сопоставить с отправленным промптом.
+            Выберите канал, в папку которого нужно загрузить видео.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => void loadVideos()}
+          disabled={loading}
+          className="flex items-center gap-2 rounded-xl border border-white/10 px-4 py-2 text-sm text-slate-200 transition hover:border-brand/40 hover:text-white disabled:opacity-50"
+        >
+          <RefreshCw size={14} className={loading ? "animate-spin" : ""} />
+          Обновить
+        </button>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-red-500/30 bg-red-950/40 px-4 py-3 text-sm text-red-200">
+          {error}
+        </div>
+      )}
+
+      <ul className="space-y-2">
+        {videos.map((video) => (
+          <li
+            key={video.id}
+            className="flex flex-wrap items-center gap-3 rounded-xl border border-white/10 bg-slate-950/60 px-4 py-3 text-sm"
+          >
+            <div className="min-w-0 flex-1">
+              <p className="truncate font-medium text-white">
+                {video.fileName || `Видео #${video.videoMessageId}`}
+              </p>
+              <p className="text-xs text-slate-500">
+                {new Date(video.receivedAt).toLocaleString()}
+              </p>
+              {video.caption && (
+                <p className="mt-1 line-clamp-2 text-xs text-slate-300">{video.caption}</p>
+              )}
+            </div>
+            <select
+              value={selectedChannels[video.id] ?? ""}
+              onChange={(e) =>
+                setSelectedChannels((prev) => ({ ...prev, [video.id]: e.target.value }))
+              }
+              className="rounded-xl border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none focus:border-brand"
+            >
+              <option value="">Выберите канал</option>
+              {channels.map((channel) => (
+                <option key={channel.id} value={channel.id}>
+                  {channel.name}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => void handleAssign(video.id)}
+              disabled={!selectedChannels[video.id] || busyVideoId === video.id}
+              className="flex items-center gap-1 rounded-xl bg-brand px-3 py-2 text-sm font-semibold text-white transition hover:bg-brand-dark disabled:opacity-50"
+            >
+              {busyVideoId === video.id ? (
+                <Loader2 size={14} className="animate-spin" />
+              ) : (
+                <Send size={14} />
+              )}
+              Назначить
+            </button>
+            <button
+              type="button"
+              onClick={() => void handleDismiss(video.id)}
+              disabled={busyVideoId === video.id}
+              title="Скрыть видео"
+              className="flex items-center gap-1 rounded-xl border border-white/10 px-3 py-2 text-sm text-slate-300 transition hover:border-red-500/40 hover:text-red-200 disabled:opacity-50"
+            >
+              <EyeOff size={14} />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default UnassignedVideosInbox;
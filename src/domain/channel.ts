@@ -14,13 +14,58 @@ export type SupportedLanguage = "ru" | "en" | "kk";
 
 export type GenerationMode = "script" | "prompt" | "video-prompt-only";
 
+// Что делать с запусками, пропущенными пока backend был недоступен
+export type ScheduleCatchUpPolicy = "skip" | "once" | "all";
+
+// weekly — дни недели + одно время (по умолчанию для старых расписаний),
+// interval — каждые N минут в пределах окна, cron — cron-выражение
+export type ScheduleType = "weekly" | "interval" | "cron";
+
+// Причина, по которой backend поставил автоматику канала на паузу
+export type AutomationPauseReason =
+  | "TELEGRAM_SESSION_EXPIRED_NEED_RELOGIN"
+  | "TELEGRAM_SESSION_NOT_INITIALIZED"
+  | "GOOGLE_DRIVE_FOLDER_NOT_FOUND"
+  | "GOOGLE_DRIVE_PERMISSION_DENIED"
+  | "GOOGLE_DRIVE_TOKEN_REVOKED"
+  | "GOOGLE_DRIVE_ERROR"
+  | "SYNTX_INSUFFICIENT_BALANCE"
+  | "REPEATED_FAILURES";
+
+// forward — переслать видео из чата бота, upload — отправить заново своим сообщением с подписью
+export type TelegramDeliveryMethod = "forward" | "upload";
+
+// publish — опубликовать, draft — отправить на проверку в «Избранное» аккаунта Telegram
+export type TelegramDeliveryMode = "publish" | "draft";
+
+// Куда backend складывает готовые видео: Google Drive, папка на сервере или S3-совместимый бакет
+export type StorageBackendId = "googleDrive" | "local" | "s3";
+
+// Telegram-канал или группа, куда backend отправляет готовое видео после загрузки в хранилище
+export interface ChannelTelegramDeliveryTarget {
+  chatId: string; // @username или числовой ID
+  method: TelegramDeliveryMethod;
+  mode: TelegramDeliveryMode;
+}
+
 export interface ChannelAutoSendSchedule {
   id: string; // uuid
+  label?: string; // название расписания (подпапка {scheduleLabel} в Google Drive)
   enabled: boolean; // включен ли этот конкретный слот
+  type?: ScheduleType; // по умолчанию "weekly"
   daysOfWeek: number[]; // 0–6 (вс, пн, вт, ...), локальная неделя
   time: string; // "HH:MM" в локальном времени пользователя (24h формат)
+  intervalMinutes?: number; // для interval: шаг между запусками
+  windowStart?: string; // для interval: "HH:MM", начало окна
+  windowEnd?: string; // для interval: "HH:MM", конец окна (включительно)
+  cronExpression?: string; // для cron: "минута час день месяц день_недели"
+  startDate?: string | null; // "YYYY-MM-DD", начало кампании
+  endDate?: string | null; // "YYYY-MM-DD", конец кампании (включительно)
+  blackoutDates?: string[]; // "YYYY-MM-DD", дни без запусков (праздники и т.п.)
   promptsPerRun: number; // сколько промптов генерировать за один запуск
   lastRunAt?: string | null; // ISO-дата последнего запуска
+  catchUpPolicy?: ScheduleCatchUpPolicy; // по умолчанию "skip"
+  catchUpWindowHours?: number; // за сколько часов назад догонять пропущенные запуски (по умолчанию 6)
 }
 
 export interface Channel {
@@ -42,8 +87,20 @@ export interface Channel {
   // Настройки Telegram / SyntX
   telegramAutoSendEnabled?: boolean;
   telegramAutoScheduleEnabled?: boolean;
+  // Бот-генератор видео (ID провайдера на сервере); не задан — SyntX
+  generationProviderId?: string | null;
+  // Хранилище видео канала; не задано — Google Drive
+  storageBackend?: StorageBackendId | null;
+  // Подпапка канала в локальном хранилище или префикс ключей в S3
+  storagePath?: string | null;
   // Google Drive: папка, куда будут сохраняться видео из SyntX для этого канала
   googleDriveFolderId?: string;
+  // Шаблон подпапок внутри googleDriveFolderId, например "{channel}/{yyyy-MM}/{scheduleLabel}"
+  googleDriveFolderLayout?: string | null;
+  // Класть рядом с видео сценарий (JSON, Markdown) и субтитры SRT
+  googleDriveSidecarsEnabled?: boolean;
+  // Доставка готового видео в Telegram-канал/группу пользователя; null — не отправлять
+  telegramDeliveryTarget?: ChannelTelegramDeliveryTarget | null;
   // Автоотправка в Syntx по расписанию
   autoSendEnabled?: boolean; // общий флаг: включена ли автоматика для канала
   timezone?: string; // IANA-таймзона пользователя, например "Asia/Almaty"
@@ -51,6 +108,11 @@ export interface Channel {
   // Автоматическое скачивание видео в Google Drive
   autoDownloadToDriveEnabled?: boolean; // по умолчанию false
   autoDownloadDelayMinutes?: number; // по умолчанию 10, min 1, max 60
+  // Состояние автоматики: заполняется только backend, frontend не сохраняет эти поля
+  automationFailureCount?: number; // ошибок подряд
+  automationPausedAt?: Timestamp | null; // когда автоматика поставлена на паузу
+  automationPauseReason?: AutomationPauseReason | null;
+  automationPauseMessage?: string | null;
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
@@ -117,6 +179,24 @@ export const channelConverter: FirestoreDataConverter<Channel> = {
     if (rest.autoDownloadDelayMinutes !== undefined) {
       data.autoDownloadDelayMinutes = rest.autoDownloadDelayMinutes;
     }
+    if (rest.generationProviderId !== undefined) {
+      data.generationProviderId = rest.generationProviderId;
+    }
+    if (rest.storageBackend !== undefined) {
+      data.storageBackend = rest.storageBackend;
+    }
+    if (rest.storagePath !== undefined) {
+      data.storagePath = rest.storagePath;
+    }
+    if (rest.googleDriveFolderLayout !== undefined) {
+      data.googleDriveFolderLayout = rest.googleDriveFolderLayout;
+    }
+    if (rest.googleDriveSidecarsEnabled !== undefined) {
+      data.googleDriveSidecarsEnabled = rest.googleDriveSidecarsEnabled;
+    }
+    if (rest.telegramDeliveryTarget !== undefined) {
+      data.telegramDeliveryTarget = rest.telegramDeliveryTarget;
+    }
     
     return data;
   },
@@ -147,9 +227,15 @@ export const createEmptyChannel = (): Channel => {
     youtubeUrl: null,
     tiktokUrl: null,
     instagramUrl: null,
+    storageBackend: null,
+    storagePath: null,
     googleDriveFolderId: undefined,
+    googleDriveFolderLayout: null,
+    googleDriveSidecarsEnabled: false,
     telegramAutoSendEnabled: false,
     telegramAutoScheduleEnabled: false,
+    generationProviderId: null,
+    telegramDeliveryTarget: null,
     autoSendEnabled: false,
     timezone: undefined,
     autoSendSchedules: [],
@@ -0,0 +1,70 @@
+import { Timestamp, type FirestoreDataConverter } from "firebase/firestore";
+import type { StorageBackendId } from "./channel";
+
+export type GenerationRunSource = "scheduled" | "manual";
+
+export type GenerationRunStatus = "generating" | "sent" | "completed" | "failed";
+
+export type GenerationRunStage = "generate" | "send" | "video" | "download";
+
+// Распознанный ответ SyntX-бота на промпт
+export type SyntxBotStatus = "queued" | "error" | "insufficient_balance";
+
+// Одно из видео запуска: бот может прислать несколько вариантов или альбом
+export interface GenerationRunVideo {
+  messageId: number;
+  driveFileId: string;
+  driveWebViewLink: string | null;
+  fileName: string | null;
+}
+
+export interface GenerationRun {
+  id: string;
+  channelId: string;
+  scheduleId: string | null;
+  source: GenerationRunSource;
+  status: GenerationRunStatus;
+  title?: string | null;
+  description?: string | null;
+  hashtags?: string[] | null;
+  prompt?: string | null;
+  telegramMessageId?: number | null;
+  downloadJobId?: string | null;
+  storageBackend?: StorageBackendId | null; // куда загружено видео; null — Google Drive
+  driveFileId?: string | null;
+  driveWebViewLink?: string | null;
+  fileName?: string | null;
+  videos?: GenerationRunVideo[] | null; // все видео запуска; первое — в driveFileId/fileName
+  videoSizeBytes?: number | null;
+  uploadedBytes?: number | null; // прогресс загрузки в хранилище
+  error?: string | null;
+  errorStage?: GenerationRunStage | null;
+  botStatus?: SyntxBotStatus | null;
+  botStatusMessage?: string | null;
+  botStatusAt?: Timestamp | null;
+  startedAt: Timestamp;
+  promptSentAt?: Timestamp | null;
+  videoUploadedAt?: Timestamp | null;
+  telegramDeliveredAt?: Timestamp | null; // видео отправлено в Telegram-чат доставки канала
+  telegramDeliveryError?: string | null;
+  finishedAt?: Timestamp | null;
+}
+
+// Записи создаёт только backend, поэтому конвертер используется лишь для чтения
+export const generationRunConverter: FirestoreDataConverter<GenerationRun> = {
+  toFirestore(run: GenerationRun) {
+    const { id, ...rest } = run;
+    return rest;
+  },
+  fromFirestore(snapshot, options): GenerationRun {
+    const data = snapshot.data(options) as Omit<GenerationRun, "id">;
+    return {
+      id: snapshot.id,
+      ...data,
+      scheduleId: data.scheduleId ?? null,
+      source: data.source ?? "manual",
+      status: data.status ?? "generating",
+      startedAt: data.startedAt ?? Timestamp.now()
+    };
+  }
+};
@@ -2,6 +2,7 @@ import { useEffect } from "react";
 import { Loader2 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { useAuthStore } from "../../stores/authStore";
+import TelegramConnectionCard from "../../components/TelegramConnectionCard";
 
 const AccountSettingsPage = () => {
   const { user } = useAuthStore((state) => ({ user: state.user }));
@@ -30,7 +31,7 @@ const AccountSettingsPage = () => {
         <div>
           <h1 className="text-2xl font-semibold">Настройки аккаунта</h1>
           <p className="mt-2 text-sm text-slate-400">
-            Здесь в будущем появятся дополнительные настройки аккаунта.
+            Профиль и подключение Telegram для отправки промптов в SyntX.
           </p>
         </div>
 
@@ -43,12 +44,9 @@ const AccountSettingsPage = () => {
             </span>
             .
           </p>
-          <p className="text-sm text-slate-500">
-            Telegram-интеграция сейчас управляется только на стороне backend и
-            CLI. В веб-интерфейсе никаких действий с Telegram выполнять не
-            нужно.
-          </p>
         </div>
+
+        <TelegramConnectionCard />
       </div>
     </div>
   );
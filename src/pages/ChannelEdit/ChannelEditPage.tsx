@@ -8,8 +8,20 @@ import type {
   SupportedPlatform,
   SupportedLanguage,
   GenerationMode,
-  ChannelAutoSendSchedule
+  ChannelAutoSendSchedule,
+  ScheduleCatchUpPolicy,
+  ScheduleType,
+  TelegramDeliveryMethod,
+  TelegramDeliveryMode,
+  StorageBackendId
 } from "../../domain/channel";
+import ChannelRunHistory from "../../components/ChannelRunHistory";
+import ChannelAutomationPausedBanner from "../../components/ChannelAutomationPausedBanner";
+import {
+  fetchGenerationProviders,
+  type GenerationProviderInfo
+} from "../../api/providers";
+import { fetchStorageBackends, type StorageBackendInfo } from "../../api/storage";
 
 const PLATFORMS: { value: SupportedPlatform; label: string }[] = [
   { value: "YOUTUBE_SHORTS", label: "YouTube Shorts" },
@@ -26,6 +38,21 @@ const LANGUAGES: { value: SupportedLanguage; label: string }[] = [
 
 const DURATIONS = [8, 15, 30, 60];
 
+const SCHEDULE_TYPES: { value: ScheduleType; label: string }[] = [
+  { value: "weekly", label: "По дням недели" },
+  { value: "interval", label: "Интервал" },
+  { value: "cron", label: "Cron" }
+];
+
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+const CRON_PATTERN = /^\S+\s+\S+\s+\S+\s+\S+\s+\S+$/;
+
+const CATCH_UP_POLICIES: { value: ScheduleCatchUpPolicy; label: string }[] = [
+  { value: "skip", label: "Пропускать" },
+  { value: "once", label: "Выполнить один раз после восстановления" },
+  { value: "all", label: "Выполнить все пропущенные" }
+];
+
 const TONES = [
   "Юмор",
   "Серьёзно",
@@ -66,6 +93,19 @@ const ChannelEditPage = () => {
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [channel, setChannel] = useState<Channel | null>(null);
+  const [activeTab, setActiveTab] = useState<"settings" | "history">("settings");
+  const [providers, setProviders] = useState<GenerationProviderInfo[]>([]);
+  const [storageBackends, setStorageBackends] = useState<StorageBackendInfo[]>([]);
+
+  const updateScheduleAt = (
+    index: number,
+    patch: Partial<ChannelAutoSendSchedule>
+  ) => {
+    if (!channel) return;
+    const updated = [...(channel.autoSendSchedules || [])];
+    updated[index] = { ...updated[index], ...patch };
+    setChannel({ ...channel, autoSendSchedules: updated });
+  };
   const [urlErrors, setUrlErrors] = useState<{
     youtube?: string;
     tiktok?: string;
@@ -100,6 +140,21 @@ const ChannelEditPage = () => {
     void loadChannel();
   }, [user?.uid, channelId, navigate, fetchChannels]);
 
+  useEffect(() => {
+    // Список ботов-генераторов нужен только для выбора; при ошибке остаётся SyntX по умолчанию
+    fetchGenerationProviders()
+      .then((data) => setProviders(data.providers))
+      .catch((err) => {
+        console.error("Failed to load generation providers", err);
+      });
+    // Без списка хранилищ канал продолжает сохранять видео в Google Drive
+    fetchStorageBackends()
+      .then((data) => setStorageBackends(data.backends))
+      .catch((err) => {
+        console.error("Failed to load storage backends", err);
+      });
+  }, []);
+
   useEffect(() => {
     if (channels.length > 0 && channelId) {
       const found = channels.find((c) => c.id === channelId);
@@ -111,7 +166,13 @@ const ChannelEditPage = () => {
           youtubeUrl: found.youtubeUrl || null,
           tiktokUrl: found.tiktokUrl || null,
           instagramUrl: found.instagramUrl || null,
+          storageBackend: found.storageBackend ?? null,
+          storagePath: found.storagePath ?? null,
           googleDriveFolderId: found.googleDriveFolderId,
+          googleDriveFolderLayout: found.googleDriveFolderLayout ?? null,
+          googleDriveSidecarsEnabled: found.googleDriveSidecarsEnabled || false,
+          generationProviderId: found.generationProviderId ?? null,
+          telegramDeliveryTarget: found.telegramDeliveryTarget ?? null,
           autoSendEnabled: found.autoSendEnabled || false,
           timezone: found.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone,
           autoSendSchedules: found.autoSendSchedules || [],
@@ -169,20 +230,55 @@ const ChannelEditPage = () => {
 
       const schedules = channel.autoSendSchedules || [];
       for (const schedule of schedules) {
-        if (!schedule.time || !schedule.time.match(/^\d{2}:\d{2}$/)) {
+        const scheduleType = schedule.type || "weekly";
+
+        if (scheduleType === "weekly" && (!schedule.time || !schedule.time.match(TIME_PATTERN))) {
           setError("Укажите корректное время в формате HH:MM для всех расписаний");
           return;
         }
 
-        if (!schedule.daysOfWeek || schedule.daysOfWeek.length === 0) {
+        if (scheduleType !== "cron" && (!schedule.daysOfWeek || schedule.daysOfWeek.length === 0)) {
           setError("Выберите хотя бы один день недели для всех расписаний");
           return;
         }
 
+        if (scheduleType === "interval") {
+          if (
+            !schedule.windowStart?.match(TIME_PATTERN) ||
+            !schedule.windowEnd?.match(TIME_PATTERN) ||
+            schedule.windowStart > schedule.windowEnd
+          ) {
+            setError("Укажите корректное окно запусков (начало не позже конца) для интервальных расписаний");
+            return;
+          }
+          if (!schedule.intervalMinutes || schedule.intervalMinutes < 5) {
+            setError("Интервал между запусками должен быть не меньше 5 минут");
+            return;
+          }
+        }
+
+        if (scheduleType === "cron" && !schedule.cronExpression?.trim().match(CRON_PATTERN)) {
+          setError("Cron-выражение должно состоять из 5 полей: минута час день месяц день_недели");
+          return;
+        }
+
+        if (schedule.startDate && schedule.endDate && schedule.startDate > schedule.endDate) {
+          setError("Дата начала расписания не может быть позже даты окончания");
+          return;
+        }
+
         if (schedule.promptsPerRun < 1 || schedule.promptsPerRun > 10) {
           setError("Количество промптов за запуск должно быть от 1 до 10");
           return;
         }
+
+        if (
+          schedule.catchUpWindowHours !== undefined &&
+          (schedule.catchUpWindowHours < 1 || schedule.catchUpWindowHours > 168)
+        ) {
+          setError("Окно догоняющих запусков должно быть от 1 до 168 часов");
+          return;
+        }
       }
     }
 
@@ -231,6 +327,18 @@ const ChannelEditPage = () => {
     );
   }
 
+  const storageBackend: StorageBackendId = channel.storageBackend ?? "googleDrive";
+  const selectedStorage = storageBackends.find((backend) => backend.id === storageBackend);
+  // Итоговое место сохранения: папка или префикс канала и шаблон подпапок
+  const storageTarget = [
+    storageBackend === "googleDrive"
+      ? channel.googleDriveFolderId || "папка по умолчанию на сервере"
+      : channel.storagePath?.trim(),
+    channel.googleDriveFolderLayout?.trim()
+  ]
+    .filter(Boolean)
+    .join(" / ");
+
   return (
     <div className="min-h-screen bg-slate-950 px-4 py-10 text-white">
       <div className="mx-auto w-full max-w-3xl">
@@ -246,6 +354,46 @@ const ChannelEditPage = () => {
           <h1 className="text-2xl font-semibold">Редактирование канала</h1>
         </div>
 
+        {channel.automationPausedAt && (
+          <div className="mb-6">
+            <ChannelAutomationPausedBanner
+              channel={channel}
+              onResumed={() =>
+                setChannel({
+                  ...channel,
+                  automationFailureCount: 0,
+                  automationPausedAt: null,
+                  automationPauseReason: null,
+                  automationPauseMessage: null
+                })
+              }
+            />
+          </div>
+        )}
+
+        <div className="mb-6 flex gap-2">
+          {([
+            { value: "settings", label: "Настройки" },
+            { value: "history", label: "История" }
+          ] as const).map((tab) => (
+            <button
+              key={tab.value}
+              type="button"
+              onClick={() => setActiveTab(tab.value)}
+              className={`rounded-xl border px-4 py-2 text-sm transition ${
+                activeTab === tab.value
+                  ? "border-brand bg-brand/10 text-white"
+                  : "border-white/10 bg-slate-900/60 text-slate-300 hover:border-brand/40"
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {activeTab === "history" && user?.uid ? (
+          <ChannelRunHistory userId={user.uid} channelId={channel.id} />
+        ) : (
         <form onSubmit={handleSubmit}>
           <div className="space-y-6 rounded-2xl border border-white/10 bg-slate-900/60 p-8 shadow-2xl shadow-brand/10">
             {error && (
@@ -621,30 +769,277 @@ const ChannelEditPage = () => {
                 </div>
               </div>
 
+              {/* Хранилище видео */}
+              {storageBackends.length > 0 && (
+                <div className="mt-6 space-y-2">
+                  <label className="block text-sm font-medium text-slate-200">
+                    Хранилище видео
+                  </label>
+                  <select
+                    value={storageBackend}
+                    onChange={(e) =>
+                      setChannel({
+                        ...channel,
+                        // Google Drive — значение по умолчанию, явно не сохраняем
+                        storageBackend:
+                          e.target.value === "googleDrive"
+                            ? null
+                            : (e.target.value as StorageBackendId)
+                      })
+                    }
+                    className="w-full rounded-xl border border-white/10 bg-slate-950/60 px-4 py-3 text-white outline-none transition focus:border-brand focus:ring-2 focus:ring-brand/40"
+                  >
+                    {storageBackends.map((backend) => (
+                      <option
+                        key={backend.id}
+                        value={backend.id}
+                        disabled={!backend.configured && backend.id !== storageBackend}
+                      >
+                        {backend.name}
+                        {!backend.configured ? " — не настроено на сервере" : ""}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-slate-400">
+                    Видео сохраняются: {selectedStorage?.name ?? "Google Drive"}
+                    {storageTarget ? ` → ${storageTarget}` : ""}
+                    {selectedStorage?.description ? ` (${selectedStorage.description})` : ""}
+                  </p>
+                  {selectedStorage && !selectedStorage.configured && (
+                    <p className="text-xs text-yellow-300">
+                      Это хранилище не настроено на сервере — загрузка видео завершится ошибкой.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {storageBackend !== "googleDrive" && (
+                <div className="mt-4 space-y-2">
+                  <label className="block text-sm font-medium text-slate-200">
+                    {storageBackend === "s3" ? "Префикс ключей в бакете" : "Подпапка канала"} (опционально)
+                  </label>
+                  <input
+                    type="text"
+                    value={channel.storagePath || ""}
+                    onChange={(e) =>
+                      setChannel({
+                        ...channel,
+                        storagePath: e.target.value || null
+                      })
+                    }
+                    placeholder="Например: my-channel/videos"
+                    className="w-full rounded-xl border border-white/10 bg-slate-950/60 px-4 py-3 text-white outline-none transition placeholder:text-slate-500 focus:border-brand focus:ring-2 focus:ring-brand/40"
+                  />
+                  <p className="text-xs text-slate-400">
+                    Путь задаётся внутри папки вашего канала в хранилище (пользователь / канал).
+                    Пусто — видео сохраняются прямо в папку канала. Файлы с одинаковым именем не
+                    перезаписываются: к новому добавляется номер.
+                  </p>
+                </div>
+              )}
+
               {/* Google Drive настройки */}
-              <div className="mt-6 space-y-2">
+              {storageBackend === "googleDrive" && (
+                <div className="mt-6 space-y-2">
+                  <label className="block text-sm font-medium text-slate-200">
+                    Google Drive Folder ID (опционально)
+                  </label>
+                  <input
+                    type="text"
+                    value={channel.googleDriveFolderId || ""}
+                    onChange={(e) =>
+                      setChannel({
+                        ...channel,
+                        googleDriveFolderId: e.target.value.trim() || undefined
+                      })
+                    }
+                    placeholder="Например: 1AbCdEfGhIjKlMnOpQrStUvWxYz"
+                    className="w-full rounded-xl border border-white/10 bg-slate-950/60 px-4 py-3 text-white outline-none transition placeholder:text-slate-500 focus:border-brand focus:ring-2 focus:ring-brand/40"
+                  />
+                  <p className="text-xs text-slate-400">
+                    Укажите ID папки на Google Drive, в которую будут сохраняться
+                    видео из SyntX для этого канала.
+                  </p>
+                </div>
+              )}
+
+              <div className="mt-4 space-y-2">
                 <label className="block text-sm font-medium text-slate-200">
-                  Google Drive Folder ID (опционально)
+                  Структура подпапок (опционально)
                 </label>
                 <input
                   type="text"
-                  value={channel.googleDriveFolderId || ""}
+                  value={channel.googleDriveFolderLayout || ""}
                   onChange={(e) =>
                     setChannel({
                       ...channel,
-                      googleDriveFolderId: e.target.value.trim() || undefined
+                      googleDriveFolderLayout: e.target.value || null
                     })
                   }
-                  placeholder="Например: 1AbCdEfGhIjKlMnOpQrStUvWxYz"
+                  placeholder="{channel}/{yyyy-MM}/{scheduleLabel}"
                   className="w-full rounded-xl border border-white/10 bg-slate-950/60 px-4 py-3 text-white outline-none transition placeholder:text-slate-500 focus:border-brand focus:ring-2 focus:ring-brand/40"
                 />
                 <p className="text-xs text-slate-400">
-                  Укажите ID папки на Google Drive, в которую будут сохраняться
-                  видео из SyntX для этого канала.
+                  Недостающие папки создаются автоматически. Доступно: {"{channel}"},{" "}
+                  {"{yyyy}"}, {"{MM}"}, {"{dd}"}, {"{yyyy-MM}"}, {"{yyyy-MM-dd}"},{" "}
+                  {"{scheduleLabel}"} (название расписания или «Вручную») и {"{source}"}.
+                  Пусто — все видео в одну папку.
                 </p>
               </div>
+
+              <div className="mt-4 flex items-start gap-3">
+                <input
+                  type="checkbox"
+                  id="googleDriveSidecarsEnabled"
+                  checked={channel.googleDriveSidecarsEnabled || false}
+                  onChange={(e) =>
+                    setChannel({
+                      ...channel,
+                      googleDriveSidecarsEnabled: e.target.checked
+                    })
+                  }
+                  className="mt-1 h-4 w-4 rounded border-white/20 bg-slate-950/60 text-brand focus:ring-2 focus:ring-brand/40"
+                />
+                <label htmlFor="googleDriveSidecarsEnabled" className="text-sm text-slate-200">
+                  Сохранять рядом с видео сценарий и субтитры
+                  <span className="block text-xs text-slate-400">
+                    Файлы .json и .md с названием, описанием, хештегами и промптом,
+                    а также .srt по таймингам шагов сценария.
+                  </span>
+                </label>
+              </div>
+            </div>
+
+            {/* Доставка готового видео в Telegram */}
+            <div className="border-t border-white/10 pt-6">
+              <h3 className="mb-4 text-lg font-semibold text-white">
+                Публикация в Telegram
+              </h3>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-slate-200">
+                    Канал или группа (опционально)
+                  </label>
+                  <input
+                    type="text"
+                    value={channel.telegramDeliveryTarget?.chatId || ""}
+                    onChange={(e) => {
+                      const chatId = e.target.value.trim();
+                      setChannel({
+                        ...channel,
+                        telegramDeliveryTarget: chatId
+                          ? {
+                              method: "upload",
+                              mode: "publish",
+                              ...channel.telegramDeliveryTarget,
+                              chatId
+                            }
+                          : null
+                      });
+                    }}
+                    placeholder="@my_channel или -1001234567890"
+                    className="w-full rounded-xl border border-white/10 bg-slate-950/60 px-4 py-3 text-white outline-none transition placeholder:text-slate-500 focus:border-brand focus:ring-2 focus:ring-brand/40"
+                  />
+                  <p className="text-xs text-slate-400">
+                    После загрузки в Google Drive видео будет отправлено сюда с
+                    названием, описанием и хештегами ролика. Ваш Telegram-аккаунт
+                    должен иметь право публиковать в этом чате.
+                  </p>
+                </div>
+
+                {channel.telegramDeliveryTarget && (
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div className="space-y-2">
+                      <label className="block text-sm font-medium text-slate-200">
+                        Способ отправки
+                      </label>
+                      <select
+                        value={channel.telegramDeliveryTarget.method}
+                        onChange={(e) =>
+                          setChannel({
+                            ...channel,
+                            telegramDeliveryTarget: {
+                              ...channel.telegramDeliveryTarget!,
+                              method: e.target.value as TelegramDeliveryMethod
+                            }
+                          })
+                        }
+                        className="w-full rounded-xl border border-white/10 bg-slate-950/60 px-4 py-3 text-white outline-none transition focus:border-brand focus:ring-2 focus:ring-brand/40"
+                      >
+                        <option value="upload">Отправить заново с подписью</option>
+                        <option value="forward">Переслать из чата бота</option>
+                      </select>
+                    </div>
+                    <div className="space-y-2">
+                      <label className="block text-sm font-medium text-slate-200">
+                        Режим
+                      </label>
+                      <select
+                        value={channel.telegramDeliveryTarget.mode}
+                        onChange={(e) =>
+                          setChannel({
+                            ...channel,
+                            telegramDeliveryTarget: {
+                              ...channel.telegramDeliveryTarget!,
+                              mode: e.target.value as TelegramDeliveryMode
+                            }
+                          })
+                        }
+                        className="w-full rounded-xl border border-white/10 bg-slate-950/60 px-4 py-3 text-white outline-none transition focus:border-brand focus:ring-2 focus:ring-brand/40"
+                      >
+                        <option value="publish">Опубликовать</option>
+                        <option value="draft">Черновик (в «Избранное» на проверку)</option>
+                      </select>
+                    </div>
+                  </div>
+                )}
+              </div>
             </div>
 
+            {/* Бот-генератор видео */}
+            {providers.length > 1 && (
+              <div className="border-t border-white/10 pt-6">
+                <h3 className="mb-4 text-lg font-semibold text-white">
+                  Бот для генерации видео
+                </h3>
+                <div className="space-y-2">
+                  <select
+                    value={
+                      channel.generationProviderId ||
+                      providers.find((p) => p.isDefault)?.id ||
+                      ""
+                    }
+                    onChange={(e) => {
+                      const selected = providers.find((p) => p.id === e.target.value);
+                      setChannel({
+                        ...channel,
+                        // Бот по умолчанию не сохраняем явно, чтобы канал следовал настройке сервера
+                        generationProviderId:
+                          selected && !selected.isDefault ? selected.id : null
+                      });
+                    }}
+                    className="w-full rounded-xl border border-white/10 bg-slate-950/60 px-4 py-3 text-white outline-none transition focus:border-brand focus:ring-2 focus:ring-brand/40"
+                  >
+                    {providers.map((provider) => (
+                      <option
+                        key={provider.id}
+                        value={provider.id}
+                        disabled={!provider.configured}
+                      >
+                        {provider.name}
+                        {provider.isDefault ? " (по умолчанию)" : ""}
+                        {!provider.configured ? " — не настроен на сервере" : ""}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-slate-400">
+                    В чат этого бота отправляются промпты канала, и из него же
+                    скачиваются готовые видео.
+                  </p>
+                </div>
+              </div>
+            )}
+
             {/* Блок автоотправки в Syntx */}
             <div className="border-t border-white/10 pt-6">
               <h3 className="mb-4 text-lg font-semibold text-white">
@@ -718,7 +1113,9 @@ const ChannelEditPage = () => {
                             enabled: true,
                             daysOfWeek: [1, 2, 3, 4, 5], // Пн-Пт по умолчанию
                             time: "12:00",
-                            promptsPerRun: 1
+                            promptsPerRun: 1,
+                            catchUpPolicy: "skip",
+                            catchUpWindowHours: 6
                           };
                           setChannel({
                             ...channel,
@@ -763,9 +1160,16 @@ const ChannelEditPage = () => {
                                 }}
                                 className="h-4 w-4 rounded border-white/20 bg-slate-950/60 text-brand focus:ring-2 focus:ring-brand/40"
                               />
-                              <span className="text-sm font-medium text-slate-200">
-                                Расписание {index + 1}
-                              </span>
+                              <input
+                                type="text"
+                                value={schedule.label ?? ""}
+                                onChange={(e) =>
+                                  updateScheduleAt(index, { label: e.target.value })
+                                }
+                                placeholder={`Расписание ${index + 1}`}
+                                title="Название расписания (используется в {scheduleLabel})"
+                                className="w-48 rounded-lg border border-white/10 bg-slate-950/60 px-2 py-1 text-sm font-medium text-slate-200 outline-none transition placeholder:text-slate-400 focus:border-brand focus:ring-2 focus:ring-brand/40"
+                              />
                             </div>
                             <button
                               type="button"
@@ -784,71 +1188,216 @@ const ChannelEditPage = () => {
                             </button>
                           </div>
 
-                          {/* Дни недели */}
+                          {/* Тип расписания */}
                           <div className="mb-4">
                             <label className="mb-2 block text-xs font-medium text-slate-300">
-                              Дни недели
+                              Тип расписания
                             </label>
                             <div className="flex flex-wrap gap-2">
-                              {[
-                                { value: 0, label: "Вс" },
-                                { value: 1, label: "Пн" },
-                                { value: 2, label: "Вт" },
-                                { value: 3, label: "Ср" },
-                                { value: 4, label: "Чт" },
-                                { value: 5, label: "Пт" },
-                                { value: 6, label: "Сб" }
-                              ].map((day) => (
+                              {SCHEDULE_TYPES.map((scheduleType) => (
                                 <button
-                                  key={day.value}
+                                  key={scheduleType.value}
                                   type="button"
-                                  onClick={() => {
-                                    const updated = [...(channel.autoSendSchedules || [])];
-                                    const currentDays = updated[index].daysOfWeek || [];
-                                    if (currentDays.includes(day.value)) {
-                                      updated[index] = {
-                                        ...schedule,
-                                        daysOfWeek: currentDays.filter(
-                                          (d) => d !== day.value
-                                        )
-                                      };
-                                    } else {
-                                      updated[index] = {
-                                        ...schedule,
-                                        daysOfWeek: [...currentDays, day.value]
-                                      };
-                                    }
-                                    setChannel({
-                                      ...channel,
-                                      autoSendSchedules: updated
-                                    });
-                                  }}
+                                  onClick={() =>
+                                    updateScheduleAt(
+                                      index,
+                                      scheduleType.value === "interval"
+                                        ? {
+                                            type: "interval",
+                                            intervalMinutes: schedule.intervalMinutes ?? 180,
+                                            windowStart: schedule.windowStart ?? "09:00",
+                                            windowEnd: schedule.windowEnd ?? "21:00"
+                                          }
+                                        : scheduleType.value === "cron"
+                                          ? {
+                                              type: "cron",
+                                              cronExpression: schedule.cronExpression ?? "0 12 * * 1-5"
+                                            }
+                                          : { type: "weekly" }
+                                    )
+                                  }
                                   className={`rounded-lg px-3 py-1 text-xs font-medium transition ${
-                                    schedule.daysOfWeek?.includes(day.value)
+                                    (schedule.type || "weekly") === scheduleType.value
                                       ? "bg-brand text-white"
                                       : "bg-slate-800 text-slate-300 hover:bg-slate-700"
                                   }`}
                                 >
-                                  {day.label}
+                                  {scheduleType.label}
                                 </button>
                               ))}
                             </div>
                           </div>
 
+                          {/* Дни недели */}
+                          {(schedule.type || "weekly") !== "cron" && (
+                            <div className="mb-4">
+                              <label className="mb-2 block text-xs font-medium text-slate-300">
+                                Дни недели
+                              </label>
+                              <div className="flex flex-wrap gap-2">
+                                {[
+                                  { value: 0, label: "Вс" },
+                                  { value: 1, label: "Пн" },
+                                  { value: 2, label: "Вт" },
+                                  { value: 3, label: "Ср" },
+                                  { value: 4, label: "Чт" },
+                                  { value: 5, label: "Пт" },
+                                  { value: 6, label: "Сб" }
+                                ].map((day) => (
+                                  <button
+                                    key={day.value}
+                                    type="button"
+                                    onClick={() => {
+                                      const updated = [...(channel.autoSendSchedules || [])];
+                                      const currentDays = updated[index].daysOfWeek || [];
+                                      if (currentDays.includes(day.value)) {
+                                        updated[index] = {
+                                          ...schedule,
+                                          daysOfWeek: currentDays.filter(
+                                            (d) => d !== day.value
+                                          )
+                                        };
+                                      } else {
+                                        updated[index] = {
+                                          ...schedule,
+                                          daysOfWeek: [...currentDays, day.value]
+                                        };
+                                      }
+                                      setChannel({
+                                        ...channel,
+                                        autoSendSchedules: updated
+                                      });
+                                    }}
+                                    className={`rounded-lg px-3 py-1 text-xs font-medium transition ${
+                                      schedule.daysOfWeek?.includes(day.value)
+                                        ? "bg-brand text-white"
+                                        : "bg-slate-800 text-slate-300 hover:bg-slate-700"
+                                    }`}
+                                  >
+                                    {day.label}
+                                  </button>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+
+                          {/* Интервал: каждые N минут в пределах окна */}
+                          {schedule.type === "interval" && (
+                            <div className="mb-4 grid gap-4 sm:grid-cols-3">
+                              <div>
+                                <label className="mb-2 block text-xs font-medium text-slate-300">
+                                  Каждые (минут)
+                                </label>
+                                <input
+                                  type="number"
+                                  min="5"
+                                  max="1440"
+                                  value={schedule.intervalMinutes ?? 180}
+                                  onChange={(e) =>
+                                    updateScheduleAt(index, {
+                                      intervalMinutes: Math.max(
+                                        5,
+                                        Math.min(1440, parseInt(e.target.value) || 5)
+                                      )
+                                    })
+                                  }
+                                  className="w-full rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none transition focus:border-brand focus:ring-2 focus:ring-brand/40"
+                                />
+                              </div>
+                              <div>
+                                <label className="mb-2 block text-xs font-medium text-slate-300">
+                                  С (HH:MM)
+                                </label>
+                                <input
+                                  type="time"
+                                  value={schedule.windowStart ?? "09:00"}
+                                  onChange={(e) =>
+                                    updateScheduleAt(index, { windowStart: e.target.value })
+                                  }
+                                  className="w-full rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none transition focus:border-brand focus:ring-2 focus:ring-brand/40"
+                                />
+                              </div>
+                              <div>
+                                <label className="mb-2 block text-xs font-medium text-slate-300">
+                                  До (HH:MM)
+                                </label>
+                                <input
+                                  type="time"
+                                  value={schedule.windowEnd ?? "21:00"}
+                                  onChange={(e) =>
+                                    updateScheduleAt(index, { windowEnd: e.target.value })
+                                  }
+                                  className="w-full rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none transition focus:border-brand focus:ring-2 focus:ring-brand/40"
+                                />
+                              </div>
+                            </div>
+                          )}
+
+                          {/* Cron-выражение */}
+                          {schedule.type === "cron" && (
+                            <div className="mb-4">
+                              <label className="mb-2 block text-xs font-medium text-slate-300">
+                                Cron-выражение
+                              </label>
+                              <input
+                                type="text"
+                                value={schedule.cronExpression ?? ""}
+                                onChange={(e) =>
+                                  updateScheduleAt(index, { cronExpression: e.target.value })
+                                }
+                                placeholder="0 9-21/3 * * 1-5"
+                                className="w-full rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none transition focus:border-brand focus:ring-2 focus:ring-brand/40 font-mono"
+                              />
+                              <p className="mt-1 text-xs text-slate-500">
+                                Минута, час, день месяца, месяц, день недели (0 — воскресенье) во временной зоне канала.
+                                Например, «0 9-21/3 * * 1-5» — каждые 3 часа с 9:00 до 21:00 по будням.
+                              </p>
+                            </div>
+                          )}
+
                           {/* Время и количество промптов */}
                           <div className="grid gap-4 sm:grid-cols-2">
+                            {(schedule.type || "weekly") === "weekly" && (
+                              <div>
+                                <label className="mb-2 block text-xs font-medium text-slate-300">
+                                  Время (HH:MM)
+                                </label>
+                                <input
+                                  type="time"
+                                  value={schedule.time}
+                                  onChange={(e) => {
+                                    const updated = [...(channel.autoSendSchedules || [])];
+                                    updated[index] = {
+                                      ...schedule,
+                                      time: e.target.value
+                                    };
+                                    setChannel({
+                                      ...channel,
+                                      autoSendSchedules: updated
+                                    });
+                                  }}
+                                  className="w-full rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none transition focus:border-brand focus:ring-2 focus:ring-brand/40"
+                                />
+                              </div>
+                            )}
                             <div>
                               <label className="mb-2 block text-xs font-medium text-slate-300">
-                                Время (HH:MM)
+                                Количество промптов за запуск
                               </label>
                               <input
-                                type="time"
-                                value={schedule.time}
+                                type="number"
+                                min="1"
+                                max="10"
+                                value={schedule.promptsPerRun}
                                 onChange={(e) => {
+                                  const value = Math.max(
+                                    1,
+                                    Math.min(10, parseInt(e.target.value) || 1)
+                                  );
                                   const updated = [...(channel.autoSendSchedules || [])];
                                   updated[index] = {
                                     ...schedule,
-                                    time: e.target.value
+                                    promptsPerRun: value
                                   };
                                   setChannel({
                                     ...channel,
@@ -858,24 +1407,22 @@ const ChannelEditPage = () => {
                                 className="w-full rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none transition focus:border-brand focus:ring-2 focus:ring-brand/40"
                               />
                             </div>
+                          </div>
+
+                          {/* Пропущенные запуски (если backend был недоступен в момент запуска) */}
+                          <div className="mt-4 grid gap-4 sm:grid-cols-2">
                             <div>
                               <label className="mb-2 block text-xs font-medium text-slate-300">
-                                Количество промптов за запуск
+                                Пропущенные запуски
                               </label>
-                              <input
-                                type="number"
-                                min="1"
-                                max="10"
-                                value={schedule.promptsPerRun}
+                              <select
+                                value={schedule.catchUpPolicy || "skip"}
                                 onChange={(e) => {
-                                  const value = Math.max(
-                                    1,
-                                    Math.min(10, parseInt(e.target.value) || 1)
-                                  );
                                   const updated = [...(channel.autoSendSchedules || [])];
                                   updated[index] = {
                                     ...schedule,
-                                    promptsPerRun: value
+                                    catchUpPolicy: e.target.value as ScheduleCatchUpPolicy,
+                                    catchUpWindowHours: schedule.catchUpWindowHours ?? 6
                                   };
                                   setChannel({
                                     ...channel,
@@ -883,6 +1430,111 @@ const ChannelEditPage = () => {
                                   });
                                 }}
                                 className="w-full rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none transition focus:border-brand focus:ring-2 focus:ring-brand/40"
+                              >
+                                {CATCH_UP_POLICIES.map((policy) => (
+                                  <option key={policy.value} value={policy.value}>
+                                    {policy.label}
+                                  </option>
+                                ))}
+                              </select>
+                            </div>
+                            {(schedule.catchUpPolicy || "skip") !== "skip" && (
+                              <div>
+                                <label className="mb-2 block text-xs font-medium text-slate-300">
+                                  Догонять не старше (часов)
+                                </label>
+                                <input
+                                  type="number"
+                                  min="1"
+                                  max="168"
+                                  value={schedule.catchUpWindowHours ?? 6}
+                                  onChange={(e) => {
+                                    const value = Math.max(
+                                      1,
+                                      Math.min(168, parseInt(e.target.value) || 1)
+                                    );
+                                    const updated = [...(channel.autoSendSchedules || [])];
+                                    updated[index] = {
+                                      ...schedule,
+                                      catchUpWindowHours: value
+                                    };
+                                    setChannel({
+                                      ...channel,
+                                      autoSendSchedules: updated
+                                    });
+                                  }}
+                                  className="w-full rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none transition focus:border-brand focus:ring-2 focus:ring-brand/40"
+                                />
+                              </div>
+                            )}
+                          </div>
+
+                          {/* Период кампании и дни-исключения */}
+                          <div className="mt-4 grid gap-4 sm:grid-cols-2">
+                            <div>
+                              <label className="mb-2 block text-xs font-medium text-slate-300">
+                                Дата начала
+                              </label>
+                              <input
+                                type="date"
+                                value={schedule.startDate ?? ""}
+                                onChange={(e) =>
+                                  updateScheduleAt(index, { startDate: e.target.value || null })
+                                }
+                                className="w-full rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none transition focus:border-brand focus:ring-2 focus:ring-brand/40"
+                              />
+                            </div>
+                            <div>
+                              <label className="mb-2 block text-xs font-medium text-slate-300">
+                                Дата окончания
+                              </label>
+                              <input
+                                type="date"
+                                value={schedule.endDate ?? ""}
+                                onChange={(e) =>
+                                  updateScheduleAt(index, { endDate: e.target.value || null })
+                                }
+                                className="w-full rounded-lg border border-white/10 bg-slate-950/60 px-3 py-2 text-sm text-white outline-none transition focus:border-brand focus:ring-2 focus:ring-brand/40"
+                              />
+                            </div>
+                          </div>
+                          <div className="mt-4">
+                            <label className="mb-2 block text-xs font-medium text-slate-300">
+                              Дни без запусков (праздники и т.п.)
+                            </label>
+                            <div className="flex flex-wrap items-center gap-2">
+                              {(schedule.blackoutDates || []).map((date) => (
+                                <span
+                                  key={date}
+                                  className="flex items-center gap-1 rounded-lg bg-slate-800 px-2 py-1 text-xs text-slate-200"
+                                >
+                                  {date}
+                                  <button
+                                    type="button"
+                                    onClick={() =>
+                                      updateScheduleAt(index, {
+                                        blackoutDates: (schedule.blackoutDates || []).filter(
+                                          (d) => d !== date
+                                        )
+                                      })
+                                    }
+                                    className="text-slate-400 transition hover:text-red-400"
+                                  >
+                                    <X size={12} />
+                                  </button>
+                                </span>
+                              ))}
+                              <input
+                                type="date"
+                                value=""
+                                onChange={(e) => {
+                                  const date = e.target.value;
+                                  if (!date || schedule.blackoutDates?.includes(date)) return;
+                                  updateScheduleAt(index, {
+                                    blackoutDates: [...(schedule.blackoutDates || []), date].sort()
+                                  });
+                                }}
+                                className="rounded-lg border border-white/10 bg-slate-950/60 px-3 py-1 text-xs text-white outline-none transition focus:border-brand focus:ring-2 focus:ring-brand/40"
                               />
                             </div>
                           </div>
@@ -956,7 +1608,7 @@ const ChannelEditPage = () => {
                   </div>
 
                   {/* Предупреждение о необходимости настройки Google Drive папки */}
-                  {!channel.googleDriveFolderId && (
+                  {storageBackend === "googleDrive" && !channel.googleDriveFolderId && (
                     <div className="rounded-lg border border-yellow-500/30 bg-yellow-500/10 p-4">
                       <p className="text-sm text-yellow-200">
                         ⚠️ Для работы автоматического скачивания необходимо указать ID папки Google Drive выше.
@@ -996,6 +1648,7 @@ const ChannelEditPage = () => {
             </div>
           </div>
         </form>
+        )}
       </div>
     </div>
   );
@@ -1,9 +1,10 @@
 import { useEffect, useState } from "react";
-import { Loader2, Plus, Video, Wand2 } from "lucide-react";
+import { CalendarClock, Loader2, Plus, Video, Wand2 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import ChannelCard from "../../components/ChannelCard";
 import AIAutoGenerateModal from "../../components/AIAutoGenerateModal";
 import UserMenu from "../../components/UserMenu";
+import UnassignedVideosInbox from "../../components/UnassignedVideosInbox";
 import { useAuthStore } from "../../stores/authStore";
 import { useChannelStore } from "../../stores/channelStore";
 import type { Channel } from "../../domain/channel";
@@ -105,6 +106,14 @@ const ChannelListPage = () => {
                   <Wand2 size={16} />
                   <span className="hidden sm:inline">Генератор</span>
                 </button>
+                <button
+                  type="button"
+                  onClick={() => navigate("/schedule")}
+                  className="inline-flex items-center justify-center gap-2 rounded-2xl border border-white/10 px-5 py-3 text-sm text-slate-200 transition hover:border-brand/40 hover:text-white"
+                >
+                  <CalendarClock size={16} />
+                  <span className="hidden sm:inline">Расписание</span>
+                </button>
               </div>
               <UserMenu />
             </div>
@@ -156,6 +165,8 @@ const ChannelListPage = () => {
           </div>
         )}
 
+        {channels.length > 0 && <UnassignedVideosInbox channels={channels} />}
+
         {channels.length > 0 && (
           <div className="grid gap-6 md:grid-cols-2">
             {channels.map((channel) => (
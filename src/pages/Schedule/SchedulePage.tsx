@@ -0,0 +1,196 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft, CalendarClock, Download, Loader2, RefreshCw } from "lucide-react";
+import { fetchUpcomingRuns, type UpcomingRun } from "../../api/schedule";
+
+const PERIODS = [
+  { value: 7, label: "7 дней" },
+  { value: 14, label: "14 дней" },
+  { value: 30, label: "30 дней" }
+];
+
+const RUNS_LIMIT = 300;
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+const formatDayHeader = (date: Date) =>
+  date.toLocaleDateString([], { weekday: "long", day: "numeric", month: "long" });
+
+// Ключ дня в часовом поясе браузера, чтобы группировать запуски по дням просмотра
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+const SchedulePage = () => {
+  const navigate = useNavigate();
+  const [runs, setRuns] = useState<UpcomingRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [days, setDays] = useState(14);
+  const [channelFilter, setChannelFilter] = useState<string>("all");
+
+  const loadRuns = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await fetchUpcomingRuns({ days, limit: RUNS_LIMIT });
+      setRuns(data.runs);
+    } catch (err: any) {
+      setError(
+        err?.response?.data?.message ||
+          err?.message ||
+          "Не удалось загрузить расписание"
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void loadRuns();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [days]);
+
+  const channels = useMemo(() => {
+    const map = new Map<string, string>();
+    runs.forEach((run) => map.set(run.channelId, run.channelName));
+    return Array.from(map, ([id, name]) => ({ id, name }));
+  }, [runs]);
+
+  const groupedRuns = useMemo(() => {
+    const groups = new Map<string, { date: Date; runs: UpcomingRun[] }>();
+    runs
+      .filter((run) => channelFilter === "all" || run.channelId === channelFilter)
+      .forEach((run) => {
+        const date = new Date(run.runAtUtc);
+        const key = dayKey(date);
+        const group = groups.get(key) ?? { date, runs: [] };
+        group.runs.push(run);
+        groups.set(key, group);
+      });
+    return Array.from(groups.values());
+  }, [runs, channelFilter]);
+
+  const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  return (
+    <div className="min-h-screen bg-slate-950 px-4 py-10 text-white">
+      <div className="mx-auto w-full max-w-4xl">
+        <div className="mb-8 flex items-center gap-4">
+          <button
+            type="button"
+            onClick={() => navigate("/channels")}
+            className="rounded-xl border border-white/10 bg-slate-900/60 px-4 py-2 text-sm text-slate-300 transition hover:border-brand/40 hover:text-white"
+          >
+            <ArrowLeft size={16} className="inline mr-2" />
+            Назад
+          </button>
+          <h1 className="text-2xl font-semibold">Расписание отправок</h1>
+        </div>
+
+        <div className="mb-6 flex flex-wrap items-center gap-3">
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="rounded-xl border border-white/10 bg-slate-900/60 px-4 py-2 text-sm text-white outline-none focus:border-brand"
+          >
+            {PERIODS.map((period) => (
+              <option key={period.value} value={period.value}>
+                {period.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={channelFilter}
+            onChange={(e) => setChannelFilter(e.target.value)}
+            className="rounded-xl border border-white/10 bg-slate-900/60 px-4 py-2 text-sm text-white outline-none focus:border-brand"
+          >
+            <option value="all">Все каналы</option>
+            {channels.map((channel) => (
+              <option key={channel.id} value={channel.id}>
+                {channel.name || channel.id}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => void loadRuns()}
+            disabled={loading}
+            className="ml-auto flex items-center gap-2 rounded-xl border border-white/10 bg-slate-900/60 px-4 py-2 text-sm text-slate-300 transition hover:border-brand/40 hover:text-white disabled:opacity-50"
+          >
+            <RefreshCw size={14} className={loading ? "animate-spin" : ""} />
+            Обновить
+          </button>
+        </div>
+
+        <p className="mb-6 text-xs text-slate-500">
+          Время показано в вашем часовом поясе ({browserTimezone}); рядом указано время во временной зоне канала.
+        </p>
+
+        {error && (
+          <div className="mb-6 rounded-lg border border-red-500/30 bg-red-950/40 px-4 py-3 text-sm text-red-200">
+            {error}
+          </div>
+        )}
+
+        {loading && runs.length === 0 ? (
+          <div className="flex items-center gap-3 text-slate-300">
+            <Loader2 className="h-5 w-5 animate-spin text-brand-light" />
+            Загружаем расписание...
+          </div>
+        ) : groupedRuns.length === 0 ? (
+          <div className="rounded-2xl border border-white/10 bg-slate-900/60 p-8 text-center text-slate-400">
+            Нет запланированных отправок. Включите автоотправку и добавьте расписание в настройках канала.
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {groupedRuns.map((group) => (
+              <section
+                key={dayKey(group.date)}
+                className="rounded-2xl border border-white/10 bg-slate-900/60 p-6"
+              >
+                <h2 className="mb-4 text-sm font-semibold capitalize text-slate-200">
+                  {formatDayHeader(group.date)}
+                </h2>
+                <ul className="space-y-3">
+                  {group.runs.map((run) => (
+                    <li
+                      key={`${run.scheduleId}_${run.runAtUtc}`}
+                      className="flex flex-wrap items-center gap-x-4 gap-y-1 rounded-xl border border-white/10 bg-slate-950/60 px-4 py-3 text-sm"
+                    >
+                      <span className="flex items-center gap-2 font-semibold text-white">
+                        <CalendarClock size={14} className="text-brand-light" />
+                        {formatTime(run.runAtUtc)}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => navigate(`/channels/${run.channelId}/edit`)}
+                        className="text-slate-200 hover:text-brand-light hover:underline"
+                      >
+                        {run.channelName || run.channelId}
+                      </button>
+                      <span className="text-xs text-slate-500">
+                        {run.localDate} {run.localTime} · {run.timezone} ({run.utcOffset})
+                      </span>
+                      <span className="text-xs text-slate-400">
+                        Промптов: {run.promptsPerRun}
+                      </span>
+                      {run.autoDownloadAtUtc && (
+                        <span className="ml-auto flex items-center gap-1 text-xs text-emerald-300">
+                          <Download size={12} />
+                          Скачивание ≈ {formatTime(run.autoDownloadAtUtc)}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SchedulePage;
@@ -204,17 +204,21 @@ ${script.sections.sounds || "—"}`;
     setSyntxError(null);
 
     try {
-      await sendPromptToSyntx(detailedResult.videoPrompt);
+      await sendPromptToSyntx(
+        detailedResult.videoPrompt,
+        channel?.id,
+        detailedResult.fileTitle || undefined
+      );
       setSyntxSendStatus("sent");
     } catch (err: any) {
       const apiError = err?.response?.data?.error;
       if (apiError === "TELEGRAM_SESSION_EXPIRED_NEED_RELOGIN") {
         setSyntxError(
-          "Сессия Telegram истекла. Запустите 'npm run dev:login' в папке backend для повторной авторизации."
+          "Сессия Telegram истекла. Подключите Telegram заново в настройках аккаунта."
         );
       } else if (apiError === "TELEGRAM_SESSION_NOT_INITIALIZED") {
         setSyntxError(
-          "Telegram сессия не инициализирована. Запустите 'npm run dev:login' в папке backend."
+          "Telegram не подключён. Подключите его в настройках аккаунта."
         );
       } else {
         setSyntxError(
@@ -0,0 +1,29 @@
+import { collection, getDocs, limit, orderBy, query } from "firebase/firestore";
+import { db } from "../services/firebase";
+import type { GenerationRun } from "../domain/generationRun";
+import { generationRunConverter } from "../domain/generationRun";
+
+const runCollection = (uid: string, channelId: string) =>
+  collection(db, "users", uid, "channels", channelId, "generationRuns").withConverter(
+    generationRunConverter
+  );
+
+export interface GenerationRunRepository {
+  getRecentRuns: (
+    uid: string,
+    channelId: string,
+    maxCount?: number
+  ) => Promise<GenerationRun[]>;
+}
+
+export const generationRunRepository: GenerationRunRepository = {
+  async getRecentRuns(uid, channelId, maxCount = 50) {
+    const q = query(
+      runCollection(uid, channelId),
+      orderBy("startedAt", "desc"),
+      limit(maxCount)
+    );
+    const snapshot = await getDocs(q);
+    return snapshot.docs.map((docSnap) => docSnap.data());
+  }
+};
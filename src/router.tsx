@@ -13,6 +13,7 @@ import ChannelEditPage from "./pages/ChannelEdit/ChannelEditPage";
 import ScriptGenerationPage from "./pages/ScriptGeneration/ScriptGenerationPage";
 import PrivacyPolicy from "./pages/PrivacyPolicy/PrivacyPolicy";
 import AccountSettingsPage from "./pages/AccountSettings/AccountSettingsPage";
+import SchedulePage from "./pages/Schedule/SchedulePage";
 import { useAuthStore } from "./stores/authStore";
 
 const FullscreenLoader = () => (
@@ -117,6 +118,14 @@ const AppRouter = () => {
         </PrivateRoute>
       }
     />
+    <Route
+      path="/schedule"
+      element={
+        <PrivateRoute>
+          <SchedulePage />
+        </PrivateRoute>
+      }
+    />
     <Route path="/" element={<Navigate to="/channels" replace />} />
     <Route path="*" element={<Navigate to="/channels" replace />} />
     </Routes>
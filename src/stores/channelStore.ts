@@ -11,6 +11,7 @@ interface ChannelState {
   updateChannel: (uid: string, channel: Channel) => Promise<void>;
   deleteChannel: (uid: string, channelId: string) => Promise<void>;
   setChannels: (channels: Channel[]) => void;
+  clearAutomationPause: (channelId: string) => void;
 }
 
 export const useChannelStore = create<ChannelState>((set, get) => ({
@@ -20,6 +21,22 @@ export const useChannelStore = create<ChannelState>((set, get) => ({
 
   setChannels: (channels) => set({ channels }),
 
+  // Backend уже снял паузу — обновляем только локальное состояние
+  clearAutomationPause: (channelId) =>
+    set({
+      channels: get().channels.map((c) =>
+        c.id === channelId
+          ? {
+              ...c,
+              automationFailureCount: 0,
+              automationPausedAt: null,
+              automationPauseReason: null,
+              automationPauseMessage: null
+            }
+          : c
+      )
+    }),
+
   fetchChannels: async (uid) => {
     set({ loading: true, error: null });
     try {